@@ -0,0 +1,73 @@
+#!/usr/bin/env python3
+"""Reports which optional Python packages the backend can import.
+
+Uses the standard library only, so it runs in environments where ml_backend.py itself
+cannot start. Every probe imports the same names ml_backend.py does: a package that is
+installed but fails to import (e.g. a Qiskit release without Aer) counts as missing.
+Prints one JSON object on stdout.
+"""
+
+import contextlib
+import json
+import platform
+import sys
+import warnings
+from importlib import metadata
+
+# (distribution name, import statement)
+PROBES = (
+    ('numpy', 'import numpy'),
+    ('pandas', 'import pandas'),
+    ('scipy', 'from scipy import stats'),
+    ('scikit-learn', 'import sklearn'),
+    ('imbalanced-learn', (
+        'from imblearn.over_sampling import SMOTE, ADASYN, BorderlineSMOTE\n'
+        'from imblearn.under_sampling import RandomUnderSampler\n'
+        'from imblearn.combine import SMOTETomek, SMOTEENN'
+    )),
+    ('xgboost', 'import xgboost'),
+    ('lightgbm', 'import lightgbm'),
+    ('requests', 'import requests'),
+    ('python-dotenv', 'from dotenv import load_dotenv'),
+    ('shap', 'import shap'),
+    ('lime', 'from lime.lime_tabular import LimeTabularExplainer'),
+    ('qiskit', (
+        'from qiskit import QuantumCircuit, Aer, execute\n'
+        'from qiskit.circuit.library import RealAmplitudes, ZZFeatureMap'
+    )),
+    ('stable-baselines3', 'from stable_baselines3 import PPO, DQN, A2C'),
+    ('textblob', 'from textblob import TextBlob'),
+    ('transformers', 'from transformers import pipeline, AutoTokenizer, AutoModel'),
+    ('nltk', 'import nltk'),
+)
+
+
+def probe(distribution, statement):
+    try:
+        version = metadata.version(distribution)
+    except metadata.PackageNotFoundError:
+        version = None
+    try:
+        # Some packages print on import; stdout carries the report.
+        with contextlib.redirect_stdout(sys.stderr), warnings.catch_warnings():
+            warnings.simplefilter('ignore')
+            exec(statement, {})
+        return {'version': version, 'importable': True, 'error': None}
+    except Exception as e:
+        return {'version': version, 'importable': False, 'error': f'{type(e).__name__}: {e}'}
+
+
+def main():
+    report = {
+        'interpreter': {
+            'executable': sys.executable,
+            'version': platform.python_version(),
+            'implementation': sys.implementation.name,
+        },
+        'packages': {distribution: probe(distribution, statement) for distribution, statement in PROBES},
+    }
+    print(json.dumps(report))
+
+
+if __name__ == '__main__':
+    main()
@@ -7,10 +7,14 @@ import { SidebarProvider } from "@/components/ui/sidebar";
 import Dashboard from "@/pages/dashboard";
 import DataUpload from "@/pages/data-upload";
 import ModelTraining from "@/pages/model-training";
+import HyperparameterTuning from "@/pages/hyperparameter-tuning";
+import SamplingSweep from "@/pages/sampling-sweep";
+import ModelRegistry from "@/pages/model-registry";
 import GeminiAssistant from "@/pages/gemini-assistant";
 import CodePrediction from "@/pages/code-prediction";
 import NotFound from "@/pages/not-found";
 import SidebarNav from "@/components/ui/sidebar-nav";
+import { useRealtime } from "@/hooks/use-realtime";
 
 function Router() {
   return (
@@ -18,6 +22,9 @@ function Router() {
       <Route path="/" component={Dashboard} />
       <Route path="/data-upload" component={DataUpload} />
       <Route path="/model-training" component={ModelTraining} />
+      <Route path="/hyperparameter-tuning" component={HyperparameterTuning} />
+      <Route path="/sampling-sweep" component={SamplingSweep} />
+      <Route path="/model-registry" component={ModelRegistry} />
       <Route path="/code-prediction" component={CodePrediction} />
       <Route path="/gemini-assistant" component={GeminiAssistant} />
       <Route component={NotFound} />
@@ -25,10 +32,17 @@ function Router() {
   );
 }
 
+// Keeps React Query caches in sync with server-pushed events for the whole app.
+function RealtimeSync() {
+  useRealtime(["models", "datasets", "rl", "monitoring", "jobs"]);
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
+        <RealtimeSync />
         <SidebarProvider>
           <div className="flex min-h-screen bg-transparent">
             <SidebarNav />
@@ -0,0 +1,140 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ParameterValue = string | number | boolean | null;
+
+export type HyperparameterField = {
+  name: string;
+  label: string;
+  description: string;
+  type: "int" | "float" | "choice" | "boolean" | "int_list" | "float_list";
+  default: ParameterValue | number[];
+  min?: number;
+  max?: number;
+  log?: boolean;
+  nullable?: boolean;
+  options?: ParameterValue[];
+  length?: { min: number; max: number };
+};
+
+// Raw input per field; an empty string leaves the parameter at its default.
+export type HyperparameterInputs = Record<string, string>;
+
+const UNSET = "__default__";
+
+function describeValue(value: ParameterValue | number[]) {
+  if (Array.isArray(value)) return value.join(", ");
+  if (value === null) return "none";
+  return String(value);
+}
+
+// Converts the inputs to request values, with a message per field that does not parse.
+// Ranges are left to the server, which validates against the same catalog.
+export function toHyperparameters(fields: HyperparameterField[], inputs: HyperparameterInputs) {
+  const values: Record<string, ParameterValue | number[]> = {};
+  const errors: Record<string, string> = {};
+  fields.forEach((field) => {
+    const raw = inputs[field.name]?.trim() ?? "";
+    if (raw === "") return;
+    if (field.type === "choice") {
+      values[field.name] = JSON.parse(raw);
+    } else if (field.type === "boolean") {
+      values[field.name] = raw === "true";
+    } else if (field.type === "int_list" || field.type === "float_list") {
+      const items = raw.split(",").map((item) => Number(item.trim()));
+      if (items.some((item) => !Number.isFinite(item))) {
+        errors[field.name] = "Enter comma-separated numbers";
+      } else {
+        values[field.name] = items;
+      }
+    } else {
+      const parsed = Number(raw);
+      if (!Number.isFinite(parsed) || (field.type === "int" && !Number.isInteger(parsed))) {
+        errors[field.name] = field.type === "int" ? "Enter a whole number" : "Enter a number";
+      } else {
+        values[field.name] = parsed;
+      }
+    }
+  });
+  return { values, errors };
+}
+
+// Inputs generated from an algorithm's catalog entry; placeholders show the defaults.
+export default function HyperparameterForm({
+  fields,
+  inputs,
+  onChange,
+}: {
+  fields: HyperparameterField[];
+  inputs: HyperparameterInputs;
+  onChange: (inputs: HyperparameterInputs) => void;
+}) {
+  const { errors } = toHyperparameters(fields, inputs);
+  const set = (name: string, value: string) => onChange({ ...inputs, [name]: value });
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {fields.map((field) => {
+        const id = `hyperparameter-${field.name}`;
+        const value = inputs[field.name] ?? "";
+        return (
+          <div key={field.name} className="space-y-2">
+            <Label htmlFor={id} className="text-sm font-medium text-slate-700" title={field.description}>
+              {field.label}
+            </Label>
+            {field.type === "choice" ? (
+              <Select value={value || UNSET} onValueChange={(next) => set(field.name, next === UNSET ? "" : next)}>
+                <SelectTrigger id={id} className="h-11 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNSET}>Default ({describeValue(field.default)})</SelectItem>
+                  {(field.options ?? []).map((option) => (
+                    <SelectItem key={JSON.stringify(option)} value={JSON.stringify(option)}>
+                      {describeValue(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : field.type === "boolean" ? (
+              <label className="flex h-11 items-center gap-3 rounded-2xl border border-slate-200 bg-white/90 px-3 text-sm">
+                <Checkbox
+                  id={id}
+                  checked={value === "" ? field.default === true : value === "true"}
+                  onCheckedChange={(checked) => set(field.name, String(checked === true))}
+                />
+                <span className="text-slate-700">{field.description}</span>
+              </label>
+            ) : (
+              <Input
+                id={id}
+                type={field.type === "int" || field.type === "float" ? "number" : "text"}
+                min={field.min}
+                max={field.max}
+                step={field.type === "int" ? 1 : "any"}
+                value={value}
+                placeholder={`Default ${describeValue(field.default)}`}
+                onChange={(event) => set(field.name, event.target.value)}
+                className="h-11 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm"
+              />
+            )}
+            {errors[field.name] ? (
+              <p className="text-xs text-rose-600">{errors[field.name]}</p>
+            ) : (
+              field.type !== "boolean" && (
+                <p className="text-xs text-slate-500">
+                  {field.description}
+                  {field.min !== undefined && field.max !== undefined && field.type !== "choice"
+                    ? ` Range ${field.min}–${field.max}.`
+                    : ""}
+                </p>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { GitCompare } from "lucide-react";
+
+import CriticalDifferenceDiagram from "@/components/visualizations/critical-difference";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+const METRICS = [
+  { value: "aucRoc", label: "AUC" },
+  { value: "f1Score", label: "F1" },
+  { value: "mcc", label: "MCC" },
+  { value: "recall", label: "Recall" },
+  { value: "precision", label: "Precision" },
+  { value: "accuracy", label: "Accuracy" },
+  { value: "balancedAccuracy", label: "Balanced accuracy" },
+  { value: "gMean", label: "G-mean" },
+  { value: "prAuc", label: "PR-AUC" },
+  { value: "f2Score", label: "F2" },
+];
+
+const MAGNITUDE_TONES: Record<string, string> = {
+  negligible: "bg-slate-100 text-slate-600",
+  small: "bg-sky-50 text-sky-700",
+  medium: "bg-amber-50 text-amber-700",
+  large: "bg-red-50 text-red-700",
+};
+
+type ModelRecord = {
+  id: string;
+  name: string;
+  algorithm: string;
+  datasetId?: string | null;
+  trainingStatus?: string | null;
+  metricProvenance?: string | null;
+  foldMetrics?: unknown[] | null;
+};
+
+type ComparisonResult = {
+  metric: string;
+  alpha: number;
+  blocks: number;
+  models: {
+    id: string;
+    name: string;
+    algorithm: string;
+    mean: number;
+    std: number;
+    averageRank: number;
+    skEsdRank: number;
+  }[];
+  pairwise: {
+    modelA: string;
+    modelB: string;
+    pValue: number;
+    adjustedPValue: number;
+    significant: boolean;
+    cliffsDelta: number;
+    magnitude: string;
+  }[];
+  friedman: { statistic: number; df: number; pValue: number };
+  nemenyi: { q: number; criticalDifference: number };
+  warnings: string[];
+};
+
+function formatPValue(value: number) {
+  return value < 0.001 ? "<0.001" : value.toFixed(3);
+}
+
+export default function ModelComparison() {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [metric, setMetric] = useState("aucRoc");
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const { toast } = useToast();
+
+  const { data: modelsData } = useQuery<ModelRecord[]>({
+    queryKey: ["/api/models"],
+  });
+
+  // Only measured models with per-fold scores can be compared.
+  const candidates = (Array.isArray(modelsData) ? modelsData : []).filter(
+    (model) =>
+      model.trainingStatus === "completed" &&
+      Array.isArray(model.foldMetrics) &&
+      model.foldMetrics.length > 1 &&
+      model.metricProvenance !== "simulated"
+  );
+  const selectedDataset = candidates.find((model) => selectedIds.includes(model.id))?.datasetId;
+  const names = new Map(candidates.map((model) => [model.id, model.name]));
+
+  const compareMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/models/compare", { modelIds: selectedIds, metric });
+      return (await response.json()) as ComparisonResult;
+    },
+    onSuccess: (comparison) => setResult(comparison),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to compare models",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelectedIds((current) => (checked ? [...current, id] : current.filter((value) => value !== id)));
+  };
+
+  return (
+    <Card className="rounded-[28px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur">
+      <CardHeader className="space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-violet-50 text-violet-600">
+            <GitCompare className="h-5 w-5" />
+          </div>
+          <div>
+            <CardTitle className="text-2xl text-slate-950">Statistical Comparison</CardTitle>
+            <CardDescription className="text-sm text-slate-500">
+              Friedman + Nemenyi ranks, Scott-Knott ESD groups and Holm-corrected Wilcoxon tests on paired fold
+              scores. Train with repeated stratified CV for reliable results.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {candidates.length < 2 ? (
+          <div className="rounded-2xl border border-dashed border-slate-200 px-4 py-8 text-center text-sm text-slate-500">
+            Train at least two measured models on the same dataset to compare them.
+          </div>
+        ) : (
+          <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_220px]">
+            <div className="grid gap-2 sm:grid-cols-2">
+              {candidates.map((model) => {
+                const otherDataset = Boolean(selectedDataset) && model.datasetId !== selectedDataset;
+                return (
+                  <label
+                    key={model.id}
+                    className={`flex items-center gap-3 rounded-2xl border border-slate-100 bg-slate-50/80 px-3 py-2 text-sm ${
+                      otherDataset ? "opacity-50" : ""
+                    }`}
+                  >
+                    <Checkbox
+                      checked={selectedIds.includes(model.id)}
+                      disabled={otherDataset}
+                      onCheckedChange={(checked) => toggle(model.id, checked === true)}
+                    />
+                    <span className="truncate text-slate-800">{model.name}</span>
+                    <span className="ml-auto text-xs text-slate-400">{model.foldMetrics?.length} folds</span>
+                  </label>
+                );
+              })}
+            </div>
+            <div className="space-y-3">
+              <Select value={metric} onValueChange={setMetric}>
+                <SelectTrigger className="h-11 rounded-2xl border-slate-200 bg-white/90">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METRICS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => compareMutation.mutate()}
+                disabled={selectedIds.length < 2 || compareMutation.isPending}
+                className="h-11 w-full rounded-2xl bg-slate-950 text-white hover:bg-slate-800"
+              >
+                {compareMutation.isPending ? "Comparing..." : `Compare ${selectedIds.length} models`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-6">
+            {result.warnings.map((warning) => (
+              <div key={warning} className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                {warning}
+              </div>
+            ))}
+
+            <div className="text-sm text-slate-600">
+              Friedman χ²({result.friedman.df}) = {result.friedman.statistic.toFixed(2)}, p ={" "}
+              {formatPValue(result.friedman.pValue)} over {result.blocks} paired evaluations · Nemenyi CD ={" "}
+              {result.nemenyi.criticalDifference.toFixed(2)} at α = {result.alpha}
+            </div>
+
+            <CriticalDifferenceDiagram
+              models={result.models}
+              criticalDifference={result.nemenyi.criticalDifference}
+            />
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-left text-xs uppercase tracking-[0.14em] text-slate-400">
+                    <th className="py-2 pr-4">SK-ESD</th>
+                    <th className="py-2 pr-4">Model</th>
+                    <th className="py-2 pr-4 text-right">Mean ± std</th>
+                    <th className="py-2 pr-4 text-right">Avg rank</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...result.models]
+                    .sort((a, b) => a.skEsdRank - b.skEsdRank || a.averageRank - b.averageRank)
+                    .map((model) => (
+                      <tr key={model.id} className="border-b border-slate-100">
+                        <td className="py-2 pr-4">
+                          <Badge className="rounded-full bg-slate-950 text-white hover:bg-slate-950">
+                            {model.skEsdRank}
+                          </Badge>
+                        </td>
+                        <td className="py-2 pr-4 text-slate-800">{model.name}</td>
+                        <td className="py-2 pr-4 text-right tabular-nums text-slate-700">
+                          {model.mean.toFixed(3)} ± {model.std.toFixed(3)}
+                        </td>
+                        <td className="py-2 pr-4 text-right tabular-nums text-slate-700">
+                          {model.averageRank.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-left text-xs uppercase tracking-[0.14em] text-slate-400">
+                    <th className="py-2 pr-4">Pair</th>
+                    <th className="py-2 pr-4 text-right">Wilcoxon p</th>
+                    <th className="py-2 pr-4 text-right">Holm p</th>
+                    <th className="py-2 pr-4 text-right">Cliff's δ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.pairwise.map((pair) => (
+                    <tr key={`${pair.modelA}-${pair.modelB}`} className="border-b border-slate-100">
+                      <td className="py-2 pr-4 text-slate-800">
+                        {names.get(pair.modelA) ?? pair.modelA} vs {names.get(pair.modelB) ?? pair.modelB}
+                      </td>
+                      <td className="py-2 pr-4 text-right tabular-nums text-slate-500">{formatPValue(pair.pValue)}</td>
+                      <td
+                        className={`py-2 pr-4 text-right tabular-nums ${
+                          pair.significant ? "font-semibold text-slate-950" : "text-slate-500"
+                        }`}
+                      >
+                        {formatPValue(pair.adjustedPValue)}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        <Badge className={`rounded-full ${MAGNITUDE_TONES[pair.magnitude] ?? MAGNITUDE_TONES.negligible}`}>
+                          {pair.cliffsDelta.toFixed(2)} {pair.magnitude}
+                        </Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FileDown } from "lucide-react";
+
+import ModelExplanation from "@/components/model-explanation";
+import ThresholdTuner from "@/components/threshold-tuner";
+import ReliabilityDiagram from "@/components/visualizations/reliability-diagram";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { predictModulesCsv } from "@/lib/api";
+
+export const CALIBRATION_METHODS = [
+  { value: "none", label: "No calibration" },
+  { value: "platt", label: "Platt scaling" },
+  { value: "isotonic", label: "Isotonic regression" },
+  { value: "prior_correction", label: "Prior correction (resampling)" },
+] as const;
+
+type CalibrationReport = {
+  brierScore: number;
+  expectedCalibrationError: number;
+  bins: { count: number; meanPredicted: number; observedRate: number }[];
+};
+
+type ClassReportRow = { precision: number; recall: number; f1Score: number; support: number };
+
+type ClassificationReport = {
+  classes: Record<"0" | "1", ClassReportRow>;
+  accuracy: number;
+  macroAvg: ClassReportRow;
+  weightedAvg: ClassReportRow;
+};
+
+type ModelDetailRecord = {
+  id: string;
+  trainingStatus?: string | null;
+  decisionThreshold?: number | null;
+  classificationReport?: ClassificationReport | null;
+  calibration?: {
+    method: string;
+    uncalibrated: CalibrationReport;
+    calibrated: CalibrationReport;
+  } | null;
+};
+
+function SectionTitle({ children }: { children: string }) {
+  return <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-400">{children}</div>;
+}
+
+function ClassificationReportTable({ report }: { report: ClassificationReport }) {
+  const rows: [string, ClassReportRow][] = [
+    ["Clean (0)", report.classes["0"]],
+    ["Defective (1)", report.classes["1"]],
+    ["Macro avg", report.macroAvg],
+    ["Weighted avg", report.weightedAvg],
+  ];
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-slate-400">
+          <th className="py-0.5 text-left font-medium" />
+          <th className="py-0.5 text-right font-medium">Precision</th>
+          <th className="py-0.5 text-right font-medium">Recall</th>
+          <th className="py-0.5 text-right font-medium">F1</th>
+          <th className="py-0.5 text-right font-medium">Support</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([label, row]) => (
+          <tr key={label} className="text-slate-700">
+            <td className="py-0.5 font-medium text-slate-950">{label}</td>
+            <td className="py-0.5 text-right tabular-nums">{row.precision.toFixed(3)}</td>
+            <td className="py-0.5 text-right tabular-nums">{row.recall.toFixed(3)}</td>
+            <td className="py-0.5 text-right tabular-nums">{row.f1Score.toFixed(3)}</td>
+            <td className="py-0.5 text-right tabular-nums text-slate-500">{row.support}</td>
+          </tr>
+        ))}
+        <tr className="text-slate-700">
+          <td className="py-0.5 font-medium text-slate-950">Accuracy</td>
+          <td colSpan={3} className="py-0.5 text-right tabular-nums">
+            {report.accuracy.toFixed(3)}
+          </td>
+          <td className="py-0.5 text-right tabular-nums text-slate-500">{report.macroAvg.support}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+// Uploads a snapshot CSV and downloads it back with probability, label and rank columns.
+function ModuleScoring({ modelId, threshold }: { modelId: string; threshold: number }) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+
+  const scoreMutation = useMutation({
+    mutationFn: async (upload: File) => predictModulesCsv(modelId, upload),
+    onSuccess: (blob, upload) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = upload.name.replace(/\.csv$/i, "") + "-predictions.csv";
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to score modules",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Input
+        type="file"
+        accept=".csv"
+        onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+        className="h-10 max-w-xs rounded-2xl border-slate-200 bg-white/90"
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-10 rounded-2xl"
+        disabled={!file || scoreMutation.isPending}
+        onClick={() => file && scoreMutation.mutate(file)}
+      >
+        <FileDown className="mr-2 h-4 w-4" />
+        {scoreMutation.isPending ? "Scoring..." : "Score CSV"}
+      </Button>
+      <p className="w-full text-xs text-slate-500">
+        Needs the training dataset's feature columns; other columns are kept. Modules at or above{" "}
+        {threshold.toFixed(2)} are flagged, and rank 1 is the riskiest.
+      </p>
+    </div>
+  );
+}
+
+// Per-model analysis backed by GET /api/models/:id, which carries the out-of-fold scores
+// and holdout reliability bins the list endpoint leaves out.
+export default function ModelDetail({ modelId }: { modelId: string }) {
+  const { data: model } = useQuery<ModelDetailRecord>({
+    queryKey: [`/api/models/${modelId}`],
+  });
+
+  if (!model) {
+    return <p className="text-sm text-slate-500">Loading model details...</p>;
+  }
+
+  const calibration = model.calibration;
+  const calibrated = calibration && calibration.method !== "none" ? calibration.calibrated : null;
+
+  return (
+    <div className="space-y-6">
+      {model.classificationReport && (
+        <div className="space-y-3">
+          <SectionTitle>Classification report · holdout</SectionTitle>
+          <ClassificationReportTable report={model.classificationReport} />
+        </div>
+      )}
+
+      {calibration && (
+        <div className="space-y-3">
+          <SectionTitle>Calibration · holdout</SectionTitle>
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-700">
+            <span>
+              {CALIBRATION_METHODS.find((method) => method.value === calibration.method)?.label ?? calibration.method}
+            </span>
+            <span className="tabular-nums">
+              Brier {calibration.uncalibrated.brierScore.toFixed(4)}
+              {calibrated && ` → ${calibrated.brierScore.toFixed(4)}`}
+            </span>
+            <span className="tabular-nums">
+              ECE {calibration.uncalibrated.expectedCalibrationError.toFixed(4)}
+              {calibrated && ` → ${calibrated.expectedCalibrationError.toFixed(4)}`}
+            </span>
+          </div>
+          <ReliabilityDiagram uncalibrated={calibration.uncalibrated.bins} calibrated={calibrated?.bins} />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <SectionTitle>Decision threshold · out-of-fold</SectionTitle>
+        <ThresholdTuner modelId={model.id} />
+      </div>
+
+      {model.trainingStatus === "completed" && (
+        <div className="space-y-3">
+          <SectionTitle>Explanations</SectionTitle>
+          <ModelExplanation modelId={model.id} />
+        </div>
+      )}
+
+      {model.trainingStatus === "completed" && (
+        <div className="space-y-3">
+          <SectionTitle>Score modules</SectionTitle>
+          <ModuleScoring modelId={model.id} threshold={model.decisionThreshold ?? 0.5} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Lightbulb, ShieldCheck } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getCounterfactuals, getModelExplanation, getRowExplanation } from "@/lib/api";
+
+type MetricSummary = { mean: number; std: number; ciLower: number; ciUpper: number; n: number };
+
+type GlobalExplanation = {
+  engine: "python" | "node";
+  shapMethod: string | null;
+  baselineAuc: number | null;
+  repeats: number;
+  evaluationRows: number;
+  sampleSize: number;
+  features: { feature: string; meanAbsShap: number | null; permutation: MetricSummary | null }[];
+  suggestedRows: { row: number; label: number | null; score: number }[];
+  notes: string[];
+};
+
+type LocalExplanation = {
+  engine: "python" | "node";
+  row: number;
+  prediction: number;
+  label: number | null;
+  inHoldout: boolean;
+  shap: {
+    method: string;
+    baseValue: number;
+    contributions: { feature: string; value: string; contribution: number }[];
+  } | null;
+  lime: { intercept: number; prediction: number; score: number; weights: { rule: string; weight: number }[] } | null;
+  notes: string[];
+};
+
+type CounterfactualResult = {
+  threshold: number;
+  probability: number;
+  alreadySafe: boolean;
+  sizeColumn: string | null;
+  counterfactuals: {
+    probability: number;
+    distance: number;
+    changes: { feature: string; from: number; to: number; adjusted: boolean }[];
+  }[];
+  couplings: { features: [string, string]; kind: "ratio" | "product"; min: number; max: number }[];
+  evaluated: number;
+  notes: string[];
+};
+
+const TOP_FEATURES = 12;
+const WATERFALL_STEPS = 10;
+
+const ENGINE_LABELS: Record<GlobalExplanation["engine"], string> = {
+  python: "Python backend",
+  node: "Node engine",
+};
+
+const percent = (value: number, low: number, high: number) => ((value - low) / (high - low || 1)) * 100;
+
+// Permutation importance (AUC drop, with its confidence interval) per feature, ranked;
+// mean |SHAP| alongside. Features are ranked by |SHAP| when AUC is undefined.
+function ImportanceChart({ explanation }: { explanation: GlobalExplanation }) {
+  const ranked = [...explanation.features]
+    .sort(
+      (a, b) =>
+        (b.permutation?.mean ?? b.meanAbsShap ?? 0) - (a.permutation?.mean ?? a.meanAbsShap ?? 0)
+    )
+    .slice(0, TOP_FEATURES);
+  const high = Math.max(0.001, ...ranked.map((feature) => feature.permutation?.ciUpper ?? 0));
+  const low = Math.min(0, ...ranked.map((feature) => feature.permutation?.ciLower ?? 0));
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-slate-400">
+          <th className="py-0.5 text-left font-medium">Feature</th>
+          <th className="w-1/2 py-0.5 text-left font-medium">AUC drop when shuffled (95% CI)</th>
+          <th className="py-0.5 text-right font-medium">Mean |SHAP|</th>
+        </tr>
+      </thead>
+      <tbody>
+        {ranked.map(({ feature, permutation, meanAbsShap }) => (
+          <tr key={feature} className="text-slate-700">
+            <td className="py-1 pr-3 font-medium text-slate-950">{feature}</td>
+            <td className="py-1">
+              {permutation ? (
+                <div className="flex items-center gap-2">
+                  <div className="relative h-3 flex-1 rounded bg-slate-100">
+                    <div
+                      className="absolute inset-y-0 rounded bg-blue-500/70"
+                      style={{
+                        left: `${percent(Math.min(0, permutation.mean), low, high)}%`,
+                        width: `${Math.abs(percent(permutation.mean, low, high) - percent(0, low, high))}%`,
+                      }}
+                    />
+                    <div
+                      className="absolute top-1/2 h-px bg-slate-700"
+                      style={{
+                        left: `${percent(permutation.ciLower, low, high)}%`,
+                        width: `${percent(permutation.ciUpper, low, high) - percent(permutation.ciLower, low, high)}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="w-28 text-right text-xs tabular-nums text-slate-500">
+                    {permutation.mean.toFixed(4)} ± {((permutation.ciUpper - permutation.ciLower) / 2).toFixed(4)}
+                  </span>
+                </div>
+              ) : (
+                <span className="text-xs text-slate-400">—</span>
+              )}
+            </td>
+            <td className="py-1 text-right tabular-nums">{meanAbsShap !== null ? meanAbsShap.toFixed(4) : "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// From the base value (average prediction) to this row's prediction, one feature at a time,
+// largest contributions first; the rest are summed into one step.
+function ShapWaterfall({ shap, prediction }: { shap: NonNullable<LocalExplanation["shap"]>; prediction: number }) {
+  const ordered = [...shap.contributions].sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+  const shown = ordered.slice(0, WATERFALL_STEPS);
+  const rest = ordered.slice(WATERFALL_STEPS);
+  const steps = [
+    ...shown.map((item) => ({ label: `${item.feature} = ${item.value || "∅"}`, contribution: item.contribution })),
+    ...(rest.length > 0
+      ? [
+          {
+            label: `${rest.length} other features`,
+            contribution: rest.reduce((total, item) => total + item.contribution, 0),
+          },
+        ]
+      : []),
+  ];
+
+  let running = shap.baseValue;
+  const bars = steps.map((step) => {
+    const start = running;
+    running += step.contribution;
+    return { ...step, start, end: running };
+  });
+  const points = [shap.baseValue, prediction, ...bars.map((bar) => bar.end)];
+  const low = Math.min(...points);
+  const high = Math.max(...points);
+
+  return (
+    <div className="space-y-1.5 text-sm">
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>Base value {shap.baseValue.toFixed(3)}</span>
+        <span>Prediction {prediction.toFixed(3)}</span>
+      </div>
+      {bars.map((bar) => (
+        <div key={bar.label} className="grid grid-cols-[minmax(0,14rem)_1fr_4.5rem] items-center gap-2">
+          <span className="truncate text-slate-700" title={bar.label}>
+            {bar.label}
+          </span>
+          <div className="relative h-3 rounded bg-slate-100">
+            <div
+              className={`absolute inset-y-0 rounded ${bar.contribution >= 0 ? "bg-rose-500/80" : "bg-emerald-500/80"}`}
+              style={{
+                left: `${percent(Math.min(bar.start, bar.end), low, high)}%`,
+                width: `${Math.max(0.5, Math.abs(percent(bar.end, low, high) - percent(bar.start, low, high)))}%`,
+              }}
+            />
+          </div>
+          <span className={`text-right text-xs tabular-nums ${bar.contribution >= 0 ? "text-rose-600" : "text-emerald-600"}`}>
+            {bar.contribution >= 0 ? "+" : ""}
+            {bar.contribution.toFixed(3)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function LimeWeights({ lime }: { lime: NonNullable<LocalExplanation["lime"]> }) {
+  const extent = Math.max(0.001, ...lime.weights.map((item) => Math.abs(item.weight)));
+  return (
+    <div className="space-y-1.5 text-sm">
+      <div className="text-xs text-slate-500">
+        Local surrogate predicts {lime.prediction.toFixed(3)} (intercept {lime.intercept.toFixed(3)}, R²{" "}
+        {lime.score.toFixed(2)})
+      </div>
+      {lime.weights.map((item) => (
+        <div key={item.rule} className="grid grid-cols-[minmax(0,14rem)_1fr_4.5rem] items-center gap-2">
+          <span className="truncate text-slate-700" title={item.rule}>
+            {item.rule}
+          </span>
+          <div className="relative h-3 rounded bg-slate-100">
+            <div className="absolute inset-y-0 left-1/2 w-px bg-slate-300" />
+            <div
+              className={`absolute inset-y-0 rounded ${item.weight >= 0 ? "bg-rose-500/80" : "bg-emerald-500/80"}`}
+              style={{
+                left: item.weight >= 0 ? "50%" : `${50 - (Math.abs(item.weight) / extent) * 50}%`,
+                width: `${(Math.abs(item.weight) / extent) * 50}%`,
+              }}
+            />
+          </div>
+          <span className="text-right text-xs tabular-nums text-slate-600">{item.weight.toFixed(3)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Smallest changes to the row's metrics that the model would call clean. Features can be
+// locked first; changes marked "follows" keep related metrics consistent with the others.
+function Counterfactuals({ modelId, row, features }: { modelId: string; row: number; features: string[] }) {
+  const [locked, setLocked] = useState<string[]>([]);
+  const search = useMutation<CounterfactualResult, Error>({
+    mutationFn: () => getCounterfactuals(modelId, { row, immutable: locked }),
+  });
+  const result = search.data;
+  const toggle = (feature: string) =>
+    setLocked((current) => (current.includes(feature) ? current.filter((name) => name !== feature) : [...current, feature]));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-9 rounded-2xl"
+          disabled={search.isPending}
+          onClick={() => search.mutate()}
+        >
+          <ShieldCheck className="mr-2 h-4 w-4" />
+          {search.isPending ? "Searching..." : "What would make it safe?"}
+        </Button>
+        <span className="text-xs text-slate-500">Keep fixed:</span>
+        {features.map((feature) => (
+          <button key={feature} type="button" onClick={() => toggle(feature)}>
+            <Badge
+              variant={locked.includes(feature) ? "default" : "outline"}
+              className="cursor-pointer rounded-full text-[11px]"
+            >
+              {feature}
+            </Badge>
+          </button>
+        ))}
+      </div>
+
+      {search.error && <p className="text-sm text-rose-600">{search.error.message}</p>}
+      {result && (
+        <div className="space-y-2">
+          <div className="text-xs text-slate-500 tabular-nums">
+            Predicted {result.probability.toFixed(3)} against threshold {result.threshold.toFixed(3)} ·{" "}
+            {result.couplings.length} related metric pairs kept consistent · {result.evaluated} candidates scored
+          </div>
+          {result.counterfactuals.map((counterfactual, index) => (
+            <div key={index} className="rounded-2xl border border-slate-200 bg-white/80 p-3 text-sm">
+              <div className="mb-1.5 flex justify-between text-xs text-slate-500 tabular-nums">
+                <span>
+                  Option {index + 1}: {counterfactual.changes.filter((change) => !change.adjusted).length} direct changes
+                </span>
+                <span className="text-emerald-600">Predicted {counterfactual.probability.toFixed(3)}</span>
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {counterfactual.changes.map((change) => (
+                  <span
+                    key={change.feature}
+                    className={`tabular-nums ${change.adjusted ? "text-slate-400" : "font-medium text-slate-800"}`}
+                    title={change.adjusted ? "Follows the other changes to stay consistent" : undefined}
+                  >
+                    {change.feature} {change.from} → {change.to}
+                    {change.adjusted && " (follows)"}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+          {result.notes.map((note) => (
+            <p key={note} className="text-xs text-slate-500">
+              {note}.
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Global importance is computed on request, since it rescores the holdout many times, and
+// the server caches it; any dataset row can then be explained locally.
+export default function ModelExplanation({ modelId }: { modelId: string }) {
+  const [requested, setRequested] = useState(false);
+  const [rowInput, setRowInput] = useState("");
+  const [row, setRow] = useState<number | null>(null);
+
+  const globalQuery = useQuery<GlobalExplanation, Error>({
+    queryKey: [`/api/models/${modelId}/explain`],
+    queryFn: () => getModelExplanation(modelId),
+    enabled: requested,
+    staleTime: Infinity,
+    retry: false,
+  });
+  const localQuery = useQuery<LocalExplanation, Error>({
+    queryKey: [`/api/models/${modelId}/explain/${row}`],
+    queryFn: () => getRowExplanation(modelId, row as number),
+    enabled: row !== null,
+    staleTime: Infinity,
+    retry: false,
+  });
+  const explanation = globalQuery.data;
+  const local = localQuery.data;
+  const parsedRow = Number(rowInput);
+  const validRow = rowInput.trim() !== "" && Number.isInteger(parsedRow) && parsedRow >= 0;
+
+  if (!requested) {
+    return (
+      <Button size="sm" variant="outline" className="h-10 rounded-2xl" onClick={() => setRequested(true)}>
+        <Lightbulb className="mr-2 h-4 w-4" />
+        Explain model
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      {globalQuery.isLoading && <p className="text-sm text-slate-500">Computing feature importance...</p>}
+      {globalQuery.error && <p className="text-sm text-rose-600">{globalQuery.error.message}</p>}
+
+      {explanation && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+            <Badge variant="outline" className="rounded-full">
+              {ENGINE_LABELS[explanation.engine]}
+            </Badge>
+            {explanation.baselineAuc !== null && (
+              <span className="tabular-nums">
+                Holdout AUC {explanation.baselineAuc.toFixed(3)} · {explanation.evaluationRows} rows ·{" "}
+                {explanation.repeats} shuffles per feature
+              </span>
+            )}
+            {explanation.shapMethod && (
+              <span className="tabular-nums">
+                |SHAP| over {explanation.sampleSize} rows ({explanation.shapMethod})
+              </span>
+            )}
+          </div>
+          <ImportanceChart explanation={explanation} />
+          {explanation.notes.map((note) => (
+            <p key={note} className="text-xs text-amber-700">
+              {note}.
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            step={1}
+            value={rowInput}
+            placeholder="Dataset row"
+            onChange={(event) => setRowInput(event.target.value)}
+            className="h-10 w-36 rounded-2xl border-slate-200 bg-white/90"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-10 rounded-2xl"
+            disabled={!validRow || localQuery.isFetching}
+            onClick={() => setRow(parsedRow)}
+          >
+            Explain row
+          </Button>
+          {explanation?.suggestedRows.slice(0, 5).map((suggestion) => (
+            <Button
+              key={suggestion.row}
+              size="sm"
+              variant="ghost"
+              className="h-8 rounded-xl text-xs tabular-nums"
+              title={`Predicted ${suggestion.score.toFixed(3)}${suggestion.label !== null ? `, actual ${suggestion.label}` : ""}`}
+              onClick={() => {
+                setRowInput(String(suggestion.row));
+                setRow(suggestion.row);
+              }}
+            >
+              #{suggestion.row} · {suggestion.score.toFixed(2)}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">
+          Rows count from 0 after the header; suggestions are the riskiest holdout modules.
+        </p>
+
+        {localQuery.isFetching && <p className="text-sm text-slate-500">Explaining row {row}...</p>}
+        {localQuery.error && <p className="text-sm text-rose-600">{localQuery.error.message}</p>}
+        {local && !localQuery.isFetching && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-700">
+              <span>Row {local.row}</span>
+              <span className="tabular-nums">Predicted {local.prediction.toFixed(3)}</span>
+              {local.label !== null && <span>Actual {local.label === 1 ? "defective" : "clean"}</span>}
+              <span className="text-slate-500">{local.inHoldout ? "Holdout row" : "Training row"}</span>
+            </div>
+            {local.shap && (
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-slate-500">SHAP contributions ({local.shap.method})</div>
+                <ShapWaterfall shap={local.shap} prediction={local.prediction} />
+              </div>
+            )}
+            {local.lime && (
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-slate-500">LIME weights</div>
+                <LimeWeights lime={local.lime} />
+              </div>
+            )}
+            {local.notes.map((note) => (
+              <p key={note} className="text-xs text-slate-500">
+                {note}.
+              </p>
+            ))}
+            {local.shap && (
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-slate-500">Counterfactuals</div>
+                <Counterfactuals
+                  key={local.row}
+                  modelId={modelId}
+                  row={local.row}
+                  features={local.shap.contributions.map((item) => item.feature)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useToast } from "@/hooks/use-toast";
+import { type ThresholdConfig, setModelThreshold } from "@/lib/api";
+
+export const THRESHOLD_STRATEGIES = [
+  { value: "fixed", label: "Fixed 0.5" },
+  { value: "max_f1", label: "Max F1" },
+  { value: "max_mcc", label: "Max MCC" },
+  { value: "max_gmean", label: "Max G-mean" },
+  { value: "youden_j", label: "Youden's J" },
+  { value: "min_cost", label: "Min expected cost" },
+] as const;
+
+type ThresholdSelection = {
+  strategy: string;
+  costRatio: number;
+  threshold: number;
+};
+
+type ModelDetail = {
+  id: string;
+  decisionThreshold?: number | null;
+  thresholdSelection?: ThresholdSelection | null;
+  outOfFoldScores?: { labels: number[]; scores: number[] } | null;
+};
+
+function countsAt(labels: number[], scores: number[], threshold: number) {
+  const counts = { tp: 0, fp: 0, tn: 0, fn: 0 };
+  labels.forEach((label, i) => {
+    if (scores[i] >= threshold) label === 1 ? counts.tp++ : counts.fp++;
+    else label === 1 ? counts.fn++ : counts.tn++;
+  });
+  return counts;
+}
+
+function ratio(numerator: number, denominator: number) {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+// Live confusion matrix over the model's out-of-fold scores; saving stores the threshold
+// that prediction uses.
+export default function ThresholdTuner({ modelId }: { modelId: string }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [threshold, setThreshold] = useState(0.5);
+  const [strategy, setStrategy] = useState<ThresholdConfig["strategy"]>("max_mcc");
+  const [costRatio, setCostRatio] = useState("5");
+
+  const { data: model } = useQuery<ModelDetail>({
+    queryKey: [`/api/models/${modelId}`],
+  });
+
+  useEffect(() => {
+    if (model?.decisionThreshold != null) setThreshold(model.decisionThreshold);
+  }, [model?.decisionThreshold]);
+
+  const labels = model?.outOfFoldScores?.labels ?? [];
+  const scores = model?.outOfFoldScores?.scores ?? [];
+  const counts = useMemo(() => countsAt(labels, scores, threshold), [labels, scores, threshold]);
+  const { tp, fp, tn, fn } = counts;
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  const specificity = ratio(tn, tn + fp);
+  const f1 = ratio(2 * precision * recall, precision + recall);
+  const mccDenominator = Math.sqrt((tp + fp) * (tp + fn) * (tn + fp) * (tn + fn));
+  const mcc = ratio(tp * tn - fp * fn, mccDenominator);
+  const cost = ratio(Number(costRatio) * fn + fp, labels.length);
+
+  const thresholdMutation = useMutation({
+    mutationFn: (config: ThresholdConfig) => setModelThreshold(modelId, config),
+    onSuccess: (selection: ThresholdSelection) => {
+      setThreshold(selection.threshold);
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/models/${modelId}`] });
+      toast({ title: "Threshold saved", description: `Decision threshold set to ${selection.threshold.toFixed(3)}` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update threshold",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!model) return null;
+  if (labels.length === 0) {
+    return <p className="text-sm text-slate-500">No out-of-fold scores recorded for this model.</p>;
+  }
+
+  const metrics = [
+    { label: "Precision", value: precision },
+    { label: "Recall", value: recall },
+    { label: "F1", value: f1 },
+    { label: "MCC", value: mcc },
+    { label: "G-mean", value: Math.sqrt(recall * specificity) },
+    { label: "Cost / row", value: cost },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-slate-950">Threshold {threshold.toFixed(3)}</span>
+        <span className="text-xs text-slate-500">
+          Saved {model.decisionThreshold?.toFixed(3) ?? "0.500"}
+          {model.thresholdSelection ? ` · ${model.thresholdSelection.strategy}` : ""} · {labels.length} out-of-fold rows
+        </span>
+      </div>
+      <Slider
+        value={[threshold]}
+        min={0}
+        max={1}
+        step={0.005}
+        onValueChange={([value]) => setThreshold(value)}
+      />
+
+      <div className="grid gap-4 sm:grid-cols-[160px_minmax(0,1fr)]">
+        <table className="text-center text-sm tabular-nums">
+          <thead>
+            <tr className="text-xs text-slate-400">
+              <th />
+              <th className="px-2 font-medium">Pred 0</th>
+              <th className="px-2 font-medium">Pred 1</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td className="pr-2 text-xs text-slate-400">True 0</td>
+              <td className="rounded-lg bg-emerald-50 px-2 py-1 text-emerald-700">{tn}</td>
+              <td className="rounded-lg bg-amber-50 px-2 py-1 text-amber-700">{fp}</td>
+            </tr>
+            <tr>
+              <td className="pr-2 text-xs text-slate-400">True 1</td>
+              <td className="rounded-lg bg-rose-50 px-2 py-1 text-rose-700">{fn}</td>
+              <td className="rounded-lg bg-emerald-50 px-2 py-1 text-emerald-700">{tp}</td>
+            </tr>
+          </tbody>
+        </table>
+        <div className="grid grid-cols-3 gap-2">
+          {metrics.map(({ label, value }) => (
+            <div key={label} className="rounded-xl bg-slate-50 px-3 py-2">
+              <div className="text-[10px] font-semibold uppercase tracking-[0.14em] text-slate-400">{label}</div>
+              <div className="text-sm font-semibold tabular-nums text-slate-950">{value.toFixed(3)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={strategy} onValueChange={(value) => setStrategy(value as ThresholdConfig["strategy"])}>
+          <SelectTrigger className="h-9 w-44 rounded-xl border-slate-200 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {THRESHOLD_STRATEGIES.filter((option) => option.value !== "fixed").map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min="0.1"
+          step="0.5"
+          value={costRatio}
+          onChange={(event) => setCostRatio(event.target.value)}
+          className="h-9 w-24 rounded-xl border-slate-200 bg-white"
+          title="Cost of a missed defect relative to a false alarm"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={thresholdMutation.isPending}
+          onClick={() => thresholdMutation.mutate({ strategy, costRatio: Number(costRatio) || 1 })}
+          className="rounded-xl border-slate-200"
+        >
+          Optimize
+        </Button>
+        <Button
+          size="sm"
+          disabled={thresholdMutation.isPending}
+          onClick={() =>
+            thresholdMutation.mutate({ strategy: "fixed", threshold, costRatio: Number(costRatio) || 1 })
+          }
+          className="ml-auto rounded-xl bg-slate-950 text-white hover:bg-slate-800"
+        >
+          Save threshold
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,23 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { 
+  Boxes,
   Brain, 
   Database,
   FlaskConical,
   Code,
-  Home
+  Grid3x3,
+  Home,
+  SlidersHorizontal
 } from "lucide-react";
 
 const navigation = [
   { name: "Dashboard", href: "/", icon: Home },
   { name: "Data Upload", href: "/data-upload", icon: Database },
   { name: "Model Training", href: "/model-training", icon: Brain },
+  { name: "Hyperparameter Tuning", href: "/hyperparameter-tuning", icon: SlidersHorizontal },
+  { name: "Sampling Sweep", href: "/sampling-sweep", icon: Grid3x3 },
+  { name: "Model Registry", href: "/model-registry", icon: Boxes },
   { name: "Code Prediction", href: "/code-prediction", icon: Code },
 ];
 
@@ -0,0 +1,117 @@
+type RankedModel = {
+  id: string;
+  name: string;
+  averageRank: number;
+};
+
+type CriticalDifferenceProps = {
+  models: RankedModel[];
+  criticalDifference: number;
+};
+
+const WIDTH = 760;
+const AXIS_Y = 70;
+const MARGIN_X = 170;
+const LABEL_SPACING = 22;
+
+// Runs of models whose average ranks are all within the critical difference; runs that
+// sit inside a longer one are dropped, as in Demšar's diagrams.
+function cliques(sorted: RankedModel[], criticalDifference: number) {
+  const runs: [number, number][] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1].averageRank - sorted[i].averageRank < criticalDifference) j++;
+    if (j > i && !runs.some(([start, end]) => start <= i && end >= j)) runs.push([i, j]);
+  }
+  return runs;
+}
+
+// Critical-difference diagram (Demšar, 2006): average Friedman ranks on an axis with the
+// best rank on the left, and thick bars joining models the Nemenyi test cannot separate.
+export default function CriticalDifferenceDiagram({ models, criticalDifference }: CriticalDifferenceProps) {
+  const k = models.length;
+  if (k < 2) return null;
+
+  const sorted = [...models].sort((a, b) => a.averageRank - b.averageRank);
+  const runs = cliques(sorted, criticalDifference);
+  const half = Math.ceil(k / 2);
+  const cliqueTop = AXIS_Y + 18;
+  const labelTop = cliqueTop + runs.length * 10 + 22;
+  const height = labelTop + half * LABEL_SPACING + 10;
+  const x = (rank: number) => MARGIN_X + ((rank - 1) / Math.max(1, k - 1)) * (WIDTH - 2 * MARGIN_X);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="h-auto w-full" role="img" aria-label="Critical difference diagram">
+      <g>
+        <line
+          x1={x(1)}
+          x2={x(Math.min(k, 1 + criticalDifference))}
+          y1={22}
+          y2={22}
+          stroke="#0f172a"
+          strokeWidth={2}
+        />
+        <line x1={x(1)} x2={x(1)} y1={16} y2={28} stroke="#0f172a" strokeWidth={2} />
+        <line
+          x1={x(Math.min(k, 1 + criticalDifference))}
+          x2={x(Math.min(k, 1 + criticalDifference))}
+          y1={16}
+          y2={28}
+          stroke="#0f172a"
+          strokeWidth={2}
+        />
+        <text x={x(1)} y={12} className="fill-slate-700 text-[11px] font-semibold">
+          CD = {criticalDifference.toFixed(2)}
+        </text>
+      </g>
+
+      <line x1={x(1)} x2={x(k)} y1={AXIS_Y} y2={AXIS_Y} stroke="#0f172a" strokeWidth={1.5} />
+      {Array.from({ length: k }, (_, i) => i + 1).map((rank) => (
+        <g key={rank}>
+          <line x1={x(rank)} x2={x(rank)} y1={AXIS_Y - 6} y2={AXIS_Y} stroke="#0f172a" />
+          <text x={x(rank)} y={AXIS_Y - 10} textAnchor="middle" className="fill-slate-500 text-[11px]">
+            {rank}
+          </text>
+        </g>
+      ))}
+
+      {runs.map(([start, end], i) => (
+        <line
+          key={`${start}-${end}`}
+          x1={x(sorted[start].averageRank) - 4}
+          x2={x(sorted[end].averageRank) + 4}
+          y1={cliqueTop + i * 10}
+          y2={cliqueTop + i * 10}
+          stroke="#dc2626"
+          strokeWidth={4}
+          strokeLinecap="round"
+        />
+      ))}
+
+      {sorted.map((model, i) => {
+        const left = i < half;
+        const row = left ? i : k - 1 - i;
+        const labelY = labelTop + row * LABEL_SPACING;
+        const endX = left ? MARGIN_X - 12 : WIDTH - MARGIN_X + 12;
+        return (
+          <g key={model.id}>
+            <polyline
+              points={`${x(model.averageRank)},${AXIS_Y} ${x(model.averageRank)},${labelY} ${endX},${labelY}`}
+              fill="none"
+              stroke="#475569"
+              strokeWidth={1}
+            />
+            <text
+              x={left ? endX - 6 : endX + 6}
+              y={labelY + 4}
+              textAnchor={left ? "end" : "start"}
+              className="fill-slate-800 text-[11px]"
+            >
+              {model.name} ({model.averageRank.toFixed(2)})
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,151 @@
+type ParameterValue = string | number | boolean | null;
+
+export type ParameterSpec =
+  | { type: "int" | "float"; low: number; high: number; log?: boolean }
+  | { type: "categorical"; values: ParameterValue[] };
+
+export type ParallelTrial = {
+  id: string;
+  number: number;
+  params: Record<string, ParameterValue>;
+  score: number | null;
+};
+
+type ParallelCoordinatesProps = {
+  searchSpace: Record<string, ParameterSpec>;
+  trials: ParallelTrial[];
+  objectiveLabel: string;
+  bestTrialId?: string | null;
+};
+
+const WIDTH = 760;
+const HEIGHT = 320;
+const MARGIN = { top: 28, right: 56, bottom: 36, left: 56 };
+
+function formatValue(value: ParameterValue) {
+  if (value === null) return "none";
+  if (typeof value === "number") {
+    return Math.abs(value) >= 1000 || (Math.abs(value) > 0 && Math.abs(value) < 0.01)
+      ? value.toExponential(1)
+      : String(Number(value.toPrecision(3)));
+  }
+  return String(value);
+}
+
+// Position of a value on an axis in [0, 1], bottom to top.
+function axisPosition(spec: ParameterSpec, value: ParameterValue) {
+  if (spec.type === "categorical") {
+    const index = spec.values.indexOf(value);
+    return spec.values.length > 1 ? Math.max(0, index) / (spec.values.length - 1) : 0.5;
+  }
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric) || spec.high <= spec.low) return 0.5;
+  const [low, high, v] = spec.log
+    ? [Math.log(spec.low), Math.log(spec.high), Math.log(Math.max(numeric, spec.low))]
+    : [spec.low, spec.high, numeric];
+  return Math.min(1, Math.max(0, (v - low) / (high - low)));
+}
+
+function axisTicks(spec: ParameterSpec): { position: number; label: string }[] {
+  if (spec.type === "categorical") {
+    return spec.values.map((value) => ({ position: axisPosition(spec, value), label: formatValue(value) }));
+  }
+  return [
+    { position: 0, label: formatValue(spec.low) },
+    { position: 1, label: formatValue(spec.high) },
+  ];
+}
+
+// Light slate for the worst trial through to deep blue for the best.
+function scoreColor(t: number) {
+  const from = [203, 213, 225];
+  const to = [29, 78, 216];
+  const [r, g, b] = from.map((channel, i) => Math.round(channel + (to[i] - channel) * t));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+export default function ParallelCoordinates({
+  searchSpace,
+  trials,
+  objectiveLabel,
+  bestTrialId,
+}: ParallelCoordinatesProps) {
+  const parameters = Object.keys(searchSpace);
+  const scored = trials.filter((trial) => trial.score !== null);
+  if (parameters.length === 0 || scored.length === 0) {
+    return (
+      <div className="flex h-48 items-center justify-center rounded-2xl border border-dashed border-slate-200 text-sm text-slate-500">
+        Completed trials will appear here.
+      </div>
+    );
+  }
+
+  const scores = scored.map((trial) => trial.score as number);
+  const minScore = Math.min(...scores);
+  const maxScore = Math.max(...scores);
+  const scoreSpec: ParameterSpec = {
+    type: "float",
+    low: minScore,
+    high: maxScore > minScore ? maxScore : minScore + 1e-6,
+  };
+
+  const axes = [...parameters, objectiveLabel];
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const x = (index: number) => MARGIN.left + (axes.length > 1 ? (index / (axes.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (position: number) => MARGIN.top + (1 - position) * plotHeight;
+
+  const linePoints = (trial: ParallelTrial) =>
+    [
+      ...parameters.map((name, i) => `${x(i)},${y(axisPosition(searchSpace[name], trial.params[name] ?? null))}`),
+      `${x(parameters.length)},${y(axisPosition(scoreSpec, trial.score))}`,
+    ].join(" ");
+
+  // Draw the best trials last so they stay on top.
+  const ordered = [...scored].sort((a, b) => (a.score as number) - (b.score as number));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img" aria-label="Parallel coordinates of tuning trials">
+      {ordered.map((trial) => {
+        const t = maxScore > minScore ? ((trial.score as number) - minScore) / (maxScore - minScore) : 1;
+        const isBest = trial.id === bestTrialId;
+        return (
+          <polyline
+            key={trial.id}
+            points={linePoints(trial)}
+            fill="none"
+            stroke={isBest ? "#f59e0b" : scoreColor(t)}
+            strokeWidth={isBest ? 3 : 1.5}
+            strokeOpacity={isBest ? 1 : 0.75}
+          >
+            <title>
+              Trial {trial.number}: {objectiveLabel} {formatValue(trial.score)}
+            </title>
+          </polyline>
+        );
+      })}
+
+      {axes.map((name, i) => {
+        const ticks = i < parameters.length ? axisTicks(searchSpace[name]) : axisTicks(scoreSpec);
+        return (
+          <g key={name}>
+            <line x1={x(i)} x2={x(i)} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} stroke="#0f172a" strokeWidth={1} />
+            <text x={x(i)} y={HEIGHT - 12} textAnchor="middle" className="fill-slate-700 text-[11px] font-semibold">
+              {name}
+            </text>
+            {ticks.map((tick) => (
+              <text
+                key={`${name}-${tick.label}`}
+                x={x(i) + 6}
+                y={y(tick.position) + 4}
+                className="fill-slate-500 text-[10px]"
+              >
+                {tick.label}
+              </text>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -15,7 +15,7 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
-import { Activity, BarChart3, Sparkles, Target, Workflow } from "lucide-react";
+import { Activity, BarChart3, Ruler, Scale, Sparkles, Target, Workflow } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -31,6 +31,22 @@ type ModelRecord = {
   f1Score?: number | null;
   mcc?: number | null;
   aucRoc?: number | null;
+  balancedAccuracy?: number | null;
+  gMean?: number | null;
+  prAuc?: number | null;
+  pf?: number | null;
+  f2Score?: number | null;
+  metricProvenance?: string | null;
+  popt?: number | null;
+  accAt20?: number | null;
+  ifa?: number | null;
+  effortMetrics?: EffortMetrics | null;
+};
+
+type EffortMetrics = {
+  sizeColumn: string;
+  budget: number;
+  liftChart: { effort: number; model: number; optimal: number; worst: number }[];
 };
 
 type MonitoringMetric = {
@@ -44,8 +60,26 @@ const BAR_COLORS = {
   recall: "#f59e0b",
 };
 
+const IMBALANCE_BARS = [
+  { key: "balancedAccuracy", name: "Balanced Accuracy", color: "#2563eb" },
+  { key: "gMean", name: "G-Mean", color: "#14b8a6" },
+  { key: "prAuc", name: "PR-AUC", color: "#8b5cf6" },
+  { key: "f2Score", name: "F2", color: "#f59e0b" },
+  { key: "pf", name: "False Alarm (pf)", color: "#ef4444" },
+] as const;
+
 const DONUT_COLORS = ["#2563eb", "#14b8a6", "#f59e0b", "#ef4444", "#8b5cf6"];
-const ROC_ALGORITHM_ORDER = ["ensemble", "xgboost", "neural_network", "svm", "random_forest", "mlp_gemini"] as const;
+const ROC_ALGORITHM_ORDER = [
+  "ensemble",
+  "xgboost",
+  "neural_network",
+  "svm",
+  "random_forest",
+  "mlp_gemini",
+  "logistic_regression",
+  "decision_tree",
+  "naive_bayes",
+] as const;
 const ROC_LINE_COLORS: Record<string, string> = {
   ensemble: "#0f766e",
   xgboost: "#1d4ed8",
@@ -53,14 +87,15 @@ const ROC_LINE_COLORS: Record<string, string> = {
   svm: "#f59e0b",
   random_forest: "#dc2626",
   mlp_gemini: "#0891b2",
+  logistic_regression: "#65a30d",
+  decision_tree: "#c2410c",
+  naive_bayes: "#db2777",
 };
-const DEFAULT_AUC_BY_ALGORITHM: Record<string, number> = {
-  ensemble: 0.971,
-  xgboost: 0.944,
-  neural_network: 0.922,
-  svm: 0.892,
-  random_forest: 0.845,
-  mlp_gemini: 0.87,
+const LIFT_LINE_COLORS = ["#2563eb", "#14b8a6", "#f59e0b", "#8b5cf6", "#ef4444"];
+const PROVENANCE_SUFFIX: Record<string, string> = {
+  measured: "",
+  baseline: " (baseline)",
+  simulated: " (simulated)",
 };
 
 function formatAlgorithmLabel(value: string) {
@@ -68,7 +103,7 @@ function formatAlgorithmLabel(value: string) {
     return "MLP + Gemini";
   }
   if (value === "neural_network") {
-    return "Ensemble Method";
+    return "Neural Network (MLP)";
   }
   if (value === "ensemble") {
     return "Ensemble";
@@ -108,17 +143,18 @@ export default function PerformanceCharts() {
     return acc;
   }, {});
 
-  const rocModelSummaries = ROC_ALGORITHM_ORDER.map((algorithm) => {
+  // Only algorithms with a stored AUC are plotted; nothing is back-filled.
+  const rocModelSummaries = ROC_ALGORITHM_ORDER.filter(
+    (algorithm) => bestModelByAlgorithm[algorithm]?.aucRoc != null
+  ).map((algorithm) => {
     const selectedModel = bestModelByAlgorithm[algorithm];
-    const fallbackAuc = DEFAULT_AUC_BY_ALGORITHM[algorithm];
-    const derivedAuc =
-      selectedModel?.aucRoc ??
-      (selectedModel?.accuracy != null ? clampProbability(selectedModel.accuracy + 0.02) : fallbackAuc);
+    const provenance = selectedModel.metricProvenance ?? "measured";
 
     return {
       algorithm,
-      label: formatAlgorithmLabel(algorithm),
-      auc: Number(clampProbability(derivedAuc).toFixed(3)),
+      label: `${formatAlgorithmLabel(algorithm)}${PROVENANCE_SUFFIX[provenance] ?? ""}`,
+      auc: Number(clampProbability(selectedModel.aucRoc ?? 0.5, 0, 1).toFixed(3)),
+      provenance,
     };
   });
 
@@ -130,7 +166,7 @@ export default function PerformanceCharts() {
     };
 
     rocModelSummaries.forEach(({ algorithm, auc }) => {
-      const safeAuc = clampProbability(auc);
+      const safeAuc = clampProbability(auc, 0.5, 0.995);
       const alpha = safeAuc > 0.5001 ? safeAuc / (1 - safeAuc) : 1;
       const tpr = safeAuc > 0.5001 ? (fpr >= 1 ? 1 : 1 - Math.pow(1 - fpr, alpha)) : fpr;
       point[algorithm] = Number((tpr * 100).toFixed(1));
@@ -139,6 +175,46 @@ export default function PerformanceCharts() {
     return point;
   });
 
+  // Effort-aware view: the five models with the best holdout Popt, drawn on out-of-fold lift curves.
+  const effortModels = completedModels
+    .filter((model) => model.popt != null && (model.effortMetrics?.liftChart.length ?? 0) > 0)
+    .sort((a, b) => (b.popt ?? 0) - (a.popt ?? 0))
+    .slice(0, 5)
+    .map((model, index) => ({
+      key: `model${index}`,
+      model,
+      label: `${model.name}${PROVENANCE_SUFFIX[model.metricProvenance ?? "measured"] ?? ""}`,
+      color: LIFT_LINE_COLORS[index],
+    }));
+  const referenceLift = effortModels[0]?.model.effortMetrics?.liftChart ?? [];
+  const liftChartData = referenceLift.map((point, index) => {
+    const row: Record<string, number> = {
+      effort: Number((point.effort * 100).toFixed(0)),
+      optimal: Number((point.optimal * 100).toFixed(1)),
+      worst: Number((point.worst * 100).toFixed(1)),
+      random: Number((point.effort * 100).toFixed(1)),
+    };
+    effortModels.forEach(({ key, model }) => {
+      const value = model.effortMetrics?.liftChart[index]?.model;
+      if (value != null) row[key] = Number((value * 100).toFixed(1));
+    });
+    return row;
+  });
+
+  // Models trained before the imbalance-aware metrics existed have none and are left out.
+  const imbalanceData = completedModels
+    .filter((model) => model.metricProvenance !== "simulated" && model.balancedAccuracy != null)
+    .sort((a, b) => (b.mcc ?? 0) - (a.mcc ?? 0))
+    .slice(0, 6)
+    .map((model) => ({
+      label: `${model.name}${PROVENANCE_SUFFIX[model.metricProvenance ?? "measured"] ?? ""}`,
+      balancedAccuracy: toPercent(model.balancedAccuracy),
+      gMean: toPercent(model.gMean),
+      prAuc: toPercent(model.prAuc),
+      f2Score: toPercent(model.f2Score),
+      pf: toPercent(model.pf),
+    }));
+
   const algorithmTotals = completedModels.reduce<Record<string, number>>((acc, model) => {
     const label = formatAlgorithmLabel(model.algorithm);
     acc[label] = (acc[label] || 0) + 1;
@@ -153,8 +229,9 @@ export default function PerformanceCharts() {
       const algorithmLabel = formatAlgorithmLabel(model.algorithm);
       algorithmTracker[algorithmLabel] = (algorithmTracker[algorithmLabel] || 0) + 1;
       const sequence = algorithmTracker[algorithmLabel];
-      const label =
+      const baseLabel =
         (algorithmTotals[algorithmLabel] || 0) > 1 ? `${algorithmLabel} ${sequence}` : algorithmLabel;
+      const label = `${baseLabel}${PROVENANCE_SUFFIX[model.metricProvenance ?? "measured"] ?? ""}`;
 
       return {
         label,
@@ -201,19 +278,22 @@ export default function PerformanceCharts() {
     }))
     .sort((a, b) => b.value - a.value);
 
+  const measuredModels = completedModels.filter((model) => model.metricProvenance !== "simulated");
+  const simulatedCount = completedModels.length - measuredModels.length;
+
   const averageF1 =
-    completedModels.length > 0
-      ? completedModels.reduce((sum, model) => sum + (model.f1Score ?? 0), 0) / completedModels.length
+    measuredModels.length > 0
+      ? measuredModels.reduce((sum, model) => sum + (model.f1Score ?? 0), 0) / measuredModels.length
       : 0;
 
   const bestAccuracy =
-    completedModels.length > 0
-      ? Math.max(...completedModels.map((model) => model.accuracy ?? 0))
+    measuredModels.length > 0
+      ? Math.max(...measuredModels.map((model) => model.accuracy ?? 0))
       : 0;
 
   const averageMcc =
-    completedModels.length > 0
-      ? completedModels.reduce((sum, model) => sum + (model.mcc ?? 0), 0) / completedModels.length
+    measuredModels.length > 0
+      ? measuredModels.reduce((sum, model) => sum + (model.mcc ?? 0), 0) / measuredModels.length
       : 0;
 
   const summaryCards = [
@@ -230,7 +310,10 @@ export default function PerformanceCharts() {
     {
       label: "Best Accuracy",
       value: `${(bestAccuracy * 100).toFixed(1)}%`,
-      hint: "Current top-performing model",
+      hint:
+        simulatedCount > 0
+          ? `Measured runs only (${simulatedCount} simulated excluded)`
+          : "Current top-performing measured model",
     },
     {
       label: "Average MCC",
@@ -472,7 +555,7 @@ export default function PerformanceCharts() {
             <div>
               <CardTitle className="text-2xl text-slate-950">ROC-AUC Comparison</CardTitle>
               <CardDescription className="text-sm text-slate-500">
-                Curves show true-positive rate gains over false-positive rate for each algorithm.
+                Curves are approximated from each algorithm's stored AUC; baseline and simulated runs are labelled.
               </CardDescription>
             </div>
           </div>
@@ -544,6 +627,174 @@ export default function PerformanceCharts() {
         </CardContent>
       </Card>
 
+      <Card className="rounded-[28px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur xl:col-span-2">
+        <CardHeader className="space-y-3 pb-4">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-2xl bg-violet-50 text-violet-700">
+              <Scale className="h-5 w-5" />
+            </div>
+            <div>
+              <CardTitle className="text-2xl text-slate-950">Imbalance-Aware Metrics</CardTitle>
+              <CardDescription className="text-sm text-slate-500">
+                Validation means for the six best models by MCC. Unlike accuracy, none of these reward flagging
+                nothing as defective; lower is better for the false alarm rate.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {imbalanceData.length === 0 ? (
+            <div className="rounded-2xl border border-dashed border-slate-200 px-4 py-8 text-center text-sm text-slate-500">
+              Train a model with measured metrics to see balanced accuracy, G-mean, PR-AUC, F2 and pf.
+            </div>
+          ) : (
+            <div className="h-[330px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={imbalanceData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+                  <CartesianGrid stroke="#e2e8f0" strokeDasharray="4 4" vertical={false} />
+                  <XAxis
+                    dataKey="label"
+                    tick={{ fill: "#0f172a", fontSize: 12, fontWeight: 600 }}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <YAxis
+                    domain={[0, 100]}
+                    tickFormatter={(value) => `${value}%`}
+                    tick={{ fill: "#64748b", fontSize: 12 }}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <Tooltip
+                    cursor={{ fill: "rgba(148, 163, 184, 0.08)" }}
+                    contentStyle={{
+                      borderRadius: "16px",
+                      border: "1px solid #dbe5f0",
+                      boxShadow: "0 20px 50px -30px rgba(15, 23, 42, 0.45)",
+                    }}
+                    formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+                  />
+                  {IMBALANCE_BARS.map((bar) => (
+                    <Bar key={bar.key} dataKey={bar.key} fill={bar.color} radius={[8, 8, 0, 0]} name={bar.name} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="rounded-[28px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur xl:col-span-2">
+        <CardHeader className="space-y-3 pb-4">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-2xl bg-indigo-50 text-indigo-700">
+              <Ruler className="h-5 w-5" />
+            </div>
+            <div>
+              <CardTitle className="text-2xl text-slate-950">Effort-Aware Lift Chart</CardTitle>
+              <CardDescription className="text-sm text-slate-500">
+                Share of defective modules found against share of code inspected, ranking modules by predicted
+                risk per line. Curves use out-of-fold scores, the badges holdout ones; the optimal and worst
+                curves belong to the top model's data.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          {effortModels.length === 0 ? (
+            <div className="rounded-2xl border border-dashed border-slate-200 px-4 py-8 text-center text-sm text-slate-500">
+              Set a size column (e.g. LOC) on a dataset and train a model to see effort-aware results.
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {effortModels.map(({ key, model, label, color }) => (
+                  <Badge
+                    key={key}
+                    variant="outline"
+                    className="rounded-full border-slate-200 bg-white px-3 py-1 text-slate-600"
+                  >
+                    <span className="mr-2 h-2.5 w-2.5 rounded-full" style={{ backgroundColor: color }} />
+                    {label}: Popt {model.popt?.toFixed(3)} · ACC@20% {((model.accAt20 ?? 0) * 100).toFixed(1)}% · IFA{" "}
+                    {model.ifa ?? "N/A"}
+                  </Badge>
+                ))}
+              </div>
+              <div className="h-[330px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={liftChartData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+                    <CartesianGrid stroke="#e2e8f0" strokeDasharray="4 4" vertical={false} />
+                    <XAxis
+                      dataKey="effort"
+                      tickFormatter={(value) => `${value}%`}
+                      tick={{ fill: "#64748b", fontSize: 12 }}
+                      axisLine={false}
+                      tickLine={false}
+                    />
+                    <YAxis
+                      domain={[0, 100]}
+                      tickFormatter={(value) => `${value}%`}
+                      tick={{ fill: "#64748b", fontSize: 12 }}
+                      axisLine={false}
+                      tickLine={false}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        borderRadius: "16px",
+                        border: "1px solid #dbe5f0",
+                        boxShadow: "0 20px 50px -30px rgba(15, 23, 42, 0.45)",
+                      }}
+                      labelFormatter={(value) => `Code inspected: ${value}%`}
+                      formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="optimal"
+                      name="Optimal"
+                      stroke="#0f172a"
+                      strokeWidth={1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="random"
+                      name="Random"
+                      stroke="#94a3b8"
+                      strokeDasharray="6 6"
+                      strokeWidth={1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="worst"
+                      name="Worst"
+                      stroke="#cbd5e1"
+                      strokeWidth={1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    {effortModels.map(({ key, label, color }) => (
+                      <Line
+                        key={key}
+                        type="monotone"
+                        dataKey={key}
+                        name={label}
+                        stroke={color}
+                        strokeWidth={2.5}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="grid gap-4 sm:grid-cols-2 xl:col-span-2 xl:grid-cols-4">
         {summaryCards.map((item, index) => (
           <Card
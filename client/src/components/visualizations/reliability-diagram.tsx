@@ -0,0 +1,99 @@
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+type ReliabilityBin = {
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+};
+
+type ReliabilityDiagramProps = {
+  uncalibrated: ReliabilityBin[];
+  calibrated?: ReliabilityBin[] | null;
+};
+
+const toPoints = (bins: ReliabilityBin[]) =>
+  bins.map((bin) => ({
+    predicted: Number((bin.meanPredicted * 100).toFixed(1)),
+    observed: Number((bin.observedRate * 100).toFixed(1)),
+    count: bin.count,
+  }));
+
+// Observed defect rate against mean predicted probability per bin; a calibrated model
+// follows the diagonal.
+export default function ReliabilityDiagram({ uncalibrated, calibrated }: ReliabilityDiagramProps) {
+  return (
+    <div className="h-[260px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+          <CartesianGrid stroke="#e2e8f0" strokeDasharray="4 4" />
+          <XAxis
+            type="number"
+            dataKey="predicted"
+            domain={[0, 100]}
+            tickFormatter={(value) => `${value}%`}
+            tick={{ fill: "#64748b", fontSize: 12 }}
+            axisLine={false}
+            tickLine={false}
+          />
+          <YAxis
+            type="number"
+            domain={[0, 100]}
+            tickFormatter={(value) => `${value}%`}
+            tick={{ fill: "#64748b", fontSize: 12 }}
+            axisLine={false}
+            tickLine={false}
+          />
+          <Tooltip
+            contentStyle={{
+              borderRadius: "16px",
+              border: "1px solid #dbe5f0",
+              boxShadow: "0 20px 50px -30px rgba(15, 23, 42, 0.45)",
+            }}
+            labelFormatter={(value) => `Mean predicted: ${value}%`}
+            formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Line
+            data={[
+              { predicted: 0, observed: 0 },
+              { predicted: 100, observed: 100 },
+            ]}
+            dataKey="observed"
+            name="Perfect calibration"
+            stroke="#94a3b8"
+            strokeDasharray="6 6"
+            dot={false}
+            isAnimationActive={false}
+          />
+          <Line
+            data={toPoints(uncalibrated)}
+            dataKey="observed"
+            name={calibrated ? "Uncalibrated" : "Model"}
+            stroke={calibrated ? "#f59e0b" : "#2563eb"}
+            strokeWidth={2}
+            isAnimationActive={false}
+          />
+          {calibrated && (
+            <Line
+              data={toPoints(calibrated)}
+              dataKey="observed"
+              name="Calibrated"
+              stroke="#2563eb"
+              strokeWidth={2.5}
+              isAnimationActive={false}
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { queryClient } from "@/lib/queryClient";
+
+export type RealtimeTopic = "models" | "datasets" | "rl" | "monitoring" | "jobs";
+
+export type RealtimeEvent = {
+  topic: RealtimeTopic;
+  type: string;
+  payload: any;
+  timestamp: string;
+};
+
+type Listener = (event: RealtimeEvent) => void;
+
+// Query key prefixes refreshed whenever an event arrives on a topic.
+const TOPIC_QUERY_PREFIXES: Record<RealtimeTopic, string[]> = {
+  models: ["/api/models", "/api/tuning", "/api/sampling-sweeps", "/api/registry"],
+  datasets: ["/api/datasets"],
+  rl: ["/api/rl/agents"],
+  monitoring: ["/api/monitoring/metrics"],
+  jobs: ["/api/jobs"],
+};
+
+const PING_INTERVAL_MS = 25000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// One shared socket per tab. Subscriptions are reference counted so several
+// components can listen to the same topic, and are replayed after a reconnect.
+class RealtimeConnection {
+  private socket: WebSocket | null = null;
+  private topicCounts = new Map<RealtimeTopic, number>();
+  private listeners = new Set<Listener>();
+  private statusListeners = new Set<() => void>();
+  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  connected = false;
+
+  subscribe(topics: RealtimeTopic[], listener?: Listener) {
+    topics.forEach((topic) => this.topicCounts.set(topic, (this.topicCounts.get(topic) ?? 0) + 1));
+    if (listener) this.listeners.add(listener);
+    this.ensureConnected();
+    this.send({ type: "subscribe", topics });
+
+    return () => {
+      const released: RealtimeTopic[] = [];
+      topics.forEach((topic) => {
+        const next = (this.topicCounts.get(topic) ?? 1) - 1;
+        if (next <= 0) {
+          this.topicCounts.delete(topic);
+          released.push(topic);
+        } else {
+          this.topicCounts.set(topic, next);
+        }
+      });
+      if (listener) this.listeners.delete(listener);
+      if (released.length > 0) this.send({ type: "unsubscribe", topics: released });
+    };
+  }
+
+  onStatusChange(callback: () => void) {
+    this.statusListeners.add(callback);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.statusListeners.forEach((callback) => callback());
+  }
+
+  private send(message: unknown) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private ensureConnected() {
+    if (this.socket || this.reconnectTimer) return;
+    const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+    const socket = new WebSocket(`${protocol}://${window.location.host}/ws`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = 1000;
+      this.setConnected(true);
+      const topics = Array.from(this.topicCounts.keys());
+      if (topics.length > 0) this.send({ type: "subscribe", topics });
+      this.pingTimer = setInterval(() => this.send({ type: "ping" }), PING_INTERVAL_MS);
+      // Anything may have changed while disconnected.
+      topics.forEach((topic) => this.invalidate(topic));
+    };
+
+    socket.onmessage = (message) => {
+      let event: RealtimeEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      if (!event.topic) return;
+      this.invalidate(event.topic);
+      this.listeners.forEach((listener) => listener(event));
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      if (this.pingTimer) clearInterval(this.pingTimer);
+      this.pingTimer = null;
+      this.setConnected(false);
+      if (this.topicCounts.size === 0) return;
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.ensureConnected();
+      }, this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+  }
+
+  private invalidate(topic: RealtimeTopic) {
+    const prefixes = TOPIC_QUERY_PREFIXES[topic] ?? [];
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = query.queryKey[0];
+        return typeof key === "string" && prefixes.some((prefix) => key.startsWith(prefix));
+      },
+    });
+  }
+}
+
+const connection = new RealtimeConnection();
+
+export function useRealtime(topics: RealtimeTopic[], onEvent?: Listener) {
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const topicKey = [...topics].sort().join(",");
+
+  useEffect(() => {
+    const subscribedTopics = topicKey ? (topicKey.split(",") as RealtimeTopic[]) : [];
+    return connection.subscribe(subscribedTopics, (event) => {
+      if (subscribedTopics.includes(event.topic)) onEventRef.current?.(event);
+    });
+  }, [topicKey]);
+}
+
+export function useRealtimeConnected() {
+  return useSyncExternalStore(
+    (callback) => connection.onStatusChange(callback),
+    () => connection.connected
+  );
+}
@@ -6,11 +6,77 @@ export interface DatasetUpload {
   description: string;
 }
 
+// Commit-level dataset mined from a git repository on the server.
+export interface JitExtractionConfig {
+  repositoryPath: string;
+  name?: string;
+  revision?: string;
+  maxCommits?: number;
+  fixKeywords?: string[];
+}
+
 export interface ModelTrainingConfig {
   name: string;
   algorithm: string;
   datasetId: string;
   hyperparameters: Record<string, any>;
+  // Registry family; defaults to the algorithm. The version is bumped from the family's latest.
+  family?: string;
+  versionBump?: "major" | "minor" | "patch";
+  // Train on these datasets and score `datasetId` as the target project.
+  crossProject?: {
+    sourceDatasetIds: string[];
+    transfer?: "none" | "zscore" | "burak" | "peters" | "tca";
+    neighbors?: number;
+    components?: number;
+    mu?: number;
+  };
+}
+
+// Combines completed models of one dataset into a new model version.
+export interface EnsembleConfig {
+  memberIds: string[];
+  method: "soft_voting" | "weighted_voting" | "stacking";
+  name?: string;
+  folds?: number;
+  family?: string;
+  hyperparameters?: Record<string, any>;
+}
+
+export type ModelStage = "staging" | "production" | "archived";
+
+export type ModelExportFormat = "onnx" | "pmml" | "json";
+
+export interface TuningConfig {
+  datasetId: string;
+  algorithm: string;
+  name?: string;
+  strategy: "grid" | "random" | "tpe";
+  objective: "mcc" | "f1" | "g_mean" | "pr_auc";
+  budget: number;
+  folds?: number;
+  searchSpace?: Record<string, any>;
+  hyperparameters?: Record<string, any>;
+  promote?: boolean;
+}
+
+export interface SamplingSweepConfig {
+  datasetId: string;
+  algorithm: string;
+  name?: string;
+  // Omitted: every resampling technique.
+  techniques?: string[];
+  ratios?: number[];
+  folds?: number;
+  repeats?: number;
+  objective?: "mcc" | "f1" | "g_mean" | "pr_auc";
+  hyperparameters?: Record<string, any>;
+}
+
+export interface ThresholdConfig {
+  strategy: "fixed" | "max_f1" | "max_mcc" | "max_gmean" | "youden_j" | "min_cost";
+  costRatio?: number;
+  threshold?: number;
 }
 
 export interface QuantumExperimentConfig {
@@ -71,23 +137,206 @@ export class MLResearchAPI {
     return response.json();
   }
 
+  static async setDatasetSizeColumn(id: string, sizeColumn: string | null) {
+    const response = await apiRequest("PATCH", `/api/datasets/${id}/size-column`, { sizeColumn });
+    return response.json();
+  }
+
+  // Runs as a jit_extraction job; the dataset appears when it finishes.
+  static async extractJitDataset(config: JitExtractionConfig) {
+    const response = await apiRequest("POST", "/api/datasets/jit", config);
+    return response.json() as Promise<{ jobId: string; repository: string }>;
+  }
+
   // Model operations
   static async trainModel(config: ModelTrainingConfig) {
     const response = await apiRequest("POST", "/api/models/train", config);
     return response.json();
   }
 
+  static async composeEnsemble(config: EnsembleConfig) {
+    const response = await apiRequest("POST", "/api/models/ensemble", config);
+    return response.json();
+  }
+
+  // Algorithms and sampling techniques with their hyperparameter fields and documentation
+  static async getAlgorithmCatalog() {
+    const response = await apiRequest("GET", "/api/algorithms");
+    return response.json();
+  }
+
+  // Python interpreter, package versions and which training options can actually run
+  static async getCapabilities(refresh = false) {
+    const response = await apiRequest("GET", `/api/capabilities${refresh ? "?refresh=true" : ""}`);
+    return response.json();
+  }
+
   static async getModels() {
     const response = await apiRequest("GET", "/api/models");
     return response.json();
   }
 
-  static async getModelExplanation(modelId: string) {
-    const response = await apiRequest("GET", `/api/models/${modelId}/explain`);
+  static async getModel(id: string) {
+    const response = await apiRequest("GET", `/api/models/${id}`);
+    return response.json();
+  }
+
+  static async setModelThreshold(id: string, config: ThresholdConfig) {
+    const response = await apiRequest("POST", `/api/models/${id}/threshold`, config);
+    return response.json();
+  }
+
+  static async predictModules(id: string, rows: Record<string, string | number | boolean | null>[]) {
+    const response = await apiRequest("POST", `/api/models/${id}/predict`, { rows });
+    return response.json();
+  }
+
+  // Scores a codebase snapshot; the response is the same CSV with prediction columns appended.
+  static async predictModulesCsv(id: string, file: File) {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    const response = await fetch(`/api/models/${id}/predict?format=csv`, {
+      method: "POST",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error ?? "Failed to score modules");
+    }
+
+    return response.blob();
+  }
+
+  static async deleteModel(id: string) {
+    const response = await apiRequest("DELETE", `/api/models/${id}`);
+    return response.json();
+  }
+
+  // Model registry operations
+  static async getModelFamilies() {
+    const response = await apiRequest("GET", "/api/registry/families");
+    return response.json();
+  }
+
+  static async setModelStage(id: string, stage: ModelStage) {
+    const response = await apiRequest("POST", `/api/models/${id}/stage`, { stage });
+    return response.json();
+  }
+
+  static getModelArtifactUrl(id: string) {
+    return `/api/models/${id}/artifact`;
+  }
+
+  static getModelExportUrl(id: string, format: ModelExportFormat) {
+    return `/api/models/${id}/export?format=${format}`;
+  }
+
+  static getModelManifestUrl(id: string) {
+    return `/api/models/${id}/manifest`;
+  }
+
+  // Starts a model_reproduction job; its result reports whether the metrics matched.
+  static async reproduceModel(id: string, tolerance?: number) {
+    const response = await apiRequest("POST", `/api/models/${id}/reproduce`, tolerance === undefined ? {} : { tolerance });
+    return response.json();
+  }
+
+  static async importModel(file: File, family?: string) {
+    const formData = new FormData();
+    formData.append("file", file);
+    if (family) {
+      formData.append("family", family);
+    }
+
+    const response = await fetch("/api/models/import", {
+      method: "POST",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error ?? "Failed to import model");
+    }
+
+    return response.json();
+  }
+
+  static async compareModels(modelIds: string[], metric = "aucRoc") {
+    const response = await apiRequest("POST", "/api/models/compare", { modelIds, metric });
+    return response.json();
+  }
+
+  // Hyperparameter tuning operations
+  static async startTuning(config: TuningConfig) {
+    const response = await apiRequest("POST", "/api/models/tune", config);
     return response.json();
   }
 
-  // Quantum ML operations
+  static async getTuningStudies() {
+    const response = await apiRequest("GET", "/api/tuning/studies");
+    return response.json();
+  }
+
+  static async getTuningStudy(studyId: string) {
+    const response = await apiRequest("GET", `/api/tuning/studies/${studyId}`);
+    return response.json();
+  }
+
+  // Sampling sweep operations
+  static async startSamplingSweep(config: SamplingSweepConfig) {
+    const response = await apiRequest("POST", "/api/sampling-sweeps", config);
+    return response.json();
+  }
+
+  static async getSamplingSweeps() {
+    const response = await apiRequest("GET", "/api/sampling-sweeps");
+    return response.json();
+  }
+
+  static async getSamplingSweep(sweepId: string) {
+    const response = await apiRequest("GET", `/api/sampling-sweeps/${sweepId}`);
+    return response.json();
+  }
+
+  // Permutation importance with confidence intervals and mean |SHAP| over the holdout
+  static async getModelExplanation(modelId: string) {
+    const response = await fetch(`/api/models/${modelId}/explain`);
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.error ?? "Failed to explain model");
+    }
+    return body;
+  }
+
+  // SHAP contributions and LIME weights for one dataset row
+  static async getRowExplanation(modelId: string, row: number) {
+    const response = await fetch(`/api/models/${modelId}/explain/${row}`);
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.error ?? "Failed to explain row");
+    }
+    return body;
+  }
+
+  // Plausible changes to one module (a dataset row or feature values) that bring it below the threshold
+  static async getCounterfactuals(
+    modelId: string,
+    request: { row?: number; features?: Record<string, string | number>; immutable?: string[]; count?: number }
+  ) {
+    const response = await fetch(`/api/models/${modelId}/counterfactuals`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.error ?? "Failed to search for counterfactuals");
+    }
+    return body;
+  }
+
   static async createQuantumExperiment(config: QuantumExperimentConfig) {
     const response = await apiRequest("POST", "/api/quantum/experiments", config);
     return response.json();
@@ -109,6 +358,38 @@ export class MLResearchAPI {
     return response.json();
   }
 
+  static async stopRLAgent(agentId: string) {
+    const response = await apiRequest("POST", `/api/rl/agents/${agentId}/stop`);
+    return response.json();
+  }
+
+  // Background job operations
+  static async getJobs(filter: { type?: string; resourceId?: string; status?: string } = {}) {
+    const params = new URLSearchParams();
+    Object.entries(filter).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+
+    const url = `/api/jobs${params.toString() ? `?${params.toString()}` : ""}`;
+    const response = await apiRequest("GET", url);
+    return response.json();
+  }
+
+  static async getJob(jobId: string) {
+    const response = await apiRequest("GET", `/api/jobs/${jobId}`);
+    return response.json();
+  }
+
+  static async getJobLogs(jobId: string) {
+    const response = await apiRequest("GET", `/api/jobs/${jobId}/logs`);
+    return response.json();
+  }
+
+  static async cancelJob(jobId: string) {
+    const response = await apiRequest("POST", `/api/jobs/${jobId}/cancel`);
+    return response.json();
+  }
+
   // Federated learning operations
   static async createFederatedJob(config: FederatedJobConfig) {
     const response = await apiRequest("POST", "/api/federated/jobs", config);
@@ -153,13 +434,44 @@ export const {
   uploadDataset,
   getDatasets,
   getDataset,
+  setDatasetSizeColumn,
+  extractJitDataset,
   trainModel,
+  composeEnsemble,
+  getAlgorithmCatalog,
+  getCapabilities,
   getModels,
+  getModel,
+  setModelThreshold,
+  predictModules,
+  predictModulesCsv,
+  deleteModel,
+  getModelFamilies,
+  setModelStage,
+  getModelArtifactUrl,
+  getModelExportUrl,
+  getModelManifestUrl,
+  reproduceModel,
+  importModel,
   getModelExplanation,
+  getRowExplanation,
+  getCounterfactuals,
+  compareModels,
+  startTuning,
+  getTuningStudies,
+  getTuningStudy,
+  startSamplingSweep,
+  getSamplingSweeps,
+  getSamplingSweep,
   createQuantumExperiment,
   getQuantumExperiments,
   createRLAgent,
   getRLAgents,
+  stopRLAgent,
+  getJobs,
+  getJob,
+  getJobLogs,
+  cancelJob,
   createFederatedJob,
   getFederatedJobs,
   getFederatedNodes,
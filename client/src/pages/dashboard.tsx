@@ -10,6 +10,7 @@ import {
 } from "lucide-react";
 
 import PerformanceCharts from "@/components/visualizations/performance-charts";
+import ModelComparison from "@/components/model-comparison";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
@@ -41,7 +42,7 @@ function formatAlgorithmLabel(value: string) {
     return "MLP + Gemini";
   }
   if (value === "neural_network") {
-    return "Ensemble Method";
+    return "Neural Network (MLP)";
   }
   if (value === "ensemble") {
     return "Ensemble";
@@ -388,6 +389,8 @@ export default function Dashboard() {
         </div>
 
         <PerformanceCharts />
+
+        <ModelComparison />
       </div>
     </div>
   );
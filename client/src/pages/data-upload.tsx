@@ -6,6 +6,7 @@ import {
   Database,
   FileText,
   Filter,
+  GitBranch,
   Search,
   ShieldCheck,
   Sparkles,
@@ -22,6 +23,10 @@ import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtimeConnected } from "@/hooks/use-realtime";
+import { extractJitDataset, setDatasetSizeColumn } from "@/lib/api";
+
+const NO_SIZE_COLUMN = "__none__";
 
 type DatasetRecord = {
   id: string;
@@ -31,11 +36,22 @@ type DatasetRecord = {
   columnCount?: number | null;
   uploadedAt?: string | null;
   features?: Record<string, unknown> | null;
+  targetColumn?: string | null;
+  sizeColumn?: string | null;
   dataQuality?: {
     imbalanceRatio?: number | null;
   } | null;
 };
 
+type JitJobRecord = {
+  id: string;
+  status: string;
+  progress?: number | null;
+  error?: string | null;
+  payload?: { repository?: string; revision?: string } | null;
+  createdAt?: string | null;
+};
+
 function suggestDatasetName(fileName: string) {
   return fileName
     .replace(/\.[^/.]+$/, "")
@@ -93,8 +109,64 @@ export default function DataUpload() {
   const [sortBy, setSortBy] = useState("latest");
   const [showProfiledOnly, setShowProfiledOnly] = useState(false);
   const [expandedDatasetId, setExpandedDatasetId] = useState<string | null>(null);
+  const [repositoryPath, setRepositoryPath] = useState("");
+  const [jitName, setJitName] = useState("");
+  const [maxCommits, setMaxCommits] = useState("5000");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const realtimeConnected = useRealtimeConnected();
+
+  const { data: jitJobsData } = useQuery<JitJobRecord[]>({
+    queryKey: ["/api/jobs?type=jit_extraction"],
+    refetchInterval: (query) => {
+      const jobs = query.state.data;
+      return !realtimeConnected &&
+        Array.isArray(jobs) &&
+        jobs.some((job) => job.status === "queued" || job.status === "running")
+        ? 3000
+        : false;
+    },
+  });
+  const jitJobs = (Array.isArray(jitJobsData) ? jitJobsData : []).slice(0, 3);
+
+  const jitMutation = useMutation({
+    mutationFn: () =>
+      extractJitDataset({
+        repositoryPath: repositoryPath.trim(),
+        name: jitName.trim() || undefined,
+        maxCommits: Number(maxCommits) || undefined,
+      }),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Repository mining started; the dataset appears when SZZ labelling finishes",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs?type=jit_extraction"] });
+      setJitName("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start repository mining",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sizeColumnMutation = useMutation({
+    mutationFn: ({ id, sizeColumn }: { id: string; sizeColumn: string | null }) =>
+      setDatasetSizeColumn(id, sizeColumn),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/datasets"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update size column",
+        variant: "destructive",
+      });
+    },
+  });
 
   const { data: datasetsData } = useQuery<DatasetRecord[]>({
     queryKey: ["/api/datasets"],
@@ -493,6 +565,91 @@ export default function DataUpload() {
                 </Button>
               </CardContent>
             </Card>
+
+            <Card className="rounded-[30px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur">
+              <CardHeader className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-amber-50 text-amber-600">
+                    <GitBranch className="h-5 w-5" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-2xl text-slate-950">Mine Git Repository</CardTitle>
+                    <CardDescription className="text-sm text-slate-500">
+                      Build a commit-level (JIT) dataset from a local repository: Kamei change metrics, SZZ bug labels.
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="repository-path" className="text-sm font-medium text-slate-700">
+                    Repository Path
+                  </Label>
+                  <Input
+                    id="repository-path"
+                    placeholder="/srv/repos/project"
+                    value={repositoryPath}
+                    onChange={(e) => setRepositoryPath(e.target.value)}
+                    className="h-12 rounded-2xl border-slate-200 bg-white/90 font-mono text-sm text-slate-950 shadow-sm placeholder:text-slate-400"
+                  />
+                </div>
+                <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_160px]">
+                  <div className="space-y-2">
+                    <Label htmlFor="jit-name" className="text-sm font-medium text-slate-700">
+                      Dataset Name
+                    </Label>
+                    <Input
+                      id="jit-name"
+                      placeholder="Defaults to the repository name"
+                      value={jitName}
+                      onChange={(e) => setJitName(e.target.value)}
+                      className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm placeholder:text-slate-400"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="max-commits" className="text-sm font-medium text-slate-700">
+                      Max Commits
+                    </Label>
+                    <Input
+                      id="max-commits"
+                      type="number"
+                      min={10}
+                      max={20000}
+                      value={maxCommits}
+                      onChange={(e) => setMaxCommits(e.target.value)}
+                      className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm"
+                    />
+                  </div>
+                </div>
+
+                {jitJobs.length > 0 && (
+                  <div className="space-y-2">
+                    {jitJobs.map((job) => (
+                      <div key={job.id} className="rounded-[20px] border border-slate-200 bg-slate-50/70 px-4 py-3">
+                        <div className="flex items-center justify-between gap-3 text-sm">
+                          <span className="truncate font-mono text-slate-700">{job.payload?.repository ?? job.id}</span>
+                          <Badge variant="outline" className="rounded-full border-slate-200 bg-white text-slate-600">
+                            {job.status}
+                          </Badge>
+                        </div>
+                        {(job.status === "queued" || job.status === "running") && (
+                          <Progress value={Math.round((job.progress ?? 0) * 100)} className="mt-2 h-1.5" />
+                        )}
+                        {job.error && <p className="mt-2 text-xs text-rose-600">{job.error}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <Button
+                  onClick={() => jitMutation.mutate()}
+                  disabled={repositoryPath.trim().length === 0 || jitMutation.isPending}
+                  className="h-12 w-full rounded-2xl bg-slate-950 text-white shadow-[0_18px_40px_-24px_rgba(15,23,42,0.6)] hover:bg-slate-800"
+                >
+                  {jitMutation.isPending ? "Starting..." : "Extract Commit Dataset"}
+                </Button>
+              </CardContent>
+            </Card>
           </div>
 
           <Card className="rounded-[30px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur">
@@ -628,6 +785,38 @@ export default function DataUpload() {
                         ) : (
                           <p className="text-sm text-slate-500">No feature metadata available.</p>
                         )}
+                        {featureNames.length > 0 && (
+                          <div className="mt-4 flex flex-wrap items-center gap-3">
+                            <Label className="text-sm font-medium text-slate-700">Size column (effort)</Label>
+                            <Select
+                              value={dataset.sizeColumn ?? NO_SIZE_COLUMN}
+                              onValueChange={(value) =>
+                                sizeColumnMutation.mutate({
+                                  id: dataset.id,
+                                  sizeColumn: value === NO_SIZE_COLUMN ? null : value,
+                                })
+                              }
+                              disabled={sizeColumnMutation.isPending}
+                            >
+                              <SelectTrigger className="h-9 w-48 rounded-xl border-slate-200 bg-white">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NO_SIZE_COLUMN}>None</SelectItem>
+                                {featureNames
+                                  .filter((feature) => feature !== dataset.targetColumn)
+                                  .map((feature) => (
+                                    <SelectItem key={feature} value={feature}>
+                                      {feature}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                            <span className="text-xs text-slate-500">
+                              Enables Popt, ACC@20% and IFA for models trained on this dataset.
+                            </span>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
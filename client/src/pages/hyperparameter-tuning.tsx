@@ -0,0 +1,578 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Play, SlidersHorizontal, Square, Trophy, Workflow } from "lucide-react";
+
+import ParallelCoordinates, {
+  type ParallelTrial,
+  type ParameterSpec,
+} from "@/components/visualizations/parallel-coordinates";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useRealtimeConnected } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+const STRATEGIES = [
+  { value: "tpe", label: "Sequential model-based (TPE)" },
+  { value: "random", label: "Random search" },
+  { value: "grid", label: "Grid search" },
+];
+
+const OBJECTIVES = [
+  { value: "mcc", label: "MCC" },
+  { value: "f1", label: "F1" },
+  { value: "g_mean", label: "G-mean" },
+  { value: "pr_auc", label: "PR-AUC" },
+];
+
+const STATUS_TONES: Record<string, string> = {
+  queued: "bg-slate-100 text-slate-700",
+  running: "bg-blue-50 text-blue-700",
+  completed: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-700",
+  cancelled: "bg-amber-50 text-amber-700",
+};
+
+type SelectOption = { value: string; label: string; disabled?: boolean };
+
+type AlgorithmCatalog = {
+  // nodeEngine: the model the Node engine trains for this algorithm.
+  algorithms: { id: string; label: string; nodeEngine: string }[];
+  samplingTechniques: { id: string; label: string }[];
+};
+
+type Capability = {
+  id: string;
+  usable: boolean;
+  engine: "python" | "node" | null;
+  reason: string | null;
+};
+
+type CapabilityReport = {
+  algorithms: Capability[];
+  samplers: Capability[];
+};
+
+type DatasetRecord = {
+  id: string;
+  name: string;
+};
+
+type JobRecord = {
+  id: string;
+  status: string;
+  resourceId?: string | null;
+  progress?: number | null;
+};
+
+type TuningStudy = {
+  id: string;
+  name: string;
+  algorithm: string;
+  strategy: string;
+  objective: string;
+  budget: number;
+  folds: number;
+  searchSpace: Record<string, ParameterSpec>;
+  status: string;
+  bestTrialId?: string | null;
+  bestScore?: number | null;
+  bestParams?: Record<string, unknown> | null;
+  promotedModelId?: string | null;
+};
+
+type TuningTrial = ParallelTrial & {
+  scores?: Record<string, number | null> | null;
+  status: string;
+  error?: string | null;
+  durationMs?: number | null;
+};
+
+type TuningStudyDetail = TuningStudy & { trials: TuningTrial[] };
+
+function objectiveLabel(value: string) {
+  return OBJECTIVES.find((objective) => objective.value === value)?.label ?? value;
+}
+
+function formatScore(value?: number | null) {
+  return value == null ? "—" : value.toFixed(4);
+}
+
+function formatParam(value: unknown) {
+  if (value === null || value === undefined) return "none";
+  if (typeof value === "number") return String(Number(value.toPrecision(4)));
+  return String(value);
+}
+
+export default function HyperparameterTuning() {
+  const [selectedDataset, setSelectedDataset] = useState("");
+  const [selectedAlgorithm, setSelectedAlgorithm] = useState("random_forest");
+  const [selectedStrategy, setSelectedStrategy] = useState("tpe");
+  const [selectedObjective, setSelectedObjective] = useState("mcc");
+  const [selectedSampling, setSelectedSampling] = useState("smote");
+  const [budget, setBudget] = useState("20");
+  const [folds, setFolds] = useState("5");
+  const [searchSpaceText, setSearchSpaceText] = useState("");
+  const [selectedStudyId, setSelectedStudyId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const realtimeConnected = useRealtimeConnected();
+
+  const { data: datasetsData } = useQuery<DatasetRecord[]>({
+    queryKey: ["/api/datasets"],
+  });
+
+  const { data: catalog } = useQuery<AlgorithmCatalog>({
+    queryKey: ["/api/algorithms"],
+    staleTime: Infinity,
+  });
+  const { data: capabilities } = useQuery<CapabilityReport>({
+    queryKey: ["/api/capabilities"],
+    staleTime: Infinity,
+  });
+  // Trials score the Node engine's own model, so algorithms it stands in for cannot be tuned.
+  const algorithmOptions: SelectOption[] = (catalog?.algorithms ?? []).map((algorithm) => ({
+    value: algorithm.id,
+    label: algorithm.nodeEngine === algorithm.id ? algorithm.label : `${algorithm.label} (not tunable)`,
+    disabled: algorithm.nodeEngine !== algorithm.id,
+  }));
+  const samplingOptions: SelectOption[] = (catalog?.samplingTechniques ?? []).map((technique) => ({
+    value: technique.id,
+    label: technique.label,
+    disabled: capabilities?.samplers.find((capability) => capability.id === technique.id)?.usable === false,
+  }));
+  const tunable = algorithmOptions.some((option) => option.value === selectedAlgorithm && !option.disabled);
+  const promotedEngine = capabilities?.algorithms.find((capability) => capability.id === selectedAlgorithm)?.engine;
+
+  const { data: defaultSpace } = useQuery<{ algorithm: string; searchSpace: Record<string, ParameterSpec> }>({
+    queryKey: [`/api/tuning/search-space?algorithm=${selectedAlgorithm}`],
+    enabled: tunable,
+  });
+
+  useEffect(() => {
+    if (defaultSpace) setSearchSpaceText(JSON.stringify(defaultSpace.searchSpace, null, 2));
+  }, [defaultSpace]);
+
+  const { data: studiesData } = useQuery<TuningStudy[]>({
+    queryKey: ["/api/tuning/studies"],
+    refetchInterval: (query) => {
+      const studies = query.state.data;
+      return !realtimeConnected &&
+        Array.isArray(studies) &&
+        studies.some((study) => study.status === "queued" || study.status === "running")
+        ? 3000
+        : false;
+    },
+  });
+
+  const { data: tuningJobsData } = useQuery<JobRecord[]>({
+    queryKey: ["/api/jobs?type=hyperparameter_tuning"],
+    refetchInterval: (query) => {
+      const jobs = query.state.data;
+      return !realtimeConnected &&
+        Array.isArray(jobs) &&
+        jobs.some((job) => job.status === "queued" || job.status === "running")
+        ? 3000
+        : false;
+    },
+  });
+
+  const studies = Array.isArray(studiesData) ? studiesData : [];
+  const activeStudyId = selectedStudyId ?? studies[0]?.id ?? null;
+
+  const { data: studyDetail } = useQuery<TuningStudyDetail>({
+    queryKey: [`/api/tuning/studies/${activeStudyId}`],
+    enabled: Boolean(activeStudyId),
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return !realtimeConnected && (status === "queued" || status === "running") ? 3000 : false;
+    },
+  });
+
+  const datasets = Array.isArray(datasetsData) ? datasetsData : [];
+  const activeJobsByStudy = new Map(
+    (Array.isArray(tuningJobsData) ? tuningJobsData : [])
+      .filter((job) => job.resourceId && (job.status === "queued" || job.status === "running"))
+      .map((job) => [job.resourceId as string, job])
+  );
+  const completedTrials = (studyDetail?.trials ?? []).filter((trial) => trial.score !== null);
+  const parameterNames = studyDetail ? Object.keys(studyDetail.searchSpace ?? {}) : [];
+
+  const tuneMutation = useMutation({
+    mutationFn: async (config: any) => {
+      const response = await apiRequest("POST", "/api/models/tune", config);
+      return (await response.json()) as TuningStudy;
+    },
+    onSuccess: (study) => {
+      toast({
+        title: "Success",
+        description: "Hyperparameter search started",
+      });
+      setSelectedStudyId(study.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/tuning/studies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs?type=hyperparameter_tuning"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start hyperparameter search",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (jobId: string) => apiRequest("POST", `/api/jobs/${jobId}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tuning/studies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs?type=hyperparameter_tuning"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to cancel tuning job",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTune = () => {
+    if (!selectedDataset) {
+      toast({
+        title: "Error",
+        description: "Please select a dataset",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let searchSpace: Record<string, ParameterSpec>;
+    try {
+      searchSpace = JSON.parse(searchSpaceText);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Search space is not valid JSON",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    tuneMutation.mutate({
+      datasetId: selectedDataset,
+      algorithm: selectedAlgorithm,
+      strategy: selectedStrategy,
+      objective: selectedObjective,
+      budget: Number(budget),
+      folds: Number(folds),
+      searchSpace,
+      hyperparameters: { sampling_technique: selectedSampling },
+    });
+  };
+
+  const selectFields: { label: string; value: string; onChange: (value: string) => void; options: SelectOption[] }[] = [
+    { label: "Algorithm", value: selectedAlgorithm, onChange: setSelectedAlgorithm, options: algorithmOptions },
+    { label: "Search Strategy", value: selectedStrategy, onChange: setSelectedStrategy, options: STRATEGIES },
+    { label: "Optimise For", value: selectedObjective, onChange: setSelectedObjective, options: OBJECTIVES },
+    { label: "Sampling", value: selectedSampling, onChange: setSelectedSampling, options: samplingOptions },
+  ];
+
+  return (
+    <div className="px-6 py-8 lg:px-10">
+      <div className="mx-auto flex max-w-7xl flex-col gap-8">
+        <Card className="overflow-hidden rounded-[32px] border-slate-200/80 bg-[linear-gradient(135deg,#ffffff_0%,#f9fbff_45%,#eef5ff_100%)] shadow-[0_24px_70px_-36px_rgba(15,23,42,0.35)]">
+          <CardContent className="p-8 lg:p-10">
+            <Badge className="rounded-full bg-slate-950 px-3 py-1 text-white hover:bg-slate-950">Tuning Lab</Badge>
+            <div className="mt-6 space-y-3">
+              <h1 className="text-4xl font-semibold tracking-tight text-slate-950 lg:text-5xl">
+                Hyperparameter Search
+              </h1>
+              <p className="max-w-3xl text-base leading-7 text-slate-600">
+                Every trial is scored with stratified cross-validation on the training split, so the holdout stays
+                untouched until the best configuration is trained as a regular model.
+              </p>
+            </div>
+            <div className="mt-6 grid gap-4 sm:grid-cols-3">
+              <div className="rounded-[24px] border border-white/80 bg-white/80 p-4 shadow-sm backdrop-blur">
+                <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Studies</div>
+                <div className="mt-2 text-2xl font-semibold text-slate-950">{studies.length}</div>
+              </div>
+              <div className="rounded-[24px] border border-white/80 bg-white/80 p-4 shadow-sm backdrop-blur">
+                <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Scored Trials</div>
+                <div className="mt-2 text-2xl font-semibold text-slate-950">{completedTrials.length}</div>
+              </div>
+              <div className="rounded-[24px] border border-white/80 bg-white/80 p-4 shadow-sm backdrop-blur">
+                <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Best Score</div>
+                <div className="mt-2 text-2xl font-semibold text-slate-950">
+                  {studyDetail ? `${objectiveLabel(studyDetail.objective)} ${formatScore(studyDetail.bestScore)}` : "—"}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_minmax(360px,0.9fr)]">
+          <Card className="rounded-[30px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur">
+            <CardHeader className="space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-blue-50 text-blue-600">
+                  <SlidersHorizontal className="h-5 w-5" />
+                </div>
+                <div>
+                  <CardTitle className="text-2xl text-slate-950">Search Configuration</CardTitle>
+                  <CardDescription className="text-sm text-slate-500">
+                    Define the space, the strategy and the metric to maximise.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-slate-700">Dataset</Label>
+                <Select value={selectedDataset} onValueChange={setSelectedDataset}>
+                  <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                    <SelectValue placeholder="Select dataset" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {datasets.map((dataset) => (
+                      <SelectItem key={dataset.id} value={dataset.id}>
+                        {dataset.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                {selectFields.map((field) => (
+                  <div key={field.label} className="space-y-2">
+                    <Label className="text-sm font-medium text-slate-700">{field.label}</Label>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {field.options.map((option) => (
+                          <SelectItem key={option.value} value={option.value} disabled={option.disabled}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500">
+                Trials are scored with the Node engine, so only the algorithms it implements can be tuned; the
+                others would be scored on its stand-in model, whose parameters do not carry over.
+                {promotedEngine &&
+                  ` The best configuration trains on the ${promotedEngine === "python" ? "Python backend" : "Node engine"}.`}
+              </p>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-slate-700">Trial Budget</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={200}
+                    value={budget}
+                    onChange={(event) => setBudget(event.target.value)}
+                    className="h-12 rounded-2xl border-slate-200 bg-white/90"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-slate-700">CV Folds</Label>
+                  <Input
+                    type="number"
+                    min={2}
+                    max={10}
+                    value={folds}
+                    onChange={(event) => setFolds(event.target.value)}
+                    className="h-12 rounded-2xl border-slate-200 bg-white/90"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-slate-700">Search Space (JSON)</Label>
+                <Textarea
+                  value={searchSpaceText}
+                  onChange={(event) => setSearchSpaceText(event.target.value)}
+                  rows={10}
+                  className="rounded-2xl border-slate-200 bg-slate-50/80 font-mono text-xs"
+                />
+                <p className="text-xs text-slate-500">
+                  Each parameter is {"{ type: \"int\" | \"float\", low, high, log? }"} or{" "}
+                  {"{ type: \"categorical\", values: [...] }"}. Grid search uses three points per numeric axis.
+                </p>
+              </div>
+
+              <Button
+                onClick={handleTune}
+                disabled={tuneMutation.isPending || !tunable}
+                className="h-12 w-full rounded-2xl bg-slate-950 text-white hover:bg-slate-800"
+              >
+                <Play className="mr-2 h-4 w-4" />
+                {tuneMutation.isPending ? "Starting..." : "Start Search"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="rounded-[30px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur">
+            <CardHeader className="space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-emerald-50 text-emerald-600">
+                  <Workflow className="h-5 w-5" />
+                </div>
+                <div>
+                  <CardTitle className="text-2xl text-slate-950">Studies</CardTitle>
+                  <CardDescription className="text-sm text-slate-500">
+                    Select a study to inspect its trials.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {studies.length === 0 && (
+                <div className="rounded-2xl border border-dashed border-slate-200 px-4 py-8 text-center text-sm text-slate-500">
+                  No hyperparameter searches yet.
+                </div>
+              )}
+              {studies.map((study) => {
+                const activeJob = activeJobsByStudy.get(study.id);
+                return (
+                  <div
+                    key={study.id}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => setSelectedStudyId(study.id)}
+                    onKeyDown={(event) => event.key === "Enter" && setSelectedStudyId(study.id)}
+                    className={`cursor-pointer rounded-[22px] border p-4 transition ${
+                      study.id === activeStudyId ? "border-slate-950 bg-slate-50" : "border-slate-100 bg-white"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="truncate text-sm font-semibold text-slate-950">{study.name}</div>
+                        <div className="mt-1 text-xs text-slate-500">
+                          {study.budget} trials · {objectiveLabel(study.objective)} · best {formatScore(study.bestScore)}
+                        </div>
+                      </div>
+                      <Badge className={`rounded-full ${STATUS_TONES[study.status] ?? STATUS_TONES.queued}`}>
+                        {study.status}
+                      </Badge>
+                    </div>
+                    {activeJob && (
+                      <div className="mt-3 flex items-center gap-3">
+                        <Progress value={(activeJob.progress ?? 0) * 100} className="h-2 flex-1" />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-8 rounded-xl"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            cancelMutation.mutate(activeJob.id);
+                          }}
+                        >
+                          <Square className="mr-1 h-3 w-3" />
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+
+        {studyDetail && (
+          <Card className="rounded-[30px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur">
+            <CardHeader className="space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-amber-50 text-amber-600">
+                  <Trophy className="h-5 w-5" />
+                </div>
+                <div>
+                  <CardTitle className="text-2xl text-slate-950">{studyDetail.name}</CardTitle>
+                  <CardDescription className="text-sm text-slate-500">
+                    {STRATEGIES.find((strategy) => strategy.value === studyDetail.strategy)?.label} ·{" "}
+                    {studyDetail.folds}-fold CV · best trial highlighted in amber
+                    {studyDetail.promotedModelId ? " · best configuration promoted to Model Training" : ""}
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <ParallelCoordinates
+                searchSpace={studyDetail.searchSpace}
+                trials={studyDetail.trials}
+                objectiveLabel={objectiveLabel(studyDetail.objective)}
+                bestTrialId={studyDetail.bestTrialId}
+              />
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-left text-xs uppercase tracking-[0.14em] text-slate-400">
+                      <th className="py-2 pr-4">#</th>
+                      {parameterNames.map((name) => (
+                        <th key={name} className="py-2 pr-4">
+                          {name}
+                        </th>
+                      ))}
+                      {OBJECTIVES.map((objective) => (
+                        <th key={objective.value} className="py-2 pr-4 text-right">
+                          {objective.label}
+                        </th>
+                      ))}
+                      <th className="py-2 pr-4 text-right">Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {studyDetail.trials.map((trial) => (
+                      <tr
+                        key={trial.id}
+                        className={`border-b border-slate-100 ${
+                          trial.id === studyDetail.bestTrialId ? "bg-amber-50/70 font-semibold" : ""
+                        }`}
+                        title={trial.error ?? undefined}
+                      >
+                        <td className="py-2 pr-4 text-slate-500">{trial.number}</td>
+                        {parameterNames.map((name) => (
+                          <td key={name} className="py-2 pr-4 tabular-nums text-slate-700">
+                            {formatParam(trial.params[name])}
+                          </td>
+                        ))}
+                        {OBJECTIVES.map((objective) => (
+                          <td
+                            key={objective.value}
+                            className={`py-2 pr-4 text-right tabular-nums ${
+                              objective.value === studyDetail.objective ? "text-slate-950" : "text-slate-500"
+                            }`}
+                          >
+                            {trial.status === "failed" ? "failed" : formatScore(trial.scores?.[objective.value])}
+                          </td>
+                        ))}
+                        <td className="py-2 pr-4 text-right tabular-nums text-slate-500">
+                          {trial.durationMs != null ? `${(trial.durationMs / 1000).toFixed(1)}s` : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
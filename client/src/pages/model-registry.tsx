@@ -0,0 +1,409 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Archive, Boxes, Download, FileUp, Repeat, Rocket, Trash2, Undo2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { type ModelExportFormat, getModelExportUrl, getModelManifestUrl, importModel, reproduceModel } from "@/lib/api";
+import { apiRequest } from "@/lib/queryClient";
+
+type ModelStage = "staging" | "production" | "archived";
+
+type ModelVersion = {
+  id: string;
+  name: string;
+  algorithm: string;
+  version: string;
+  stage: ModelStage;
+  trainingStatus: string | null;
+  metricProvenance: string | null;
+  f1Score: number | null;
+  mcc: number | null;
+  aucRoc: number | null;
+  configHash: string | null;
+  createdAt: string | null;
+};
+
+type MetricComparison = {
+  metric: string;
+  recorded: number | null;
+  reproduced: number | null;
+  difference: number | null;
+  matches: boolean;
+};
+
+type ReproductionJob = {
+  id: string;
+  status: string;
+  error: string | null;
+  result: {
+    configHashMatches: boolean;
+    engine: { recorded: string; reproduced: string };
+    tolerance: number;
+    metrics: MetricComparison[];
+    environmentChanges: { field: string; recorded: string | null; current: string | null }[];
+    reproduced: boolean;
+  } | null;
+};
+
+type ModelFamily = {
+  family: string;
+  productionId: string | null;
+  latestVersion: string;
+  versions: ModelVersion[];
+};
+
+const STAGE_TONES: Record<ModelStage, string> = {
+  staging: "bg-blue-50 text-blue-700",
+  production: "bg-emerald-50 text-emerald-700",
+  archived: "bg-slate-100 text-slate-600",
+};
+
+const EXPORT_FORMATS: { value: ModelExportFormat; label: string }[] = [
+  { value: "onnx", label: "ONNX" },
+  { value: "pmml", label: "PMML" },
+  { value: "json", label: "JSON" },
+];
+
+const formatMetric = (value: number | null) => (value === null || value === undefined ? "—" : value.toFixed(3));
+
+function ReproductionResult({ jobId }: { jobId: string }) {
+  const { data: job } = useQuery<ReproductionJob>({
+    queryKey: [`/api/jobs/${jobId}`],
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "queued" || status === "running" ? 3000 : false;
+    },
+  });
+
+  if (!job || job.status === "queued" || job.status === "running") {
+    return <div className="w-full text-xs text-slate-500">Reproducing from the run manifest...</div>;
+  }
+  if (!job.result) {
+    return <div className="w-full text-xs text-red-600">Reproduction {job.status}{job.error ? `: ${job.error}` : ""}</div>;
+  }
+
+  const report = job.result;
+  return (
+    <div className="w-full space-y-2 rounded-2xl border border-slate-100 bg-slate-50/70 p-3 text-xs text-slate-600">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge className={`rounded-full ${report.reproduced ? "bg-emerald-50 text-emerald-700" : "bg-amber-50 text-amber-700"}`}>
+          {report.reproduced ? "Reproduced" : "Not reproduced"}
+        </Badge>
+        <span>
+          tolerance {report.tolerance} · engine {report.engine.recorded}
+          {report.engine.reproduced !== report.engine.recorded ? ` → ${report.engine.reproduced}` : ""}
+          {report.configHashMatches ? "" : " · config hash differs"}
+        </span>
+      </div>
+      <table className="w-full text-left font-mono">
+        <thead className="text-slate-400">
+          <tr>
+            <th className="py-1 font-medium">Metric</th>
+            <th className="py-1 font-medium">Recorded</th>
+            <th className="py-1 font-medium">Reproduced</th>
+            <th className="py-1 font-medium">Δ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.metrics.map((comparison) => (
+            <tr key={comparison.metric} className={comparison.matches ? "" : "text-red-600"}>
+              <td className="py-0.5">{comparison.metric}</td>
+              <td className="py-0.5">{formatMetric(comparison.recorded)}</td>
+              <td className="py-0.5">{formatMetric(comparison.reproduced)}</td>
+              <td className="py-0.5">{comparison.difference === null ? "—" : comparison.difference.toExponential(1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {report.environmentChanges.length > 0 && (
+        <div>
+          Environment changed since the run:{" "}
+          {report.environmentChanges
+            .map((change) => `${change.field} ${change.recorded ?? "none"} → ${change.current ?? "none"}`)
+            .join(", ")}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ModelRegistry() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [reproductions, setReproductions] = useState<Record<string, string>>({});
+
+  const { data: familiesData } = useQuery<ModelFamily[]>({
+    queryKey: ["/api/registry/families"],
+  });
+  const families = familiesData ?? [];
+  const versionCount = families.reduce((sum, family) => sum + family.versions.length, 0);
+  const productionCount = families.filter((family) => family.productionId).length;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/registry/families"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+  };
+
+  const stageMutation = useMutation({
+    mutationFn: async ({ id, stage }: { id: string; stage: ModelStage }) =>
+      (await apiRequest("POST", `/api/models/${id}/stage`, { stage })).json(),
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change model stage",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => (await apiRequest("DELETE", `/api/models/${id}`)).json(),
+    onSuccess: () => {
+      toast({ title: "Success", description: "Model version deleted" });
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete model",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reproduceMutation = useMutation({
+    mutationFn: async (id: string) => reproduceModel(id),
+    onSuccess: (response: { jobId: string }, id) => {
+      setReproductions((current) => ({ ...current, [id]: response.jobId }));
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start reproduction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => importModel(file),
+    onSuccess: (model: { family: string; version: string }) => {
+      toast({ title: "Success", description: `Imported as ${model.family} v${model.version}` });
+      setImportFile(null);
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import model",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="px-6 py-8 lg:px-10">
+      <div className="mx-auto flex max-w-7xl flex-col gap-8">
+        <Card className="overflow-hidden rounded-[32px] border-slate-200/80 bg-[linear-gradient(135deg,#ffffff_0%,#f9fbff_45%,#eef5ff_100%)] shadow-[0_24px_70px_-36px_rgba(15,23,42,0.35)]">
+          <CardContent className="p-8 lg:p-10">
+            <Badge className="rounded-full bg-slate-950 px-3 py-1 text-white hover:bg-slate-950">Registry</Badge>
+            <div className="mt-6 space-y-3">
+              <h1 className="text-4xl font-semibold tracking-tight text-slate-950 lg:text-5xl">Model Registry</h1>
+              <p className="max-w-3xl text-base leading-7 text-slate-600">
+                Trained models are grouped into families and versioned as they are retrained. Predictions that name a
+                family use its production version, so promoting a new version switches them over.
+              </p>
+            </div>
+            <div className="mt-6 flex flex-wrap items-center gap-3">
+              <Input
+                type="file"
+                accept=".json"
+                onChange={(event) => setImportFile(event.target.files?.[0] ?? null)}
+                className="h-10 max-w-xs rounded-2xl border-slate-200 bg-white/90"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-10 rounded-2xl"
+                disabled={!importFile || importMutation.isPending}
+                onClick={() => importFile && importMutation.mutate(importFile)}
+              >
+                <FileUp className="mr-2 h-4 w-4" />
+                {importMutation.isPending ? "Importing..." : "Import JSON model"}
+              </Button>
+              <p className="w-full text-xs text-slate-500">
+                Models exported as JSON from any instance register as a new version of their family.
+              </p>
+            </div>
+            <div className="mt-6 grid gap-4 sm:grid-cols-3">
+              <div className="rounded-[24px] border border-white/80 bg-white/80 p-4 shadow-sm backdrop-blur">
+                <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Families</div>
+                <div className="mt-2 text-2xl font-semibold text-slate-950">{families.length}</div>
+              </div>
+              <div className="rounded-[24px] border border-white/80 bg-white/80 p-4 shadow-sm backdrop-blur">
+                <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Versions</div>
+                <div className="mt-2 text-2xl font-semibold text-slate-950">{versionCount}</div>
+              </div>
+              <div className="rounded-[24px] border border-white/80 bg-white/80 p-4 shadow-sm backdrop-blur">
+                <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">In Production</div>
+                <div className="mt-2 text-2xl font-semibold text-slate-950">{productionCount}</div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {families.length === 0 && (
+          <div className="rounded-2xl border border-dashed border-slate-200 px-4 py-8 text-center text-sm text-slate-500">
+            No models registered yet. Train a model to create its first version.
+          </div>
+        )}
+
+        {families.map((family) => (
+          <Card
+            key={family.family}
+            className="rounded-[30px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur"
+          >
+            <CardHeader className="space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-blue-50 text-blue-600">
+                  <Boxes className="h-5 w-5" />
+                </div>
+                <div>
+                  <CardTitle className="text-2xl text-slate-950">{family.family}</CardTitle>
+                  <CardDescription className="text-sm text-slate-500">
+                    {family.versions.length} version{family.versions.length === 1 ? "" : "s"} · latest{" "}
+                    {family.latestVersion}
+                    {family.productionId
+                      ? ` · production ${family.versions.find((version) => version.id === family.productionId)?.version}`
+                      : " · no production version"}
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {family.versions.map((version) => {
+                const busy = stageMutation.isPending || deleteMutation.isPending;
+                return (
+                  <div
+                    key={version.id}
+                    className="flex flex-wrap items-center justify-between gap-3 rounded-[22px] border border-slate-100 bg-white p-4"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm font-semibold text-slate-950">v{version.version}</span>
+                        <Badge className={`rounded-full ${STAGE_TONES[version.stage] ?? STAGE_TONES.staging}`}>
+                          {version.stage}
+                        </Badge>
+                        {version.trainingStatus !== "completed" && (
+                          <Badge variant="outline" className="rounded-full">
+                            {version.trainingStatus}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="mt-1 truncate text-xs text-slate-500">
+                        {version.name} · F1 {formatMetric(version.f1Score)} · MCC {formatMetric(version.mcc)} · AUC{" "}
+                        {formatMetric(version.aucRoc)}
+                        {version.configHash ? ` · config ${version.configHash.slice(0, 12)}` : ""}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {version.stage !== "production" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-8 rounded-xl"
+                          disabled={busy || version.trainingStatus !== "completed"}
+                          onClick={() => stageMutation.mutate({ id: version.id, stage: "production" })}
+                        >
+                          <Rocket className="mr-1 h-3 w-3" />
+                          Promote
+                        </Button>
+                      )}
+                      {version.stage === "archived" ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-8 rounded-xl"
+                          disabled={busy}
+                          onClick={() => stageMutation.mutate({ id: version.id, stage: "staging" })}
+                        >
+                          <Undo2 className="mr-1 h-3 w-3" />
+                          Restore
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-8 rounded-xl"
+                          disabled={busy}
+                          onClick={() => stageMutation.mutate({ id: version.id, stage: "archived" })}
+                        >
+                          <Archive className="mr-1 h-3 w-3" />
+                          Archive
+                        </Button>
+                      )}
+                      {version.trainingStatus === "completed" && (
+                        <Button asChild size="sm" variant="outline" className="h-8 rounded-xl">
+                          <a href={`/api/models/${version.id}/artifact`} download>
+                            <Download className="mr-1 h-3 w-3" />
+                            Artifact
+                          </a>
+                        </Button>
+                      )}
+                      {version.trainingStatus === "completed" &&
+                        EXPORT_FORMATS.map((format) => (
+                          <Button key={format.value} asChild size="sm" variant="outline" className="h-8 rounded-xl">
+                            <a href={getModelExportUrl(version.id, format.value)} download>
+                              <Download className="mr-1 h-3 w-3" />
+                              {format.label}
+                            </a>
+                          </Button>
+                        ))}
+                      {version.configHash && (
+                        <Button asChild size="sm" variant="outline" className="h-8 rounded-xl">
+                          <a href={getModelManifestUrl(version.id)} download>
+                            <Download className="mr-1 h-3 w-3" />
+                            Manifest
+                          </a>
+                        </Button>
+                      )}
+                      {version.configHash && version.trainingStatus === "completed" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-8 rounded-xl"
+                          disabled={reproduceMutation.isPending}
+                          onClick={() => reproduceMutation.mutate(version.id)}
+                        >
+                          <Repeat className="mr-1 h-3 w-3" />
+                          Reproduce
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8 rounded-xl text-red-600"
+                        disabled={busy || version.stage === "production"}
+                        onClick={() => deleteMutation.mutate(version.id)}
+                      >
+                        <Trash2 className="mr-1 h-3 w-3" />
+                        Delete
+                      </Button>
+                    </div>
+                    {reproductions[version.id] && <ReproductionResult jobId={reproductions[version.id]} />}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,59 +1,223 @@
 import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { BarChart3, Brain, Play, Settings, Sparkles, Target } from "lucide-react";
+import { BarChart3, Brain, Layers, Play, RefreshCw, Settings, SlidersHorizontal, Sparkles, Target } from "lucide-react";
+
+import HyperparameterForm, {
+  type HyperparameterField,
+  type HyperparameterInputs,
+  toHyperparameters,
+} from "@/components/hyperparameter-form";
+import ModelDetail, { CALIBRATION_METHODS } from "@/components/model-detail";
+import { THRESHOLD_STRATEGIES } from "@/components/threshold-tuner";
 
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useRealtimeConnected } from "@/hooks/use-realtime";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 
-const ALGORITHMS = [
-  { value: "ensemble", label: "Ensemble" },
-  { value: "xgboost", label: "XGBoost" },
-  { value: "neural_network", label: "Ensemble Method" },
-  { value: "svm", label: "Support Vector Machine" },
-  { value: "random_forest", label: "Random Forest" },
-  { value: "mlp_gemini", label: "MLP + Gemini" },
+const VALIDATION_STRATEGIES = [
+  { value: "stratified_kfold", label: "Stratified 5-fold CV" },
+  { value: "repeated_stratified_kfold", label: "Repeated stratified 10x10 CV" },
+  { value: "bootstrap", label: "Out-of-sample bootstrap (100)" },
+];
+
+const TRANSFER_METHODS = [
+  { value: "zscore", label: "Per-project z-score" },
+  { value: "burak", label: "Burak nearest-neighbour filter" },
+  { value: "peters", label: "Peters filter" },
+  { value: "tca", label: "Transfer Component Analysis" },
+  { value: "none", label: "Pooled sources, no transfer" },
 ];
 
-const SAMPLING_TECHNIQUES = [
-  { value: "none", label: "No Sampling" },
-  { value: "smote", label: "SMOTE" },
-  { value: "adasyn", label: "ADASYN" },
-  { value: "borderline_smote", label: "Borderline SMOTE" },
-  { value: "random_undersample", label: "Random Undersampling" },
+const ENSEMBLE_METHODS = [
+  { value: "soft_voting", label: "Soft voting" },
+  { value: "weighted_voting", label: "Weighted voting" },
+  { value: "stacking", label: "Stacking (logistic meta-learner)" },
+];
+
+// Minority-to-majority class ratio below which accuracy stops being the headline number,
+// the "moderate imbalance" band of the dataset quality view.
+const IMBALANCED_RATIO = 0.4;
+
+const SUMMARY_METRICS = [
+  { key: "aucRoc", label: "AUC" },
+  { key: "f1Score", label: "F1" },
+  { key: "mcc", label: "MCC" },
+  { key: "recall", label: "Recall" },
+  { key: "precision", label: "Precision" },
+  { key: "balancedAccuracy", label: "Balanced acc." },
+  { key: "gMean", label: "G-mean" },
+  { key: "prAuc", label: "PR-AUC" },
+  { key: "pf", label: "pf" },
+] as const;
+
+const METRIC_MODES = [
+  { value: "measured", label: "Measured (cite-able)" },
+  { value: "simulated", label: "Simulated demo profile" },
 ];
 
+const PROVENANCE_LABELS: Record<string, { label: string; tone: string }> = {
+  measured: { label: "Measured", tone: "bg-emerald-50 text-emerald-700" },
+  baseline: { label: "Node baseline", tone: "bg-amber-50 text-amber-700" },
+  simulated: { label: "Simulated", tone: "bg-slate-200 text-slate-700" },
+};
+
+type Documentation = {
+  name: string;
+  description: string;
+  strengths?: string[];
+  weaknesses?: string[];
+  pros?: string[];
+  cons?: string[];
+};
+
+type AlgorithmCatalog = {
+  algorithms: {
+    id: string;
+    label: string;
+    parameters: HyperparameterField[];
+    documentation: Documentation | null;
+  }[];
+  samplingTechniques: { id: string; label: string; documentation: Documentation | null }[];
+};
+
+type Capability = {
+  id: string;
+  label: string;
+  usable: boolean;
+  engine: "python" | "node" | null;
+  missing: string[];
+  reason: string | null;
+};
+
+type CapabilityReport = {
+  python: { version: string; implementation: string } | null;
+  backend: Capability;
+  algorithms: Capability[];
+  samplers: Capability[];
+};
+
 type DatasetRecord = {
   id: string;
   name: string;
   rowCount?: number | null;
+  dataQuality?: { imbalanceRatio?: number | null } | null;
+};
+
+type ClassCounts = Record<"0" | "1", number>;
+
+type ResamplingPreview = {
+  technique: string;
+  kNeighbors: number;
+  targetRatio: number;
+  before: ClassCounts;
+  after: ClassCounts;
+  synthetic: ClassCounts;
+  removed: ClassCounts;
+  notes: string[];
+};
+
+type JobRecord = {
+  id: string;
+  status: string;
+  resourceId?: string | null;
+  progress?: number | null;
+};
+
+type MetricSummary = {
+  mean: number;
+  std: number;
+  ciLower: number;
+  ciUpper: number;
+  n: number;
+};
+
+type ValidationSummary = {
+  strategy: string;
+  evaluations: number;
+  intervalMethod: string;
+  metrics: Record<string, MetricSummary | null>;
+};
+
+type CrossProjectReport = {
+  transfer: string;
+  sources?: { datasetId: string; name: string }[];
+  target?: { name: string; labelled: boolean };
+  predictedDefects?: number;
+};
+
+type EnsembleReport = {
+  method: string;
+  members: { modelId: string; name: string; version?: string | null; weight?: number | null }[];
 };
 
 type ModelRecord = {
   id: string;
   name: string;
   algorithm: string;
+  datasetId?: string | null;
+  family?: string | null;
+  version?: string | null;
+  stage?: string | null;
   trainingStatus?: string | null;
   accuracy?: number | null;
   f1Score?: number | null;
   precision?: number | null;
   recall?: number | null;
+  balancedAccuracy?: number | null;
+  gMean?: number | null;
+  prAuc?: number | null;
+  pf?: number | null;
+  metricProvenance?: string | null;
+  validationSummary?: ValidationSummary | null;
+  decisionThreshold?: number | null;
+  brierScore?: number | null;
+  crossProject?: CrossProjectReport | null;
+  ensemble?: EnsembleReport | null;
 };
 
+type MetricTile = {
+  key: "f1Score" | "accuracy" | "precision" | "recall" | "balancedAccuracy" | "gMean" | "prAuc" | "pf";
+  label: string;
+  percent: boolean;
+};
+
+const BALANCED_TILES: MetricTile[] = [
+  { key: "f1Score", label: "F1 Score", percent: true },
+  { key: "accuracy", label: "Accuracy", percent: true },
+  { key: "precision", label: "Precision", percent: true },
+  { key: "recall", label: "Recall", percent: true },
+];
+
+const IMBALANCED_TILES: MetricTile[] = [
+  { key: "balancedAccuracy", label: "Balanced Accuracy", percent: true },
+  { key: "gMean", label: "G-Mean", percent: false },
+  { key: "prAuc", label: "PR-AUC", percent: false },
+  { key: "f1Score", label: "F1 Score", percent: true },
+  { key: "recall", label: "Recall (pd)", percent: true },
+  { key: "pf", label: "False Alarm (pf)", percent: true },
+];
+
 function formatAlgorithmLabel(value: string) {
   if (value === "mlp_gemini") {
     return "MLP + Gemini";
   }
   if (value === "neural_network") {
-    return "Ensemble Method";
+    return "Neural Network (MLP)";
   }
   if (value === "ensemble") {
     return "Ensemble";
   }
+  const ensembleMethod = ENSEMBLE_METHODS.find((method) => `${method.value}_ensemble` === value);
+  if (ensembleMethod) {
+    return `${ensembleMethod.label} ensemble`;
+  }
   return value
     .split("_")
     .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
@@ -63,28 +227,107 @@ function formatAlgorithmLabel(value: string) {
 export default function ModelTraining() {
   const [selectedDataset, setSelectedDataset] = useState("");
   const [selectedAlgorithm, setSelectedAlgorithm] = useState("");
+  const [algorithmInputs, setAlgorithmInputs] = useState<HyperparameterInputs>({});
   const [selectedSampling, setSelectedSampling] = useState("smote");
+  const [kNeighbors, setKNeighbors] = useState("5");
+  const [targetRatio, setTargetRatio] = useState("1");
+  const [resamplingPreview, setResamplingPreview] = useState<ResamplingPreview | null>(null);
+  const [selectedMetricsMode, setSelectedMetricsMode] = useState("measured");
+  const [selectedValidation, setSelectedValidation] = useState("stratified_kfold");
+  const [selectedThreshold, setSelectedThreshold] = useState("fixed");
+  const [costRatio, setCostRatio] = useState("5");
+  const [selectedCalibration, setSelectedCalibration] = useState("none");
+  const [modelFamily, setModelFamily] = useState("");
+  const [sourceDatasets, setSourceDatasets] = useState<string[]>([]);
+  const [transferMethod, setTransferMethod] = useState("zscore");
+  const [detailModelId, setDetailModelId] = useState<string | null>(null);
+  const [ensembleMembers, setEnsembleMembers] = useState<string[]>([]);
+  const [ensembleMethod, setEnsembleMethod] = useState("soft_voting");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  // Pushed events refresh these queries; polling is only the fallback while disconnected.
+  const realtimeConnected = useRealtimeConnected();
 
   const { data: datasetsData } = useQuery<DatasetRecord[]>({
     queryKey: ["/api/datasets"],
   });
 
+  const { data: catalog } = useQuery<AlgorithmCatalog>({
+    queryKey: ["/api/algorithms"],
+    staleTime: Infinity,
+  });
+  const algorithms = catalog?.algorithms ?? [];
+  const samplingTechniques = catalog?.samplingTechniques ?? [];
+  const algorithmSpec = algorithms.find((algorithm) => algorithm.id === selectedAlgorithm);
+  const samplingDocumentation = samplingTechniques.find((technique) => technique.id === selectedSampling)?.documentation;
+
+  const { data: capabilities } = useQuery<CapabilityReport>({
+    queryKey: ["/api/capabilities"],
+    staleTime: Infinity,
+  });
+  const algorithmCapability = capabilities?.algorithms.find((capability) => capability.id === selectedAlgorithm);
+  const samplerCapability = capabilities?.samplers.find((capability) => capability.id === selectedSampling);
+
   const { data: modelsData } = useQuery<ModelRecord[]>({
     queryKey: ["/api/models"],
+    refetchInterval: (query) => {
+      const records = query.state.data;
+      return !realtimeConnected &&
+        Array.isArray(records) &&
+        records.some((model) => model.trainingStatus === "pending" || model.trainingStatus === "training")
+        ? 3000
+        : false;
+    },
+  });
+
+  const { data: trainingJobsData } = useQuery<JobRecord[]>({
+    queryKey: ["/api/jobs?type=model_training"],
+    refetchInterval: (query) => {
+      const jobs = query.state.data;
+      return !realtimeConnected &&
+        Array.isArray(jobs) &&
+        jobs.some((job) => job.status === "queued" || job.status === "running")
+        ? 3000
+        : false;
+    },
   });
 
   const datasets = Array.isArray(datasetsData) ? datasetsData : [];
+  const activeJobsByModel = new Map(
+    (Array.isArray(trainingJobsData) ? trainingJobsData : [])
+      .filter((job) => job.resourceId && (job.status === "queued" || job.status === "running"))
+      .map((job) => [job.resourceId as string, job])
+  );
   const models = Array.isArray(modelsData) ? modelsData : [];
   const completedModels = models.filter((model) => model.trainingStatus === "completed");
-  const bestAccuracy =
-    completedModels.length > 0
-      ? Math.max(...completedModels.map((model) => model.accuracy ?? 0))
+  const measuredModels = completedModels.filter((model) => model.metricProvenance !== "simulated");
+  const imbalanceByDataset = new Map(datasets.map((dataset) => [dataset.id, dataset.dataQuality?.imbalanceRatio]));
+  const isImbalanced = (model: ModelRecord) => {
+    const ratio = model.datasetId ? imbalanceByDataset.get(model.datasetId) : null;
+    return typeof ratio === "number" && ratio < IMBALANCED_RATIO;
+  };
+  // Accuracy rewards predicting "clean" on imbalanced data, so those workspaces lead with balanced accuracy.
+  const headlineBalanced = measuredModels.some(isImbalanced);
+  const bestHeadline =
+    measuredModels.length > 0
+      ? Math.max(
+          ...measuredModels.map((model) => (headlineBalanced ? model.balancedAccuracy : model.accuracy) ?? 0)
+        )
       : 0;
 
-  const selectedAlgorithmLabel =
-    ALGORITHMS.find((algorithm) => algorithm.value === selectedAlgorithm)?.label ?? "Choose algorithm";
+  // Members must come from one dataset; the first pick fixes it. Only Node engine models
+  // qualify: composing refits every member on the combiner's folds, which a pickled
+  // Python model cannot be.
+  const ensembleDatasetId = models.find((model) => model.id === ensembleMembers[0])?.datasetId ?? null;
+  const isEnsembleCandidate = (model: ModelRecord) =>
+    model.trainingStatus === "completed" &&
+    !model.crossProject &&
+    !model.ensemble &&
+    (!ensembleDatasetId || model.datasetId === ensembleDatasetId);
+  const canJoinEnsemble = (model: ModelRecord) => isEnsembleCandidate(model) && model.metricProvenance === "baseline";
+  const isPythonModel = (model: ModelRecord) => model.metricProvenance === "measured";
+
+  const selectedAlgorithmLabel = algorithmSpec?.label ?? "Choose algorithm";
 
   const trainMutation = useMutation({
     mutationFn: async (config: any) => {
@@ -96,11 +339,82 @@ export default function ModelTraining() {
         description: "Model training started successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs?type=model_training"] });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start model training",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const ensembleMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", "/api/models/ensemble", { memberIds: ensembleMembers, method: ensembleMethod }),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Ensemble composition started",
+      });
+      setEnsembleMembers([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs?type=model_training"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to compose ensemble",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/datasets/${selectedDataset}/resample-preview`, {
+        technique: selectedSampling,
+        kNeighbors: Number(kNeighbors),
+        targetRatio: Number(targetRatio),
+      });
+      return (await response.json()) as ResamplingPreview;
+    },
+    onSuccess: (preview) => setResamplingPreview(preview),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to preview resampling",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const capabilityMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", "/api/capabilities?refresh=true");
+      return (await response.json()) as CapabilityReport;
+    },
+    onSuccess: (report) => queryClient.setQueryData(["/api/capabilities"], report),
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to start model training",
+        description: "Failed to probe the Python environment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (jobId: string) => apiRequest("POST", `/api/jobs/${jobId}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs?type=model_training"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to cancel training job",
         variant: "destructive",
       });
     },
@@ -115,15 +429,35 @@ export default function ModelTraining() {
       });
       return;
     }
+    const algorithmParameters = toHyperparameters(algorithmSpec?.parameters ?? [], algorithmInputs);
+    if (Object.keys(algorithmParameters.errors).length > 0) {
+      toast({
+        title: "Error",
+        description: "Fix the highlighted hyperparameters",
+        variant: "destructive",
+      });
+      return;
+    }
 
     trainMutation.mutate({
       name: `${selectedAlgorithm}_${Date.now()}`,
       algorithm: selectedAlgorithm,
       datasetId: selectedDataset,
+      family: modelFamily.trim() || undefined,
+      crossProject:
+        sourceDatasets.length > 0 ? { sourceDatasetIds: sourceDatasets, transfer: transferMethod } : undefined,
       hyperparameters: {
+        ...algorithmParameters.values,
         sampling_technique: selectedSampling,
+        sampling_k_neighbors: Number(kNeighbors),
+        sampling_ratio: Number(targetRatio),
         cross_validation: true,
+        validation_strategy: selectedValidation,
+        threshold_strategy: selectedThreshold,
+        threshold_cost_ratio: Number(costRatio),
+        calibration: selectedCalibration,
         feature_selection: "auto",
+        metrics_mode: selectedMetricsMode,
       },
     });
   };
@@ -165,10 +499,10 @@ export default function ModelTraining() {
                     </div>
                     <div className="rounded-[24px] border border-white/80 bg-white/80 p-4 shadow-sm backdrop-blur">
                       <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-                        Best Accuracy
+                        {headlineBalanced ? "Best Balanced Accuracy" : "Best Accuracy"}
                       </div>
-                      <div className="mt-2 text-2xl font-semibold text-slate-950">{(bestAccuracy * 100).toFixed(1)}%</div>
-                      <p className="mt-1 text-sm text-slate-500">Top completed model in this workspace.</p>
+                      <div className="mt-2 text-2xl font-semibold text-slate-950">{(bestHeadline * 100).toFixed(1)}%</div>
+                      <p className="mt-1 text-sm text-slate-500">Top measured model in this workspace.</p>
                     </div>
                   </div>
                 </div>
@@ -193,12 +527,12 @@ export default function ModelTraining() {
                     <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
                       <div className="text-xs uppercase tracking-[0.18em] text-slate-400">Sampling</div>
                       <div className="mt-1 text-lg font-semibold text-white">
-                        {SAMPLING_TECHNIQUES.find((technique) => technique.value === selectedSampling)?.label}
+                        {samplingTechniques.find((technique) => technique.id === selectedSampling)?.label}
                       </div>
                     </div>
                     <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
                       <div className="text-xs uppercase tracking-[0.18em] text-slate-400">Algorithms</div>
-                      <div className="mt-1 text-lg font-semibold text-white">{ALGORITHMS.length} families</div>
+                      <div className="mt-1 text-lg font-semibold text-white">{algorithms.length} families</div>
                     </div>
                     <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
                       <div className="text-xs uppercase tracking-[0.18em] text-slate-400">Training Focus</div>
@@ -237,8 +571,8 @@ export default function ModelTraining() {
                   icon: Settings,
                 },
                 {
-                  title: "Ensemble-first setup",
-                  description: "Ranking is tuned so Ensemble stays strongest, with MLP + Gemini varying by sampling.",
+                  title: "Metric provenance",
+                  description: "Every run is tagged as measured, Node baseline, or simulated so only real numbers get cited.",
                   icon: Brain,
                 },
               ].map((item) => (
@@ -274,9 +608,50 @@ export default function ModelTraining() {
               </div>
             </CardHeader>
             <CardContent className="space-y-5">
+              {capabilities && (
+                <div
+                  className={`flex items-start justify-between gap-3 rounded-[24px] border p-4 text-sm ${
+                    capabilities.backend.usable
+                      ? "border-emerald-100 bg-emerald-50/60 text-emerald-800"
+                      : "border-amber-100 bg-amber-50/60 text-amber-800"
+                  }`}
+                >
+                  <div>
+                    <div className="font-medium">
+                      {capabilities.python ? `Python ${capabilities.python.version}` : "Python unavailable"}
+                      {" · "}
+                      {capabilities.backend.usable ? "ML backend ready" : "Node baseline only"}
+                    </div>
+                    {!capabilities.backend.usable && (
+                      <p className="mt-1 text-xs leading-5">
+                        {capabilities.backend.reason}. Algorithms the Node baseline does not implement are disabled.
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="shrink-0 rounded-xl"
+                    disabled={capabilityMutation.isPending}
+                    onClick={() => capabilityMutation.mutate()}
+                  >
+                    <RefreshCw className={`h-4 w-4 ${capabilityMutation.isPending ? "animate-spin" : ""}`} />
+                    <span className="sr-only">Probe the Python environment again</span>
+                  </Button>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label className="text-sm font-medium text-slate-700">Dataset</Label>
-                <Select value={selectedDataset} onValueChange={setSelectedDataset}>
+                <Select
+                  value={selectedDataset}
+                  onValueChange={(value) => {
+                    setSelectedDataset(value);
+                    setSourceDatasets((current) => current.filter((id) => id !== value));
+                    setResamplingPreview(null);
+                  }}
+                >
                   <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
                     <SelectValue placeholder="Select dataset" />
                   </SelectTrigger>
@@ -290,41 +665,302 @@ export default function ModelTraining() {
                 </Select>
               </div>
 
+              {datasets.length > 1 && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-slate-700">Cross-project Sources</Label>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {datasets
+                      .filter((dataset) => dataset.id !== selectedDataset)
+                      .map((dataset) => (
+                        <label
+                          key={dataset.id}
+                          className="flex items-center gap-3 rounded-2xl border border-slate-100 bg-slate-50/80 px-3 py-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={sourceDatasets.includes(dataset.id)}
+                            onCheckedChange={(checked) =>
+                              setSourceDatasets((current) =>
+                                checked === true ? [...current, dataset.id] : current.filter((id) => id !== dataset.id)
+                              )
+                            }
+                          />
+                          <span className="truncate text-slate-800">{dataset.name}</span>
+                        </label>
+                      ))}
+                  </div>
+                  {sourceDatasets.length > 0 && (
+                    <Select value={transferMethod} onValueChange={setTransferMethod}>
+                      <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                        <SelectValue placeholder="Select transfer method" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TRANSFER_METHODS.map((method) => (
+                          <SelectItem key={method.value} value={method.value}>
+                            {method.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <p className="text-xs text-slate-500">
+                    Optional. The model trains on these projects and scores the dataset above, which is evaluated
+                    only if it has defect labels.
+                  </p>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label className="text-sm font-medium text-slate-700">Algorithm</Label>
-                <Select value={selectedAlgorithm} onValueChange={setSelectedAlgorithm}>
+                <Select
+                  value={selectedAlgorithm}
+                  onValueChange={(value) => {
+                    setSelectedAlgorithm(value);
+                    setAlgorithmInputs({});
+                  }}
+                >
                   <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
                     <SelectValue placeholder="Select algorithm" />
                   </SelectTrigger>
                   <SelectContent>
-                    {ALGORITHMS.map((algo) => (
-                      <SelectItem key={algo.value} value={algo.value}>
-                        {algo.label}
-                      </SelectItem>
-                    ))}
+                    {algorithms.map((algo) => {
+                      const usable = capabilities?.algorithms.find((capability) => capability.id === algo.id)?.usable;
+                      return (
+                        <SelectItem key={algo.id} value={algo.id} disabled={usable === false}>
+                          {algo.label}
+                          {usable === false && " (needs Python)"}
+                        </SelectItem>
+                      );
+                    })}
                   </SelectContent>
                 </Select>
+                {algorithmSpec && (
+                  <p className="text-xs text-slate-500">
+                    {algorithmSpec.documentation?.description ?? algorithmSpec.label}
+                  </p>
+                )}
+                {algorithmCapability?.reason && (
+                  <p className={`text-xs ${algorithmCapability.usable ? "text-amber-700" : "text-rose-600"}`}>
+                    {algorithmCapability.reason}.
+                  </p>
+                )}
               </div>
 
+              {algorithmSpec && algorithmSpec.parameters.length > 0 && (
+                <div className="space-y-3 rounded-[24px] border border-slate-100 bg-slate-50/60 p-4">
+                  <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                    <SlidersHorizontal className="h-4 w-4" />
+                    {algorithmSpec.label} Hyperparameters
+                  </div>
+                  <HyperparameterForm
+                    fields={algorithmSpec.parameters}
+                    inputs={algorithmInputs}
+                    onChange={setAlgorithmInputs}
+                  />
+                  {algorithmSpec.documentation?.strengths && (
+                    <p className="text-xs text-slate-500">
+                      Strengths: {algorithmSpec.documentation.strengths.join("; ")}. Weaknesses:{" "}
+                      {(algorithmSpec.documentation.weaknesses ?? []).join("; ")}.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label className="text-sm font-medium text-slate-700">Imbalance Handling</Label>
-                <Select value={selectedSampling} onValueChange={setSelectedSampling}>
+                <Select
+                  value={selectedSampling}
+                  onValueChange={(value) => {
+                    setSelectedSampling(value);
+                    setResamplingPreview(null);
+                  }}
+                >
                   <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
                     <SelectValue placeholder="Select sampling technique" />
                   </SelectTrigger>
                   <SelectContent>
-                    {SAMPLING_TECHNIQUES.map((technique) => (
-                      <SelectItem key={technique.value} value={technique.value}>
+                    {samplingTechniques.map((technique) => (
+                      <SelectItem key={technique.id} value={technique.id}>
                         {technique.label}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {samplingDocumentation && (
+                  <p className="text-xs text-slate-500">{samplingDocumentation.description}</p>
+                )}
+                {selectedSampling !== "none" && samplerCapability?.reason && (
+                  <p className="text-xs text-amber-700">{samplerCapability.reason}.</p>
+                )}
+              </div>
+
+              {selectedSampling !== "none" && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="k-neighbors" className="text-sm font-medium text-slate-700">
+                      k Neighbours
+                    </Label>
+                    <Input
+                      id="k-neighbors"
+                      type="number"
+                      min={1}
+                      max={50}
+                      value={kNeighbors}
+                      onChange={(e) => setKNeighbors(e.target.value)}
+                      className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="target-ratio" className="text-sm font-medium text-slate-700">
+                      Target Minority Ratio
+                    </Label>
+                    <Input
+                      id="target-ratio"
+                      type="number"
+                      min={0.01}
+                      max={1}
+                      step={0.05}
+                      value={targetRatio}
+                      onChange={(e) => setTargetRatio(e.target.value)}
+                      className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={!selectedDataset || previewMutation.isPending}
+                className="h-11 w-full rounded-2xl border-slate-200"
+              >
+                {previewMutation.isPending ? "Resampling..." : "Preview Resampling"}
+              </Button>
+
+              {resamplingPreview && (
+                <div className="rounded-[24px] border border-slate-100 bg-slate-50/80 p-4 text-sm text-slate-600">
+                  <div className="grid grid-cols-4 gap-2 text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">
+                    <span>Class</span>
+                    <span>Before</span>
+                    <span>Synthetic</span>
+                    <span>After</span>
+                  </div>
+                  {(["0", "1"] as const).map((label) => (
+                    <div key={label} className="mt-2 grid grid-cols-4 gap-2 text-slate-950">
+                      <span>{label === "1" ? "Defective" : "Clean"}</span>
+                      <span>{resamplingPreview.before[label]}</span>
+                      <span>+{resamplingPreview.synthetic[label]}</span>
+                      <span>
+                        {resamplingPreview.after[label]}
+                        {resamplingPreview.removed[label] > 0 && (
+                          <span className="ml-1 text-xs text-rose-600">(-{resamplingPreview.removed[label]})</span>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                  {resamplingPreview.notes.map((note) => (
+                    <p key={note} className="mt-3 text-xs text-slate-500">
+                      {note}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-slate-700">Validation</Label>
+                <Select value={selectedValidation} onValueChange={setSelectedValidation}>
+                  <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                    <SelectValue placeholder="Select validation strategy" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VALIDATION_STRATEGIES.map((strategy) => (
+                      <SelectItem key={strategy.value} value={strategy.value}>
+                        {strategy.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-slate-700">Probability Calibration</Label>
+                <Select value={selectedCalibration} onValueChange={setSelectedCalibration}>
+                  <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                    <SelectValue placeholder="Select calibration method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CALIBRATION_METHODS.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-slate-700">Decision Threshold</Label>
+                <div className="flex gap-3">
+                  <Select value={selectedThreshold} onValueChange={setSelectedThreshold}>
+                    <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                      <SelectValue placeholder="Select threshold strategy" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {THRESHOLD_STRATEGIES.map((strategy) => (
+                        <SelectItem key={strategy.value} value={strategy.value}>
+                          {strategy.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedThreshold === "min_cost" && (
+                    <Input
+                      type="number"
+                      min="0.1"
+                      step="0.5"
+                      value={costRatio}
+                      onChange={(event) => setCostRatio(event.target.value)}
+                      className="h-12 w-28 rounded-2xl border-slate-200 bg-white/90"
+                      title="Cost of a missed defect relative to a false alarm (FN/FP)"
+                    />
+                  )}
+                </div>
+                <p className="text-xs text-slate-500">
+                  Chosen on out-of-fold scores; the holdout is evaluated and predictions are made at this cut-off.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-slate-700">Metric Reporting</Label>
+                <Select value={selectedMetricsMode} onValueChange={setSelectedMetricsMode}>
+                  <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                    <SelectValue placeholder="Select metric reporting mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {METRIC_MODES.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-slate-700">Registry Family</Label>
+                <Input
+                  value={modelFamily}
+                  onChange={(event) => setModelFamily(event.target.value)}
+                  placeholder={selectedAlgorithm || "Defaults to the algorithm"}
+                  className="h-12 rounded-2xl border-slate-200 bg-white/90"
+                />
+                <p className="text-xs text-slate-500">
+                  Each training run registers the next minor version of the family in staging.
+                </p>
               </div>
 
               <Button
                 onClick={handleTrain}
-                disabled={trainMutation.isPending}
+                disabled={trainMutation.isPending || algorithmCapability?.usable === false}
                 className="h-12 w-full rounded-2xl bg-slate-950 text-white shadow-[0_18px_40px_-24px_rgba(15,23,42,0.6)] hover:bg-slate-800"
               >
                 <Play className="mr-2 h-4 w-4" />
@@ -348,6 +984,49 @@ export default function ModelTraining() {
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
+              {ensembleMembers.length > 0 && (
+                <div className="rounded-[24px] border border-violet-100 bg-violet-50/60 p-4">
+                  <div className="flex items-center gap-2 text-sm font-medium text-violet-900">
+                    <Layers className="h-4 w-4" />
+                    {ensembleMembers.length} model{ensembleMembers.length === 1 ? "" : "s"} selected for an ensemble
+                  </div>
+                  <div className="mt-3 flex flex-wrap items-center gap-2">
+                    <Select value={ensembleMethod} onValueChange={setEnsembleMethod}>
+                      <SelectTrigger className="h-10 w-60 rounded-xl border-slate-200 bg-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ENSEMBLE_METHODS.map((method) => (
+                          <SelectItem key={method.value} value={method.value}>
+                            {method.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      onClick={() => ensembleMutation.mutate()}
+                      disabled={ensembleMembers.length < 2 || ensembleMutation.isPending}
+                      className="h-10 rounded-xl bg-slate-950 text-white hover:bg-slate-800"
+                    >
+                      {ensembleMutation.isPending ? "Composing..." : "Compose"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEnsembleMembers([])}
+                      className="h-10 rounded-xl border-slate-200"
+                    >
+                      Clear
+                    </Button>
+                  </div>
+                  <p className="mt-2 text-xs text-slate-500">
+                    Members need the same dataset and random seed, so they share one holdout split. Only Node
+                    baseline models can join; Python-trained models cannot be refitted on the combiner's folds.
+                  </p>
+                </div>
+              )}
+
               {models.map((model) => {
                 const statusTone =
                   model.trainingStatus === "completed"
@@ -355,6 +1034,8 @@ export default function ModelTraining() {
                     : model.trainingStatus === "failed"
                       ? "bg-rose-50 text-rose-700"
                       : "bg-amber-50 text-amber-700";
+                const provenance = model.metricProvenance ? PROVENANCE_LABELS[model.metricProvenance] : undefined;
+                const activeJob = activeJobsByModel.get(model.id);
 
                 return (
                   <div
@@ -364,47 +1045,150 @@ export default function ModelTraining() {
                     <div className="flex items-start justify-between gap-4">
                       <div className="min-w-0 flex-1">
                         <div className="truncate text-base font-semibold text-slate-950">{model.name}</div>
-                        <p className="mt-1 text-sm text-slate-500">{formatAlgorithmLabel(model.algorithm)}</p>
+                        <p className="mt-1 text-sm text-slate-500">
+                          {formatAlgorithmLabel(model.algorithm)}
+                          {model.version && ` · ${model.family ?? model.algorithm} v${model.version} (${model.stage ?? "staging"})`}
+                        </p>
+                        {model.crossProject?.sources && (
+                          <p className="mt-1 text-xs text-slate-500">
+                            Cross-project ·{" "}
+                            {TRANSFER_METHODS.find((method) => method.value === model.crossProject?.transfer)?.label ??
+                              model.crossProject.transfer}{" "}
+                            · {model.crossProject.sources.map((source) => source.name).join(" + ")} →{" "}
+                            {model.crossProject.target?.name}
+                            {model.crossProject.target && !model.crossProject.target.labelled &&
+                              ` · unlabelled, ${model.crossProject.predictedDefects ?? 0} modules flagged`}
+                          </p>
+                        )}
+                        {model.ensemble?.members && (
+                          <p className="mt-1 text-xs text-slate-500">
+                            Ensemble of{" "}
+                            {model.ensemble.members
+                              .map((member) =>
+                                member.weight != null ? `${member.name} (${member.weight.toFixed(2)})` : member.name
+                              )
+                              .join(" + ")}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 items-center gap-2">
+                        {canJoinEnsemble(model) && (
+                          <label className="flex items-center gap-1.5 text-xs text-slate-500">
+                            <Checkbox
+                              checked={ensembleMembers.includes(model.id)}
+                              onCheckedChange={(checked) =>
+                                setEnsembleMembers((current) =>
+                                  checked ? [...current, model.id] : current.filter((id) => id !== model.id)
+                                )
+                              }
+                            />
+                            Ensemble
+                          </label>
+                        )}
+                        {isEnsembleCandidate(model) && isPythonModel(model) && (
+                          <label
+                            className="flex items-center gap-1.5 text-xs text-slate-400"
+                            title="Trained by the Python backend; ensembles combine Node baseline models"
+                          >
+                            <Checkbox checked={false} disabled />
+                            Ensemble
+                          </label>
+                        )}
+                        {provenance && (
+                          <span className={`rounded-full px-3 py-1 text-xs font-medium ${provenance.tone}`}>
+                            {provenance.label}
+                          </span>
+                        )}
+                        <span className={`rounded-full px-3 py-1 text-xs font-medium capitalize ${statusTone}`}>
+                          {activeJob?.status === "queued" ? "queued" : model.trainingStatus ?? "pending"}
+                        </span>
                       </div>
-                      <span className={`rounded-full px-3 py-1 text-xs font-medium capitalize ${statusTone}`}>
-                        {model.trainingStatus ?? "pending"}
-                      </span>
                     </div>
 
+                    {activeJob && (
+                      <div className="mt-4 flex items-center gap-3">
+                        <div className="h-2 flex-1 overflow-hidden rounded-full bg-slate-200">
+                          <div
+                            className="h-full rounded-full bg-blue-500 transition-all"
+                            style={{ width: `${Math.round((activeJob.progress ?? 0) * 100)}%` }}
+                          />
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => cancelMutation.mutate(activeJob.id)}
+                          disabled={cancelMutation.isPending}
+                          className="rounded-xl border-slate-200"
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+
                     {model.trainingStatus === "completed" && (
                       <div className="mt-4 grid gap-3 sm:grid-cols-2">
-                        <div className="rounded-2xl border border-white bg-white px-4 py-3">
-                          <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-400">
-                            F1 Score
-                          </div>
-                          <div className="mt-1 text-lg font-semibold text-slate-950">
-                            {model.f1Score != null ? `${(model.f1Score * 100).toFixed(1)}%` : "N/A"}
-                          </div>
-                        </div>
-                        <div className="rounded-2xl border border-white bg-white px-4 py-3">
-                          <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-400">
-                            Accuracy
-                          </div>
-                          <div className="mt-1 text-lg font-semibold text-slate-950">
-                            {model.accuracy != null ? `${(model.accuracy * 100).toFixed(1)}%` : "N/A"}
-                          </div>
-                        </div>
-                        <div className="rounded-2xl border border-white bg-white px-4 py-3">
-                          <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-400">
-                            Precision
-                          </div>
-                          <div className="mt-1 text-lg font-semibold text-slate-950">
-                            {model.precision != null ? `${(model.precision * 100).toFixed(1)}%` : "N/A"}
-                          </div>
+                        {(isImbalanced(model) ? IMBALANCED_TILES : BALANCED_TILES).map(({ key, label, percent }) => {
+                          const value = model[key];
+                          return (
+                            <div key={key} className="rounded-2xl border border-white bg-white px-4 py-3">
+                              <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-400">
+                                {label}
+                              </div>
+                              <div className="mt-1 text-lg font-semibold text-slate-950">
+                                {value == null ? "N/A" : percent ? `${(value * 100).toFixed(1)}%` : value.toFixed(3)}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+
+                    {model.trainingStatus === "completed" && model.validationSummary && (
+                      <div className="mt-4 rounded-2xl border border-white bg-white px-4 py-3">
+                        <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-400">
+                          {VALIDATION_STRATEGIES.find((strategy) => strategy.value === model.validationSummary?.strategy)
+                            ?.label ?? model.validationSummary.strategy}{" "}
+                          · {model.validationSummary.evaluations} evaluations · 95% CI
                         </div>
-                        <div className="rounded-2xl border border-white bg-white px-4 py-3">
-                          <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-400">
-                            Recall
-                          </div>
-                          <div className="mt-1 text-lg font-semibold text-slate-950">
-                            {model.recall != null ? `${(model.recall * 100).toFixed(1)}%` : "N/A"}
+                        <table className="mt-2 w-full text-sm">
+                          <tbody>
+                            {SUMMARY_METRICS.map(({ key, label }) => {
+                              const summary = model.validationSummary?.metrics[key];
+                              if (!summary) return null;
+                              return (
+                                <tr key={key} className="text-slate-700">
+                                  <td className="py-0.5 font-medium text-slate-950">{label}</td>
+                                  <td className="py-0.5 text-right tabular-nums">
+                                    {summary.mean.toFixed(3)} ± {summary.std.toFixed(3)}
+                                  </td>
+                                  <td className="py-0.5 text-right tabular-nums text-slate-500">
+                                    [{summary.ciLower.toFixed(3)}, {summary.ciUpper.toFixed(3)}]
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
+                    {model.trainingStatus === "completed" && model.metricProvenance !== "simulated" && (
+                      <div className="mt-4 rounded-2xl border border-white bg-white px-4 py-3">
+                        <button
+                          type="button"
+                          onClick={() => setDetailModelId(detailModelId === model.id ? null : model.id)}
+                          className="flex w-full items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em] text-slate-400"
+                        >
+                          <SlidersHorizontal className="h-3.5 w-3.5" />
+                          Threshold {(model.decisionThreshold ?? 0.5).toFixed(3)}
+                          {model.brierScore != null && ` · Brier ${model.brierScore.toFixed(3)}`}
+                          <span className="ml-auto text-blue-600">{detailModelId === model.id ? "Hide" : "Details"}</span>
+                        </button>
+                        {detailModelId === model.id && (
+                          <div className="mt-3">
+                            <ModelDetail modelId={model.id} />
                           </div>
-                        </div>
+                        )}
                       </div>
                     )}
                   </div>
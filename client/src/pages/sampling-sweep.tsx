@@ -0,0 +1,653 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Grid3x3, Play, Scale, Square, Workflow } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useRealtimeConnected } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+const OBJECTIVES = [
+  { value: "mcc", label: "MCC" },
+  { value: "f1", label: "F1" },
+  { value: "g_mean", label: "G-mean" },
+  { value: "pr_auc", label: "PR-AUC" },
+];
+
+// Cell metrics shown on the heatmap; pf is the only one where lower is better.
+const HEATMAP_METRICS = [
+  { value: "mcc", label: "MCC", lowerIsBetter: false },
+  { value: "recall", label: "Recall (pd)", lowerIsBetter: false },
+  { value: "pf", label: "False Alarm (pf)", lowerIsBetter: true },
+  { value: "gMean", label: "G-Mean", lowerIsBetter: false },
+  { value: "prAuc", label: "PR-AUC", lowerIsBetter: false },
+] as const;
+
+type HeatmapMetric = typeof HEATMAP_METRICS[number]["value"];
+
+const STATUS_TONES: Record<string, string> = {
+  queued: "bg-slate-100 text-slate-700",
+  running: "bg-blue-50 text-blue-700",
+  completed: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-700",
+  cancelled: "bg-amber-50 text-amber-700",
+};
+
+type AlgorithmCatalog = {
+  // nodeEngine: the model the Node engine trains for this algorithm.
+  algorithms: { id: string; label: string; nodeEngine: string }[];
+  samplingTechniques: { id: string; label: string }[];
+};
+
+type DatasetRecord = {
+  id: string;
+  name: string;
+};
+
+type JobRecord = {
+  id: string;
+  status: string;
+  resourceId?: string | null;
+  progress?: number | null;
+};
+
+type SweepCell = {
+  technique: string;
+  ratio: number | null;
+  achievedRatio: number | null;
+  evaluations: number;
+  metrics: Record<string, { mean: number; std: number } | null>;
+  notes: string[];
+  error?: string;
+};
+
+type SweepRecommendation = {
+  technique: string;
+  ratio: number | null;
+  objective: string;
+  score: number;
+  pf: number | null;
+  baselineScore: number | null;
+};
+
+type SweepRecord = {
+  id: string;
+  name: string;
+  algorithm: string;
+  techniques: string[];
+  ratios: number[];
+  folds: number;
+  repeats: number;
+  objective: string;
+  status: string;
+  cells?: SweepCell[] | null;
+  recommended?: SweepRecommendation | null;
+};
+
+function objectiveLabel(value: string) {
+  return OBJECTIVES.find((objective) => objective.value === value)?.label ?? value;
+}
+
+function formatScore(value?: number | null) {
+  return value == null ? "—" : value.toFixed(3);
+}
+
+// Colours a cell by its position between the worst and best values of the grid.
+function heatColor(value: number, min: number, max: number, lowerIsBetter: boolean) {
+  const position = max > min ? (value - min) / (max - min) : 0.5;
+  const goodness = lowerIsBetter ? 1 - position : position;
+  return `hsla(${Math.round(goodness * 140)}, 70%, 45%, ${0.12 + goodness * 0.5})`;
+}
+
+export default function SamplingSweep() {
+  const [selectedDataset, setSelectedDataset] = useState("");
+  const [selectedAlgorithm, setSelectedAlgorithm] = useState("random_forest");
+  const [selectedObjective, setSelectedObjective] = useState("mcc");
+  // Every technique is swept unless unticked.
+  const [excludedTechniques, setExcludedTechniques] = useState<string[]>([]);
+  const [ratiosText, setRatiosText] = useState("0.25, 0.5, 0.75, 1");
+  const [folds, setFolds] = useState("5");
+  const [repeats, setRepeats] = useState("3");
+  const [heatmapMetric, setHeatmapMetric] = useState<HeatmapMetric>("mcc");
+  const [selectedSweepId, setSelectedSweepId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const realtimeConnected = useRealtimeConnected();
+
+  const { data: datasetsData } = useQuery<DatasetRecord[]>({
+    queryKey: ["/api/datasets"],
+  });
+
+  const { data: catalog } = useQuery<AlgorithmCatalog>({
+    queryKey: ["/api/algorithms"],
+    staleTime: Infinity,
+  });
+  const algorithmLabel = (id: string) => catalog?.algorithms.find((algorithm) => algorithm.id === id)?.label ?? id;
+  // Cells are scored with the Node engine, which stands in for the algorithms it does not implement.
+  const algorithmOptions = (catalog?.algorithms ?? []).map((algorithm) => ({
+    value: algorithm.id,
+    label:
+      algorithm.nodeEngine === algorithm.id
+        ? algorithm.label
+        : `${algorithm.label} (scored as ${algorithmLabel(algorithm.nodeEngine)})`,
+  }));
+  const techniques = (catalog?.samplingTechniques ?? []).filter((technique) => technique.id !== "none");
+  const selectedTechniques = techniques
+    .map((technique) => technique.id)
+    .filter((technique) => !excludedTechniques.includes(technique));
+  const techniqueLabel = (value: string) =>
+    catalog?.samplingTechniques.find((technique) => technique.id === value)?.label ?? value;
+  const describeCell = (technique: string, ratio: number | null) =>
+    ratio === null ? techniqueLabel(technique) : `${techniqueLabel(technique)} @ ${ratio}`;
+
+  const { data: sweepsData } = useQuery<SweepRecord[]>({
+    queryKey: ["/api/sampling-sweeps"],
+    refetchInterval: (query) => {
+      const sweeps = query.state.data;
+      return !realtimeConnected &&
+        Array.isArray(sweeps) &&
+        sweeps.some((sweep) => sweep.status === "queued" || sweep.status === "running")
+        ? 3000
+        : false;
+    },
+  });
+
+  const { data: sweepJobsData } = useQuery<JobRecord[]>({
+    queryKey: ["/api/jobs?type=sampling_sweep"],
+    refetchInterval: (query) => {
+      const jobs = query.state.data;
+      return !realtimeConnected &&
+        Array.isArray(jobs) &&
+        jobs.some((job) => job.status === "queued" || job.status === "running")
+        ? 3000
+        : false;
+    },
+  });
+
+  const sweeps = Array.isArray(sweepsData) ? sweepsData : [];
+  const activeSweepId = selectedSweepId ?? sweeps[0]?.id ?? null;
+
+  const { data: sweepDetail } = useQuery<SweepRecord>({
+    queryKey: [`/api/sampling-sweeps/${activeSweepId}`],
+    enabled: Boolean(activeSweepId),
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return !realtimeConnected && (status === "queued" || status === "running") ? 3000 : false;
+    },
+  });
+
+  const datasets = Array.isArray(datasetsData) ? datasetsData : [];
+  const activeJobsBySweep = new Map(
+    (Array.isArray(sweepJobsData) ? sweepJobsData : [])
+      .filter((job) => job.resourceId && (job.status === "queued" || job.status === "running"))
+      .map((job) => [job.resourceId as string, job])
+  );
+
+  const cells = sweepDetail?.cells ?? [];
+  const baseline = cells.find((cell) => cell.technique === "none");
+  const metricMeta = HEATMAP_METRICS.find((metric) => metric.value === heatmapMetric) ?? HEATMAP_METRICS[0];
+  const gridValues = cells
+    .map((cell) => cell.metrics[heatmapMetric]?.mean)
+    .filter((value): value is number => value !== undefined);
+  const gridMin = gridValues.length > 0 ? Math.min(...gridValues) : 0;
+  const gridMax = gridValues.length > 0 ? Math.max(...gridValues) : 1;
+  const recommended = sweepDetail?.recommended ?? null;
+  const cellFor = (technique: string, ratio: number) =>
+    cells.find((cell) => cell.technique === technique && cell.ratio === ratio);
+
+  const sweepMutation = useMutation({
+    mutationFn: async (config: any) => {
+      const response = await apiRequest("POST", "/api/sampling-sweeps", config);
+      return (await response.json()) as SweepRecord;
+    },
+    onSuccess: (sweep) => {
+      toast({
+        title: "Success",
+        description: "Sampling sweep started",
+      });
+      setSelectedSweepId(sweep.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/sampling-sweeps"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs?type=sampling_sweep"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start sampling sweep",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (jobId: string) => apiRequest("POST", `/api/jobs/${jobId}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sampling-sweeps"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs?type=sampling_sweep"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to cancel sampling sweep",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleTechnique = (value: string, checked: boolean) => {
+    setExcludedTechniques((current) =>
+      checked ? current.filter((technique) => technique !== value) : [...current, value]
+    );
+  };
+
+  const handleSweep = () => {
+    if (!selectedDataset) {
+      toast({
+        title: "Error",
+        description: "Please select a dataset",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (selectedTechniques.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one sampling technique",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const ratios = ratiosText
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean)
+      .map(Number);
+    if (ratios.length === 0 || ratios.some((ratio) => !Number.isFinite(ratio) || ratio <= 0 || ratio > 1)) {
+      toast({
+        title: "Error",
+        description: "Ratios must be comma-separated numbers in (0, 1]",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    sweepMutation.mutate({
+      datasetId: selectedDataset,
+      algorithm: selectedAlgorithm,
+      objective: selectedObjective,
+      techniques: selectedTechniques,
+      ratios,
+      folds: Number(folds),
+      repeats: Number(repeats),
+    });
+  };
+
+  const selectFields = [
+    { label: "Algorithm", value: selectedAlgorithm, onChange: setSelectedAlgorithm, options: algorithmOptions },
+    { label: "Recommend By", value: selectedObjective, onChange: setSelectedObjective, options: OBJECTIVES },
+  ];
+
+  return (
+    <div className="px-6 py-8 lg:px-10">
+      <div className="mx-auto flex max-w-7xl flex-col gap-8">
+        <Card className="overflow-hidden rounded-[32px] border-slate-200/80 bg-[linear-gradient(135deg,#ffffff_0%,#f9fbff_45%,#eef5ff_100%)] shadow-[0_24px_70px_-36px_rgba(15,23,42,0.35)]">
+          <CardContent className="p-8 lg:p-10">
+            <Badge className="rounded-full bg-slate-950 px-3 py-1 text-white hover:bg-slate-950">Sampling Lab</Badge>
+            <div className="mt-6 space-y-3">
+              <h1 className="text-4xl font-semibold tracking-tight text-slate-950 lg:text-5xl">Sampling Sweep</h1>
+              <p className="max-w-3xl text-base leading-7 text-slate-600">
+                Every sampling technique is scored at every target minority ratio with repeated stratified
+                cross-validation on the training split. All cells share the same folds, and the unsampled baseline is
+                always included.
+              </p>
+            </div>
+            <div className="mt-6 grid gap-4 sm:grid-cols-3">
+              <div className="rounded-[24px] border border-white/80 bg-white/80 p-4 shadow-sm backdrop-blur">
+                <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Sweeps</div>
+                <div className="mt-2 text-2xl font-semibold text-slate-950">{sweeps.length}</div>
+              </div>
+              <div className="rounded-[24px] border border-white/80 bg-white/80 p-4 shadow-sm backdrop-blur">
+                <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Scored Cells</div>
+                <div className="mt-2 text-2xl font-semibold text-slate-950">{cells.length}</div>
+              </div>
+              <div className="rounded-[24px] border border-white/80 bg-white/80 p-4 shadow-sm backdrop-blur">
+                <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Recommended</div>
+                <div className="mt-2 truncate text-2xl font-semibold text-slate-950">
+                  {recommended ? describeCell(recommended.technique, recommended.ratio) : "—"}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_minmax(360px,0.9fr)]">
+          <Card className="rounded-[30px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur">
+            <CardHeader className="space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-blue-50 text-blue-600">
+                  <Scale className="h-5 w-5" />
+                </div>
+                <div>
+                  <CardTitle className="text-2xl text-slate-950">Sweep Configuration</CardTitle>
+                  <CardDescription className="text-sm text-slate-500">
+                    Pick the techniques, the target ratios and the metric the recommendation maximises.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-slate-700">Dataset</Label>
+                <Select value={selectedDataset} onValueChange={setSelectedDataset}>
+                  <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                    <SelectValue placeholder="Select dataset" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {datasets.map((dataset) => (
+                      <SelectItem key={dataset.id} value={dataset.id}>
+                        {dataset.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                {selectFields.map((field) => (
+                  <div key={field.label} className="space-y-2">
+                    <Label className="text-sm font-medium text-slate-700">{field.label}</Label>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger className="h-12 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {field.options.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-slate-700">Techniques</Label>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {techniques.map((technique) => (
+                    <label
+                      key={technique.id}
+                      className="flex items-center gap-2 rounded-2xl border border-slate-200 bg-white/90 px-3 py-2 text-sm text-slate-700"
+                    >
+                      <Checkbox
+                        checked={selectedTechniques.includes(technique.id)}
+                        onCheckedChange={(checked) => toggleTechnique(technique.id, checked === true)}
+                      />
+                      {technique.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-slate-700">Target Ratios</Label>
+                  <Input
+                    value={ratiosText}
+                    onChange={(event) => setRatiosText(event.target.value)}
+                    className="h-12 rounded-2xl border-slate-200 bg-white/90"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-slate-700">CV Folds</Label>
+                  <Input
+                    type="number"
+                    min={2}
+                    max={10}
+                    value={folds}
+                    onChange={(event) => setFolds(event.target.value)}
+                    className="h-12 rounded-2xl border-slate-200 bg-white/90"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-slate-700">Repeats</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={repeats}
+                    onChange={(event) => setRepeats(event.target.value)}
+                    className="h-12 rounded-2xl border-slate-200 bg-white/90"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">
+                A ratio is the minority/majority size after resampling; 1 balances the classes. Ratios below the
+                dataset's own leave the data unchanged.
+              </p>
+
+              <Button
+                onClick={handleSweep}
+                disabled={sweepMutation.isPending}
+                className="h-12 w-full rounded-2xl bg-slate-950 text-white hover:bg-slate-800"
+              >
+                <Play className="mr-2 h-4 w-4" />
+                {sweepMutation.isPending ? "Starting..." : "Start Sweep"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="rounded-[30px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur">
+            <CardHeader className="space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-emerald-50 text-emerald-600">
+                  <Workflow className="h-5 w-5" />
+                </div>
+                <div>
+                  <CardTitle className="text-2xl text-slate-950">Sweeps</CardTitle>
+                  <CardDescription className="text-sm text-slate-500">Select a sweep to inspect its grid.</CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {sweeps.length === 0 && (
+                <div className="rounded-2xl border border-dashed border-slate-200 px-4 py-8 text-center text-sm text-slate-500">
+                  No sampling sweeps yet.
+                </div>
+              )}
+              {sweeps.map((sweep) => {
+                const activeJob = activeJobsBySweep.get(sweep.id);
+                return (
+                  <div
+                    key={sweep.id}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => setSelectedSweepId(sweep.id)}
+                    onKeyDown={(event) => event.key === "Enter" && setSelectedSweepId(sweep.id)}
+                    className={`cursor-pointer rounded-[22px] border p-4 transition ${
+                      sweep.id === activeSweepId ? "border-slate-950 bg-slate-50" : "border-slate-100 bg-white"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="truncate text-sm font-semibold text-slate-950">{sweep.name}</div>
+                        <div className="mt-1 text-xs text-slate-500">
+                          {sweep.techniques.length} techniques × {sweep.ratios.length} ratios ·{" "}
+                          {sweep.recommended
+                            ? `${describeCell(sweep.recommended.technique, sweep.recommended.ratio)}`
+                            : objectiveLabel(sweep.objective)}
+                        </div>
+                      </div>
+                      <Badge className={`rounded-full ${STATUS_TONES[sweep.status] ?? STATUS_TONES.queued}`}>
+                        {sweep.status}
+                      </Badge>
+                    </div>
+                    {activeJob && (
+                      <div className="mt-3 flex items-center gap-3">
+                        <Progress value={(activeJob.progress ?? 0) * 100} className="h-2 flex-1" />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-8 rounded-xl"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            cancelMutation.mutate(activeJob.id);
+                          }}
+                        >
+                          <Square className="mr-1 h-3 w-3" />
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+
+        {sweepDetail && (
+          <Card className="rounded-[30px] border-slate-200/80 bg-white/90 shadow-[0_20px_60px_-32px_rgba(15,23,42,0.28)] backdrop-blur">
+            <CardHeader className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-amber-50 text-amber-600">
+                    <Grid3x3 className="h-5 w-5" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-2xl text-slate-950">{sweepDetail.name}</CardTitle>
+                    <CardDescription className="text-sm text-slate-500">
+                      {sweepDetail.repeats}×{sweepDetail.folds}-fold CV · fold mean ± standard deviation ·
+                      recommended cell outlined
+                    </CardDescription>
+                  </div>
+                </div>
+                <Select value={heatmapMetric} onValueChange={(value) => setHeatmapMetric(value as HeatmapMetric)}>
+                  <SelectTrigger className="h-10 w-48 rounded-2xl border-slate-200 bg-white/90 text-slate-950 shadow-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HEATMAP_METRICS.map((metric) => (
+                      <SelectItem key={metric.value} value={metric.value}>
+                        {metric.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {recommended && (
+                <div className="rounded-[22px] border border-amber-200 bg-amber-50/70 p-4 text-sm text-amber-900">
+                  <span className="font-semibold">Recommended: {describeCell(recommended.technique, recommended.ratio)}</span>{" "}
+                  with {objectiveLabel(recommended.objective)} {formatScore(recommended.score)}
+                  {recommended.pf != null ? ` and pf ${formatScore(recommended.pf)}` : ""}
+                  {recommended.baselineScore != null
+                    ? ` (no sampling: ${formatScore(recommended.baselineScore)})`
+                    : ""}
+                  . Train it with sampling_technique and sampling_ratio set to these values.
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full border-separate border-spacing-1 text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase tracking-[0.14em] text-slate-400">
+                      <th className="py-2 pr-4">Technique</th>
+                      {(sweepDetail.ratios ?? []).map((ratio) => (
+                        <th key={ratio} className="py-2 text-center">
+                          Ratio {ratio}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {baseline && (
+                      <tr>
+                        <td className="py-2 pr-4 font-medium text-slate-700">No Sampling</td>
+                        <td
+                          colSpan={sweepDetail.ratios.length}
+                          className={`rounded-xl px-3 py-2 text-center tabular-nums text-slate-950 ${
+                            recommended?.technique === "none" ? "ring-2 ring-amber-500" : ""
+                          }`}
+                          style={
+                            baseline.metrics[heatmapMetric]
+                              ? {
+                                  backgroundColor: heatColor(
+                                    baseline.metrics[heatmapMetric]!.mean,
+                                    gridMin,
+                                    gridMax,
+                                    metricMeta.lowerIsBetter
+                                  ),
+                                }
+                              : undefined
+                          }
+                        >
+                          {formatScore(baseline.metrics[heatmapMetric]?.mean)}
+                          <span className="ml-1 text-xs text-slate-500">
+                            ± {formatScore(baseline.metrics[heatmapMetric]?.std)}
+                          </span>
+                        </td>
+                      </tr>
+                    )}
+                    {(sweepDetail.techniques ?? []).map((technique) => (
+                      <tr key={technique}>
+                        <td className="py-2 pr-4 font-medium text-slate-700">{techniqueLabel(technique)}</td>
+                        {sweepDetail.ratios.map((ratio) => {
+                          const cell = cellFor(technique, ratio);
+                          const summary = cell?.metrics[heatmapMetric];
+                          const isRecommended = recommended?.technique === technique && recommended.ratio === ratio;
+                          return (
+                            <td
+                              key={ratio}
+                              title={
+                                cell
+                                  ? cell.error ??
+                                    [
+                                      cell.achievedRatio != null
+                                        ? `Achieved ratio ${cell.achievedRatio.toFixed(2)}`
+                                        : null,
+                                      ...cell.notes,
+                                    ]
+                                      .filter(Boolean)
+                                      .join("\n")
+                                  : undefined
+                              }
+                              className={`rounded-xl px-3 py-2 text-center tabular-nums ${
+                                cell ? "text-slate-950" : "bg-slate-50 text-slate-300"
+                              } ${isRecommended ? "ring-2 ring-amber-500" : ""}`}
+                              style={
+                                summary
+                                  ? { backgroundColor: heatColor(summary.mean, gridMin, gridMax, metricMeta.lowerIsBetter) }
+                                  : undefined
+                              }
+                            >
+                              {cell?.error ? "failed" : formatScore(summary?.mean)}
+                              {summary && <span className="ml-1 text-xs text-slate-500">± {formatScore(summary.std)}</span>}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-slate-500">
+                Greener is better{metricMeta.lowerIsBetter ? " (lower false alarm rate)" : ""}. Threshold metrics use
+                the default 0.5 cut-off; hover a cell for the ratio the resampling actually reached.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import json
 import os
 import pickle
 import builtins
+import html
+import re
 from datetime import datetime
 from typing import Dict, List, Any, Optional, Tuple
 
@@ -45,19 +47,40 @@ GEMINI_API_KEY = os.environ.get('GEMINI_API_KEY', 'YOUR_GEMINI_API_KEY')
 GEMINI_MODEL = os.environ.get('GEMINI_MODEL', 'gemini-2.5-flash')
 GEMINI_API_URL = f'https://generativelanguage.googleapis.com/v1beta/models/{GEMINI_MODEL}:generateContent'
 
+# Decision threshold strategies, as in server/ml/thresholds.ts
+THRESHOLD_STRATEGIES = ('fixed', 'max_f1', 'max_mcc', 'max_gmean', 'youden_j', 'min_cost')
+
+# Probability calibration methods, as in server/ml/calibration.ts
+CALIBRATION_METHODS = ('none', 'platt', 'isotonic', 'prior_correction')
+
+# Fold metrics summarized with confidence intervals, as in server/ml/pipeline.ts
+SUMMARY_METRICS = (
+    'accuracy', 'precision', 'recall', 'f1Score', 'mcc', 'aucRoc',
+    'balancedAccuracy', 'gMean', 'prAuc', 'pf', 'specificity', 'f2Score',
+)
+
+# Column names recognised as module size (lines of code) at upload
+SIZE_COLUMN_NAMES = ('loc', 'sloc', 'nloc', 'loc_total', 'lines_of_code', 'countlinecode')
+
 # Core ML Libraries
-from sklearn.base import clone
+from scipy import stats as scipy_stats
 from sklearn.ensemble import ExtraTreesClassifier, RandomForestClassifier, VotingClassifier
 from sklearn.svm import SVC
 from sklearn.neural_network import MLPClassifier
+from sklearn.linear_model import LogisticRegression
+from sklearn.tree import DecisionTreeClassifier
+from sklearn.naive_bayes import GaussianNB
 from sklearn.model_selection import GridSearchCV, StratifiedKFold, cross_validate, train_test_split
-from sklearn.metrics import classification_report, confusion_matrix, make_scorer, precision_recall_curve, roc_auc_score, matthews_corrcoef
+from sklearn.metrics import average_precision_score, classification_report, confusion_matrix, fbeta_score, make_scorer, precision_recall_curve, roc_auc_score, matthews_corrcoef
 from sklearn.preprocessing import LabelEncoder, MinMaxScaler, StandardScaler
 from sklearn.feature_selection import SelectKBest, f_classif, RFE
+from sklearn.isotonic import IsotonicRegression
+from sklearn.pipeline import Pipeline
 
 # Imbalanced Learning
 from imblearn.over_sampling import SMOTE, ADASYN, BorderlineSMOTE
 from imblearn.under_sampling import RandomUnderSampler
+from imblearn.combine import SMOTETomek, SMOTEENN
 
 # Advanced ML
 import xgboost as xgb
@@ -113,13 +136,18 @@ try:
 except ImportError:
     HAS_NLP = False
 
-# Model Explainability
+# Model Explainability (each optional; permutation importance needs neither)
 try:
     import shap
+    HAS_SHAP = True
+except ImportError:
+    HAS_SHAP = False
+
+try:
     from lime.lime_tabular import LimeTabularExplainer
-    HAS_EXPLAINABILITY = True
+    HAS_LIME = True
 except ImportError:
-    HAS_EXPLAINABILITY = False
+    HAS_LIME = False
 
 
 class MLBackend:
@@ -230,6 +258,11 @@ class MLBackend:
             suggested_target = target_candidates[0] if target_candidates else numeric_columns[-1] if numeric_columns else df.columns[0]
             print(f"[Python Backend] Suggested target column: {suggested_target}")
                 
+            suggested_size_column = next(
+                (col for col in df.columns if col != suggested_target and col.lower() in SIZE_COLUMN_NAMES),
+                None
+            )
+
             # Feature descriptions
             features = {}
             for col in df.columns:
@@ -266,6 +299,7 @@ class MLBackend:
                 'columnCount': col_count,
                 'features': features,
                 'suggestedTarget': suggested_target,
+                'suggestedSizeColumn': suggested_size_column,
                 'quality': {
                     'missingValues': missing_values,
                     'imbalanceRatio': imbalance_ratio,
@@ -359,15 +393,17 @@ class MLBackend:
             print(f"[Python Backend] Target distribution: {y.value_counts().to_dict()}")
 
             sampling_technique = hyperparameters.get('sampling_technique', 'smote')
-            X_resampled, y_resampled = self._apply_sampling(X, y, sampling_technique)
-            X_resampled = pd.DataFrame(X_resampled, columns=X.columns)
-            y_resampled = pd.Series(np.asarray(y_resampled).astype(np.int32), name=y.name)
-            print(f"[Python Backend] After sampling - Features: {X_resampled.shape}, Target: {y_resampled.shape}")
+            sampling_options = {
+                'k_neighbors': int(hyperparameters.get('sampling_k_neighbors', 5)),
+                'ratio': float(hyperparameters.get('sampling_ratio', 1.0)),
+                'random_state': random_state,
+            }
 
-            stratify_param = y_resampled if y_resampled.nunique() > 1 else None
+            # Split before any resampling so synthetic rows never reach the holdout set.
+            stratify_param = y if y.nunique() > 1 else None
             X_train_df, X_test_df, y_train, y_test = train_test_split(
-                X_resampled,
-                y_resampled,
+                X,
+                y,
                 test_size=0.2,
                 random_state=random_state,
                 stratify=stratify_param
@@ -379,37 +415,81 @@ class MLBackend:
             y_test = np.asarray(y_test, dtype=np.int32)
             print(f"[Python Backend] Train set: {X_train.shape}, Test set: {X_test.shape}")
 
-            scaler = StandardScaler()
-            X_train_scaled = scaler.fit_transform(X_train).astype(np.float32)
-            X_test_scaled = scaler.transform(X_test).astype(np.float32)
-
-            selector = None
-            selected_feature_names = X.columns.to_numpy()
-            if hyperparameters.get('feature_selection', 'auto') == 'auto' and X_train_scaled.shape[1] > 1:
-                selector = SelectKBest(f_classif, k=min(10, X_train_scaled.shape[1]))
-                X_train_selected = selector.fit_transform(X_train_scaled, y_train).astype(np.float32)
-                X_test_selected = selector.transform(X_test_scaled).astype(np.float32)
-                selected_feature_names = X.columns[selector.get_support()].to_numpy()
-            else:
-                X_train_selected = X_train_scaled
-                X_test_selected = X_test_scaled
-
-            X_train_processed, X_test_processed, algorithm_preprocessor = self._prepare_algorithm_features(
-                X_train_selected,
-                X_test_selected,
-                algorithm
+            # Every fitted step is refitted inside each fold so the fold scores estimate the whole
+            # procedure, not a model whose features and parameters already saw the held-out rows.
+            validation = self._validate_model(
+                X_train, y_train, algorithm, hyperparameters, sampling_technique, sampling_options
             )
+            validation_metrics = validation['metrics']
 
-            model = self._create_model(algorithm, hyperparameters)
-            if hyperparameters.get('cross_validation', True):
-                model = self._tune_hyperparameters(model, X_train_processed, y_train, algorithm)
-
-            validation_metrics = self._cross_validate_model(model, X_train_processed, y_train)
+            X_train_processed, X_test_processed, preprocessing = self._fit_preprocessing(
+                X_train, y_train, X_test, algorithm, hyperparameters
+            )
+            scaler = preprocessing['scaler']
+            selector = preprocessing['selector']
+            algorithm_preprocessor = preprocessing['algorithm_preprocessor']
+            selected_feature_names = (
+                X.columns[selector.get_support()] if selector is not None else X.columns
+            ).to_numpy()
+            model = self._build_model(algorithm, hyperparameters, X_train_processed, y_train)
+
+            X_fit, y_fit = self._resample_array(X_train_processed, y_train, sampling_technique, sampling_options)
+            print(f"[Python Backend] After sampling - Features: {X_fit.shape}, Target: {y_fit.shape}")
+            sampling_report = self._sampling_report(sampling_technique, pd.Series(y_train), pd.Series(y_fit))
+
+            # Calibration is fitted on out-of-fold scores and applied to both those and the
+            # holdout, so the threshold is chosen on the probabilities prediction returns.
+            share = lambda counts: counts['1'] / max(1, counts['0'] + counts['1'])
+            calibrator = self._fit_calibrator(
+                hyperparameters.get('calibration', 'none'),
+                validation['oof']['labels'],
+                validation['oof']['scores'],
+                training_prior=share(sampling_report['after']),
+                target_prior=share(sampling_report['before']),
+            )
+            validation['oof']['scores'] = np.round(
+                self._apply_calibrator(calibrator, validation['oof']['scores']), 4
+            ).tolist()
+
+            # The cut-off is chosen on out-of-fold scores only, so the holdout stays an
+            # unbiased estimate at that cut-off. Fold metrics keep the default 0.5.
+            threshold_selection = self._select_threshold(
+                validation['oof']['labels'], validation['oof']['scores'], hyperparameters
+            )
+            decision_threshold = threshold_selection['threshold'] if threshold_selection else 0.5
 
-            model.fit(X_train_processed, y_train)
+            model.fit(X_fit, y_fit)
             y_pred = model.predict(X_test_processed)
             y_pred_proba = model.predict_proba(X_test_processed)[:, 1] if hasattr(model, 'predict_proba') else None
+            calibration = None
+            if y_pred_proba is not None:
+                raw_proba = y_pred_proba
+                y_pred_proba = self._apply_calibrator(calibrator, raw_proba)
+                y_pred = (y_pred_proba >= decision_threshold).astype(int)
+                calibration = {
+                    'method': calibrator['method'],
+                    'calibrator': calibrator,
+                    'uncalibrated': self._calibration_report(y_test, raw_proba),
+                    'calibrated': self._calibration_report(y_test, y_pred_proba),
+                }
             holdout_metrics = self._calculate_metrics(y_test, y_pred, y_pred_proba)
+            effort_metrics = None
+            size_column = config.get('sizeColumn')
+            if size_column and size_column in X_train_df.columns and y_pred_proba is not None:
+                train_sizes = pd.to_numeric(X_train_df[size_column], errors='coerce').to_numpy(dtype=float)
+                test_sizes = pd.to_numeric(X_test_df[size_column], errors='coerce').to_numpy(dtype=float)
+                out_of_fold = self._effort_metrics(
+                    validation['oof']['labels'], validation['oof']['scores'], train_sizes[validation['oof_rows']]
+                )
+                holdout_effort = self._effort_metrics(y_test, y_pred_proba, test_sizes)
+                effort_metrics = {
+                    'sizeColumn': size_column,
+                    'ranking': 'density',
+                    'budget': out_of_fold['budget'],
+                    'outOfFold': {key: out_of_fold[key] for key in ('popt', 'acc', 'ifa')},
+                    'holdout': {key: holdout_effort[key] for key in ('popt', 'acc', 'ifa')},
+                    'liftChart': out_of_fold['liftChart'],
+                }
             feature_importance = self._get_feature_importance(model, selected_feature_names.tolist())
             gemini_insight = None
             if algorithm == 'mlp_gemini':
@@ -430,7 +510,9 @@ class MLBackend:
                     'selector': selector,
                     'feature_names': X.columns.tolist(),
                     'selected_feature_names': selected_feature_names.tolist(),
-                    'algorithm_preprocessor': algorithm_preprocessor
+                    'algorithm_preprocessor': algorithm_preprocessor,
+                    'decision_threshold': decision_threshold,
+                    'calibrator': calibrator
                 }, f)
 
             self.models[model_id] = model
@@ -444,17 +526,45 @@ class MLBackend:
                 'recall': validation_metrics['recall'],
                 'f1Score': validation_metrics['f1_score'],
                 'mcc': validation_metrics['mcc'],
+                'aucRoc': validation_metrics.get('auc_roc'),
+                'balancedAccuracy': validation_metrics['balanced_accuracy'],
+                'gMean': validation_metrics['g_mean'],
+                'prAuc': validation_metrics.get('pr_auc', holdout_metrics.get('pr_auc')),
+                'pf': validation_metrics['pf'],
+                'specificity': validation_metrics['specificity'],
+                'f2Score': validation_metrics['f2_score'],
                 'confusionMatrix': holdout_metrics['confusion_matrix'].tolist(),
+                'classificationReport': holdout_metrics['classification_report'],
                 'featureImportance': feature_importance,
                 'geminiInsight': gemini_insight,
+                'samplingReport': sampling_report,
                 'validationMetrics': validation_metrics,
+                'validationSummary': validation['summary'],
+                'foldMetrics': validation['folds'],
+                'outOfFoldScores': validation['oof'] if validation['oof']['labels'] else None,
+                'decisionThreshold': decision_threshold,
+                'thresholdSelection': threshold_selection,
+                # Holdout, like the metric columns beside them; out-of-fold values stay in effortMetrics.
+                'popt': effort_metrics['holdout']['popt'] if effort_metrics else None,
+                'accAt20': effort_metrics['holdout']['acc'] if effort_metrics else None,
+                'ifa': effort_metrics['holdout']['ifa'] if effort_metrics else None,
+                'effortMetrics': effort_metrics,
+                'brierScore': calibration['calibrated']['brierScore'] if calibration else None,
+                'expectedCalibrationError': calibration['calibrated']['expectedCalibrationError'] if calibration else None,
+                'calibration': calibration,
                 'holdoutMetrics': {
                     'accuracy': holdout_metrics['accuracy'],
                     'precision': holdout_metrics['precision'],
                     'recall': holdout_metrics['recall'],
                     'f1Score': holdout_metrics['f1_score'],
                     'mcc': holdout_metrics['mcc'],
-                    'aucRoc': holdout_metrics.get('auc_roc')
+                    'aucRoc': holdout_metrics.get('auc_roc'),
+                    'balancedAccuracy': holdout_metrics['balanced_accuracy'],
+                    'gMean': holdout_metrics['g_mean'],
+                    'prAuc': holdout_metrics.get('pr_auc'),
+                    'pf': holdout_metrics['pf'],
+                    'specificity': holdout_metrics['specificity'],
+                    'f2Score': holdout_metrics['f2_score'],
                 }
             }
 
@@ -462,7 +572,15 @@ class MLBackend:
             print(f"[Python Backend] Training error: {e}")
             return {'error': str(e)}
     
-    def _apply_sampling(self, X: pd.DataFrame, y: pd.Series, technique: str) -> Tuple[pd.DataFrame, pd.Series]:
+    def _apply_sampling(
+        self,
+        X: pd.DataFrame,
+        y: pd.Series,
+        technique: str,
+        k_neighbors: int = 5,
+        ratio: float = 1.0,
+        random_state: int = 42,
+    ) -> Tuple[pd.DataFrame, pd.Series]:
         """Apply imbalanced learning sampling techniques"""
         print(f"[Python Backend] Applying sampling technique: {technique}")
         
@@ -484,14 +602,26 @@ class MLBackend:
                 print("[Python Backend] High dimensionality detected, using ADASYN instead of SMOTE")
                 technique = 'adasyn'
             
+            k = max(1, min(k_neighbors, min_class_count - 1))
+            ratio = min(1.0, max(0.01, ratio))
             samplers = {
-                'smote': SMOTE(random_state=42, k_neighbors=min(5, min_class_count-1)),
-                'adasyn': ADASYN(random_state=42),
-                'borderline_smote': BorderlineSMOTE(random_state=42),
-                'random_undersample': RandomUnderSampler(random_state=42)
+                'smote': lambda: SMOTE(sampling_strategy=ratio, random_state=random_state, k_neighbors=k),
+                'adasyn': lambda: ADASYN(sampling_strategy=ratio, random_state=random_state, n_neighbors=k),
+                'borderline_smote': lambda: BorderlineSMOTE(sampling_strategy=ratio, random_state=random_state, k_neighbors=k),
+                'random_undersample': lambda: RandomUnderSampler(sampling_strategy=ratio, random_state=random_state),
+                'smote_tomek': lambda: SMOTETomek(
+                    sampling_strategy=ratio,
+                    random_state=random_state,
+                    smote=SMOTE(sampling_strategy=ratio, random_state=random_state, k_neighbors=k),
+                ),
+                'smote_enn': lambda: SMOTEENN(
+                    sampling_strategy=ratio,
+                    random_state=random_state,
+                    smote=SMOTE(sampling_strategy=ratio, random_state=random_state, k_neighbors=k),
+                ),
             }
             
-            sampler = samplers.get(technique, RandomUnderSampler(random_state=42))
+            sampler = samplers.get(technique, samplers['random_undersample'])()
             
             # Handle potential issues with sampling
             try:
@@ -501,7 +631,7 @@ class MLBackend:
             except Exception as e:
                 print(f"[Python Backend] Sampling failed: {e}")
                 print("[Python Backend] Falling back to random undersampling")
-                fallback_sampler = RandomUnderSampler(random_state=42)
+                fallback_sampler = RandomUnderSampler(random_state=random_state)
                 X_resampled, y_resampled = fallback_sampler.fit_resample(X, y)
                 return pd.DataFrame(X_resampled, columns=X.columns), pd.Series(y_resampled)
                 
@@ -510,6 +640,25 @@ class MLBackend:
             print("[Python Backend] Returning original data")
             return X, y
 
+    def _sampling_report(self, technique: str, y_before: pd.Series, y_after: pd.Series) -> Dict[str, Any]:
+        """Summarize class counts before and after sampling, matching the Node engine's report."""
+        before = {str(label): int((np.asarray(y_before) == label).sum()) for label in (0, 1)}
+        after = {str(label): int((np.asarray(y_after) == label).sum()) for label in (0, 1)}
+        minority = '1' if before['1'] <= before['0'] else '0'
+        # imblearn does not expose which rows are synthetic; growth is attributed to the minority class.
+        synthetic = {'0': 0, '1': 0}
+        synthetic[minority] = max(0, after[minority] - before[minority])
+        removed = {label: max(0, before[label] + synthetic[label] - after[label]) for label in ('0', '1')}
+        return {
+            'technique': technique,
+            'minorityClass': int(minority),
+            'before': before,
+            'after': after,
+            'synthetic': synthetic,
+            'removed': removed,
+            'notes': [],
+        }
+
     def _prepare_training_data(self, df: pd.DataFrame) -> Tuple[pd.DataFrame, pd.Series]:
         """Prepare a dataset for binary defect prediction."""
         print(f"[Python Backend] Dataset columns: {list(df.columns)}")
@@ -586,31 +735,413 @@ class MLBackend:
             }
         )
 
-    def _cross_validate_model(self, model, X_train, y_train) -> Dict[str, float]:
-        """Compute stable validation metrics so different algorithms report their own values."""
+    def _fit_preprocessing(self, X_fit, y_fit, X_apply, algorithm: str, hyperparameters: Dict[str, Any]):
+        """Fit scaling, feature selection and algorithm transforms on X_fit; apply them to both matrices."""
+        scaler = StandardScaler()
+        X_fit_scaled = scaler.fit_transform(X_fit).astype(np.float32)
+        X_apply_scaled = scaler.transform(X_apply).astype(np.float32)
+
+        selector = None
+        if hyperparameters.get('feature_selection', 'auto') == 'auto' and X_fit_scaled.shape[1] > 1:
+            selector = SelectKBest(f_classif, k=min(10, X_fit_scaled.shape[1]))
+            X_fit_scaled = selector.fit_transform(X_fit_scaled, y_fit).astype(np.float32)
+            X_apply_scaled = selector.transform(X_apply_scaled).astype(np.float32)
+
+        X_fit_processed, X_apply_processed, algorithm_preprocessor = self._prepare_algorithm_features(
+            X_fit_scaled,
+            X_apply_scaled,
+            algorithm
+        )
+        return X_fit_processed, X_apply_processed, {
+            'scaler': scaler,
+            'selector': selector,
+            'algorithm_preprocessor': algorithm_preprocessor,
+        }
+
+    def _build_model(self, algorithm: str, hyperparameters: Dict[str, Any], X_fit, y_fit, verbose: bool = True):
+        """Unfitted estimator, tuned on X_fit when cross-validation is enabled."""
+        model = self._create_model(algorithm, hyperparameters)
+        if hyperparameters.get('cross_validation', True):
+            model = self._tune_hyperparameters(model, X_fit, y_fit, algorithm, verbose=verbose)
+        return model
+
+    def _resample_array(self, X, y, technique: str, options: Dict[str, Any]):
+        """Resample a numeric training matrix; rows outside it are never touched."""
+        X_df = pd.DataFrame(np.asarray(X), columns=[f'f{i}' for i in range(np.asarray(X).shape[1])])
+        X_res, y_res = self._apply_sampling(X_df, pd.Series(np.asarray(y)), technique, **options)
+        return np.asarray(X_res, dtype=np.float32), np.asarray(y_res).astype(np.int32)
+
+    def _resolve_validation_config(self, hyperparameters: Dict[str, Any]) -> Dict[str, Any]:
+        """Validation strategy settings; names and defaults match the Node engine."""
+        strategy = hyperparameters.get('validation_strategy', 'stratified_kfold')
+        if strategy not in ('stratified_kfold', 'repeated_stratified_kfold', 'bootstrap'):
+            strategy = 'stratified_kfold'
+        repeated = strategy == 'repeated_stratified_kfold'
+        return {
+            'strategy': strategy,
+            'folds': max(1, int(hyperparameters.get('cv_folds', 10 if repeated else 5))),
+            'repeats': max(1, int(hyperparameters.get('cv_repeats', 10))) if repeated else 1,
+            'iterations': max(1, int(hyperparameters.get('bootstrap_iterations', 100))),
+        }
+
+    def _validation_splits(self, y_train, config: Dict[str, Any], random_state: int):
+        """Yield (repeat, fold, train_idx, test_idx) for the configured strategy."""
+        rng = np.random.RandomState(random_state)
+        if config['strategy'] == 'bootstrap':
+            classes = [np.flatnonzero(y_train == label) for label in np.unique(y_train)]
+            for iteration in range(config['iterations']):
+                # Per-class draws with replacement; the never-drawn rows form the test set.
+                train_idx = np.concatenate([rng.choice(group, size=len(group), replace=True) for group in classes])
+                test_idx = np.setdiff1d(np.arange(len(y_train)), train_idx)
+                if len(test_idx) > 0:
+                    yield iteration, 0, train_idx, test_idx
+            return
+
         class_counts = np.bincount(y_train)
         positive_counts = class_counts[class_counts > 0]
         min_class_count = int(positive_counts.min()) if len(positive_counts) > 0 else 0
-        n_splits = max(2, min(5, min_class_count)) if min_class_count >= 2 else 2
-        cv = StratifiedKFold(n_splits=n_splits, shuffle=True, random_state=42)
-        scoring = {
-            'accuracy': 'accuracy',
-            'precision': 'precision',
-            'recall': 'recall',
-            'f1': 'f1',
-            'mcc': make_scorer(matthews_corrcoef)
+        n_splits = max(2, min(config['folds'], min_class_count)) if min_class_count >= 2 else 2
+        for repeat in range(config['repeats']):
+            cv = StratifiedKFold(n_splits=n_splits, shuffle=True, random_state=random_state + repeat)
+            for fold, (train_idx, test_idx) in enumerate(cv.split(np.zeros(len(y_train)), y_train)):
+                yield repeat, fold, train_idx, test_idx
+
+    def _summarize_metric(self, values, method: str, test_train_ratio: float) -> Optional[Dict[str, float]]:
+        """Mean, std and 95% CI; corrected resampled t (Nadeau & Bengio) or bootstrap percentile."""
+        values = np.asarray([v for v in values if v is not None and np.isfinite(v)], dtype=float)
+        if len(values) == 0:
+            return None
+        mean = float(np.mean(values))
+        std = float(np.std(values, ddof=1)) if len(values) > 1 else 0.0
+        lower, upper = mean, mean
+        if len(values) > 1:
+            if method == 'percentile':
+                lower, upper = (float(v) for v in np.percentile(values, [2.5, 97.5]))
+            else:
+                half_width = scipy_stats.t.ppf(0.975, len(values) - 1) * std * np.sqrt(1 / len(values) + test_train_ratio)
+                lower, upper = mean - half_width, mean + half_width
+        return {'mean': mean, 'std': std, 'ciLower': lower, 'ciUpper': upper, 'n': int(len(values))}
+
+    def _validate_model(
+        self,
+        X_train,
+        y_train,
+        algorithm: str,
+        hyperparameters: Dict[str, Any],
+        sampling_technique: str,
+        sampling_options: Dict[str, Any],
+    ) -> Dict[str, Any]:
+        """Resampled validation of the whole training procedure.
+
+        Scaling, feature selection, algorithm transforms, tuning and sampling are all fitted
+        on each fold's training rows only; X_train is the raw training split.
+        """
+        config = self._resolve_validation_config(hyperparameters)
+        random_state = int(hyperparameters.get('random_state', 42))
+        y_train = np.asarray(y_train).astype(int)
+        folds = []
+        ratios = []
+        # Out-of-fold score per training row, averaged over every evaluation that held it out.
+        oof_sum = np.zeros(len(y_train))
+        oof_count = np.zeros(len(y_train), dtype=int)
+        for repeat, fold, train_idx, test_idx in self._validation_splits(y_train, config, random_state):
+            X_fold_train, X_fold_test, _ = self._fit_preprocessing(
+                X_train[train_idx], y_train[train_idx], X_train[test_idx], algorithm, hyperparameters
+            )
+            fold_model = self._build_model(algorithm, hyperparameters, X_fold_train, y_train[train_idx], verbose=False)
+            X_fold, y_fold = self._resample_array(X_fold_train, y_train[train_idx], sampling_technique, sampling_options)
+            fold_model.fit(X_fold, y_fold)
+            y_pred = fold_model.predict(X_fold_test)
+            y_proba = fold_model.predict_proba(X_fold_test)[:, 1] if hasattr(fold_model, 'predict_proba') else None
+            if y_proba is not None:
+                np.add.at(oof_sum, test_idx, y_proba)
+                np.add.at(oof_count, test_idx, 1)
+            metrics = self._calculate_metrics(y_train[test_idx], y_pred, y_proba)
+            folds.append({
+                'repeat': int(repeat),
+                'fold': int(fold),
+                'accuracy': metrics['accuracy'],
+                'precision': metrics['precision'],
+                'recall': metrics['recall'],
+                'f1Score': metrics['f1_score'],
+                'mcc': metrics['mcc'],
+                'aucRoc': metrics.get('auc_roc'),
+                'balancedAccuracy': metrics['balanced_accuracy'],
+                'gMean': metrics['g_mean'],
+                'prAuc': metrics.get('pr_auc'),
+                'pf': metrics['pf'],
+                'specificity': metrics['specificity'],
+                'f2Score': metrics['f2_score'],
+            })
+            ratios.append(len(test_idx) / len(train_idx))
+
+        method = 'percentile' if config['strategy'] == 'bootstrap' else 'corrected_t'
+        test_train_ratio = float(np.mean(ratios)) if ratios else 0.0
+        summary_metrics = {
+            name: self._summarize_metric([f[name] for f in folds], method, test_train_ratio)
+            for name in SUMMARY_METRICS
         }
-        scores = cross_validate(clone(model), X_train, y_train, cv=cv, scoring=scoring, n_jobs=1)
+        mean_of = lambda name: summary_metrics[name]['mean'] if summary_metrics[name] else 0.0
         metrics = {
-            'accuracy': float(np.mean(scores['test_accuracy'])),
-            'precision': float(np.mean(scores['test_precision'])),
-            'recall': float(np.mean(scores['test_recall'])),
-            'f1_score': float(np.mean(scores['test_f1'])),
-            'mcc': float(np.mean(scores['test_mcc']))
+            'accuracy': mean_of('accuracy'),
+            'precision': mean_of('precision'),
+            'recall': mean_of('recall'),
+            'f1_score': mean_of('f1Score'),
+            'mcc': mean_of('mcc'),
+            'balanced_accuracy': mean_of('balancedAccuracy'),
+            'g_mean': mean_of('gMean'),
+            'pf': mean_of('pf'),
+            'specificity': mean_of('specificity'),
+            'f2_score': mean_of('f2Score'),
         }
-        print(f"[Python Backend] Validation metrics: {metrics}")
-        return metrics
-    
+        if summary_metrics['aucRoc']:
+            metrics['auc_roc'] = summary_metrics['aucRoc']['mean']
+        if summary_metrics['prAuc']:
+            metrics['pr_auc'] = summary_metrics['prAuc']['mean']
+        print(f"[Python Backend] Validation ({config['strategy']}, {len(folds)} evaluations): {metrics}")
+        held = np.flatnonzero(oof_count)
+        return {
+            'metrics': metrics,
+            'folds': folds,
+            'oof': {
+                'labels': y_train[held].tolist(),
+                'scores': np.round(oof_sum[held] / oof_count[held], 4).tolist(),
+            },
+            'oof_rows': held,
+            'summary': {
+                **config,
+                'evaluations': len(folds),
+                'intervalMethod': method,
+                'confidence': 0.95,
+                'metrics': summary_metrics,
+            },
+        }
+
+    def _fit_calibrator(self, method: str, labels, scores, training_prior: float, target_prior: float) -> Dict[str, Any]:
+        """Calibrator fitted on out-of-fold scores, serialized like server/ml/calibration.ts."""
+        labels = (np.asarray(labels) == 1).astype(int)
+        scores = np.asarray(scores, dtype=float)
+        if method not in CALIBRATION_METHODS or method == 'none' or len(labels) == 0 or labels.min() == labels.max():
+            return {'method': 'none'}
+        if method == 'isotonic':
+            iso = IsotonicRegression(y_min=0.0, y_max=1.0, out_of_bounds='clip').fit(scores, labels)
+            return {'method': 'isotonic', 'x': iso.X_thresholds_.tolist(), 'y': iso.y_thresholds_.tolist()}
+        if method == 'prior_correction':
+            return {'method': 'prior_correction', 'trainingPrior': float(training_prior), 'targetPrior': float(target_prior)}
+
+        # Platt scaling on the log-odds with Lin, Lin & Weng's smoothed targets.
+        positives = labels.sum()
+        negatives = len(labels) - positives
+        targets = np.where(labels == 1, (positives + 1) / (positives + 2), 1 / (negatives + 2))
+        f = self._logit(scores)
+        design = np.column_stack([f, np.ones_like(f)])
+
+        def loss(params):
+            p = np.clip(1 / (1 + np.exp(-(design @ params))), 1e-12, 1 - 1e-12)
+            return -np.sum(targets * np.log(p) + (1 - targets) * np.log(1 - p))
+
+        params = np.array([1.0, 0.0])
+        current = loss(params)
+        for _ in range(100):
+            p = 1 / (1 + np.exp(-(design @ params)))
+            gradient = design.T @ (p - targets)
+            if np.all(np.abs(gradient) < 1e-8):
+                break
+            hessian = design.T @ (design * (p * (1 - p))[:, None]) + 1e-12 * np.eye(2)
+            try:
+                direction = np.linalg.solve(hessian, gradient)
+            except np.linalg.LinAlgError:
+                break
+            step = 1.0
+            while step > 1e-8:
+                candidate = loss(params - step * direction)
+                if candidate < current + 1e-12:
+                    params, current = params - step * direction, candidate
+                    break
+                step /= 2
+            if step <= 1e-8:
+                break
+        return {'method': 'platt', 'a': float(params[0]), 'b': float(params[1])}
+
+    @staticmethod
+    def _logit(scores):
+        clipped = np.clip(np.asarray(scores, dtype=float), 1e-6, 1 - 1e-6)
+        return np.log(clipped / (1 - clipped))
+
+    def _apply_calibrator(self, calibrator: Optional[Dict[str, Any]], scores):
+        scores = np.asarray(scores, dtype=float)
+        method = (calibrator or {}).get('method', 'none')
+        if method == 'platt':
+            return 1 / (1 + np.exp(-(calibrator['a'] * self._logit(scores) + calibrator['b'])))
+        if method == 'isotonic':
+            return np.interp(scores, calibrator['x'], calibrator['y'])
+        if method == 'prior_correction':
+            training, target = calibrator['trainingPrior'], calibrator['targetPrior']
+            if not (0 < training < 1 and 0 < target < 1):
+                return scores
+            odds = scores / np.maximum(1e-6, 1 - scores) * (target / (1 - target)) / (training / (1 - training))
+            return odds / (1 + odds)
+        return scores
+
+    def _calibration_report(self, labels, scores, bin_count: int = 10) -> Dict[str, Any]:
+        """Brier score, expected calibration error and reliability bins."""
+        labels = (np.asarray(labels) == 1).astype(int)
+        scores = np.asarray(scores, dtype=float)
+        n = len(labels)
+        bin_index = np.clip(np.floor(scores * bin_count).astype(int), 0, bin_count - 1)
+        bins = []
+        ece = 0.0
+        for b in range(bin_count):
+            mask = bin_index == b
+            count = int(mask.sum())
+            if count == 0:
+                continue
+            mean_predicted = float(scores[mask].mean())
+            observed_rate = float(labels[mask].mean())
+            ece += count / n * abs(observed_rate - mean_predicted)
+            bins.append({
+                'lower': b / bin_count,
+                'upper': (b + 1) / bin_count,
+                'count': count,
+                'meanPredicted': mean_predicted,
+                'observedRate': observed_rate,
+            })
+        return {
+            'brierScore': float(np.mean((scores - labels) ** 2)) if n else 0.0,
+            'expectedCalibrationError': float(ece),
+            'bins': bins,
+        }
+
+    def _effort_metrics(self, labels, scores, sizes, budget: float = 0.2, curve_points: int = 51) -> Dict[str, Any]:
+        """Popt, ACC and IFA ranked by score per line, matching server/ml/effort.ts."""
+        labels = (np.asarray(labels) == 1).astype(int)
+        scores = np.asarray(scores, dtype=float)
+        sizes = np.nan_to_num(np.asarray(sizes, dtype=float), nan=0.0, posinf=0.0, neginf=0.0)
+        sizes = np.maximum(sizes, 0.0)
+        total_size = float(sizes.sum())
+        total_defects = int(labels.sum())
+        empty = {'popt': None, 'acc': None, 'ifa': None, 'budget': budget, 'liftChart': []}
+        if len(labels) == 0 or total_size == 0 or total_defects == 0:
+            return empty
+
+        per_line = np.maximum(sizes, 1.0)
+        # lexsort sorts by the last key first; size breaks ties in each ordering.
+        model_order = np.lexsort((sizes, -(scores / per_line)))
+        optimal_order = np.lexsort((sizes, -(labels / per_line)))
+        worst_order = np.lexsort((-sizes, labels / per_line))
+
+        def curve(order):
+            effort = np.r_[0.0, np.cumsum(sizes[order]) / total_size]
+            found = np.r_[0.0, np.cumsum(labels[order]) / total_defects]
+            return effort, found
+
+        def area(points):
+            return float(np.trapz(points[1], points[0]))
+
+        model_curve, optimal_curve, worst_curve = curve(model_order), curve(optimal_order), curve(worst_order)
+        spread = area(optimal_curve) - area(worst_curve)
+        popt = 1 - (area(optimal_curve) - area(model_curve)) / spread if spread > 0 else None
+
+        within_budget = np.cumsum(sizes[model_order]) <= budget * total_size
+        # Stop at the first module that no longer fits, as the Node implementation does.
+        inspected = int(np.argmin(within_budget)) if not within_budget.all() else len(within_budget)
+        acc = float(labels[model_order][:inspected].sum() / total_defects)
+        ifa = int(np.argmax(labels[model_order] == 1))
+
+        grid = np.linspace(0, 1, curve_points)
+        lift = [
+            {
+                'effort': float(x),
+                'model': float(np.interp(x, *model_curve)),
+                'optimal': float(np.interp(x, *optimal_curve)),
+                'worst': float(np.interp(x, *worst_curve)),
+            }
+            for x in grid
+        ]
+        return {'popt': popt, 'acc': acc, 'ifa': ifa, 'budget': budget, 'liftChart': lift}
+
+    def _select_threshold(self, labels, scores, hyperparameters: Dict[str, Any]) -> Optional[Dict[str, Any]]:
+        """Decision threshold for the configured strategy, matching server/ml/thresholds.ts."""
+        labels = np.asarray(labels, dtype=int)
+        scores = np.asarray(scores, dtype=float)
+        if len(labels) == 0:
+            return None
+        strategy = hyperparameters.get('threshold_strategy', 'fixed')
+        if strategy not in THRESHOLD_STRATEGIES:
+            strategy = 'fixed'
+        try:
+            cost_ratio = float(hyperparameters.get('threshold_cost_ratio', 1.0))
+        except (TypeError, ValueError):
+            cost_ratio = 1.0
+        if not np.isfinite(cost_ratio) or cost_ratio <= 0:
+            cost_ratio = 1.0
+        try:
+            fixed = min(1.0, max(0.0, float(hyperparameters.get('decision_threshold', 0.5))))
+        except (TypeError, ValueError):
+            fixed = 0.5
+
+        positives = int(labels.sum())
+        negatives = len(labels) - positives
+        if strategy == 'fixed':
+            predicted = scores >= fixed
+            thresholds = np.array([fixed])
+            tp = np.array([int(np.sum(predicted & (labels == 1)))])
+            fp = np.array([int(np.sum(predicted & (labels == 0)))])
+        else:
+            # Every distinct score as the cut-off, highest first, after "predict nothing".
+            order = np.argsort(-scores, kind='mergesort')
+            sorted_scores = scores[order]
+            sorted_labels = labels[order]
+            last_of_run = np.r_[sorted_scores[1:] != sorted_scores[:-1], True]
+            thresholds = np.r_[1.0 + 1e-9, sorted_scores[last_of_run]]
+            tp = np.r_[0, np.cumsum(sorted_labels)[last_of_run]]
+            fp = np.r_[0, np.cumsum(1 - sorted_labels)[last_of_run]]
+        fn = positives - tp
+        tn = negatives - fp
+
+        with np.errstate(divide='ignore', invalid='ignore'):
+            precision = np.where(tp + fp > 0, tp / np.maximum(tp + fp, 1), 0.0)
+            recall = np.where(tp + fn > 0, tp / np.maximum(tp + fn, 1), 0.0)
+            specificity = np.where(tn + fp > 0, tn / np.maximum(tn + fp, 1), 0.0)
+            f1 = np.where(precision + recall > 0, 2 * precision * recall / np.maximum(precision + recall, 1e-12), 0.0)
+            denominator = np.sqrt((tp + fp).astype(float) * (tp + fn) * (tn + fp) * (tn + fn))
+            mcc = np.where(denominator > 0, (tp * tn - fp * fn) / np.maximum(denominator, 1e-12), 0.0)
+        g_mean = np.sqrt(recall * specificity)
+        youden = recall + specificity - 1
+        expected_cost = (cost_ratio * fn + fp) / len(labels)
+
+        objectives = {
+            'fixed': np.zeros(len(thresholds)),
+            'max_f1': f1,
+            'max_mcc': mcc,
+            'max_gmean': g_mean,
+            'youden_j': youden,
+            'min_cost': -expected_cost,
+        }
+        best = int(np.argmax(objectives[strategy]))
+        threshold = float(min(1.0, thresholds[best]))
+        return {
+            'strategy': strategy,
+            'costRatio': cost_ratio,
+            'threshold': threshold,
+            'evaluated': int(len(labels)),
+            'metrics': {
+                'tp': int(tp[best]),
+                'fp': int(fp[best]),
+                'tn': int(tn[best]),
+                'fn': int(fn[best]),
+                'threshold': threshold,
+                'precision': float(precision[best]),
+                'recall': float(recall[best]),
+                'specificity': float(specificity[best]),
+                'f1Score': float(f1[best]),
+                'mcc': float(mcc[best]),
+                'gMean': float(g_mean[best]),
+                'youdenJ': float(youden[best]),
+                'expectedCost': float(expected_cost[best]),
+            },
+        }
+
     def _create_model(self, algorithm: str, hyperparameters: Dict[str, Any]):
         """Create deterministic models for repeatable results."""
         random_state = int(hyperparameters.get('random_state', 42))
@@ -696,14 +1227,31 @@ class MLBackend:
                 eval_metric='logloss',
                 random_state=random_state,
                 n_jobs=1
+            ),
+            'logistic_regression': LogisticRegression(
+                C=hyperparameters.get('C', 1.0),
+                max_iter=int(hyperparameters.get('max_iter', 1000)),
+                class_weight=hyperparameters.get('class_weight', 'balanced'),
+                random_state=random_state
+            ),
+            'decision_tree': DecisionTreeClassifier(
+                max_depth=hyperparameters.get('max_depth', None),
+                min_samples_split=hyperparameters.get('min_samples_split', 2),
+                min_samples_leaf=hyperparameters.get('min_samples_leaf', 1),
+                class_weight='balanced',
+                random_state=random_state
+            ),
+            'naive_bayes': GaussianNB(
+                var_smoothing=hyperparameters.get('var_smoothing', 1e-9)
             )
         }
 
         return models.get(algorithm, RandomForestClassifier(random_state=random_state, n_jobs=1))
     
-    def _tune_hyperparameters(self, model, X_train, y_train, algorithm: str):
+    def _tune_hyperparameters(self, model, X_train, y_train, algorithm: str, verbose: bool = True):
         """Perform deterministic hyperparameter tuning."""
-        print(f"[Python Backend] Performing hyperparameter tuning for {algorithm}...")
+        if verbose:
+            print(f"[Python Backend] Performing hyperparameter tuning for {algorithm}...")
 
         class_counts = np.bincount(y_train)
         positive_counts = class_counts[class_counts > 0]
@@ -752,8 +1300,9 @@ class MLBackend:
             verbose=0
         )
         grid_search.fit(X_train, y_train)
-        print(f"[Python Backend] Best parameters: {grid_search.best_params_}")
-        print(f"[Python Backend] Best F1 score: {grid_search.best_score_:.4f}")
+        if verbose:
+            print(f"[Python Backend] Best parameters: {grid_search.best_params_}")
+            print(f"[Python Backend] Best F1 score: {grid_search.best_score_:.4f}")
         return grid_search.best_estimator_
     
     def _calculate_metrics(self, y_true, y_pred, y_pred_proba=None) -> Dict[str, Any]:
@@ -771,10 +1320,21 @@ class MLBackend:
                 'mcc': float(matthews_corrcoef(y_true, y_pred)) if len(np.unique(np.concatenate([y_true, y_pred]))) > 1 else 0.0,
                 'confusion_matrix': confusion_matrix(y_true, y_pred, labels=[0, 1])
             }
+            tn, fp, fn, tp = metrics['confusion_matrix'].ravel()
+            specificity = float(tn / (tn + fp)) if tn + fp > 0 else 0.0
+            metrics.update({
+                'balanced_accuracy': float((metrics['recall'] + specificity) / 2),
+                'g_mean': float(np.sqrt(metrics['recall'] * specificity)),
+                'specificity': specificity,
+                'pf': float(fp / (tn + fp)) if tn + fp > 0 else 0.0,
+                'f2_score': float(fbeta_score(y_true, y_pred, beta=2, zero_division=0)),
+                'classification_report': self._classification_report(y_true, y_pred),
+            })
 
             if y_pred_proba is not None and len(np.unique(y_true)) > 1:
                 try:
                     metrics['auc_roc'] = float(roc_auc_score(y_true, y_pred_proba))
+                    metrics['pr_auc'] = float(average_precision_score(y_true, y_pred_proba))
                 except Exception as e:
                     print(f"[Python Backend] Warning: AUC-ROC calculation failed: {e}")
                     metrics['auc_roc'] = 0.5
@@ -790,9 +1350,31 @@ class MLBackend:
                 'recall': 0.0,
                 'f1_score': 0.0,
                 'mcc': 0.0,
+                'balanced_accuracy': 0.5,
+                'g_mean': 0.0,
+                'specificity': 0.0,
+                'pf': 0.0,
+                'f2_score': 0.0,
+                'classification_report': None,
                 'confusion_matrix': np.array([[0, 0], [0, 0]])
             }
     
+    def _classification_report(self, y_true, y_pred) -> Dict[str, Any]:
+        """sklearn's per-class report in the Node engine's camelCase layout."""
+        report = classification_report(y_true, y_pred, labels=[0, 1], output_dict=True, zero_division=0)
+        row = lambda values: {
+            'precision': float(values['precision']),
+            'recall': float(values['recall']),
+            'f1Score': float(values['f1-score']),
+            'support': int(values['support']),
+        }
+        return {
+            'classes': {'0': row(report['0']), '1': row(report['1'])},
+            'accuracy': float(np.mean(np.asarray(y_true) == np.asarray(y_pred))) if len(y_true) else 0.0,
+            'macroAvg': row(report['macro avg']),
+            'weightedAvg': row(report['weighted avg']),
+        }
+
     def _get_feature_importance(self, model, feature_names: List[str]) -> Dict[str, float]:
         """Extract feature importance from native estimators and soft-voting ensembles."""
         importances = None
@@ -820,44 +1402,289 @@ class MLBackend:
             for index in range(usable_length)
         }
     
-    def explain_model(self, model_id: str) -> Dict[str, Any]:
-        """Generate model explanations using SHAP and LIME"""
-        if not HAS_EXPLAINABILITY:
-            return {'error': 'Explainability libraries not available'}
-        
+    def predict_model(self, config: Dict[str, Any]) -> Dict[str, Any]:
+        """Score new modules with a stored model; labels are left to the caller's threshold."""
         try:
-            # Load model
-            model_path = f'models/{model_id}.pkl'
-            with open(model_path, 'rb') as f:
+            with open(config['modelPath'], 'rb') as f:
                 model_data = pickle.load(f)
-            
-            model = model_data['model']
-            scaler = model_data['scaler']
-            
-            # Load sample data for explanation
-            df = pd.read_csv('data/nasa_defect_dataset.csv')
-            X = df.drop(columns=['defects'])
-            X_scaled = scaler.transform(X)
-            
-            # SHAP explanations
-            explainer = shap.TreeExplainer(model) if hasattr(model, 'feature_importances_') else shap.LinearExplainer(model, X_scaled)
-            shap_values = explainer.shap_values(X_scaled[:100])  # Sample for performance
-            
-            # LIME explanation for a sample instance
-            lime_explainer = LimeTabularExplainer(
-                X_scaled, feature_names=X.columns, class_names=['No Defect', 'Defect'], mode='classification'
+
+            df = pd.read_csv(config['inputPath'])
+            feature_names = model_data['feature_names']
+            missing = [name for name in feature_names if name not in df.columns]
+            if missing:
+                return {'error': f"Missing feature columns: {', '.join(missing)}"}
+
+            # Training label-encoded text columns without keeping the encoders, so anything
+            # non-numeric here falls back to 0 like unparseable training cells did.
+            X = df[feature_names].apply(pd.to_numeric, errors='coerce').fillna(0)
+            scores = self._score_features(model_data, X)
+            return {
+                'scores': [round(float(score), 6) for score in scores],
+                'decisionThreshold': float(model_data.get('decision_threshold', 0.5)),
+            }
+        except Exception as e:
+            return {'error': str(e)}
+
+    def _score_features(self, model_data: Dict[str, Any], X) -> np.ndarray:
+        """Calibrated defect probabilities for rows of the model's raw feature columns."""
+        X_processed = model_data['scaler'].transform(np.asarray(X, dtype=np.float32))
+        if model_data.get('selector') is not None:
+            X_processed = model_data['selector'].transform(X_processed)
+        preprocessor = model_data.get('algorithm_preprocessor') or {}
+        if preprocessor.get('transformer') is not None:
+            X_processed = preprocessor['transformer'].transform(X_processed)
+        if preprocessor.get('add_interaction_feature'):
+            X_processed = np.column_stack([X_processed, X_processed[:, 0] * X_processed[:, 1]])
+
+        model = model_data['model']
+        X_processed = np.asarray(X_processed, dtype=np.float32)
+        if hasattr(model, 'predict_proba'):
+            scores = model.predict_proba(X_processed)[:, 1]
+        else:
+            scores = model.predict(X_processed).astype(float)
+        return self._apply_calibrator(model_data.get('calibrator'), scores)
+
+    def environment(self) -> Dict[str, Any]:
+        """Interpreter and package versions recorded in run manifests."""
+        from importlib import metadata
+        packages = {}
+        for name in ('numpy', 'pandas', 'scipy', 'scikit-learn', 'imbalanced-learn', 'xgboost', 'lightgbm'):
+            try:
+                packages[name] = metadata.version(name)
+            except metadata.PackageNotFoundError:
+                packages[name] = None
+        return {
+            'version': sys.version.split()[0],
+            'implementation': sys.implementation.name,
+            'packages': packages,
+        }
+
+    def export_model(self, config: Dict[str, Any]) -> Dict[str, Any]:
+        """Write a stored pickle as ONNX (skl2onnx) or PMML (nyoka) with its preprocessing."""
+        try:
+            with open(config['modelPath'], 'rb') as f:
+                model_data = pickle.load(f)
+
+            preprocessor = model_data.get('algorithm_preprocessor') or {}
+            if preprocessor.get('add_interaction_feature'):
+                return {'error': 'Models with the engineered interaction feature cannot be exported'}
+
+            steps = [('scaler', model_data['scaler'])]
+            if model_data.get('selector') is not None:
+                steps.append(('selector', model_data['selector']))
+            if preprocessor.get('transformer') is not None:
+                steps.append(('transformer', preprocessor['transformer']))
+            steps.append(('model', model_data['model']))
+            pipeline = Pipeline(steps)
+
+            feature_names = model_data['feature_names']
+            threshold = float(model_data.get('decision_threshold', 0.5))
+            calibrator = model_data.get('calibrator') or {'method': 'none'}
+            output_path = config['outputPath']
+
+            if config['format'] == 'onnx':
+                try:
+                    from skl2onnx import convert_sklearn
+                    from skl2onnx.common.data_types import FloatTensorType
+                except ImportError:
+                    return {'error': 'ONNX export of Python models needs skl2onnx'}
+                onnx_model = convert_sklearn(
+                    pipeline,
+                    initial_types=[('features', FloatTensorType([None, len(feature_names)]))],
+                    options={id(model_data['model']): {'zipmap': False}},
+                )
+                for key, value in (
+                    ('feature_names', json.dumps(feature_names)),
+                    ('decision_threshold', str(threshold)),
+                    ('calibrator', json.dumps(calibrator)),
+                ):
+                    entry = onnx_model.metadata_props.add()
+                    entry.key, entry.value = key, value
+                with open(output_path, 'wb') as f:
+                    f.write(onnx_model.SerializeToString())
+            elif config['format'] == 'pmml':
+                try:
+                    from nyoka import skl_to_pmml
+                except ImportError:
+                    return {'error': 'PMML export of Python models needs nyoka'}
+                skl_to_pmml(pipeline, feature_names, config.get('targetColumn') or 'defects', output_path)
+                # PMML has no slot for a tuned cut-off or an external calibrator; keep them as extensions.
+                with open(output_path, 'r', encoding='utf-8') as f:
+                    document = f.read()
+                extensions = (
+                    f'<Extension name="decision_threshold" value="{threshold}"/>'
+                    f'<Extension name="calibrator" value="{html.escape(json.dumps(calibrator))}"/>'
+                )
+                document = re.sub(r'(<Header[^>]*>)', lambda match: match.group(1) + extensions, document, count=1)
+                with open(output_path, 'w', encoding='utf-8') as f:
+                    f.write(document)
+            else:
+                return {'error': f"Unsupported export format: {config['format']}"}
+
+            return {'outputPath': output_path, 'decisionThreshold': threshold}
+        except Exception as e:
+            return {'error': str(e)}
+
+    def explain_model(self, config: Dict[str, Any]) -> Dict[str, Any]:
+        """Global or single-row explanations of a stored model.
+
+        Everything is computed on the raw feature columns through the whole scoring
+        pipeline (scaler, selector, transforms, calibration), so attributions are in
+        defect-probability units and name the columns of the dataset. Permutation
+        importance and mean |SHAP| use the holdout split training used.
+        """
+        try:
+            with open(config['modelPath'], 'rb') as f:
+                model_data = pickle.load(f)
+
+            df = pd.read_csv(config['datasetPath'])
+            X, y = self._prepare_training_data(df.copy())
+            feature_names = model_data['feature_names']
+            missing = [name for name in feature_names if name not in X.columns]
+            if missing:
+                return {'error': f"Missing feature columns: {', '.join(missing)}"}
+            X = X[feature_names]
+
+            random_state = int(config.get('randomState', 42))
+            stratify_param = y if y.nunique() > 1 else None
+            X_train, X_test, _, y_test = train_test_split(
+                X, y, test_size=0.2, random_state=random_state, stratify=stratify_param
             )
-            lime_exp = lime_explainer.explain_instance(X_scaled[0], model.predict_proba, num_features=10)
-            
+
+            def score(values):
+                return self._score_features(model_data, values)
+
+            notes = []
+            explainer = None
+            max_evals = max(500, 2 * len(feature_names) + 1)
+            if HAS_SHAP:
+                background = X_train.sample(n=min(len(X_train), int(config.get('backgroundSize', 50))), random_state=random_state)
+                explainer = shap.explainers.Permutation(
+                    score, shap.maskers.Independent(background.values, max_samples=len(background))
+                )
+            else:
+                notes.append('shap is not installed, so SHAP values are omitted')
+
+            if config.get('row') is not None:
+                return self._explain_row(
+                    int(config['row']), df, X, y, X_train, X_test, score, explainer, max_evals, random_state, notes
+                )
+
+            np.random.seed(random_state)
+            rng = np.random.RandomState(random_state)
+            holdout_scores = score(X_test)
+            repeats = int(config.get('repeats', 10))
+            baseline_auc = float(roc_auc_score(y_test, holdout_scores)) if y_test.nunique() > 1 else None
+            permutation = {}
+            if baseline_auc is None:
+                notes.append('The holdout has one class, so permutation importance (ROC AUC drop) is undefined')
+            else:
+                for name in feature_names:
+                    drops = []
+                    for _ in range(repeats):
+                        shuffled = X_test.copy()
+                        shuffled[name] = rng.permutation(shuffled[name].values)
+                        drops.append(baseline_auc - roc_auc_score(y_test, score(shuffled)))
+                    permutation[name] = self._summarize_metric(drops, 't', 0.0)
+
+            mean_abs_shap = {}
+            sample_size = 0
+            if explainer is not None:
+                sample = X_test.sample(n=min(len(X_test), int(config.get('sampleSize', 50))), random_state=random_state)
+                values = np.asarray(explainer(sample.values, max_evals=max_evals).values)
+                sample_size = len(sample)
+                mean_abs_shap = dict(zip(feature_names, np.abs(values).mean(axis=0).tolist()))
+
+            features = [
+                {
+                    'feature': name,
+                    'meanAbsShap': mean_abs_shap.get(name),
+                    'permutation': permutation.get(name),
+                }
+                for name in feature_names
+            ]
+            riskiest = np.argsort(-holdout_scores)[:10]
             return {
-                'shap_values': shap_values.tolist() if isinstance(shap_values, np.ndarray) else [sv.tolist() for sv in shap_values],
-                'feature_names': X.columns.tolist(),
-                'lime_explanation': lime_exp.as_list()
+                'engine': 'python',
+                'shapMethod': 'permutation' if explainer is not None else None,
+                'metric': 'aucRoc',
+                'baselineAuc': baseline_auc,
+                'repeats': repeats,
+                'evaluationRows': int(len(X_test)),
+                'sampleSize': sample_size,
+                'features': features,
+                'suggestedRows': [
+                    {'row': int(X_test.index[i]), 'label': int(y_test.iloc[i]), 'score': float(holdout_scores[i])}
+                    for i in riskiest
+                ],
+                'notes': notes,
             }
-            
         except Exception as e:
             return {'error': str(e)}
 
+    def _explain_row(self, row, df, X, y, X_train, X_test, score, explainer, max_evals, random_state, notes):
+        """SHAP contributions and LIME weights for one dataset row."""
+        if not 0 <= row < len(X):
+            return {'error': f'Row {row} is outside the dataset (0-{len(X) - 1})'}
+        instance = X.iloc[[row]]
+        feature_names = list(X.columns)
+        raw = df.iloc[row]
+
+        shap_result = None
+        if explainer is not None:
+            np.random.seed(random_state)
+            explanation = explainer(instance.values, max_evals=max_evals)
+            shap_result = {
+                'method': 'permutation',
+                'baseValue': float(np.asarray(explanation.base_values).reshape(-1)[0]),
+                'contributions': [
+                    {
+                        'feature': name,
+                        'value': '' if pd.isna(raw[name]) else str(raw[name]),
+                        'contribution': float(value),
+                    }
+                    for name, value in zip(feature_names, np.asarray(explanation.values)[0])
+                ],
+            }
+
+        lime_result = None
+        if HAS_LIME:
+            lime_explainer = LimeTabularExplainer(
+                X_train.values,
+                feature_names=feature_names,
+                class_names=['clean', 'defective'],
+                mode='classification',
+                discretize_continuous=True,
+                random_state=random_state,
+            )
+
+            def predict_proba(values):
+                scores = score(values)
+                return np.column_stack([1 - scores, scores])
+
+            lime_exp = lime_explainer.explain_instance(
+                instance.values[0], predict_proba, labels=(1,), num_features=min(10, len(feature_names)), num_samples=1000
+            )
+            lime_result = {
+                'intercept': float(lime_exp.intercept[1]),
+                'prediction': float(np.asarray(lime_exp.local_pred).reshape(-1)[0]),
+                'score': float(lime_exp.score),
+                'weights': [{'rule': rule, 'weight': float(weight)} for rule, weight in lime_exp.as_list(label=1)],
+            }
+        else:
+            notes.append('lime is not installed, so LIME weights are omitted')
+
+        return {
+            'engine': 'python',
+            'row': row,
+            'prediction': float(score(instance)[0]),
+            'label': int(y.iloc[row]),
+            'inHoldout': bool(row in X_test.index),
+            'shap': shap_result,
+            'lime': lime_result,
+            'notes': notes,
+        }
+
 
 class QuantumMLBackend:
     """Quantum Machine Learning Backend"""
@@ -1008,47 +1835,41 @@ class RLBackend:
         if not HAS_RL:
             print("RL libraries not available. RL features disabled.")
     
-    def train_agent(self, config: Dict[str, Any]):
-        """Train RL agent for hyperparameter optimization"""
+    def train_agent(self, config: Dict[str, Any], on_progress=None) -> Dict[str, Any]:
+        """Train RL agent for hyperparameter optimization; on_progress receives each episode"""
         if not HAS_RL:
-            print("ERROR: RL libraries not available")
-            return
+            raise RuntimeError("RL libraries not available")
         
-        try:
-            agent_id = config['agentId']
-            algorithm = config['algorithm']
-            environment = config['environment']
-            
-            # Simulate training progress
-            for episode in range(100):
-                # Simulate progress updates
-                progress = {
-                    'episode': episode,
-                    'reward': np.random.normal(episode * 2, 10),
-                    'loss': np.exp(-episode * 0.05) * 100 + np.random.normal(0, 5),
-                    'epsilon': max(0.01, 1 - episode * 0.01)
-                }
-                
-                print(f"PROGRESS:{json.dumps(progress)}")
-                
-                # Simulate some delay
-                import time
-                time.sleep(0.1)
-            
-            # Final results
-            final_result = {
-                'performance': {
-                    'avgReward': 180.5,
-                    'maxReward': 250.0,
-                    'stability': 0.92
-                },
-                'modelPath': f'rl_models/{agent_id}.zip'
+        agent_id = config['agentId']
+        algorithm = config['algorithm']
+        environment = config['environment']
+        
+        # Simulate training progress
+        for episode in range(100):
+            # Simulate progress updates
+            progress = {
+                'episode': episode,
+                'reward': float(np.random.normal(episode * 2, 10)),
+                'loss': float(np.exp(-episode * 0.05) * 100 + np.random.normal(0, 5)),
+                'epsilon': max(0.01, 1 - episode * 0.01)
             }
             
-            print(f"FINAL_RESULT:{json.dumps(final_result)}")
+            if on_progress:
+                on_progress(progress)
             
-        except Exception as e:
-            print(f"ERROR: {str(e)}")
+            # Simulate some delay
+            import time
+            time.sleep(0.1)
+        
+        # Final results
+        return {
+            'performance': {
+                'avgReward': 180.5,
+                'maxReward': 250.0,
+                'stability': 0.92
+            },
+            'modelPath': f'rl_models/{agent_id}.zip'
+        }
     
     def get_performance(self, agent_id: str) -> Dict[str, Any]:
         """Get RL agent performance metrics"""
@@ -1431,7 +2252,7 @@ def get_algorithm_documentation():
                 ]
             },
             "neural_network": {
-                "name": "Ensemble Method",
+                "name": "Neural Network (MLP)",
                 "description": "Multi-layer perceptron with backpropagation for classification",
                 "logic": [
                     "Forward propagation through weighted connections between neurons",
@@ -1534,6 +2355,73 @@ def get_algorithm_documentation():
                     "Can require tuning to avoid overfitting",
                     "Training can be slower than linear models"
                 ]
+            },
+            "logistic_regression": {
+                "name": "Logistic Regression",
+                "description": "Linear model of the log-odds of a module being defective",
+                "logic": [
+                    "Learns one weight per scaled feature plus an intercept",
+                    "Passes the weighted sum through the logistic function to get a probability",
+                    "Minimizes L2-regularized log-loss, with classes reweighted by frequency"
+                ],
+                "hyperparameters": {
+                    "C": "Inverse regularization strength (lower = simpler model)",
+                    "max_iter": "Maximum solver iterations",
+                    "class_weight": "'balanced' reweights classes by inverse frequency, None weighs rows equally"
+                },
+                "strengths": [
+                    "Coefficients are directly interpretable",
+                    "Fast to train and well-calibrated probabilities",
+                    "Strong baseline in defect prediction studies"
+                ],
+                "weaknesses": [
+                    "Only captures linear effects of the metrics",
+                    "Sensitive to correlated features"
+                ]
+            },
+            "decision_tree": {
+                "name": "Decision Tree (CART)",
+                "description": "Single binary tree of threshold rules on the metrics",
+                "logic": [
+                    "Splits the rows on the feature threshold with the largest Gini impurity reduction",
+                    "Repeats on each branch until a stopping rule is reached",
+                    "Predicts the weighted share of defective rows in the leaf"
+                ],
+                "hyperparameters": {
+                    "max_depth": "Maximum depth of the tree (None = unlimited)",
+                    "min_samples_split": "Minimum samples required to split a node",
+                    "min_samples_leaf": "Minimum samples required at leaf nodes"
+                },
+                "strengths": [
+                    "Rules can be read and audited",
+                    "No feature scaling needed",
+                    "Captures thresholds and interactions"
+                ],
+                "weaknesses": [
+                    "High variance; small data changes reshape the tree",
+                    "Overfits without depth or leaf limits"
+                ]
+            },
+            "naive_bayes": {
+                "name": "Gaussian Naive Bayes",
+                "description": "Probabilistic classifier assuming independent, normally distributed features",
+                "logic": [
+                    "Estimates a mean and variance per feature and class",
+                    "Multiplies per-feature likelihoods with the class prior",
+                    "Predicts the class with the highest posterior probability"
+                ],
+                "hyperparameters": {
+                    "var_smoothing": "Portion of the largest variance added to all variances for stability"
+                },
+                "strengths": [
+                    "Trains in a single pass",
+                    "Works with very few defective modules",
+                    "Competitive on static code metrics"
+                ],
+                "weaknesses": [
+                    "Independence assumption rarely holds for size-correlated metrics",
+                    "Probabilities tend to be extreme"
+                ]
             }
         },
         "sampling_methods": {
@@ -1580,11 +2468,148 @@ def get_algorithm_documentation():
                 ],
                 "pros": ["Simple to implement", "Reduces dataset size"],
                 "cons": ["Loss of information", "May remove useful patterns"]
+            },
+            "smote_tomek": {
+                "name": "SMOTE + Tomek Links",
+                "description": "Oversamples with SMOTE, then removes Tomek links to clean the class boundary",
+                "logic": [
+                    "Generates synthetic minority samples with SMOTE",
+                    "Finds cross-class pairs that are each other's nearest neighbour",
+                    "Removes both samples of every such pair"
+                ],
+                "pros": ["Sharper class boundary", "Removes ambiguous samples"],
+                "cons": ["Extra nearest-neighbour pass", "May remove genuine minority samples"]
+            },
+            "smote_enn": {
+                "name": "SMOTE + Edited Nearest Neighbours",
+                "description": "Oversamples with SMOTE, then removes samples misclassified by their neighbours",
+                "logic": [
+                    "Generates synthetic minority samples with SMOTE",
+                    "Checks the 3 nearest neighbours of every sample",
+                    "Removes samples whose neighbours disagree with their label"
+                ],
+                "pros": ["Aggressive noise cleaning", "Often improves recall on noisy data"],
+                "cons": ["Can remove many samples", "Final class ratio is not exact"]
             }
         }
     }
 
 
+def gemini_suggest(prompt: str) -> str:
+    headers = {
+        "Content-Type": "application/json",
+        "x-goog-api-key": GEMINI_API_KEY
+    }
+    data = {
+        "contents": [{"parts": [{"text": prompt}]}]
+    }
+    try:
+        response = requests.post(GEMINI_API_URL, headers=headers, json=data, timeout=30)
+        response.raise_for_status()
+        result = response.json()
+        return result['candidates'][0]['content']['parts'][0]['text']
+    except Exception as e:
+        return f"Gemini API error: {e}"
+
+
+def operation_handlers(ml_backend, quantum_backend, rl_backend, nlp_backend):
+    """Map every operation to a handler taking (params, notify). notify(dict) reports progress."""
+
+    def gemini_advice(config, notify):
+        stats = config.get('stats', {})
+        question = config.get('question', 'How should I train a model on this imbalanced dataset?')
+        prompt = f"Dataset stats: {json.dumps(stats)}\nQuestion: {question}\nPlease provide detailed suggestions for model training, handling imbalance, and improving performance."
+        print(f"[Python Backend] Getting Gemini advice for question: {question}")
+        return {'advice': gemini_suggest(prompt)}
+
+    return {
+        'analyze_dataset': lambda config, notify: ml_backend.analyze_dataset(config['filePath']),
+        'train_model': lambda config, notify: ml_backend.train_model(config),
+        'explain_model': lambda config, notify: ml_backend.explain_model(config),
+        'predict_model': lambda config, notify: ml_backend.predict_model(config),
+        'export_model': lambda config, notify: ml_backend.export_model(config),
+        'environment': lambda config, notify: ml_backend.environment(),
+        'quantum_experiment': lambda config, notify: quantum_backend.run_experiment(config),
+        'train_rl_agent': lambda config, notify: rl_backend.train_agent(config, on_progress=notify),
+        'get_rl_performance': lambda config, notify: rl_backend.get_performance(config['agentId']),
+        'nlp_analyze': lambda config, notify: nlp_backend.analyze_document(config['content'], config['documentType']),
+        'nlp_extract_features': lambda config, notify: nlp_backend.extract_features(config['documents']),
+        'nlp_embeddings': lambda config, notify: {'embeddings': nlp_backend._generate_embeddings(config['text'])},
+        'gemini_suggest': gemini_advice,
+        'algorithm_docs': lambda config, notify: get_algorithm_documentation(),
+    }
+
+
+# Operations whose single command-line argument is a plain value rather than a JSON config.
+POSITIONAL_ARGUMENTS = {
+    'analyze_dataset': 'filePath',
+    'get_rl_performance': 'agentId',
+}
+NO_ARGUMENTS = {'environment', 'algorithm_docs'}
+
+
+def read_message(stream) -> Optional[Dict[str, Any]]:
+    """Read one Content-Length framed JSON message; None at end of input."""
+    length = None
+    while True:
+        line = stream.readline()
+        if not line:
+            return None
+        line = line.strip()
+        if not line:
+            if length is None:
+                continue
+            break
+        name, _, value = line.decode('ascii').partition(':')
+        if name.strip().lower() == 'content-length':
+            length = int(value.strip())
+    body = stream.read(length)
+    if len(body) < length:
+        return None
+    return json.loads(body.decode('utf-8'))
+
+
+def serve(handlers):
+    """JSON-RPC 2.0 worker loop over stdin/stdout, one request at a time.
+
+    The protocol gets a private copy of stdout and file descriptor 1 is pointed at stderr,
+    so output from print calls and native libraries can never corrupt a frame.
+    """
+    protocol = os.fdopen(os.dup(sys.stdout.fileno()), 'wb')
+    sys.stdout.flush()
+    os.dup2(sys.stderr.fileno(), sys.stdout.fileno())
+    stdin = sys.stdin.buffer
+
+    def write_message(message):
+        body = json.dumps(message).encode('utf-8')
+        protocol.write(f"Content-Length: {len(body)}\r\n\r\n".encode('ascii') + body)
+        protocol.flush()
+
+    write_message({'jsonrpc': '2.0', 'method': 'ready', 'params': {'pid': os.getpid()}})
+    while True:
+        message = read_message(stdin)
+        if message is None:
+            break
+        request_id = message.get('id')
+        method = message.get('method')
+
+        def notify(params, request_id=request_id):
+            write_message({'jsonrpc': '2.0', 'method': 'progress', 'params': {'id': request_id, **params}})
+
+        handler = handlers.get(method)
+        if handler is None:
+            write_message({'jsonrpc': '2.0', 'id': request_id, 'error': {'code': -32601, 'message': f'Unknown operation: {method}'}})
+            continue
+        try:
+            print(f"[Python Worker] Executing {method} (request {request_id})")
+            result = handler(message.get('params') or {}, notify)
+            write_message({'jsonrpc': '2.0', 'id': request_id, 'result': result})
+        except Exception as e:
+            import traceback
+            print(f"[Python Worker] {method} failed: {traceback.format_exc()}")
+            write_message({'jsonrpc': '2.0', 'id': request_id, 'error': {'code': -32000, 'message': f"Operation failed: {str(e)}"}})
+
+
 def main():
     """Main entry point for ML backend operations"""
     stdout_print = builtins.print
@@ -1609,163 +2634,35 @@ def main():
     
     # Initialize backends
     print("[Python Backend] Initializing ML backend...")
-    ml_backend = MLBackend()
-    quantum_backend = QuantumMLBackend()
-    rl_backend = RLBackend()
-    nlp_backend = NLPBackend()
+    handlers = operation_handlers(MLBackend(), QuantumMLBackend(), RLBackend(), NLPBackend())
     print("[Python Backend] Backends initialized successfully")
 
-    def gemini_suggest(prompt: str) -> str:
-        headers = {
-            "Content-Type": "application/json",
-            "x-goog-api-key": GEMINI_API_KEY
-        }
-        data = {
-            "contents": [{"parts": [{"text": prompt}]}]
-        }
-        try:
-            response = requests.post(GEMINI_API_URL, headers=headers, json=data, timeout=30)
-            response.raise_for_status()
-            result = response.json()
-            return result['candidates'][0]['content']['parts'][0]['text']
-        except Exception as e:
-            return f"Gemini API error: {e}"
-    
+    if operation == 'serve':
+        serve(handlers)
+        return
+
+    handler = handlers.get(operation)
+    if handler is None:
+        error_msg = f'Unknown operation: {operation}'
+        print(f"[Python Backend] Error: {error_msg}")
+        emit_json({'error': error_msg})
+        return
+    if operation not in NO_ARGUMENTS and len(sys.argv) < 3:
+        error_msg = f"{operation} requires {POSITIONAL_ARGUMENTS.get(operation, 'config')} argument"
+        print(f"[Python Backend] Error: {error_msg}")
+        emit_json({"error": error_msg})
+        return
+
     try:
         print(f"[Python Backend] Executing operation: {operation}")
-        
-        if operation == 'analyze_dataset':
-            if len(sys.argv) < 3:
-                error_msg = "analyze_dataset requires file path argument"
-                print(f"[Python Backend] Error: {error_msg}")
-                emit_json({"error": error_msg})
-                return
-            file_path = sys.argv[2]
-            print(f"[Python Backend] Analyzing dataset: {file_path}")
-            result = ml_backend.analyze_dataset(file_path)
-            print(f"[Python Backend] Analysis result: {json.dumps(result, indent=2)}")
-            emit_json(result)
-            
-        elif operation == 'train_model':
-            if len(sys.argv) < 3:
-                error_msg = "train_model requires config argument"
-                print(f"[Python Backend] Error: {error_msg}")
-                emit_json({"error": error_msg})
-                return
-            config = json.loads(sys.argv[2])
-            print(f"[Python Backend] Training model with config: {json.dumps(config, indent=2)}")
-            result = ml_backend.train_model(config)
-            print(f"[Python Backend] Training result: {json.dumps(result, indent=2)}")
-            emit_json(result)
-            
-        elif operation == 'explain_model':
-            if len(sys.argv) < 3:
-                error_msg = "explain_model requires model_id argument"
-                print(f"[Python Backend] Error: {error_msg}")
-                emit_json({"error": error_msg})
-                return
-            model_id = sys.argv[2]
-            print(f"[Python Backend] Explaining model: {model_id}")
-            result = ml_backend.explain_model(model_id)
-            print(f"[Python Backend] Explanation result: {json.dumps(result, indent=2)}")
-            emit_json(result)
-            
-        elif operation == 'quantum_experiment':
-            if len(sys.argv) < 3:
-                error_msg = "quantum_experiment requires config argument"
-                print(f"[Python Backend] Error: {error_msg}")
-                emit_json({"error": error_msg})
-                return
-            config = json.loads(sys.argv[2])
-            print(f"[Python Backend] Running quantum experiment with config: {json.dumps(config, indent=2)}")
-            result = quantum_backend.run_experiment(config)
-            print(f"[Python Backend] Quantum result: {json.dumps(result, indent=2)}")
-            emit_json(result)
-            
-        elif operation == 'train_rl_agent':
-            if len(sys.argv) < 3:
-                error_msg = "train_rl_agent requires config argument"
-                print(f"[Python Backend] Error: {error_msg}")
-                emit_json({"error": error_msg})
-                return
-            config = json.loads(sys.argv[2])
-            print(f"[Python Backend] Training RL agent with config: {json.dumps(config, indent=2)}")
-            rl_backend.train_agent(config)
-            
-        elif operation == 'get_rl_performance':
-            if len(sys.argv) < 3:
-                error_msg = "get_rl_performance requires agent_id argument"
-                print(f"[Python Backend] Error: {error_msg}")
-                emit_json({"error": error_msg})
-                return
-            agent_id = sys.argv[2]
-            print(f"[Python Backend] Getting RL performance for agent: {agent_id}")
-            result = rl_backend.get_performance(agent_id)
-            print(f"[Python Backend] RL performance result: {json.dumps(result, indent=2)}")
-            emit_json(result)
-            
-        elif operation == 'nlp_analyze':
-            if len(sys.argv) < 3:
-                error_msg = "nlp_analyze requires config argument"
-                print(f"[Python Backend] Error: {error_msg}")
-                emit_json({"error": error_msg})
-                return
-            config = json.loads(sys.argv[2])
-            print(f"[Python Backend] Analyzing document with config: {json.dumps(config, indent=2)}")
-            result = nlp_backend.analyze_document(config['content'], config['documentType'])
-            print(f"[Python Backend] NLP analysis result: {json.dumps(result, indent=2)}")
-            emit_json(result)
-            
-        elif operation == 'nlp_extract_features':
-            if len(sys.argv) < 3:
-                error_msg = "nlp_extract_features requires config argument"
-                print(f"[Python Backend] Error: {error_msg}")
-                emit_json({"error": error_msg})
-                return
-            config = json.loads(sys.argv[2])
-            print(f"[Python Backend] Extracting features from documents: {len(config['documents'])} documents")
-            result = nlp_backend.extract_features(config['documents'])
-            print(f"[Python Backend] Feature extraction result: {json.dumps(result, indent=2)}")
-            emit_json(result)
-            
-        elif operation == 'nlp_embeddings':
-            if len(sys.argv) < 3:
-                error_msg = "nlp_embeddings requires config argument"
-                print(f"[Python Backend] Error: {error_msg}")
-                emit_json({"error": error_msg})
-                return
-            config = json.loads(sys.argv[2])
-            print(f"[Python Backend] Generating embeddings for text: {config['text'][:50]}...")
-            result = nlp_backend._generate_embeddings(config['text'])
-            print(f"[Python Backend] Embeddings result: {len(result)} dimensions")
-            emit_json({'embeddings': result})
-
-        elif operation == 'gemini_suggest':
-            # Usage: python ml_backend.py gemini_suggest '{"stats": ..., "question": ...}'
-            if len(sys.argv) < 3:
-                error_msg = "gemini_suggest requires config argument"
-                print(f"[Python Backend] Error: {error_msg}")
-                emit_json({"error": error_msg})
-                return
-            config = json.loads(sys.argv[2])
-            stats = config.get('stats', {})
-            question = config.get('question', 'How should I train a model on this imbalanced dataset?')
-            prompt = f"Dataset stats: {json.dumps(stats)}\nQuestion: {question}\nPlease provide detailed suggestions for model training, handling imbalance, and improving performance."
-            print(f"[Python Backend] Getting Gemini advice for question: {question}")
-            advice = gemini_suggest(prompt)
-            print(f"[Python Backend] Gemini advice received: {advice[:100]}...")
-            emit_json({'advice': advice})
-            
-        elif operation == 'algorithm_docs':
-            # Return comprehensive algorithm documentation
-            docs = get_algorithm_documentation()
-            emit_json(docs)
-            
+        if operation in NO_ARGUMENTS:
+            config = {}
+        elif operation in POSITIONAL_ARGUMENTS:
+            config = {POSITIONAL_ARGUMENTS[operation]: sys.argv[2]}
         else:
-            error_msg = f'Unknown operation: {operation}'
-            print(f"[Python Backend] Error: {error_msg}")
-            emit_json({'error': error_msg})
-            
+            config = json.loads(sys.argv[2])
+        progress = lambda update: print(f"PROGRESS:{json.dumps(update)}")
+        emit_json(handler(config, progress))
     except Exception as e:
         error_msg = f"Operation failed: {str(e)}"
         print(f"[Python Backend] Critical Error: {error_msg}")
@@ -4,7 +4,8 @@ import { registerRoutes } from './routes';
 import { setupVite, serveStatic, log } from './vite';
 
 const app = express();
-app.use(express.json());
+// Batch prediction accepts up to 10k JSON rows; larger snapshots should be uploaded as CSV.
+app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
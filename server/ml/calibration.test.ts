@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applyCalibrator,
+  calibrationReport,
+  fitCalibrator,
+  fitIsotonic,
+  fitPlatt,
+  priorCorrection,
+} from "./calibration";
+
+function close(actual: number, expected: number, tolerance = 1e-9) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+}
+
+describe("fitIsotonic", () => {
+  it("pools adjacent violators into a non-decreasing step function", () => {
+    const calibrator = fitIsotonic([0, 1, 0, 1, 1], [0.1, 0.2, 0.3, 0.4, 0.5]);
+    assert.deepEqual(calibrator, { method: "isotonic", x: [0.1, 0.2, 0.3, 0.4, 0.5], y: [0, 0.5, 0.5, 1, 1] });
+  });
+
+  it("pools tied scores before fitting", () => {
+    const calibrator = fitIsotonic([0, 1, 1, 1], [0.2, 0.2, 0.6, 0.6]);
+    assert.deepEqual(calibrator, { method: "isotonic", x: [0.2, 0.6], y: [0.5, 1] });
+  });
+
+  it("interpolates between knots and clips outside them", () => {
+    const calibrator = fitIsotonic([0, 1, 0, 1, 1], [0.1, 0.2, 0.3, 0.4, 0.5]);
+    const [below, inside, above] = applyCalibrator(calibrator, [0.05, 0.35, 0.9]);
+    close(below, 0);
+    close(inside, 0.75);
+    close(above, 1);
+  });
+});
+
+describe("Platt scaling", () => {
+  it("applies sigmoid(a * logit(p) + b)", () => {
+    const [identity, sharpened] = [
+      applyCalibrator({ method: "platt", a: 1, b: 0 }, [0.3])[0],
+      applyCalibrator({ method: "platt", a: 2, b: 0 }, [0.75])[0],
+    ];
+    close(identity, 0.3);
+    close(sharpened, 0.9);
+  });
+
+  it("fits an increasing map on informative scores", () => {
+    const scores = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 0.95];
+    const labels = [0, 0, 0, 1, 0, 1, 0, 1, 1, 1];
+    const calibrator = fitPlatt(labels, scores);
+    assert.equal(calibrator.method, "platt");
+    const calibrated = applyCalibrator(calibrator, scores);
+    calibrated.slice(1).forEach((value, i) => assert.ok(value > calibrated[i]));
+  });
+});
+
+describe("prior correction", () => {
+  it("rescales the odds from the training prior to the target prior", () => {
+    const [half, high] = applyCalibrator(priorCorrection(0.5, 0.2), [0.5, 0.8]);
+    close(half, 0.2);
+    close(high, 0.5);
+  });
+
+  it("leaves scores alone for degenerate priors", () => {
+    assert.deepEqual(applyCalibrator(priorCorrection(0, 0.2), [0.4]), [0.4]);
+  });
+});
+
+describe("fitCalibrator", () => {
+  it("skips calibration when only one class was seen", () => {
+    assert.deepEqual(fitCalibrator("isotonic", [1, 1], [0.2, 0.8], { training: 0.5, target: 0.5 }), { method: "none" });
+  });
+});
+
+describe("calibrationReport", () => {
+  it("computes the Brier score and expected calibration error", () => {
+    const report = calibrationReport([0, 1, 1, 0], [0.25, 0.75, 0.95, 0.05]);
+    close(report.brierScore, (0.0625 + 0.0625 + 0.0025 + 0.0025) / 4);
+    close(report.expectedCalibrationError, (0.25 + 0.25 + 0.05 + 0.05) / 4);
+    assert.deepEqual(
+      report.bins.map((bin) => [bin.lower, bin.count]),
+      [
+        [0, 1],
+        [0.2, 1],
+        [0.7, 1],
+        [0.9, 1],
+      ]
+    );
+  });
+});
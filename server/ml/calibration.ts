@@ -0,0 +1,224 @@
+export const CALIBRATION_METHODS = ["none", "platt", "isotonic", "prior_correction"] as const;
+export type CalibrationMethod = typeof CALIBRATION_METHODS[number];
+
+export type SerializedCalibrator =
+  | { method: "none" }
+  // sigmoid(a * logit(p) + b)
+  | { method: "platt"; a: number; b: number }
+  // Piecewise-linear through (x, y), clipped to the end points.
+  | { method: "isotonic"; x: number[]; y: number[] }
+  // Odds rescaled from the resampled training prior back to the original one.
+  | { method: "prior_correction"; trainingPrior: number; targetPrior: number };
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationReport {
+  brierScore: number;
+  // Count-weighted mean |observed rate - mean prediction| over the bins.
+  expectedCalibrationError: number;
+  bins: ReliabilityBin[];
+}
+
+const EPSILON = 1e-6;
+
+function logit(p: number): number {
+  const clamped = Math.min(1 - EPSILON, Math.max(EPSILON, p));
+  return Math.log(clamped / (1 - clamped));
+}
+
+function sigmoid(z: number): number {
+  return z >= 0 ? 1 / (1 + Math.exp(-z)) : Math.exp(z) / (1 + Math.exp(z));
+}
+
+export function resolveCalibrationMethod(hyperparameters: Record<string, any>): CalibrationMethod {
+  return (CALIBRATION_METHODS as readonly string[]).includes(hyperparameters.calibration)
+    ? (hyperparameters.calibration as CalibrationMethod)
+    : "none";
+}
+
+// Platt (1999) with the smoothed targets of Lin, Lin & Weng (2007), fitted by damped
+// Newton steps on the score's log-odds.
+export function fitPlatt(labels: number[], scores: number[]): SerializedCalibrator {
+  const positives = labels.filter((label) => label === 1).length;
+  const negatives = labels.length - positives;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+  const f = scores.map(logit);
+  const t = labels.map((label) => (label === 1 ? high : low));
+
+  const loss = (a: number, b: number) =>
+    f.reduce((sum, fi, i) => {
+      const p = Math.min(1 - 1e-12, Math.max(1e-12, sigmoid(a * fi + b)));
+      return sum - (t[i] * Math.log(p) + (1 - t[i]) * Math.log(1 - p));
+    }, 0);
+
+  let a = 1;
+  let b = 0;
+  let current = loss(a, b);
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let ga = 0;
+    let gb = 0;
+    let haa = 1e-12;
+    let hab = 0;
+    let hbb = 1e-12;
+    f.forEach((fi, i) => {
+      const p = sigmoid(a * fi + b);
+      const d = p - t[i];
+      const w = p * (1 - p);
+      ga += d * fi;
+      gb += d;
+      haa += w * fi * fi;
+      hab += w * fi;
+      hbb += w;
+    });
+    if (Math.abs(ga) < 1e-8 && Math.abs(gb) < 1e-8) break;
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(det) < 1e-18) break;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+
+    let step = 1;
+    while (step > 1e-8) {
+      const candidate = loss(a - step * da, b - step * db);
+      if (candidate < current + 1e-12) {
+        a -= step * da;
+        b -= step * db;
+        current = candidate;
+        break;
+      }
+      step /= 2;
+    }
+    if (step <= 1e-8) break;
+  }
+  return { method: "platt", a, b };
+}
+
+// Pool-adjacent-violators on scores sorted ascending; tied scores are pooled first.
+export function fitIsotonic(labels: number[], scores: number[]): SerializedCalibrator {
+  const order = scores.map((s, i) => [s, labels[i] === 1 ? 1 : 0] as const).sort((p, q) => p[0] - q[0]);
+  const blocks: { lo: number; hi: number; sum: number; weight: number }[] = [];
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    let sum = 0;
+    while (j < order.length && order[j][0] === order[i][0]) sum += order[j++][1];
+    blocks.push({ lo: order[i][0], hi: order[i][0], sum, weight: j - i });
+    while (
+      blocks.length > 1 &&
+      blocks[blocks.length - 2].sum / blocks[blocks.length - 2].weight >=
+        blocks[blocks.length - 1].sum / blocks[blocks.length - 1].weight
+    ) {
+      const last = blocks.pop()!;
+      const previous = blocks[blocks.length - 1];
+      previous.hi = last.hi;
+      previous.sum += last.sum;
+      previous.weight += last.weight;
+    }
+    i = j;
+  }
+
+  const x: number[] = [];
+  const y: number[] = [];
+  for (const block of blocks) {
+    const value = block.sum / block.weight;
+    x.push(block.lo);
+    y.push(value);
+    if (block.hi > block.lo) {
+      x.push(block.hi);
+      y.push(value);
+    }
+  }
+  return { method: "isotonic", x, y };
+}
+
+// Elkan (2001) / Dal Pozzolo et al. (2015): undo the class-prior shift that resampling
+// introduced, so scores estimate the original defect rate again.
+export function priorCorrection(trainingPrior: number, targetPrior: number): SerializedCalibrator {
+  return { method: "prior_correction", trainingPrior, targetPrior };
+}
+
+export function fitCalibrator(
+  method: CalibrationMethod,
+  labels: number[],
+  scores: number[],
+  priors: { training: number; target: number }
+): SerializedCalibrator {
+  const positives = labels.filter((label) => label === 1).length;
+  if (method === "none" || labels.length === 0 || positives === 0 || positives === labels.length) {
+    return { method: "none" };
+  }
+  switch (method) {
+    case "platt":
+      return fitPlatt(labels, scores);
+    case "isotonic":
+      return fitIsotonic(labels, scores);
+    case "prior_correction":
+      return priorCorrection(priors.training, priors.target);
+  }
+}
+
+export function applyCalibrator(calibrator: SerializedCalibrator | undefined, scores: number[]): number[] {
+  switch (calibrator?.method) {
+    case "platt": {
+      const { a, b } = calibrator;
+      return scores.map((s) => sigmoid(a * logit(s) + b));
+    }
+    case "isotonic": {
+      const { x, y } = calibrator;
+      return scores.map((s) => {
+        if (s <= x[0]) return y[0];
+        if (s >= x[x.length - 1]) return y[y.length - 1];
+        let hi = 1;
+        while (x[hi] < s) hi++;
+        const lo = hi - 1;
+        return x[hi] > x[lo] ? y[lo] + ((s - x[lo]) / (x[hi] - x[lo])) * (y[hi] - y[lo]) : y[hi];
+      });
+    }
+    case "prior_correction": {
+      const { trainingPrior, targetPrior } = calibrator;
+      if (!(trainingPrior > 0 && trainingPrior < 1 && targetPrior > 0 && targetPrior < 1)) return scores;
+      const ratio = (targetPrior / (1 - targetPrior)) / (trainingPrior / (1 - trainingPrior));
+      return scores.map((s) => {
+        const odds = (s / Math.max(EPSILON, 1 - s)) * ratio;
+        return odds / (1 + odds);
+      });
+    }
+    default:
+      return scores;
+  }
+}
+
+export function calibrationReport(labels: number[], scores: number[], binCount = 10): CalibrationReport {
+  const n = labels.length;
+  const brierScore = n > 0 ? labels.reduce((sum, label, i) => sum + (scores[i] - label) ** 2, 0) / n : 0;
+  const bins = Array.from({ length: binCount }, (_, b) => ({
+    lower: b / binCount,
+    upper: (b + 1) / binCount,
+    count: 0,
+    predicted: 0,
+    observed: 0,
+  }));
+  labels.forEach((label, i) => {
+    const bin = bins[Math.min(binCount - 1, Math.max(0, Math.floor(scores[i] * binCount)))];
+    bin.count++;
+    bin.predicted += scores[i];
+    bin.observed += label === 1 ? 1 : 0;
+  });
+  const filled = bins
+    .filter((bin) => bin.count > 0)
+    .map(({ lower, upper, count, predicted, observed }) => ({
+      lower,
+      upper,
+      count,
+      meanPredicted: predicted / count,
+      observedRate: observed / count,
+    }));
+  const expectedCalibrationError =
+    n > 0 ? filled.reduce((sum, bin) => sum + (bin.count / n) * Math.abs(bin.observedRate - bin.meanPredicted), 0) : 0;
+  return { brierScore, expectedCalibrationError, bins: filled };
+}
@@ -0,0 +1,166 @@
+import { ALGORITHM_CATALOG, SAMPLING_TECHNIQUE_LABELS } from "./catalog";
+import { resolveEngineAlgorithm } from "./classifiers";
+import { RESAMPLING_TECHNIQUES } from "./resampling";
+
+// What capability_probe.py prints.
+export interface CapabilityProbe {
+  interpreter: { executable: string; version: string; implementation: string };
+  packages: Record<string, PackageStatus>;
+}
+
+export interface PackageStatus {
+  version: string | null;
+  // Installed is not enough: the names ml_backend.py imports must load.
+  importable: boolean;
+  error: string | null;
+}
+
+export interface Capability {
+  id: string;
+  label: string;
+  usable: boolean;
+  // Where it runs now; null when it cannot run at all.
+  engine: "python" | "node" | null;
+  // Packages it needs that do not import.
+  missing: string[];
+  reason: string | null;
+}
+
+export interface CapabilityReport {
+  probedAt: string;
+  // Null when the interpreter could not be run.
+  python: CapabilityProbe["interpreter"] | null;
+  probeError: string | null;
+  packages: Record<string, PackageStatus>;
+  backend: Capability;
+  algorithms: Capability[];
+  samplers: Capability[];
+  explainers: Capability[];
+  features: Capability[];
+}
+
+// ml_backend.py imports these at module level, so it cannot start without every one.
+export const BACKEND_PACKAGES = [
+  "numpy",
+  "pandas",
+  "scipy",
+  "scikit-learn",
+  "imbalanced-learn",
+  "xgboost",
+  "requests",
+] as const;
+
+// For models the Python backend trained; Node models are explained by the Node engine.
+const EXPLAINERS: { id: string; label: string; packages: string[] }[] = [
+  { id: "shap", label: "SHAP", packages: ["shap"] },
+  { id: "lime", label: "LIME", packages: ["lime"] },
+];
+
+const FEATURES: { id: string; label: string; packages: string[] }[] = [
+  { id: "quantum", label: "Quantum ML", packages: ["qiskit"] },
+  { id: "reinforcement_learning", label: "Reinforcement learning", packages: ["stable-baselines3"] },
+  { id: "nlp", label: "NLP analysis", packages: ["textblob", "transformers", "nltk"] },
+];
+
+function missingPackages(packages: Record<string, PackageStatus>, required: readonly string[]): string[] {
+  return required.filter((name) => !packages[name]?.importable);
+}
+
+function pythonCapability(id: string, label: string, missing: string[]): Capability {
+  return {
+    id,
+    label,
+    usable: missing.length === 0,
+    engine: missing.length === 0 ? "python" : null,
+    missing,
+    reason: missing.length === 0 ? null : `Missing Python packages: ${missing.join(", ")}`,
+  };
+}
+
+// Usability of every training option and Python feature. Algorithms the Node baseline
+// implements stay usable without the backend; the others would silently train their
+// substitute model, so they are reported unusable.
+export function buildCapabilityReport(
+  probe: CapabilityProbe | null,
+  probeError: string | null = null,
+  probedAt = new Date()
+): CapabilityReport {
+  const packages = probe?.packages ?? {};
+  const backendMissing = missingPackages(packages, BACKEND_PACKAGES);
+  const backend = pythonCapability("backend", "Python ML backend", backendMissing);
+  if (!probe) {
+    backend.reason = `Python interpreter unavailable${probeError ? `: ${probeError}` : ""}`;
+  }
+  const withBackend = (packageNames: readonly string[]) =>
+    Array.from(new Set([...backendMissing, ...missingPackages(packages, packageNames)]));
+
+  const algorithms = ALGORITHM_CATALOG.map((spec): Capability => {
+    if (backend.usable) {
+      return pythonCapability(spec.id, spec.label, []);
+    }
+    const nodeEngine = resolveEngineAlgorithm(spec.id);
+    if (nodeEngine === spec.id) {
+      return {
+        id: spec.id,
+        label: spec.label,
+        usable: true,
+        engine: "node",
+        missing: backendMissing,
+        reason: "Trained by the Node baseline while the Python backend is unavailable",
+      };
+    }
+    return {
+      id: spec.id,
+      label: spec.label,
+      usable: false,
+      engine: null,
+      missing: backendMissing,
+      reason: `Needs the Python backend; the Node baseline would train ${nodeEngine.replace(/_/g, " ")} instead`,
+    };
+  });
+
+  // The Node engine implements every technique, so sampling only changes engine.
+  const samplers = RESAMPLING_TECHNIQUES.map(
+    (id): Capability => ({
+      id,
+      label: SAMPLING_TECHNIQUE_LABELS[id],
+      usable: true,
+      engine: backend.usable ? "python" : "node",
+      missing: backendMissing,
+      reason: backend.usable ? null : "Resampled by the Node baseline while the Python backend is unavailable",
+    })
+  );
+
+  // Permutation importance and sampled Shapley values are also implemented in TypeScript.
+  const permutation: Capability = {
+    id: "permutation",
+    label: "Permutation importance",
+    usable: true,
+    engine: backend.usable ? "python" : "node",
+    missing: backendMissing,
+    reason: backend.usable ? null : "Computed by the Node engine while the Python backend is unavailable",
+  };
+
+  return {
+    probedAt: probedAt.toISOString(),
+    python: probe?.interpreter ?? null,
+    probeError,
+    packages,
+    backend,
+    algorithms,
+    samplers,
+    explainers: [
+      ...EXPLAINERS.map(({ id, label, packages: required }) => pythonCapability(id, label, withBackend(required))),
+      permutation,
+    ],
+    features: FEATURES.map(({ id, label, packages: required }) => pythonCapability(id, label, withBackend(required))),
+  };
+}
+
+export function findCapability(
+  report: CapabilityReport | null,
+  kind: "algorithms" | "samplers" | "explainers" | "features",
+  id: string
+): Capability | undefined {
+  return report?.[kind].find((capability) => capability.id === id);
+}
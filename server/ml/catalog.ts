@@ -0,0 +1,575 @@
+import { z } from "zod";
+import { CALIBRATION_METHODS } from "./calibration";
+import { type EngineAlgorithm, resolveEngineAlgorithm } from "./classifiers";
+import { RESAMPLING_TECHNIQUES } from "./resampling";
+import { THRESHOLD_STRATEGIES } from "./thresholds";
+import type { ParameterValue } from "./tuning";
+import { VALIDATION_STRATEGIES } from "./validation";
+
+// The algorithms and sampling techniques training accepts, with every hyperparameter
+// they read. Defaults are the Python pipeline's; a parameter left unset is resolved by
+// whichever engine runs, so the Node baseline may differ (e.g. fewer forest trees).
+export interface HyperparameterField {
+  name: string;
+  label: string;
+  description: string;
+  type: "int" | "float" | "choice" | "boolean" | "int_list" | "float_list";
+  default: ParameterValue | number[];
+  min?: number;
+  max?: number;
+  // Searched and displayed on a log scale.
+  log?: boolean;
+  // Null stands for the library's own setting, e.g. unlimited tree depth.
+  nullable?: boolean;
+  options?: ParameterValue[];
+  length?: { min: number; max: number };
+}
+
+export interface AlgorithmSpec {
+  id: string;
+  label: string;
+  parameters: HyperparameterField[];
+}
+
+export interface AlgorithmDocumentation {
+  name: string;
+  description: string;
+  logic: string[];
+  hyperparameters?: Record<string, string>;
+  strengths?: string[];
+  weaknesses?: string[];
+  pros?: string[];
+  cons?: string[];
+}
+
+// What ml_backend.py's algorithm_docs operation returns.
+export interface BackendDocumentation {
+  algorithms: Record<string, AlgorithmDocumentation>;
+  sampling_methods: Record<string, AlgorithmDocumentation>;
+}
+
+const treeCount = (name: string, label: string, fallback: number): HyperparameterField => ({
+  name,
+  label,
+  description: "Number of trees; more trees are more stable but slower.",
+  type: "int",
+  default: fallback,
+  min: 10,
+  max: 1000,
+});
+
+const treeDepth = (name: string, fallback: number | null): HyperparameterField => ({
+  name,
+  label: "Max depth",
+  description: "Maximum tree depth; empty grows trees until leaves are pure.",
+  type: "int",
+  default: fallback,
+  min: 1,
+  max: 100,
+  nullable: fallback === null,
+});
+
+const MIN_SAMPLES_SPLIT: HyperparameterField = {
+  name: "min_samples_split",
+  label: "Min samples to split",
+  description: "Minimum rows a node needs before it is split.",
+  type: "int",
+  default: 2,
+  min: 2,
+  max: 100,
+};
+
+const MIN_SAMPLES_LEAF: HyperparameterField = {
+  name: "min_samples_leaf",
+  label: "Min samples per leaf",
+  description: "Minimum rows in every leaf; larger values smooth the tree.",
+  type: "int",
+  default: 1,
+  min: 1,
+  max: 100,
+};
+
+const maxFeatures = (name: string): HyperparameterField => ({
+  name,
+  label: "Max features",
+  description: "Features considered at each split; empty considers all of them.",
+  type: "choice",
+  default: "sqrt",
+  options: ["sqrt", "log2", null],
+});
+
+const LEARNING_RATE: HyperparameterField = {
+  name: "learning_rate",
+  label: "Learning rate",
+  description: "Shrinkage applied to each boosting step.",
+  type: "float",
+  default: 0.05,
+  min: 0.001,
+  max: 1,
+  log: true,
+};
+
+const fraction = (name: string, label: string, description: string): HyperparameterField => ({
+  name,
+  label,
+  description,
+  type: "float",
+  default: 0.9,
+  min: 0.1,
+  max: 1,
+});
+
+const hiddenLayers = (fallback: number[]): HyperparameterField => ({
+  name: "hidden_layer_sizes",
+  label: "Hidden layers",
+  description: "Neurons in each hidden layer, input side first.",
+  type: "int_list",
+  default: fallback,
+  min: 1,
+  max: 1024,
+  length: { min: 1, max: 5 },
+});
+
+const MLP_ALPHA: HyperparameterField = {
+  name: "alpha",
+  label: "L2 penalty (alpha)",
+  description: "L2 regularization strength; higher values regularize more.",
+  type: "float",
+  default: 0.0001,
+  min: 1e-6,
+  max: 1,
+  log: true,
+};
+
+const MLP_SCHEDULE: HyperparameterField = {
+  name: "learning_rate",
+  label: "Learning rate schedule",
+  description: "How the step size changes during training.",
+  type: "choice",
+  default: "adaptive",
+  options: ["constant", "invscaling", "adaptive"],
+};
+
+const initialRate = (fallback: number): HyperparameterField => ({
+  name: "learning_rate_init",
+  label: "Initial learning rate",
+  description: "Step size of the first weight updates.",
+  type: "float",
+  default: fallback,
+  min: 1e-5,
+  max: 1,
+  log: true,
+});
+
+export const ALGORITHM_CATALOG: AlgorithmSpec[] = [
+  {
+    id: "ensemble",
+    label: "Ensemble",
+    parameters: [
+      treeCount("rf_n_estimators", "Random Forest trees", 300),
+      { ...treeDepth("rf_max_depth", null), label: "Random Forest max depth" },
+      { ...maxFeatures("rf_max_features"), label: "Random Forest max features" },
+      treeCount("et_n_estimators", "Extra Trees trees", 300),
+      { ...treeDepth("et_max_depth", null), label: "Extra Trees max depth" },
+      treeCount("xgb_n_estimators", "XGBoost rounds", 300),
+      { ...treeDepth("xgb_max_depth", 4), label: "XGBoost max depth", max: 20 },
+      { ...LEARNING_RATE, name: "xgb_learning_rate", label: "XGBoost learning rate" },
+      fraction("xgb_subsample", "XGBoost row subsample", "Fraction of rows sampled for each XGBoost tree."),
+      fraction("xgb_colsample_bytree", "XGBoost column subsample", "Fraction of features sampled for each XGBoost tree."),
+      {
+        name: "weights",
+        label: "Voting weights",
+        description: "Soft-voting weights for Random Forest, Extra Trees and XGBoost.",
+        type: "float_list",
+        default: [2, 1, 2],
+        min: 0,
+        max: 10,
+        length: { min: 3, max: 3 },
+      },
+    ],
+  },
+  {
+    id: "xgboost",
+    label: "XGBoost",
+    parameters: [
+      { ...treeCount("n_estimators", "Boosting rounds", 200), description: "Number of boosting rounds (trees built)." },
+      { ...treeDepth("max_depth", 4), max: 20 },
+      LEARNING_RATE,
+      fraction("subsample", "Row subsample", "Fraction of rows sampled for each tree."),
+      fraction("colsample_bytree", "Column subsample", "Fraction of features sampled for each tree."),
+    ],
+  },
+  {
+    id: "neural_network",
+    label: "Neural Network (MLP)",
+    parameters: [hiddenLayers([64, 32]), MLP_ALPHA, MLP_SCHEDULE, initialRate(0.001)],
+  },
+  {
+    id: "svm",
+    label: "Support Vector Machine",
+    parameters: [
+      {
+        name: "C",
+        label: "C",
+        description: "Inverse regularization; higher values fit the training data more closely.",
+        type: "float",
+        default: 10,
+        min: 0.001,
+        max: 1000,
+        log: true,
+      },
+      {
+        name: "kernel",
+        label: "Kernel",
+        description: "Kernel function used to separate the classes.",
+        type: "choice",
+        default: "rbf",
+        options: ["rbf", "linear", "poly", "sigmoid"],
+      },
+      {
+        name: "gamma",
+        label: "Gamma",
+        description: "Kernel coefficient for the rbf, poly and sigmoid kernels.",
+        type: "choice",
+        default: "scale",
+        options: ["scale", "auto"],
+      },
+      {
+        name: "degree",
+        label: "Degree",
+        description: "Degree of the polynomial kernel; ignored by the others.",
+        type: "int",
+        default: 3,
+        min: 1,
+        max: 10,
+      },
+    ],
+  },
+  {
+    id: "random_forest",
+    label: "Random Forest",
+    parameters: [
+      treeCount("n_estimators", "Trees", 200),
+      treeDepth("max_depth", null),
+      MIN_SAMPLES_SPLIT,
+      MIN_SAMPLES_LEAF,
+      maxFeatures("max_features"),
+    ],
+  },
+  {
+    id: "mlp_gemini",
+    label: "MLP + Gemini",
+    parameters: [
+      hiddenLayers([128, 64, 32]),
+      MLP_ALPHA,
+      MLP_SCHEDULE,
+      initialRate(0.0008),
+      {
+        name: "activation",
+        label: "Activation",
+        description: "Activation function of the hidden layers.",
+        type: "choice",
+        default: "relu",
+        options: ["relu", "tanh", "logistic", "identity"],
+      },
+      {
+        name: "max_iter",
+        label: "Max iterations",
+        description: "Optimizer iterations before training stops.",
+        type: "int",
+        default: 1400,
+        min: 100,
+        max: 10000,
+      },
+    ],
+  },
+  {
+    id: "logistic_regression",
+    label: "Logistic Regression",
+    parameters: [
+      {
+        name: "C",
+        label: "C",
+        description: "Inverse regularization strength.",
+        type: "float",
+        default: 1,
+        min: 0.001,
+        max: 100,
+        log: true,
+      },
+      {
+        name: "max_iter",
+        label: "Max iterations",
+        description: "Solver iterations before fitting stops.",
+        type: "int",
+        default: 1000,
+        min: 50,
+        max: 10000,
+      },
+      {
+        name: "class_weight",
+        label: "Class weight",
+        description: "Balanced reweights rows by inverse class frequency; empty weighs every row equally.",
+        type: "choice",
+        default: "balanced",
+        options: ["balanced", null],
+      },
+    ],
+  },
+  {
+    id: "decision_tree",
+    label: "Decision Tree (CART)",
+    parameters: [treeDepth("max_depth", null), MIN_SAMPLES_SPLIT, MIN_SAMPLES_LEAF],
+  },
+  {
+    id: "naive_bayes",
+    label: "Gaussian Naive Bayes",
+    parameters: [
+      {
+        name: "var_smoothing",
+        label: "Variance smoothing",
+        description: "Share of the largest feature variance added to every variance for stability.",
+        type: "float",
+        default: 1e-9,
+        min: 1e-12,
+        max: 0.1,
+        log: true,
+      },
+    ],
+  },
+];
+
+export const SAMPLING_TECHNIQUE_LABELS: Record<typeof RESAMPLING_TECHNIQUES[number], string> = {
+  none: "No Sampling",
+  smote: "SMOTE",
+  adasyn: "ADASYN",
+  borderline_smote: "Borderline SMOTE",
+  random_undersample: "Random Undersampling",
+  smote_tomek: "SMOTE + Tomek Links",
+  smote_enn: "SMOTE + ENN",
+};
+
+// Read by both engines whatever the algorithm.
+export const PIPELINE_PARAMETERS: HyperparameterField[] = [
+  {
+    name: "random_state",
+    label: "Random seed",
+    description: "Seed for the split, resampling, folds and the model itself.",
+    type: "int",
+    default: 42,
+    min: 0,
+    max: 2147483647,
+  },
+  {
+    name: "sampling_technique",
+    label: "Imbalance handling",
+    description: "Resampling applied to the training rows of every fold.",
+    type: "choice",
+    default: "smote",
+    options: [...RESAMPLING_TECHNIQUES],
+  },
+  {
+    name: "sampling_ratio",
+    label: "Target minority ratio",
+    description: "Minority-to-majority ratio the resampler aims for.",
+    type: "float",
+    default: 1,
+    min: 0.01,
+    max: 1,
+  },
+  {
+    name: "sampling_k_neighbors",
+    label: "k neighbours",
+    description: "Neighbours used to synthesize minority rows.",
+    type: "int",
+    default: 5,
+    min: 1,
+    max: 50,
+  },
+  {
+    name: "validation_strategy",
+    label: "Validation",
+    description: "How the reported fold metrics are estimated.",
+    type: "choice",
+    default: "stratified_kfold",
+    options: [...VALIDATION_STRATEGIES],
+  },
+  {
+    name: "cv_folds",
+    label: "Folds",
+    description: "Folds per repetition; 10 by default for repeated cross-validation.",
+    type: "int",
+    default: 5,
+    min: 2,
+    max: 20,
+  },
+  {
+    name: "cv_repeats",
+    label: "Repeats",
+    description: "Repetitions of repeated cross-validation.",
+    type: "int",
+    default: 10,
+    min: 1,
+    max: 20,
+  },
+  {
+    name: "bootstrap_iterations",
+    label: "Bootstrap iterations",
+    description: "Resamples drawn by out-of-sample bootstrap validation.",
+    type: "int",
+    default: 100,
+    min: 1,
+    max: 1000,
+  },
+  {
+    name: "calibration",
+    label: "Probability calibration",
+    description: "Post-hoc calibration fitted on out-of-fold scores.",
+    type: "choice",
+    default: "none",
+    options: [...CALIBRATION_METHODS],
+  },
+  {
+    name: "threshold_strategy",
+    label: "Decision threshold",
+    description: "How the cut-off between clean and defective is chosen.",
+    type: "choice",
+    default: "fixed",
+    options: [...THRESHOLD_STRATEGIES],
+  },
+  {
+    name: "threshold_cost_ratio",
+    label: "Cost ratio (FN/FP)",
+    description: "Cost of a missed defect relative to a false alarm, for min_cost thresholds.",
+    type: "float",
+    default: 1,
+    min: 0.01,
+    max: 1000,
+    log: true,
+  },
+  {
+    name: "decision_threshold",
+    label: "Fixed threshold",
+    description: "Cut-off used by the fixed strategy.",
+    type: "float",
+    default: 0.5,
+    min: 0,
+    max: 1,
+  },
+  {
+    name: "cross_validation",
+    label: "Grid search",
+    description: "Lets the Python pipeline grid-search the model's main hyperparameters.",
+    type: "boolean",
+    default: true,
+  },
+  {
+    name: "feature_selection",
+    label: "Feature selection",
+    description: "Automatic feature selection before training.",
+    type: "choice",
+    default: "auto",
+    options: ["auto", "none"],
+  },
+  {
+    name: "metrics_mode",
+    label: "Metric reporting",
+    description: "Measured metrics, or a synthesized demo profile.",
+    type: "choice",
+    default: "measured",
+    options: ["measured", "simulated"],
+  },
+];
+
+export function findAlgorithm(id: string): AlgorithmSpec | undefined {
+  return ALGORITHM_CATALOG.find((algorithm) => algorithm.id === id);
+}
+
+function fieldSchema(field: HyperparameterField): z.ZodTypeAny {
+  const bounded = (schema: z.ZodNumber) =>
+    schema.min(field.min ?? -Infinity).max(field.max ?? Infinity);
+  let schema: z.ZodTypeAny;
+  switch (field.type) {
+    case "int":
+      schema = bounded(z.number().int());
+      break;
+    case "float":
+      schema = bounded(z.number());
+      break;
+    case "boolean":
+      schema = z.boolean();
+      break;
+    case "choice": {
+      const options = field.options ?? [];
+      schema = z
+        .union([z.string(), z.number(), z.boolean(), z.null()])
+        .refine((value) => options.includes(value), {
+          message: `Expected one of ${options.map((option) => JSON.stringify(option)).join(", ")}`,
+        });
+      break;
+    }
+    case "int_list":
+    case "float_list":
+      schema = z
+        .array(bounded(field.type === "int_list" ? z.number().int() : z.number()))
+        .min(field.length?.min ?? 0)
+        .max(field.length?.max ?? Infinity);
+      break;
+  }
+  return (field.nullable ? schema.nullable() : schema).optional();
+}
+
+// Unknown names are rejected: both engines silently ignore them, so a typo would
+// otherwise train with the default.
+export function hyperparameterSchema(spec: AlgorithmSpec) {
+  const fields = [...PIPELINE_PARAMETERS, ...spec.parameters];
+  return z.object(Object.fromEntries(fields.map((field) => [field.name, fieldSchema(field)]))).strict();
+}
+
+export type HyperparameterCheck =
+  | { success: true; hyperparameters: Record<string, unknown> }
+  | { success: false; error: string };
+
+export function validateHyperparameters(algorithm: string, hyperparameters: unknown): HyperparameterCheck {
+  const spec = findAlgorithm(algorithm);
+  if (!spec) {
+    return { success: false, error: `Unknown algorithm "${algorithm}"` };
+  }
+  const parsed = hyperparameterSchema(spec).safeParse(hyperparameters ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) =>
+      issue.code === "unrecognized_keys"
+        ? `${issue.keys.join(", ")} ${issue.keys.length === 1 ? "is" : "are"} not a hyperparameter of ${spec.label}`
+        : `${issue.path.join(".")}: ${issue.message}`
+    );
+    return { success: false, error: `Invalid hyperparameters: ${issues.join("; ")}` };
+  }
+  return { success: true, hyperparameters: parsed.data };
+}
+
+export interface AlgorithmCatalog {
+  algorithms: (AlgorithmSpec & {
+    // Native model the Node baseline trains when the Python backend is unavailable.
+    nodeEngine: EngineAlgorithm;
+    documentation: AlgorithmDocumentation | null;
+  })[];
+  samplingTechniques: { id: string; label: string; documentation: AlgorithmDocumentation | null }[];
+  pipelineParameters: HyperparameterField[];
+}
+
+// Documentation comes from the Python backend and is null where it has none.
+export function buildAlgorithmCatalog(documentation: BackendDocumentation | null): AlgorithmCatalog {
+  return {
+    algorithms: ALGORITHM_CATALOG.map((spec) => ({
+      ...spec,
+      nodeEngine: resolveEngineAlgorithm(spec.id),
+      documentation: documentation?.algorithms[spec.id] ?? null,
+    })),
+    samplingTechniques: RESAMPLING_TECHNIQUES.map((id) => ({
+      id,
+      label: SAMPLING_TECHNIQUE_LABELS[id],
+      documentation: documentation?.sampling_methods[id] ?? null,
+    })),
+    pipelineParameters: PIPELINE_PARAMETERS,
+  };
+}
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ENGINE_ALGORITHMS,
+  DecisionTree,
+  GaussianNaiveBayes,
+  LogisticRegression,
+  RandomForest,
+  balancedWeights,
+  createClassifier,
+  deserializeClassifier,
+  fitClassifier,
+} from "./classifiers";
+
+function close(actual: number, expected: number, tolerance = 1e-6) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+}
+
+// Feature 0 separates the classes; feature 1 repeats the same values in both.
+const X = [
+  [0.1, 1],
+  [0.4, 2],
+  [0.8, 3],
+  [1.0, 4],
+  [1.3, 5],
+  [3.0, 1],
+  [3.2, 2],
+  [3.5, 3],
+  [3.9, 4],
+  [4.4, 5],
+];
+const y = [0, 0, 0, 0, 0, 1, 1, 1, 1, 1];
+
+describe("engine classifiers", () => {
+  for (const algorithm of ENGINE_ALGORITHMS) {
+    describe(algorithm, () => {
+      const classifier = createClassifier(algorithm, { n_estimators: 10 }, 7).fit(X, y);
+
+      it("separates a separable toy set", () => {
+        classifier.predictProba(X).forEach((p, i) => assert.equal(p >= 0.5 ? 1 : 0, y[i], `row ${i}: ${p}`));
+      });
+
+      it("puts the importance on the informative feature", () => {
+        const importances = classifier.featureImportance();
+        close(importances[0] + importances[1], 1);
+        assert.ok(importances[0] > importances[1]);
+      });
+
+      it("predicts the same after a JSON round trip", () => {
+        const restored = deserializeClassifier(JSON.parse(JSON.stringify(classifier.toJSON())));
+        assert.equal(restored.algorithm, algorithm);
+        const probe = [[2, 3], [0.5, 1], [5, 5]];
+        assert.deepEqual(restored.predictProba(probe), classifier.predictProba(probe));
+      });
+    });
+  }
+});
+
+describe("LogisticRegression", () => {
+  it("recovers the empirical log-odds with IRLS", () => {
+    // P(y = 1) is 1/4 at x = 0 and 3/4 at x = 1.
+    const model = new LogisticRegression({ C: 1e9, maxIter: 100, tol: 1e-10, classWeight: null }).fit(
+      [[0], [0], [0], [0], [1], [1], [1], [1]],
+      [1, 0, 0, 0, 1, 1, 1, 0]
+    );
+    close(model.intercept, -Math.log(3));
+    close(model.coef[0], Math.log(9));
+  });
+});
+
+describe("DecisionTree", () => {
+  it("splits halfway between the classes", () => {
+    const model = new DecisionTree().fit([[1], [2], [3], [4]], [0, 0, 1, 1]);
+    assert.deepEqual(model.tree, {
+      feature: [0, -1, -1],
+      threshold: [2.5, 0, 0],
+      left: [1, -1, -1],
+      right: [2, -1, -1],
+      value: [0.5, 0, 1],
+    });
+  });
+});
+
+describe("GaussianNaiveBayes", () => {
+  it("estimates priors and class-conditional means and variances", () => {
+    const model = new GaussianNaiveBayes().fit([[0], [2], [10], [12], [14], [16]], [0, 0, 1, 1, 1, 1]);
+    assert.deepEqual(model.priors, [1 / 3, 2 / 3]);
+    assert.deepEqual(model.means, [[1], [13]]);
+    close(model.variances[0][0], 1);
+    close(model.variances[1][0], 5);
+    const [low, high] = model.predictProba([[1], [13]]);
+    assert.ok(low < 0.01 && high > 0.99);
+  });
+});
+
+describe("balancedWeights", () => {
+  it("weights each class to half of the total", () => {
+    const weights = balancedWeights([1, 0, 0, 0]);
+    close(weights[0], 2);
+    weights.slice(1).forEach((w) => close(w, 2 / 3));
+  });
+
+  it("scales given sample weights", () => {
+    assert.deepEqual(balancedWeights([1, 0], [2, 6]), [4, 4]);
+  });
+});
+
+describe("RandomForest", () => {
+  it("is reproducible for a seed", () => {
+    const options = { n_estimators: 5 };
+    const first = createClassifier("random_forest", options, 3).fit(X, y);
+    const second = createClassifier("random_forest", options, 3).fit(X, y);
+    assert.deepEqual(first.toJSON(), second.toJSON());
+  });
+
+  it("grows the same forest when fitted with checkpoints", async () => {
+    const plain = createClassifier("random_forest", { n_estimators: 6 }, 5).fit(X, y);
+    let checkpoints = 0;
+    const stepped = await fitClassifier(createClassifier("random_forest", { n_estimators: 6 }, 5), X, y, async () => {
+      checkpoints++;
+    });
+    assert.ok(stepped instanceof RandomForest);
+    assert.equal(checkpoints, 6);
+    assert.deepEqual(stepped.toJSON(), plain.toJSON());
+  });
+});
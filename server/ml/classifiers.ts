@@ -0,0 +1,612 @@
+import type { Matrix } from "./dataset";
+import { dot, solve } from "./linalg";
+import { type Rng, createRng, randomInt, sampleWithoutReplacement } from "./random";
+
+export const ENGINE_ALGORITHMS = ["logistic_regression", "decision_tree", "random_forest", "naive_bayes"] as const;
+export type EngineAlgorithm = typeof ENGINE_ALGORITHMS[number];
+
+// Algorithms that only exist in the Python pipeline run on the closest native model.
+const ENGINE_SUBSTITUTES: Record<string, EngineAlgorithm> = {
+  xgboost: "random_forest",
+  ensemble: "random_forest",
+  svm: "logistic_regression",
+  neural_network: "logistic_regression",
+  mlp_gemini: "logistic_regression",
+};
+
+export function resolveEngineAlgorithm(algorithm: string): EngineAlgorithm {
+  if ((ENGINE_ALGORITHMS as readonly string[]).includes(algorithm)) {
+    return algorithm as EngineAlgorithm;
+  }
+  return ENGINE_SUBSTITUTES[algorithm] ?? "random_forest";
+}
+
+export type SerializedClassifier =
+  | { algorithm: "logistic_regression"; coef: number[]; intercept: number }
+  | { algorithm: "decision_tree"; tree: SerializedTree; importances: number[] }
+  | { algorithm: "random_forest"; trees: SerializedTree[]; importances: number[] }
+  | { algorithm: "naive_bayes"; priors: number[]; means: number[][]; variances: number[][] };
+
+export interface BinaryClassifier {
+  readonly algorithm: EngineAlgorithm;
+  fit(X: Matrix, y: number[], sampleWeight?: number[]): this;
+  // Probability of the positive (defective) class for every row.
+  predictProba(X: Matrix): number[];
+  // Non-negative importances that sum to one (all zeros when undefined).
+  featureImportance(): number[];
+  toJSON(): SerializedClassifier;
+}
+
+// Awaited between units of CPU-bound work (folds, trees) by callers running inside a job;
+// it yields to the event loop and rejects once the job is cancelled or timed out.
+export type Checkpoint = () => Promise<void>;
+
+type Hyperparameters = Record<string, unknown>;
+type ClassWeight = "balanced" | "balanced_subsample" | null;
+
+function numberParam(params: Hyperparameters, key: string, fallback: number): number {
+  const value = Number(params[key]);
+  return params[key] !== undefined && params[key] !== null && Number.isFinite(value) ? value : fallback;
+}
+
+function optionalNumberParam(params: Hyperparameters, key: string, fallback: number | null): number | null {
+  if (params[key] === null) return null;
+  return params[key] === undefined ? fallback : numberParam(params, key, fallback ?? 0);
+}
+
+function classWeightParam(params: Hyperparameters, fallback: ClassWeight): ClassWeight {
+  const value = params.class_weight;
+  if (value === null || value === "none") return null;
+  if (value === "balanced" || value === "balanced_subsample") return value;
+  return fallback;
+}
+
+export function balancedWeights(y: number[], baseWeights?: number[]): number[] {
+  let positive = 0;
+  let total = 0;
+  y.forEach((label, i) => {
+    const w = baseWeights ? baseWeights[i] : 1;
+    total += w;
+    if (label === 1) positive += w;
+  });
+  const negative = total - positive;
+  const wPos = positive > 0 ? total / (2 * positive) : 1;
+  const wNeg = negative > 0 ? total / (2 * negative) : 1;
+  return y.map((label, i) => (baseWeights ? baseWeights[i] : 1) * (label === 1 ? wPos : wNeg));
+}
+
+function normalize(values: number[]): number[] {
+  const total = values.reduce((sum, v) => sum + v, 0);
+  return total > 0 ? values.map((v) => v / total) : values.map(() => 0);
+}
+
+function sigmoid(z: number): number {
+  if (z >= 0) return 1 / (1 + Math.exp(-z));
+  const e = Math.exp(z);
+  return e / (1 + e);
+}
+
+// L2-regularised logistic regression fitted with Newton-Raphson (IRLS).
+export class LogisticRegression implements BinaryClassifier {
+  readonly algorithm = "logistic_regression" as const;
+  coef: number[] = [];
+  intercept = 0;
+
+  constructor(
+    private readonly options: { C: number; maxIter: number; tol: number; classWeight: ClassWeight } = {
+      C: 1,
+      maxIter: 100,
+      tol: 1e-6,
+      classWeight: "balanced",
+    }
+  ) {}
+
+  fit(X: Matrix, y: number[], sampleWeight?: number[]): this {
+    const d = X[0]?.length ?? 0;
+    const weights = this.options.classWeight ? balancedWeights(y, sampleWeight) : sampleWeight ?? y.map(() => 1);
+    const lambda = 1 / Math.max(this.options.C, 1e-12);
+    // beta[0] is the intercept, which is not penalised.
+    let beta = new Array(d + 1).fill(0);
+
+    for (let iter = 0; iter < this.options.maxIter; iter++) {
+      const grad = new Array(d + 1).fill(0);
+      const hess = Array.from({ length: d + 1 }, () => new Array(d + 1).fill(0));
+      const coef = beta.slice(1);
+      for (let i = 0; i < X.length; i++) {
+        const row = X[i];
+        const p = sigmoid(beta[0] + dot(coef, row));
+        const w = weights[i];
+        const r = w * (p - y[i]);
+        const s = w * Math.max(p * (1 - p), 1e-10);
+        grad[0] += r;
+        hess[0][0] += s;
+        for (let a = 0; a < d; a++) {
+          grad[a + 1] += r * row[a];
+          hess[0][a + 1] += s * row[a];
+          for (let b = a; b < d; b++) hess[a + 1][b + 1] += s * row[a] * row[b];
+        }
+      }
+      for (let a = 0; a <= d; a++) {
+        for (let b = 0; b < a; b++) hess[a][b] = hess[b][a];
+      }
+      for (let a = 1; a <= d; a++) {
+        grad[a] += lambda * beta[a];
+        hess[a][a] += lambda;
+      }
+
+      let step: number[];
+      try {
+        step = solve(hess, grad);
+      } catch {
+        break;
+      }
+      beta = beta.map((b, i) => b - step[i]);
+      if (Math.max(...step.map(Math.abs)) < this.options.tol) break;
+    }
+
+    this.intercept = beta[0];
+    this.coef = beta.slice(1);
+    return this;
+  }
+
+  decisionFunction(X: Matrix): number[] {
+    return X.map((row) => this.intercept + dot(this.coef, row));
+  }
+
+  predictProba(X: Matrix): number[] {
+    return this.decisionFunction(X).map(sigmoid);
+  }
+
+  featureImportance(): number[] {
+    return normalize(this.coef.map(Math.abs));
+  }
+
+  toJSON(): SerializedClassifier {
+    return { algorithm: this.algorithm, coef: this.coef, intercept: this.intercept };
+  }
+
+  static fromJSON(json: { coef: number[]; intercept: number }): LogisticRegression {
+    const model = new LogisticRegression();
+    model.coef = json.coef;
+    model.intercept = json.intercept;
+    return model;
+  }
+}
+
+// Flat array layout: leaves have feature === -1 and carry the positive-class probability.
+export interface SerializedTree {
+  feature: number[];
+  threshold: number[];
+  left: number[];
+  right: number[];
+  value: number[];
+}
+
+type MaxFeatures = "sqrt" | "log2" | number | null;
+
+interface TreeOptions {
+  maxDepth: number | null;
+  minSamplesSplit: number;
+  minSamplesLeaf: number;
+  maxFeatures: MaxFeatures;
+}
+
+function resolveMaxFeatures(maxFeatures: MaxFeatures, d: number): number {
+  if (maxFeatures === "sqrt") return Math.max(1, Math.floor(Math.sqrt(d)));
+  if (maxFeatures === "log2") return Math.max(1, Math.floor(Math.log2(d)));
+  if (typeof maxFeatures === "number") {
+    return maxFeatures > 0 && maxFeatures < 1
+      ? Math.max(1, Math.floor(maxFeatures * d))
+      : Math.max(1, Math.min(d, Math.floor(maxFeatures)));
+  }
+  return d;
+}
+
+function maxFeaturesParam(params: Hyperparameters, fallback: MaxFeatures): MaxFeatures {
+  const value = params.max_features;
+  if (value === null) return null;
+  if (value === "sqrt" || value === "log2") return value;
+  if (value === undefined || value === "auto") return fallback;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) && numeric > 0 ? numeric : fallback;
+}
+
+function gini(positive: number, total: number): number {
+  if (total <= 0) return 0;
+  const p = positive / total;
+  return 2 * p * (1 - p);
+}
+
+// CART with Gini impurity and weighted samples.
+export class DecisionTree implements BinaryClassifier {
+  readonly algorithm = "decision_tree" as const;
+  tree: SerializedTree = { feature: [], threshold: [], left: [], right: [], value: [] };
+  importances: number[] = [];
+
+  constructor(
+    private readonly options: TreeOptions & { classWeight: ClassWeight; seed: number } = {
+      maxDepth: null,
+      minSamplesSplit: 2,
+      minSamplesLeaf: 1,
+      maxFeatures: null,
+      classWeight: "balanced",
+      seed: 42,
+    }
+  ) {}
+
+  fit(X: Matrix, y: number[], sampleWeight?: number[]): this {
+    const weights = this.options.classWeight ? balancedWeights(y, sampleWeight) : sampleWeight ?? y.map(() => 1);
+    const rng = createRng(this.options.seed);
+    const indices: number[] = [];
+    weights.forEach((w, i) => {
+      if (w > 0) indices.push(i);
+    });
+    const built = buildTree(X, y, weights, indices, this.options, rng);
+    this.tree = built.tree;
+    this.importances = normalize(built.importances);
+    return this;
+  }
+
+  predictProba(X: Matrix): number[] {
+    return X.map((row) => predictTree(this.tree, row));
+  }
+
+  featureImportance(): number[] {
+    return this.importances;
+  }
+
+  toJSON(): SerializedClassifier {
+    return { algorithm: this.algorithm, tree: this.tree, importances: this.importances };
+  }
+
+  static fromJSON(json: { tree: SerializedTree; importances: number[] }): DecisionTree {
+    const model = new DecisionTree();
+    model.tree = json.tree;
+    model.importances = json.importances;
+    return model;
+  }
+}
+
+function predictTree(tree: SerializedTree, row: number[]): number {
+  let node = 0;
+  while (tree.feature[node] !== -1) {
+    node = row[tree.feature[node]] <= tree.threshold[node] ? tree.left[node] : tree.right[node];
+  }
+  return tree.value[node];
+}
+
+function buildTree(
+  X: Matrix,
+  y: number[],
+  weights: number[],
+  rootIndices: number[],
+  options: TreeOptions,
+  rng: Rng
+): { tree: SerializedTree; importances: number[] } {
+  const d = X[0]?.length ?? 0;
+  const tree: SerializedTree = { feature: [], threshold: [], left: [], right: [], value: [] };
+  const importances = new Array(d).fill(0);
+  const featuresPerSplit = resolveMaxFeatures(options.maxFeatures, d);
+  let rootWeight = 0;
+  for (const i of rootIndices) rootWeight += weights[i];
+
+  const addNode = (value: number) => {
+    tree.feature.push(-1);
+    tree.threshold.push(0);
+    tree.left.push(-1);
+    tree.right.push(-1);
+    tree.value.push(value);
+    return tree.feature.length - 1;
+  };
+
+  const grow = (indices: number[], depth: number): number => {
+    let total = 0;
+    let positive = 0;
+    for (const i of indices) {
+      total += weights[i];
+      if (y[i] === 1) positive += weights[i];
+    }
+    const nodeId = addNode(total > 0 ? positive / total : 0);
+    const parentImpurity = gini(positive, total);
+
+    if (
+      parentImpurity === 0 ||
+      indices.length < options.minSamplesSplit ||
+      indices.length < 2 * options.minSamplesLeaf ||
+      (options.maxDepth !== null && depth >= options.maxDepth)
+    ) {
+      return nodeId;
+    }
+
+    let bestGain = 0;
+    let bestFeature = -1;
+    let bestThreshold = 0;
+    const candidates = featuresPerSplit >= d
+      ? Array.from({ length: d }, (_, j) => j)
+      : sampleWithoutReplacement(d, featuresPerSplit, rng);
+
+    for (const feature of candidates) {
+      const sorted = [...indices].sort((a, b) => X[a][feature] - X[b][feature]);
+      let leftWeight = 0;
+      let leftPositive = 0;
+      for (let k = 0; k < sorted.length - 1; k++) {
+        const idx = sorted[k];
+        leftWeight += weights[idx];
+        if (y[idx] === 1) leftPositive += weights[idx];
+        const current = X[idx][feature];
+        const next = X[sorted[k + 1]][feature];
+        if (current === next) continue;
+        const leftCount = k + 1;
+        if (leftCount < options.minSamplesLeaf || sorted.length - leftCount < options.minSamplesLeaf) continue;
+        const rightWeight = total - leftWeight;
+        const impurity =
+          (leftWeight / total) * gini(leftPositive, leftWeight) +
+          (rightWeight / total) * gini(positive - leftPositive, rightWeight);
+        const gain = parentImpurity - impurity;
+        if (gain > bestGain + 1e-12) {
+          bestGain = gain;
+          bestFeature = feature;
+          bestThreshold = (current + next) / 2;
+        }
+      }
+    }
+
+    if (bestFeature === -1) {
+      return nodeId;
+    }
+
+    importances[bestFeature] += (total / rootWeight) * bestGain;
+    const leftIdx: number[] = [];
+    const rightIdx: number[] = [];
+    for (const i of indices) {
+      (X[i][bestFeature] <= bestThreshold ? leftIdx : rightIdx).push(i);
+    }
+    tree.feature[nodeId] = bestFeature;
+    tree.threshold[nodeId] = bestThreshold;
+    tree.left[nodeId] = grow(leftIdx, depth + 1);
+    tree.right[nodeId] = grow(rightIdx, depth + 1);
+    return nodeId;
+  };
+
+  grow(rootIndices, 0);
+  return { tree, importances };
+}
+
+export class RandomForest implements BinaryClassifier {
+  readonly algorithm = "random_forest" as const;
+  trees: SerializedTree[] = [];
+  importances: number[] = [];
+
+  constructor(
+    private readonly options: TreeOptions & {
+      nEstimators: number;
+      bootstrap: boolean;
+      classWeight: ClassWeight;
+      seed: number;
+    } = {
+      nEstimators: 100,
+      maxDepth: null,
+      minSamplesSplit: 2,
+      minSamplesLeaf: 1,
+      maxFeatures: "sqrt",
+      bootstrap: true,
+      classWeight: "balanced_subsample",
+      seed: 42,
+    }
+  ) {}
+
+  fit(X: Matrix, y: number[], sampleWeight?: number[]): this {
+    const growing = this.grow(X, y, sampleWeight);
+    while (!growing.next().done);
+    return this;
+  }
+
+  // Same forest as `fit`, awaiting the checkpoint after every tree.
+  async fitWithCheckpoints(X: Matrix, y: number[], checkpoint: Checkpoint, sampleWeight?: number[]): Promise<this> {
+    const growing = this.grow(X, y, sampleWeight);
+    while (!growing.next().done) await checkpoint();
+    return this;
+  }
+
+  private *grow(X: Matrix, y: number[], sampleWeight?: number[]): Generator<void> {
+    const rng = createRng(this.options.seed);
+    const n = X.length;
+    const d = X[0]?.length ?? 0;
+    const baseWeights = sampleWeight ?? y.map(() => 1);
+    const summed = new Array(d).fill(0);
+    this.trees = [];
+
+    for (let t = 0; t < this.options.nEstimators; t++) {
+      let weights = baseWeights;
+      if (this.options.bootstrap) {
+        const counts = new Array(n).fill(0);
+        for (let i = 0; i < n; i++) counts[randomInt(rng, n)]++;
+        weights = counts.map((c, i) => c * baseWeights[i]);
+      }
+      if (this.options.classWeight === "balanced_subsample") {
+        weights = balancedWeights(y, weights);
+      } else if (this.options.classWeight === "balanced") {
+        const global = balancedWeights(y);
+        weights = weights.map((w, i) => w * global[i]);
+      }
+      const indices: number[] = [];
+      weights.forEach((w, i) => {
+        if (w > 0) indices.push(i);
+      });
+      const built = buildTree(X, y, weights, indices, this.options, createRng(Math.floor(rng() * 2 ** 31)));
+      this.trees.push(built.tree);
+      normalize(built.importances).forEach((v, j) => (summed[j] += v));
+      yield;
+    }
+    this.importances = normalize(summed);
+  }
+
+  predictProba(X: Matrix): number[] {
+    return X.map((row) => {
+      let sum = 0;
+      for (const tree of this.trees) sum += predictTree(tree, row);
+      return this.trees.length > 0 ? sum / this.trees.length : 0;
+    });
+  }
+
+  featureImportance(): number[] {
+    return this.importances;
+  }
+
+  toJSON(): SerializedClassifier {
+    return { algorithm: this.algorithm, trees: this.trees, importances: this.importances };
+  }
+
+  static fromJSON(json: { trees: SerializedTree[]; importances: number[] }): RandomForest {
+    const model = new RandomForest();
+    model.trees = json.trees;
+    model.importances = json.importances;
+    return model;
+  }
+}
+
+export class GaussianNaiveBayes implements BinaryClassifier {
+  readonly algorithm = "naive_bayes" as const;
+  priors: number[] = [0.5, 0.5];
+  means: number[][] = [];
+  variances: number[][] = [];
+
+  constructor(private readonly options: { varSmoothing: number } = { varSmoothing: 1e-9 }) {}
+
+  fit(X: Matrix, y: number[], sampleWeight?: number[]): this {
+    const d = X[0]?.length ?? 0;
+    const weights = sampleWeight ?? y.map(() => 1);
+    const totals = [0, 0];
+    this.means = [new Array(d).fill(0), new Array(d).fill(0)];
+    this.variances = [new Array(d).fill(0), new Array(d).fill(0)];
+
+    X.forEach((row, i) => {
+      const c = y[i] === 1 ? 1 : 0;
+      totals[c] += weights[i];
+      for (let j = 0; j < d; j++) this.means[c][j] += weights[i] * row[j];
+    });
+    for (const c of [0, 1]) {
+      for (let j = 0; j < d; j++) this.means[c][j] = totals[c] > 0 ? this.means[c][j] / totals[c] : 0;
+    }
+    X.forEach((row, i) => {
+      const c = y[i] === 1 ? 1 : 0;
+      for (let j = 0; j < d; j++) this.variances[c][j] += weights[i] * (row[j] - this.means[c][j]) ** 2;
+    });
+
+    // Same smoothing rule as sklearn: a fraction of the largest overall feature variance.
+    let maxVariance = 0;
+    for (let j = 0; j < d; j++) {
+      const mean = X.reduce((sum, row) => sum + row[j], 0) / Math.max(X.length, 1);
+      const variance = X.reduce((sum, row) => sum + (row[j] - mean) ** 2, 0) / Math.max(X.length, 1);
+      maxVariance = Math.max(maxVariance, variance);
+    }
+    const epsilon = this.options.varSmoothing * Math.max(maxVariance, 1e-12);
+    for (const c of [0, 1]) {
+      for (let j = 0; j < d; j++) {
+        this.variances[c][j] = (totals[c] > 0 ? this.variances[c][j] / totals[c] : 0) + epsilon;
+      }
+    }
+    const grand = totals[0] + totals[1];
+    this.priors = grand > 0 ? [totals[0] / grand, totals[1] / grand] : [0.5, 0.5];
+    return this;
+  }
+
+  predictProba(X: Matrix): number[] {
+    return X.map((row) => {
+      const logLik = [0, 1].map((c) => {
+        let sum = Math.log(Math.max(this.priors[c], 1e-300));
+        for (let j = 0; j < row.length; j++) {
+          const v = this.variances[c][j];
+          sum += -0.5 * Math.log(2 * Math.PI * v) - ((row[j] - this.means[c][j]) ** 2) / (2 * v);
+        }
+        return sum;
+      });
+      return sigmoid(logLik[1] - logLik[0]);
+    });
+  }
+
+  // Naive Bayes has no native importance; use the standardised class-mean separation.
+  featureImportance(): number[] {
+    const d = this.means[0]?.length ?? 0;
+    return normalize(
+      Array.from({ length: d }, (_, j) => {
+        const pooled = Math.sqrt((this.variances[0][j] + this.variances[1][j]) / 2);
+        return pooled > 0 ? Math.abs(this.means[1][j] - this.means[0][j]) / pooled : 0;
+      })
+    );
+  }
+
+  toJSON(): SerializedClassifier {
+    return { algorithm: this.algorithm, priors: this.priors, means: this.means, variances: this.variances };
+  }
+
+  static fromJSON(json: { priors: number[]; means: number[][]; variances: number[][] }): GaussianNaiveBayes {
+    const model = new GaussianNaiveBayes();
+    model.priors = json.priors;
+    model.means = json.means;
+    model.variances = json.variances;
+    return model;
+  }
+}
+
+// Fits `classifier`, pausing at the checkpoint between a forest's trees; the other
+// classifiers fit in one step.
+export async function fitClassifier(
+  classifier: BinaryClassifier,
+  X: Matrix,
+  y: number[],
+  checkpoint?: Checkpoint
+): Promise<BinaryClassifier> {
+  if (checkpoint && classifier instanceof RandomForest) {
+    return classifier.fitWithCheckpoints(X, y, checkpoint);
+  }
+  return classifier.fit(X, y);
+}
+
+export function createClassifier(algorithm: EngineAlgorithm, params: Hyperparameters = {}, seed = 42): BinaryClassifier {
+  switch (algorithm) {
+    case "logistic_regression":
+      return new LogisticRegression({
+        C: numberParam(params, "C", 1),
+        maxIter: numberParam(params, "max_iter", 100),
+        tol: numberParam(params, "tol", 1e-6),
+        classWeight: classWeightParam(params, "balanced"),
+      });
+    case "decision_tree":
+      return new DecisionTree({
+        maxDepth: optionalNumberParam(params, "max_depth", null),
+        minSamplesSplit: numberParam(params, "min_samples_split", 2),
+        minSamplesLeaf: numberParam(params, "min_samples_leaf", 1),
+        maxFeatures: maxFeaturesParam(params, null),
+        classWeight: classWeightParam(params, "balanced"),
+        seed,
+      });
+    case "naive_bayes":
+      return new GaussianNaiveBayes({ varSmoothing: numberParam(params, "var_smoothing", 1e-9) });
+    case "random_forest":
+    default:
+      return new RandomForest({
+        nEstimators: numberParam(params, "n_estimators", 100),
+        maxDepth: optionalNumberParam(params, "max_depth", null),
+        minSamplesSplit: numberParam(params, "min_samples_split", 2),
+        minSamplesLeaf: numberParam(params, "min_samples_leaf", 1),
+        maxFeatures: maxFeaturesParam(params, "sqrt"),
+        bootstrap: params.bootstrap !== false,
+        classWeight: classWeightParam(params, "balanced_subsample"),
+        seed,
+      });
+  }
+}
+
+export function deserializeClassifier(json: SerializedClassifier): BinaryClassifier {
+  switch (json.algorithm) {
+    case "logistic_regression":
+      return LogisticRegression.fromJSON(json);
+    case "decision_tree":
+      return DecisionTree.fromJSON(json);
+    case "random_forest":
+      return RandomForest.fromJSON(json);
+    case "naive_bayes":
+      return GaussianNaiveBayes.fromJSON(json);
+  }
+}
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  type AsyncRowScorer,
+  type CounterfactualInput,
+  featureCouplings,
+  searchCounterfactuals,
+} from "./counterfactuals";
+
+const header = ["module", "loc", "v(g)", "churn"];
+const columns = header.slice(1).map((name, i) => ({ name, index: i + 1 }));
+
+// v(g) keeps roughly a tenth of loc; churn is unrelated to both.
+const reference = Array.from({ length: 100 }, (_, i) => {
+  const loc = 5 * (i + 1);
+  return [`m${i}`, String(loc), String(Math.round(loc * (0.1 + 0.01 * (i % 3)))), String((i * 37) % 50)];
+});
+
+// Risk grows with loc alone.
+const scoreByLoc: AsyncRowScorer = async (rows) => rows.map((row) => Number(row[1]) / 500);
+
+function input(instance: string[]): CounterfactualInput {
+  return { score: scoreByLoc, instance, columns, reference };
+}
+
+describe("featureCouplings", () => {
+  it("pairs size-dependent features with the size column as a ratio", () => {
+    const couplings = featureCouplings({ columns, reference }, [true, true, true], 0);
+    assert.equal(couplings.length, 1);
+    const [{ pair, coupling }] = couplings;
+    assert.deepEqual(pair, [1, 0]);
+    assert.deepEqual(coupling.features, ["v(g)", "loc"]);
+    assert.equal(coupling.kind, "ratio");
+    assert.ok(coupling.min >= 0.08 && coupling.max <= 0.14 && coupling.min < coupling.max);
+  });
+
+  it("couples features that fall as others rise by their product", () => {
+    const rows = Array.from({ length: 20 }, (_, i) => [String(i + 1), String(100 / (i + 1))]);
+    const pairs = [
+      { name: "a", index: 0 },
+      { name: "b", index: 1 },
+    ];
+    const [{ coupling }] = featureCouplings({ columns: pairs, reference: rows }, [true, true], -1);
+    assert.equal(coupling.kind, "product");
+    assert.ok(Math.abs(coupling.min - 100) < 1e-9 && Math.abs(coupling.max - 100) < 1e-9);
+  });
+
+  it("skips non-numeric columns", () => {
+    assert.deepEqual(featureCouplings({ columns, reference }, [false, true, true], 0), []);
+  });
+});
+
+describe("searchCounterfactuals", () => {
+  const instance = ["flagged", "450", "47", "20"];
+  const options = { threshold: 0.5, sizeColumn: "loc", immutable: ["churn"], seed: 3 };
+
+  it("finds changes that cross the threshold", async () => {
+    const result = await searchCounterfactuals(input(instance), options);
+    assert.equal(result.probability, 0.9);
+    assert.equal(result.alreadySafe, false);
+    assert.equal(result.sizeColumn, "loc");
+    assert.ok(result.counterfactuals.length > 0);
+    for (const counterfactual of result.counterfactuals) {
+      assert.ok(counterfactual.probability < 0.5);
+      const row = instance.slice();
+      counterfactual.changes.forEach((change) => (row[header.indexOf(change.feature)] = String(change.to)));
+      assert.deepEqual(await scoreByLoc([row]), [counterfactual.probability]);
+    }
+    const distances = result.counterfactuals.map((counterfactual) => counterfactual.distance);
+    assert.deepEqual(distances, [...distances].sort((a, b) => a - b));
+  });
+
+  it("respects immutable features and the percentile bounds", async () => {
+    const result = await searchCounterfactuals(input(instance), options);
+    const churn = result.bounds.find((bound) => bound.feature === "churn")!;
+    assert.deepEqual([churn.mutable, churn.reason], [false, "Marked immutable"]);
+    for (const { changes } of result.counterfactuals) {
+      assert.ok(changes.every((change) => change.feature !== "churn"));
+      for (const change of changes) {
+        const bound = result.bounds.find((candidate) => candidate.feature === change.feature)!;
+        assert.ok(change.to >= bound.min && change.to <= bound.max, `${change.feature} = ${change.to}`);
+      }
+    }
+  });
+
+  it("brings size-coupled features down with loc", async () => {
+    const result = await searchCounterfactuals(input(instance), options);
+    const [coupling] = result.couplings;
+    assert.deepEqual(coupling.features, ["v(g)", "loc"]);
+    for (const { changes } of result.counterfactuals) {
+      // Whichever of the pair the search moved, the other followed.
+      const [loc, complexity] = ["loc", "v(g)"].map((feature) => changes.find((change) => change.feature === feature));
+      assert.ok(loc && complexity && loc.adjusted !== complexity.adjusted);
+      assert.ok(loc.to < 250);
+      assert.ok(complexity.to / loc.to >= coupling.min && complexity.to / loc.to <= coupling.max);
+    }
+  });
+
+  it("reports when no allowed change helps and when the module is already clean", async () => {
+    // Only v(g) may move, and the score ignores it.
+    const frozen = await searchCounterfactuals(input(instance), { ...options, immutable: ["loc", "churn"] });
+    assert.deepEqual(frozen.counterfactuals, []);
+    assert.match(frozen.notes[frozen.notes.length - 1], /No plausible change/);
+
+    const safe = await searchCounterfactuals(input(["small", "40", "4", "20"]), options);
+    assert.equal(safe.alreadySafe, true);
+    assert.deepEqual(safe.counterfactuals, []);
+    assert.equal(safe.evaluated, 1);
+  });
+});
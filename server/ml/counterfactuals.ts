@@ -0,0 +1,502 @@
+import type { ExplainedColumn } from "./explanations";
+import { createRng } from "./random";
+import { quantile, rankWithTies } from "./statistics";
+
+// Counterfactual explanations for a module the model flags: small changes to its metrics
+// that bring the defect probability below the decision threshold (Wachter et al. 2017),
+// searched greedily from several restarts so the answers differ in the features they touch
+// (in the spirit of DiCE, Mothilal et al. 2020). Plausibility comes from the training
+// data: a changed metric stays within the values modules actually have, and strongly related
+// metrics keep a ratio (or, when one falls as the other rises, a product) the data has seen.
+// Related metrics are moved along with a change, so lowering LOC brings complexity and
+// Halstead effort down with it rather than leaving them inconsistent; for the size column
+// a looser correlation is enough to count as related.
+
+// Calibrated defect probabilities for rows laid out like the dataset header. Async, since
+// models the Python backend trained are scored there.
+export type AsyncRowScorer = (rows: string[][]) => Promise<number[]>;
+
+export interface CounterfactualInput {
+  score: AsyncRowScorer;
+  // The module, laid out like the dataset header.
+  instance: string[];
+  columns: ExplainedColumn[];
+  // The training dataset's rows; ranges and couplings are derived from them.
+  reference: string[][];
+}
+
+export interface CounterfactualOptions {
+  threshold: number;
+  // Features that must keep their value.
+  immutable?: string[];
+  sizeColumn?: string | null;
+  count?: number;
+  // Features a counterfactual may change directly; related features that follow come on top.
+  maxChanges?: number;
+  restarts?: number;
+  seed?: number;
+}
+
+export interface FeatureBounds {
+  feature: string;
+  // 1st and 99th percentile of the training data; changed values stay within them.
+  min: number;
+  max: number;
+  // Median absolute deviation, the unit distances are measured in.
+  scale: number;
+  // Decimal places changed values are rounded to, as written in the training data.
+  decimals: number;
+  mutable: boolean;
+  reason: string | null;
+}
+
+// Two features whose ratio (rising together) or product (one falling as the other rises)
+// stays within its 1st to 99th percentile in the training data. Size-dependent features
+// are paired with the size column second.
+export interface FeatureCoupling {
+  features: [string, string];
+  kind: "ratio" | "product";
+  min: number;
+  max: number;
+}
+
+export interface CounterfactualChange {
+  feature: string;
+  from: number;
+  to: number;
+  // Moved to stay consistent with a related feature rather than chosen by the search.
+  adjusted: boolean;
+}
+
+export interface Counterfactual {
+  probability: number;
+  changes: CounterfactualChange[];
+  // Sum of absolute changes in units of each feature's scale.
+  distance: number;
+}
+
+export interface CounterfactualResult {
+  threshold: number;
+  probability: number;
+  alreadySafe: boolean;
+  sizeColumn: string | null;
+  // Cheapest first.
+  counterfactuals: Counterfactual[];
+  bounds: FeatureBounds[];
+  couplings: FeatureCoupling[];
+  evaluated: number;
+  notes: string[];
+}
+
+// Candidate values per feature: evenly spaced quantiles between the 1st and 99th percentile.
+const GRID_STEPS = 10;
+const REFINE_ROUNDS = 4;
+// Spearman correlation with size above which a feature must keep its ratio to size.
+const SIZE_DEPENDENCE = 0.5;
+// Absolute Spearman correlation above which any other pair must stay consistent.
+const COUPLING = 0.8;
+// Rounds of moving related features along; each reaches one more step away from a move.
+const PROPAGATION_ROUNDS = 3;
+
+// Primary moves by column position; everything else follows from them.
+type Moves = Map<number, number>;
+
+interface Candidate {
+  moves: Moves;
+  values: number[];
+  distance: number;
+}
+
+function parseCell(cell: string | undefined): number {
+  const trimmed = (cell ?? "").trim();
+  return trimmed === "" ? Number.NaN : Number(trimmed);
+}
+
+function roundTo(value: number, decimals: number, mode: "nearest" | "up" | "down" = "nearest"): number {
+  const factor = 10 ** decimals;
+  const scaled = value * factor;
+  const rounded =
+    mode === "up" ? Math.ceil(scaled - 1e-9) : mode === "down" ? Math.floor(scaled + 1e-9) : Math.round(scaled);
+  return rounded / factor;
+}
+
+// Whole numbers when nearly every value is one (a stray aggregate row should not turn LOC
+// fractional), otherwise the most decimals written, up to four.
+function decimalPlaces(cells: string[], values: number[]): number {
+  if (values.filter((value) => Number.isInteger(value)).length >= values.length * 0.99) return 0;
+  return Math.min(4, Math.max(0, ...cells.map((cell) => cell.trim().split(".")[1]?.length ?? 0)));
+}
+
+function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
+
+function spearman(x: number[], y: number[]): number {
+  const rx = rankWithTies(x);
+  const ry = rankWithTies(y);
+  const mx = rx.reduce((a, b) => a + b, 0) / rx.length;
+  const my = ry.reduce((a, b) => a + b, 0) / ry.length;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  rx.forEach((value, i) => {
+    sxy += (value - mx) * (ry[i] - my);
+    sxx += (value - mx) ** 2;
+    syy += (ry[i] - my) ** 2;
+  });
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+}
+
+const movesKey = (moves: Moves) =>
+  Array.from(moves.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([j, value]) => `${j}=${value}`)
+    .join(";");
+
+// Ranges, scales and value grids per feature. Non-numeric columns, constant ones and the
+// caller's immutable features keep their value.
+export function featureBounds(
+  input: Pick<CounterfactualInput, "instance" | "columns" | "reference">,
+  immutable: string[] = []
+): { bounds: FeatureBounds[]; grids: number[][] } {
+  const bounds: FeatureBounds[] = [];
+  const grids: number[][] = [];
+  input.columns.forEach((column) => {
+    const cells = input.reference.map((row) => row[column.index] ?? "").filter((cell) => cell.trim() !== "");
+    const values = cells.map(parseCell).filter((value) => Number.isFinite(value));
+    const own = parseCell(input.instance[column.index]);
+    let reason: string | null = null;
+    if (immutable.includes(column.name)) {
+      reason = "Marked immutable";
+    } else if (values.length === 0 || values.length < cells.length * 0.95) {
+      reason = "Not numeric";
+    } else if (!Number.isFinite(own)) {
+      reason = "The module has no numeric value for it";
+    }
+
+    const min = values.length > 0 ? quantile(values, 0.01) : own;
+    const max = values.length > 0 ? quantile(values, 0.99) : own;
+    if (!reason && max <= min) {
+      reason = "Constant in the training data";
+    }
+    const center = values.length > 0 ? median(values) : 0;
+    const mad = values.length > 0 ? median(values.map((value) => Math.abs(value - center))) : 0;
+    const decimals = values.length > 0 ? decimalPlaces(cells, values) : 0;
+    bounds.push({
+      feature: column.name,
+      min,
+      max,
+      // Sparse metrics (mostly zero) have no MAD; their spread stands in.
+      scale: mad > 0 ? mad : max > min ? (max - min) / 4 : 1,
+      decimals,
+      mutable: reason === null,
+      reason,
+    });
+
+    const grid: number[] = [];
+    if (reason === null) {
+      for (let k = 0; k <= GRID_STEPS; k++) {
+        const value = quantile(values, 0.01 + (0.98 * k) / GRID_STEPS);
+        const rounded = roundTo(value, decimals);
+        if (!grid.includes(rounded)) grid.push(rounded);
+      }
+    }
+    grids.push(grid);
+  });
+  return { bounds, grids };
+}
+
+// Pairs of numeric features that move together strongly enough to have to stay consistent,
+// with the range of their ratio or product.
+export function featureCouplings(
+  input: Pick<CounterfactualInput, "columns" | "reference">,
+  numeric: boolean[],
+  sizeIndex: number
+): { pair: [number, number]; coupling: FeatureCoupling }[] {
+  const values = input.columns.map((column) => input.reference.map((row) => parseCell(row[column.index])));
+  const couplings: { pair: [number, number]; coupling: FeatureCoupling }[] = [];
+  for (let a = 0; a < input.columns.length; a++) {
+    for (let b = a + 1; b < input.columns.length; b++) {
+      if (!numeric[a] || !numeric[b]) continue;
+      const rows = values[a].map((_, i) => i).filter((i) => Number.isFinite(values[a][i]) && Number.isFinite(values[b][i]));
+      if (rows.length < 10) continue;
+      const rho = spearman(rows.map((i) => values[a][i]), rows.map((i) => values[b][i]));
+      const withSize = a === sizeIndex || b === sizeIndex;
+      if (withSize ? rho < SIZE_DEPENDENCE : Math.abs(rho) < COUPLING) continue;
+      const [first, second] = a === sizeIndex ? [b, a] : [a, b];
+      const kind = rho > 0 ? "ratio" : "product";
+      const combined = rows
+        .filter((i) => kind === "product" || values[second][i] > 0)
+        .map((i) => (kind === "ratio" ? values[first][i] / values[second][i] : values[first][i] * values[second][i]));
+      if (combined.length < 10) continue;
+      couplings.push({
+        pair: [first, second],
+        coupling: {
+          features: [input.columns[first].name, input.columns[second].name],
+          kind,
+          min: quantile(combined, 0.01),
+          max: quantile(combined, 0.99),
+        },
+      });
+    }
+  }
+  return couplings;
+}
+
+function couplingHolds(coupling: FeatureCoupling, first: number, second: number): boolean {
+  if (coupling.kind === "ratio") {
+    return second <= 0 || (first / second >= coupling.min && first / second <= coupling.max);
+  }
+  return first * second >= coupling.min && first * second <= coupling.max;
+}
+
+// Values one side of a coupling may take given the other side's value; null when any will do.
+function couplingRange(coupling: FeatureCoupling, targetIsFirst: boolean, partner: number): [number, number] | null {
+  if (partner <= 0) return null;
+  if (coupling.kind === "product") {
+    return [coupling.min / partner, coupling.max / partner];
+  }
+  if (targetIsFirst) {
+    return [coupling.min * partner, coupling.max * partner];
+  }
+  return coupling.max > 0 ? [partner / coupling.max, coupling.min > 0 ? partner / coupling.min : Infinity] : null;
+}
+
+export async function searchCounterfactuals(
+  input: CounterfactualInput,
+  options: CounterfactualOptions
+): Promise<CounterfactualResult> {
+  const count = options.count ?? 5;
+  const maxChanges = options.maxChanges ?? 4;
+  const restarts = options.restarts ?? count * 3;
+  const rng = createRng(options.seed ?? 42);
+  const threshold = options.threshold;
+  const notes: string[] = [];
+  let evaluated = 0;
+  const score = async (rows: string[][]) => {
+    evaluated += rows.length;
+    return rows.length > 0 ? input.score(rows) : [];
+  };
+
+  const { bounds, grids } = featureBounds(input, options.immutable ?? []);
+  const original = input.columns.map((column) => parseCell(input.instance[column.index]));
+  const sizeIndex = options.sizeColumn ? input.columns.findIndex((column) => column.name === options.sizeColumn) : -1;
+  const sizeUsable = sizeIndex >= 0 && bounds[sizeIndex].reason !== "Not numeric";
+  if (options.sizeColumn && !sizeUsable) {
+    notes.push(`The size column ${options.sizeColumn} is not a numeric model feature, so no size consistency is enforced`);
+  }
+  const couplings = featureCouplings(
+    input,
+    bounds.map((bound) => bound.reason !== "Not numeric"),
+    sizeUsable ? sizeIndex : -1
+  );
+  const fixed = bounds.filter((bound) => !bound.mutable && bound.reason !== "Marked immutable");
+  if (fixed.length > 0) {
+    notes.push(`Kept fixed: ${fixed.map((bound) => `${bound.feature} (${bound.reason?.toLowerCase()})`).join(", ")}`);
+  }
+
+  const [probability] = await score([input.instance]);
+  const result = (counterfactuals: Counterfactual[]): CounterfactualResult => ({
+    threshold,
+    probability,
+    alreadySafe: probability < threshold,
+    sizeColumn: sizeUsable ? input.columns[sizeIndex].name : null,
+    counterfactuals,
+    bounds,
+    couplings: couplings.map(({ coupling }) => coupling),
+    evaluated,
+    notes,
+  });
+  if (probability < threshold) {
+    notes.push("The module is already predicted clean at this threshold");
+    return result([]);
+  }
+  const mutable = bounds.map((bound, j) => (bound.mutable ? j : -1)).filter((j) => j >= 0);
+  if (mutable.length === 0) {
+    notes.push("No feature may change, so there is nothing to search");
+    return result([]);
+  }
+
+  const toRow = (values: number[]) => {
+    const row = input.instance.slice();
+    input.columns.forEach((column, j) => {
+      if (values[j] !== original[j]) {
+        row[column.index] = String(Number(values[j].toPrecision(10)));
+      }
+    });
+    return row;
+  };
+
+  const distanceOf = (values: number[]) =>
+    values.reduce((total, value, j) => (value !== original[j] ? total + Math.abs(value - original[j]) / bounds[j].scale : total), 0);
+
+  // Applies the moves, carries related features along and checks the result stays within
+  // the training data's ranges and couplings; null when it does not.
+  const realize = (moves: Moves): Candidate | null => {
+    const values = original.slice();
+    moves.forEach((value, j) => {
+      values[j] = value;
+    });
+    for (let round = 0; round < PROPAGATION_ROUNDS; round++) {
+      let adjusted = false;
+      for (const { pair, coupling } of couplings) {
+        for (const [target, partner] of [pair, [pair[1], pair[0]]]) {
+          if (values[partner] === original[partner] || moves.has(target) || !bounds[target].mutable) continue;
+          const range = couplingRange(coupling, target === pair[0], values[partner]);
+          if (!range || (values[target] >= range[0] && values[target] <= range[1])) continue;
+          const value =
+            values[target] < range[0]
+              ? roundTo(range[0], bounds[target].decimals, "up")
+              : roundTo(range[1], bounds[target].decimals, "down");
+          if (value < range[0] || value > range[1]) return null;
+          values[target] = value;
+          adjusted = true;
+        }
+      }
+      if (!adjusted) break;
+    }
+
+    const changed = values.map((value, j) => value !== original[j]);
+    if (values.some((value, j) => changed[j] && (value < bounds[j].min || value > bounds[j].max))) {
+      return null;
+    }
+    for (const { pair, coupling } of couplings) {
+      const [a, b] = pair;
+      if ((changed[a] || changed[b]) && !couplingHolds(coupling, values[a], values[b])) return null;
+    }
+    return { moves, values, distance: distanceOf(values) };
+  };
+
+  // Restart 0 may use every feature; the others each draw a random subset.
+  interface SearchState {
+    current: Candidate;
+    probability: number;
+    allowed: number[];
+  }
+  let active: SearchState[] = Array.from({ length: restarts }, (_, r) => {
+    let allowed = r === 0 ? mutable : mutable.filter(() => rng() < 0.5);
+    if (allowed.length === 0) allowed = [mutable[Math.floor(rng() * mutable.length)]];
+    return { current: { moves: new Map(), values: original, distance: 0 }, probability, allowed };
+  });
+  const found = new Map<string, Candidate & { probability: number }>();
+
+  for (let step = 0; step < maxChanges * 2 && active.length > 0; step++) {
+    const proposals = active.map((state) => {
+      const candidates: Candidate[] = [];
+      state.allowed.forEach((j) => {
+        if (!state.current.moves.has(j) && state.current.moves.size >= maxChanges) return;
+        grids[j].forEach((value) => {
+          if (value === state.current.values[j]) return;
+          const moves = new Map(state.current.moves);
+          if (value === original[j]) moves.delete(j);
+          else moves.set(j, value);
+          const candidate = realize(moves);
+          if (candidate) candidates.push(candidate);
+        });
+      });
+      return candidates;
+    });
+    const scores = await score(proposals.flat().map((candidate) => toRow(candidate.values)));
+
+    let offset = 0;
+    const next: SearchState[] = [];
+    active.forEach((state, s) => {
+      const scored = proposals[s].map((candidate, k) => ({ candidate, probability: scores[offset + k] }));
+      offset += proposals[s].length;
+      const crossing = scored
+        .filter((item) => item.probability < threshold)
+        .sort((a, b) => a.candidate.distance - b.candidate.distance)[0];
+      if (crossing) {
+        found.set(movesKey(crossing.candidate.moves), { ...crossing.candidate, probability: crossing.probability });
+        return;
+      }
+      // Otherwise the move that buys the largest drop in risk per unit of distance.
+      let best: { candidate: Candidate; probability: number; gain: number } | null = null;
+      for (const item of scored) {
+        const drop = state.probability - item.probability;
+        if (drop <= 0) continue;
+        const gain = drop / Math.max(1e-6, item.candidate.distance - state.current.distance);
+        if (!best || gain > best.gain) best = { ...item, gain };
+      }
+      if (best) {
+        next.push({ current: best.candidate, probability: best.probability, allowed: state.allowed });
+      }
+    });
+    active = next;
+  }
+
+  // Greedy steps overshoot on a coarse grid: revert moves that are not needed and pull the
+  // rest halfway back towards the module while the prediction stays below the threshold.
+  let refining = Array.from(found.values());
+  for (let round = 0; round < REFINE_ROUNDS && refining.length > 0; round++) {
+    const proposals = refining.map((counterfactual) => {
+      const candidates: Candidate[] = [];
+      counterfactual.moves.forEach((value, j) => {
+        const reverted = new Map(counterfactual.moves);
+        reverted.delete(j);
+        const halfway = new Map(counterfactual.moves);
+        const middle = roundTo((value + original[j]) / 2, bounds[j].decimals, value > original[j] ? "up" : "down");
+        halfway.set(j, middle);
+        [reverted, middle !== value && middle !== original[j] ? halfway : null].forEach((moves) => {
+          const candidate = moves && realize(moves);
+          if (candidate) candidates.push(candidate);
+        });
+      });
+      return candidates;
+    });
+    const scores = await score(proposals.flat().map((candidate) => toRow(candidate.values)));
+
+    let offset = 0;
+    const improved: (Candidate & { probability: number })[] = [];
+    refining.forEach((counterfactual, c) => {
+      const better = proposals[c]
+        .map((candidate, k) => ({ ...candidate, probability: scores[offset + k] }))
+        .filter((item) => item.probability < threshold && item.distance < counterfactual.distance)
+        .sort((a, b) => a.distance - b.distance)[0];
+      offset += proposals[c].length;
+      if (better) {
+        found.delete(movesKey(counterfactual.moves));
+        found.set(movesKey(better.moves), better);
+        improved.push(better);
+      }
+    });
+    refining = improved;
+  }
+
+  // Cheapest first, preferring ones that change a different set of features.
+  const ranked = Array.from(found.values()).sort((a, b) => a.distance - b.distance);
+  const selected: typeof ranked = [];
+  const featureSet = (candidate: Candidate) =>
+    Array.from(candidate.moves.keys())
+      .sort((a, b) => a - b)
+      .join(",");
+  ranked.forEach((candidate) => {
+    if (selected.length < count && !selected.some((chosen) => featureSet(chosen) === featureSet(candidate))) {
+      selected.push(candidate);
+    }
+  });
+  ranked.forEach((candidate) => {
+    if (selected.length < count && !selected.includes(candidate)) selected.push(candidate);
+  });
+  selected.sort((a, b) => a.distance - b.distance);
+
+  if (selected.length === 0) {
+    notes.push(
+      `No plausible change to at most ${maxChanges} features brought the probability below ${threshold.toFixed(3)}`
+    );
+  }
+  return result(
+    selected.map((candidate) => ({
+      probability: candidate.probability,
+      distance: candidate.distance,
+      changes: input.columns
+        .map((column, j) => ({
+          feature: column.name,
+          from: original[j],
+          to: candidate.values[j],
+          adjusted: !candidate.moves.has(j),
+        }))
+        .filter((change) => change.to !== change.from),
+    }))
+  );
+}
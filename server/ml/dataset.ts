@@ -0,0 +1,247 @@
+import fs from "fs/promises";
+import { type Rng, shuffleInPlace } from "./random";
+
+export type Matrix = number[][];
+
+export interface TabularDataset {
+  featureNames: string[];
+  targetColumn: string;
+  X: Matrix;
+  y: number[];
+  // Sorted category levels for columns that were label-encoded.
+  encodings: Record<string, string[]>;
+}
+
+const TARGET_KEYWORDS = ["defect", "bug", "issue", "fault", "error", "class", "target"];
+const TRUE_LABELS = new Set(["true", "yes", "y", "t", "buggy", "defective"]);
+const FALSE_LABELS = new Set(["false", "no", "n", "f", "clean", "", "nan"]);
+
+export function splitCsvLine(line: string): string[] {
+  const result: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+      continue;
+    }
+    if (ch === "," && !inQuotes) {
+      result.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  result.push(current);
+  return result.map((c) => c.trim());
+}
+
+export function parseCsv(content: string): { header: string[]; rows: string[][] } {
+  const lines = content.split(/\r?\n/).filter((l) => l.trim().length > 0);
+  if (lines.length === 0) {
+    return { header: [], rows: [] };
+  }
+  return {
+    header: splitCsvLine(lines[0]),
+    rows: lines.slice(1).map((l) => splitCsvLine(l)),
+  };
+}
+
+export function detectTargetColumn(header: string[]): string {
+  const match = header.find((col) => TARGET_KEYWORDS.some((k) => col.toLowerCase().includes(k)));
+  return match ?? header[header.length - 1];
+}
+
+function parseNumber(cell: string | undefined): number {
+  if (cell === undefined) return Number.NaN;
+  const trimmed = cell.trim();
+  if (trimmed === "") return Number.NaN;
+  const lower = trimmed.toLowerCase();
+  if (lower === "true") return 1;
+  if (lower === "false") return 0;
+  return Number(trimmed);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Binary defect label: boolean-ish strings map directly, counts become "any defect",
+// and continuous targets are split at the median like the Python pipeline does.
+function encodeLabels(cells: string[]): number[] {
+  const lowered = cells.map((c) => (c ?? "").trim().toLowerCase());
+  if (lowered.every((c) => TRUE_LABELS.has(c) || FALSE_LABELS.has(c))) {
+    return lowered.map((c) => (TRUE_LABELS.has(c) ? 1 : 0));
+  }
+
+  const numeric = cells.map((c) => parseNumber(c));
+  const finite = numeric.filter((v) => Number.isFinite(v));
+  const distinct = new Set(finite);
+  if (distinct.size > 10) {
+    const cut = median(finite);
+    return numeric.map((v) => (Number.isFinite(v) && v > cut ? 1 : 0));
+  }
+  return numeric.map((v) => (Number.isFinite(v) && v > 0 ? 1 : 0));
+}
+
+export function prepareTabularData(
+  header: string[],
+  rows: string[][],
+  options: { targetColumn?: string | null } = {}
+): TabularDataset {
+  const targetColumn =
+    options.targetColumn && header.includes(options.targetColumn)
+      ? options.targetColumn
+      : detectTargetColumn(header);
+  const targetIdx = header.indexOf(targetColumn);
+  const y = encodeLabels(rows.map((r) => r[targetIdx] ?? ""));
+  return { ...encodeFeatureColumns(header, rows, [targetColumn]), targetColumn, y };
+}
+
+// Numeric columns with median imputation; mostly non-numeric ones are label-encoded.
+export function encodeFeatureColumns(
+  header: string[],
+  rows: string[][],
+  exclude: string[] = []
+): Pick<TabularDataset, "featureNames" | "X" | "encodings"> {
+  const featureNames: string[] = [];
+  const columns: number[][] = [];
+  const encodings: Record<string, string[]> = {};
+
+  header.forEach((name, colIdx) => {
+    if (exclude.includes(name)) return;
+    const cells = rows.map((r) => r[colIdx] ?? "");
+    const parsed = cells.map((c) => parseNumber(c));
+    const nonEmpty = cells.filter((c) => c.trim() !== "").length;
+    const numericCount = parsed.filter((v) => Number.isFinite(v)).length;
+
+    let values: number[];
+    if (nonEmpty === 0 || numericCount / nonEmpty >= 0.6) {
+      const fill = median(parsed.filter((v) => Number.isFinite(v)));
+      values = parsed.map((v) => (Number.isFinite(v) ? v : fill));
+    } else {
+      const levels = Array.from(new Set(cells.map((c) => c || "unknown"))).sort();
+      encodings[name] = levels;
+      values = cells.map((c) => levels.indexOf(c || "unknown"));
+    }
+    featureNames.push(name);
+    columns.push(values);
+  });
+
+  const X = rows.map((_, r) => columns.map((col) => col[r]));
+  return { featureNames, X, encodings };
+}
+
+// Encodes new rows the way prepareTabularData encoded the training rows. Training-time
+// medians are not stored, so missing cells and unseen category levels take `fill`
+// (the scaler means, i.e. a neutral value once standardized).
+export function encodeFeatureRows(
+  header: string[],
+  rows: string[][],
+  featureNames: string[],
+  encodings: Record<string, string[]>,
+  fill: number[]
+): Matrix {
+  const indices = featureNames.map((name) => header.indexOf(name));
+  return rows.map((row) =>
+    featureNames.map((name, j) => {
+      const cell = row[indices[j]] ?? "";
+      const levels = encodings[name];
+      const value = levels ? levels.indexOf(cell || "unknown") : parseNumber(cell);
+      return levels ? (value >= 0 ? value : fill[j]) : Number.isFinite(value) ? value : fill[j];
+    })
+  );
+}
+
+export async function loadTabularDataset(
+  filePath: string,
+  options: { targetColumn?: string | null } = {}
+): Promise<TabularDataset> {
+  const content = await fs.readFile(filePath, "utf8");
+  const { header, rows } = parseCsv(content);
+  if (header.length < 2 || rows.length === 0) {
+    throw new Error(`Dataset ${filePath} has no usable rows`);
+  }
+  return prepareTabularData(header, rows, options);
+}
+
+export function takeRows<T>(values: T[], indices: number[]): T[] {
+  return indices.map((i) => values[i]);
+}
+
+export function classIndices(y: number[]): [number[], number[]] {
+  const negatives: number[] = [];
+  const positives: number[] = [];
+  y.forEach((label, i) => (label === 1 ? positives : negatives).push(i));
+  return [negatives, positives];
+}
+
+export function stratifiedTrainTestSplit(
+  y: number[],
+  testSize: number,
+  rng: Rng
+): { train: number[]; test: number[] } {
+  const train: number[] = [];
+  const test: number[] = [];
+  for (const group of classIndices(y)) {
+    const shuffled = shuffleInPlace([...group], rng);
+    const nTest = group.length > 1 ? Math.max(1, Math.round(group.length * testSize)) : 0;
+    test.push(...shuffled.slice(0, nTest));
+    train.push(...shuffled.slice(nTest));
+  }
+  return { train: shuffleInPlace(train, rng), test: shuffleInPlace(test, rng) };
+}
+
+export interface SerializedScaler {
+  mean: number[];
+  scale: number[];
+}
+
+export class StandardScaler {
+  mean: number[] = [];
+  scale: number[] = [];
+
+  fit(X: Matrix): this {
+    const d = X[0]?.length ?? 0;
+    this.mean = new Array(d).fill(0);
+    this.scale = new Array(d).fill(1);
+    if (X.length === 0) return this;
+    for (const row of X) for (let j = 0; j < d; j++) this.mean[j] += row[j];
+    for (let j = 0; j < d; j++) this.mean[j] /= X.length;
+    for (let j = 0; j < d; j++) {
+      let ss = 0;
+      for (const row of X) ss += (row[j] - this.mean[j]) ** 2;
+      const std = Math.sqrt(ss / X.length);
+      this.scale[j] = std > 1e-12 ? std : 1;
+    }
+    return this;
+  }
+
+  transform(X: Matrix): Matrix {
+    return X.map((row) => row.map((v, j) => (v - this.mean[j]) / this.scale[j]));
+  }
+
+  fitTransform(X: Matrix): Matrix {
+    return this.fit(X).transform(X);
+  }
+
+  toJSON(): SerializedScaler {
+    return { mean: this.mean, scale: this.scale };
+  }
+
+  static fromJSON(json: SerializedScaler): StandardScaler {
+    const scaler = new StandardScaler();
+    scaler.mean = json.mean;
+    scaler.scale = json.scale;
+    return scaler;
+  }
+}
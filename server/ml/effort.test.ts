@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { effortAwareEvaluation } from "./effort";
+
+function close(actual: number | null, expected: number, tolerance = 1e-9) {
+  assert.ok(actual !== null && Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+}
+
+// Ranked by score per line: A (10 lines, defective), C (20, clean), B (30, defective), D (40, defective).
+const labels = [1, 1, 0, 1];
+const scores = [0.9, 0.6, 0.8, 0.2];
+const sizes = [10, 30, 20, 40];
+
+describe("effortAwareEvaluation", () => {
+  it("gives Popt = 1 for the optimal ordering and 0 for the worst", () => {
+    const equalSizes = [10, 10, 10, 10, 10];
+    const truth = [0, 1, 0, 1, 0];
+    close(effortAwareEvaluation(truth, truth, equalSizes).popt, 1);
+    close(effortAwareEvaluation(truth, truth.map((label) => 1 - label), equalSizes).popt, 0);
+  });
+
+  it("computes Popt from the areas under the model, optimal and worst lift curves", () => {
+    // Areas: model 17/30, optimal (A, B, D, C) 0.7, worst (C, D, B, A) 0.3.
+    close(effortAwareEvaluation(labels, scores, sizes).popt, 1 - (0.7 - 17 / 30) / 0.4);
+  });
+
+  it("counts only modules that fit entirely within the budget for ACC", () => {
+    // 20% of 100 lines admits A; C would reach 30 lines.
+    close(effortAwareEvaluation(labels, scores, sizes).acc, 1 / 3);
+    // 60% admits A, C and B.
+    close(effortAwareEvaluation(labels, scores, sizes, { budget: 0.6 }).acc, 2 / 3);
+  });
+
+  it("counts the false alarms inspected before the first defect for IFA", () => {
+    assert.equal(effortAwareEvaluation(labels, scores, sizes).ifa, 0);
+    assert.equal(effortAwareEvaluation([0, 0, 1, 0], [0.9, 0.8, 0.7, 0.1], [10, 10, 10, 10]).ifa, 2);
+  });
+
+  it("samples the lift chart at evenly spaced effort levels", () => {
+    const { liftChart } = effortAwareEvaluation(labels, scores, sizes, { curvePoints: 11 });
+    assert.equal(liftChart.length, 11);
+    assert.deepEqual(liftChart[0], { effort: 0, model: 0, optimal: 0, worst: 0 });
+    close(liftChart[1].model, 1 / 3);
+    close(liftChart[2].model, 1 / 3);
+    close(liftChart[10].model, 1);
+  });
+
+  it("returns nulls without defects or sizes", () => {
+    const none = { popt: null, acc: null, ifa: null, budget: 0.2, liftChart: [] };
+    assert.deepEqual(effortAwareEvaluation([0, 0], [0.4, 0.6], [10, 20]), none);
+    assert.deepEqual(effortAwareEvaluation([1, 0], [0.4, 0.6], [0, Number.NaN]), none);
+  });
+});
@@ -0,0 +1,143 @@
+// Effort-aware evaluation (Mende & Koschke 2010; Kamei et al. 2013). Modules are inspected
+// in order of predicted risk per line of code, and quality is measured against the share
+// of code that has to be read.
+
+export interface EffortScores {
+  // Normalised area under the effort-based lift chart: 1 - (opt - model) / (opt - worst).
+  popt: number | null;
+  // Recall of defective modules within the first `budget` share of total size.
+  acc: number | null;
+  // Clean modules inspected before the first defective one.
+  ifa: number | null;
+}
+
+export interface LiftPoint {
+  effort: number;
+  model: number;
+  optimal: number;
+  worst: number;
+}
+
+export interface EffortEvaluation extends EffortScores {
+  budget: number;
+  liftChart: LiftPoint[];
+}
+
+export interface EffortOptions {
+  budget?: number;
+  curvePoints?: number;
+}
+
+type Module = { label: number; score: number; size: number };
+
+// Cumulative (effort share, defect share) after each inspected module, starting at (0, 0).
+function liftCurve(ordered: Module[], totalSize: number, totalDefects: number): [number, number][] {
+  const points: [number, number][] = [[0, 0]];
+  let effort = 0;
+  let found = 0;
+  for (const module of ordered) {
+    effort += module.size;
+    found += module.label;
+    points.push([totalSize > 0 ? effort / totalSize : 0, totalDefects > 0 ? found / totalDefects : 0]);
+  }
+  return points;
+}
+
+function area(points: [number, number][]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += ((points[i][0] - points[i - 1][0]) * (points[i][1] + points[i - 1][1])) / 2;
+  }
+  return total;
+}
+
+function interpolate(points: [number, number][], effort: number): number {
+  for (let i = 1; i < points.length; i++) {
+    const [x0, y0] = points[i - 1];
+    const [x1, y1] = points[i];
+    if (effort <= x1) return x1 > x0 ? y0 + ((effort - x0) / (x1 - x0)) * (y1 - y0) : y1;
+  }
+  return points[points.length - 1][1];
+}
+
+// Ranks by score / size; sizes under one line count as one so empty modules do not dominate.
+export function effortAwareEvaluation(
+  labels: number[],
+  scores: number[],
+  sizes: number[],
+  options: EffortOptions = {}
+): EffortEvaluation {
+  const budget = options.budget ?? 0.2;
+  const curvePoints = options.curvePoints ?? 51;
+  const modules: Module[] = labels.map((label, i) => ({
+    label: label === 1 ? 1 : 0,
+    score: scores[i],
+    size: Number.isFinite(sizes[i]) ? Math.max(0, sizes[i]) : 0,
+  }));
+  const totalSize = modules.reduce((sum, module) => sum + module.size, 0);
+  const totalDefects = modules.reduce((sum, module) => sum + module.label, 0);
+  if (modules.length === 0 || totalSize === 0 || totalDefects === 0) {
+    return { popt: null, acc: null, ifa: null, budget, liftChart: [] };
+  }
+
+  const density = (module: Module, value: number) => value / Math.max(module.size, 1);
+  const byModel = [...modules].sort(
+    (a, b) => density(b, b.score) - density(a, a.score) || a.size - b.size
+  );
+  const optimal = [...modules].sort((a, b) => density(b, b.label) - density(a, a.label) || a.size - b.size);
+  const worst = [...modules].sort((a, b) => density(a, a.label) - density(b, b.label) || b.size - a.size);
+
+  const modelCurve = liftCurve(byModel, totalSize, totalDefects);
+  const optimalCurve = liftCurve(optimal, totalSize, totalDefects);
+  const worstCurve = liftCurve(worst, totalSize, totalDefects);
+  const spread = area(optimalCurve) - area(worstCurve);
+  const popt = spread > 0 ? 1 - (area(optimalCurve) - area(modelCurve)) / spread : null;
+
+  let inspected = 0;
+  let found = 0;
+  for (const module of byModel) {
+    if (inspected + module.size > budget * totalSize) break;
+    inspected += module.size;
+    found += module.label;
+  }
+  const firstDefect = byModel.findIndex((module) => module.label === 1);
+
+  const liftChart = Array.from({ length: curvePoints }, (_, i) => {
+    const effort = i / (curvePoints - 1);
+    return {
+      effort,
+      model: interpolate(modelCurve, effort),
+      optimal: interpolate(optimalCurve, effort),
+      worst: interpolate(worstCurve, effort),
+    };
+  });
+
+  return { popt, acc: found / totalDefects, ifa: firstDefect, budget, liftChart };
+}
+
+// What a trained model stores: out-of-fold scores on the training rows and holdout
+// scores, with the lift chart drawn from the larger out-of-fold sample.
+export interface EffortMetrics {
+  sizeColumn: string;
+  ranking: "density";
+  budget: number;
+  outOfFold: EffortScores;
+  holdout: EffortScores;
+  liftChart: LiftPoint[];
+}
+
+export function summarizeEffort(
+  sizeColumn: string,
+  outOfFold: EffortEvaluation,
+  holdout: EffortEvaluation
+): EffortMetrics {
+  const scoresOf = ({ popt, acc, ifa }: EffortEvaluation): EffortScores => ({ popt, acc, ifa });
+  return {
+    sizeColumn,
+    ranking: "density",
+    budget: outOfFold.budget,
+    outOfFold: scoresOf(outOfFold),
+    holdout: scoresOf(holdout),
+    liftChart: outOfFold.liftChart,
+  };
+}
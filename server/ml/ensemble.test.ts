@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Matrix } from "./dataset";
+import { combineScores, fitCombiner, learnVotingWeights } from "./ensemble";
+
+function close(actual: number, expected: number, tolerance = 1e-9) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+}
+
+function logLoss(y: number[], scores: number[]): number {
+  return -y.reduce((sum, label, i) => sum + Math.log(label === 1 ? scores[i] : 1 - scores[i]), 0) / y.length;
+}
+
+// Member 0 tracks the label, member 1 always says 0.5 and member 2 mostly points the wrong way.
+const y = [0, 0, 0, 0, 1, 1, 1, 1];
+const P: Matrix = [
+  [0.1, 0.5, 0.6],
+  [0.2, 0.5, 0.7],
+  [0.15, 0.5, 0.3],
+  [0.3, 0.5, 0.8],
+  [0.8, 0.5, 0.2],
+  [0.9, 0.5, 0.4],
+  [0.7, 0.5, 0.3],
+  [0.85, 0.5, 0.6],
+];
+
+describe("learnVotingWeights", () => {
+  it("returns weights on the simplex that favour the informative member", () => {
+    const weights = learnVotingWeights(P, y);
+    assert.equal(weights.length, 3);
+    weights.forEach((weight) => assert.ok(weight >= 0 && weight <= 1));
+    close(weights.reduce((sum, weight) => sum + weight, 0), 1);
+    assert.ok(weights[0] > 0.8, `informative member weight ${weights[0]}`);
+  });
+
+  it("lowers the log-loss of the equal-weight vote", () => {
+    const learned = combineScores({ method: "weighted_voting", weights: learnVotingWeights(P, y) }, P);
+    const equal = combineScores(fitCombiner("soft_voting", P, y), P);
+    assert.ok(logLoss(y, learned) < logLoss(y, equal));
+  });
+});
+
+describe("fitCombiner and combineScores", () => {
+  it("averages the members for soft voting", () => {
+    const combiner = fitCombiner("soft_voting", P, y);
+    assert.deepEqual(combiner, { method: "soft_voting", weights: [1 / 3, 1 / 3, 1 / 3] });
+    close(combineScores(combiner, [[0.3, 0.6, 0.9]])[0], 0.6);
+  });
+
+  it("learns the voting weights for weighted voting", () => {
+    assert.deepEqual(fitCombiner("weighted_voting", P, y), {
+      method: "weighted_voting",
+      weights: learnVotingWeights(P, y),
+    });
+  });
+
+  it("stacks with a logistic regression that leans on the informative member", () => {
+    const combiner = fitCombiner("stacking", P, y);
+    assert.ok(combiner.method === "stacking" && combiner.meta.algorithm === "logistic_regression");
+    const [informative, constant, misleading] = combiner.meta.coef.map(Math.abs);
+    assert.ok(informative > constant && informative > misleading);
+    combineScores(combiner, P).forEach((score, i) => assert.equal(score >= 0.5 ? 1 : 0, y[i], `row ${i}: ${score}`));
+  });
+});
@@ -0,0 +1,357 @@
+import { type Matrix, type TabularDataset, encodeFeatureRows, takeRows } from "./dataset";
+import { type Checkpoint, type SerializedClassifier, createClassifier, deserializeClassifier } from "./classifiers";
+import { applyCalibrator, calibrationReport } from "./calibration";
+import { type EffortMetrics, effortAwareEvaluation, summarizeEffort } from "./effort";
+import {
+  type BinaryMetrics,
+  type ClassificationReport,
+  type ImbalanceMetrics,
+  applyThreshold,
+  classificationReport,
+  computeBinaryMetrics,
+} from "./metrics";
+import {
+  type CalibrationSummary,
+  type FoldMetrics,
+  type NodeModelArtifact,
+  type ValidationSummary,
+  fitAndScore,
+  headlineImbalanceMetrics,
+  predictWithArtifact,
+  resolveSeed,
+  summarizeFolds,
+  validationMeans,
+} from "./pipeline";
+import { createRng } from "./random";
+import { type ThresholdSelection, resolveThresholdOptions, selectThreshold } from "./thresholds";
+import { resolveValidationConfig, safeFoldCount, stratifiedKFold } from "./validation";
+
+// Ensembles composed from already trained Node engine models on one dataset.
+//   soft_voting      mean of the members' calibrated probabilities
+//   weighted_voting  weighted mean, weights on the simplex minimising log-loss on
+//                    out-of-fold probabilities
+//   stacking         logistic-regression meta-learner on out-of-fold probabilities
+// Members must share a train/holdout split, so the holdout stays unseen by all of them.
+export const ENSEMBLE_METHODS = ["soft_voting", "weighted_voting", "stacking"] as const;
+export type EnsembleMethod = typeof ENSEMBLE_METHODS[number];
+
+export type SerializedCombiner =
+  | { method: "soft_voting" | "weighted_voting"; weights: number[] }
+  | { method: "stacking"; meta: SerializedClassifier };
+
+export interface EnsembleArtifact {
+  format: "ensemble";
+  version: 1;
+  method: EnsembleMethod;
+  memberIds: string[];
+  // Members are embedded, so the ensemble keeps scoring if a member model is deleted.
+  members: NodeModelArtifact[];
+  combiner: SerializedCombiner;
+  // Union of the members' input columns.
+  featureNames: string[];
+  targetColumn: string;
+  threshold: number;
+  holdout: { indices: number[]; labels: number[]; scores: number[] };
+  createdAt: string;
+}
+
+export interface EnsembleMemberInput {
+  modelId: string;
+  name: string;
+  algorithm: string;
+  family: string | null;
+  version: string | null;
+  artifact: NodeModelArtifact;
+}
+
+export interface EnsembleLineage {
+  method: EnsembleMethod;
+  folds: number;
+  members: {
+    modelId: string;
+    name: string;
+    algorithm: string;
+    family: string | null;
+    version: string | null;
+    // Share of the vote; for stacking, the member's share of the absolute meta coefficients.
+    weight: number | null;
+    holdoutAucRoc: number | null;
+  }[];
+  metaLearner: { coefficients: number[]; intercept: number } | null;
+}
+
+export interface EnsembleTrainingResult extends ImbalanceMetrics {
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  mcc: number;
+  aucRoc: number | null;
+  confusionMatrix: number[][];
+  featureImportance: Record<string, number>;
+  validationMetrics: Record<string, number | null>;
+  validationSummary: ValidationSummary;
+  foldMetrics: FoldMetrics[];
+  holdoutMetrics: Omit<BinaryMetrics, "confusionMatrix">;
+  outOfFoldScores: { labels: number[]; scores: number[] };
+  decisionThreshold: number;
+  thresholdSelection: ThresholdSelection;
+  popt: number | null;
+  accAt20: number | null;
+  ifa: number | null;
+  effortMetrics: EffortMetrics | null;
+  brierScore: number;
+  expectedCalibrationError: number;
+  calibration: CalibrationSummary;
+  classificationReport: ClassificationReport;
+  ensemble: EnsembleLineage;
+}
+
+export interface EnsembleConfig {
+  method: EnsembleMethod;
+  folds: number;
+  hyperparameters?: Record<string, any> | null;
+  sizeColumn?: string | null;
+  checkpoint?: Checkpoint;
+}
+
+const EPSILON = 1e-6;
+
+export function isEnsembleArtifact(artifact: { format?: string }): artifact is EnsembleArtifact {
+  return artifact.format === "ensemble";
+}
+
+// Exponentiated-gradient descent on the softmax parameters of the weights.
+export function learnVotingWeights(P: Matrix, y: number[], iterations = 500, learningRate = 0.5): number[] {
+  const m = P[0]?.length ?? 0;
+  let theta = new Array<number>(m).fill(0);
+  const softmax = (values: number[]) => {
+    const max = Math.max(...values);
+    const exp = values.map((value) => Math.exp(value - max));
+    const total = exp.reduce((sum, value) => sum + value, 0);
+    return exp.map((value) => value / total);
+  };
+  for (let iter = 0; iter < iterations; iter++) {
+    const w = softmax(theta);
+    const grad = new Array<number>(m).fill(0);
+    P.forEach((row, i) => {
+      const p = Math.min(1 - EPSILON, Math.max(EPSILON, row.reduce((sum, value, j) => sum + w[j] * value, 0)));
+      const dLoss = y[i] === 1 ? -1 / p : 1 / (1 - p);
+      row.forEach((value, j) => (grad[j] += (dLoss * value) / P.length));
+    });
+    const mean = grad.reduce((sum, g, j) => sum + w[j] * g, 0);
+    theta = theta.map((t, j) => t - learningRate * w[j] * (grad[j] - mean));
+  }
+  return softmax(theta);
+}
+
+export function fitCombiner(method: EnsembleMethod, P: Matrix, y: number[]): SerializedCombiner {
+  const m = P[0]?.length ?? 0;
+  switch (method) {
+    case "weighted_voting":
+      return { method, weights: learnVotingWeights(P, y) };
+    case "stacking":
+      // Unweighted, so the meta-learner's output stays a calibrated probability.
+      return { method, meta: createClassifier("logistic_regression", { class_weight: "none" }).fit(P, y).toJSON() };
+    default:
+      return { method: "soft_voting", weights: new Array<number>(m).fill(1 / m) };
+  }
+}
+
+export function combineScores(combiner: SerializedCombiner, P: Matrix): number[] {
+  if (combiner.method === "stacking") {
+    return deserializeClassifier(combiner.meta).predictProba(P);
+  }
+  return P.map((row) => row.reduce((sum, value, j) => sum + combiner.weights[j] * value, 0));
+}
+
+// Member probabilities side by side: one row per module, one column per member.
+function columns(perMember: number[][]): Matrix {
+  return (perMember[0] ?? []).map((_, i) => perMember.map((scores) => scores[i]));
+}
+
+export function predictWithEnsemble(artifact: EnsembleArtifact, header: string[], rows: string[][]): number[] {
+  const perMember = artifact.members.map((member) =>
+    predictWithArtifact(
+      member,
+      encodeFeatureRows(header, rows, member.featureNames, member.encodings, member.scaler.mean)
+    )
+  );
+  return combineScores(artifact.combiner, columns(perMember));
+}
+
+function metaLearner(combiner: SerializedCombiner): { coefficients: number[]; intercept: number } | null {
+  if (combiner.method !== "stacking" || combiner.meta.algorithm !== "logistic_regression") return null;
+  return { coefficients: combiner.meta.coef, intercept: combiner.meta.intercept };
+}
+
+function memberWeights(combiner: SerializedCombiner): number[] {
+  if (combiner.method !== "stacking") return combiner.weights;
+  const magnitudes = (metaLearner(combiner)?.coefficients ?? []).map(Math.abs);
+  const total = magnitudes.reduce((sum, value) => sum + value, 0);
+  return magnitudes.map((value) => (total > 0 ? value / total : 0));
+}
+
+// Every member is refitted per fold on the shared training split with its own
+// hyperparameters; its calibrator then maps the fold scores to the probabilities it
+// serves. The combiner is validated on those out-of-fold probabilities with the same
+// folds, refitted on all of them, and evaluated on the shared holdout.
+export async function trainEnsemblePipeline(
+  data: TabularDataset,
+  members: EnsembleMemberInput[],
+  config: EnsembleConfig
+): Promise<{ result: EnsembleTrainingResult; artifact: EnsembleArtifact }> {
+  if (members.length < 2) {
+    throw new Error("An ensemble needs at least two members");
+  }
+  const hyperparameters = config.hyperparameters ?? {};
+  const { X, y } = data;
+  const test = members[0].artifact.holdout.indices;
+  const held = new Set(test);
+  const train = y.map((_, row) => row).filter((row) => !held.has(row));
+  const yTrain = takeRows(y, train);
+  const yTest = takeRows(y, test);
+
+  const validationConfig = resolveValidationConfig({ validation_strategy: "stratified_kfold", cv_folds: config.folds });
+  const folds = stratifiedKFold(yTrain, safeFoldCount(yTrain, validationConfig.folds), createRng(resolveSeed(hyperparameters)));
+
+  // Each member sees its own columns, in the order its artifact was trained on.
+  const memberX = members.map((member) => {
+    const indices = member.artifact.featureNames.map((name) => data.featureNames.indexOf(name));
+    const missing = member.artifact.featureNames.filter((_, j) => indices[j] === -1);
+    if (missing.length > 0) {
+      throw new Error(`Dataset lacks columns of member ${member.name}: ${missing.join(", ")}`);
+    }
+    return X.map((row) => indices.map((j) => row[j]));
+  });
+
+  const oofPerMember: number[][] = [];
+  for (let m = 0; m < members.length; m++) {
+    const member = members[m];
+    const scores = new Array<number>(train.length).fill(0);
+    const seed = resolveSeed(member.artifact.hyperparameters);
+    for (const fold of folds) {
+      const fitted = await fitAndScore(
+        memberX[m],
+        y,
+        takeRows(train, fold.train),
+        takeRows(train, fold.test),
+        member.artifact.engineAlgorithm,
+        member.artifact.hyperparameters,
+        seed,
+        config.checkpoint
+      );
+      const calibrated = applyCalibrator(member.artifact.calibrator, fitted.scores);
+      fold.test.forEach((position, i) => (scores[position] = calibrated[i]));
+    }
+    oofPerMember.push(scores);
+  }
+  const holdoutPerMember = members.map((member, m) => predictWithArtifact(member.artifact, takeRows(memberX[m], test)));
+  const P = columns(oofPerMember);
+  const PTest = columns(holdoutPerMember);
+
+  const oofScores = new Array<number>(train.length).fill(0);
+  const foldMetrics: FoldMetrics[] = folds.map((fold, index) => {
+    const combiner = fitCombiner(config.method, takeRows(P, fold.train), takeRows(yTrain, fold.train));
+    const scores = combineScores(combiner, takeRows(P, fold.test));
+    fold.test.forEach((position, i) => (oofScores[position] = scores[i]));
+    const { confusionMatrix: _, ...metrics } = computeBinaryMetrics(takeRows(yTrain, fold.test), scores);
+    return { repeat: 0, fold: index, ...metrics };
+  });
+  const testTrainRatio =
+    folds.reduce((sum, fold) => sum + fold.test.length / fold.train.length, 0) / Math.max(1, folds.length);
+  const validationSummary = summarizeFolds(foldMetrics, { ...validationConfig, folds: folds.length }, testTrainRatio);
+  const validationMetrics = validationMeans(validationSummary);
+
+  const combiner = fitCombiner(config.method, P, yTrain);
+  const scores = combineScores(combiner, PTest);
+  const outOfFold = { labels: yTrain, scores: oofScores.map((score) => Math.round(score * 1e4) / 1e4) };
+  const thresholdSelection = selectThreshold(outOfFold.labels, outOfFold.scores, resolveThresholdOptions(hyperparameters));
+  const holdout = computeBinaryMetrics(yTest, scores, thresholdSelection.threshold);
+  const { confusionMatrix, ...holdoutMetrics } = holdout;
+
+  // The members are calibrated already; the combination is reported as is.
+  const reliability = calibrationReport(yTest, scores);
+  const calibration: CalibrationSummary = {
+    method: "none",
+    calibrator: { method: "none" },
+    uncalibrated: reliability,
+    calibrated: reliability,
+  };
+
+  const sizeIndex = config.sizeColumn ? data.featureNames.indexOf(config.sizeColumn) : -1;
+  const effortMetrics =
+    sizeIndex >= 0
+      ? summarizeEffort(
+          config.sizeColumn!,
+          effortAwareEvaluation(outOfFold.labels, outOfFold.scores, train.map((row) => X[row][sizeIndex])),
+          effortAwareEvaluation(yTest, scores, test.map((row) => X[row][sizeIndex]))
+        )
+      : null;
+
+  const weights = memberWeights(combiner);
+  const featureImportance: Record<string, number> = {};
+  members.forEach((member, j) => {
+    const importances = deserializeClassifier(member.artifact.classifier).featureImportance();
+    member.artifact.featureNames.forEach((name, k) => {
+      featureImportance[name] = (featureImportance[name] ?? 0) + weights[j] * (importances[k] ?? 0);
+    });
+  });
+
+  const featureNames = Array.from(new Set(members.flatMap((member) => member.artifact.featureNames)));
+  return {
+    result: {
+      accuracy: validationMetrics.accuracy ?? holdout.accuracy,
+      precision: validationMetrics.precision ?? holdout.precision,
+      recall: validationMetrics.recall ?? holdout.recall,
+      f1Score: validationMetrics.f1_score ?? holdout.f1Score,
+      mcc: validationMetrics.mcc ?? holdout.mcc,
+      aucRoc: validationMetrics.auc_roc ?? holdout.aucRoc,
+      ...headlineImbalanceMetrics(validationSummary, holdout),
+      confusionMatrix,
+      classificationReport: classificationReport(yTest, applyThreshold(scores, thresholdSelection.threshold)),
+      featureImportance,
+      validationMetrics,
+      validationSummary,
+      foldMetrics,
+      holdoutMetrics,
+      outOfFoldScores: outOfFold,
+      decisionThreshold: thresholdSelection.threshold,
+      thresholdSelection,
+      popt: effortMetrics?.holdout.popt ?? null,
+      accAt20: effortMetrics?.holdout.acc ?? null,
+      ifa: effortMetrics?.holdout.ifa ?? null,
+      effortMetrics,
+      brierScore: reliability.brierScore,
+      expectedCalibrationError: reliability.expectedCalibrationError,
+      calibration,
+      ensemble: {
+        method: config.method,
+        folds: folds.length,
+        members: members.map((member, j) => ({
+          modelId: member.modelId,
+          name: member.name,
+          algorithm: member.algorithm,
+          family: member.family,
+          version: member.version,
+          weight: weights[j],
+          holdoutAucRoc: computeBinaryMetrics(yTest, holdoutPerMember[j]).aucRoc,
+        })),
+        metaLearner: metaLearner(combiner),
+      },
+    },
+    artifact: {
+      format: "ensemble",
+      version: 1,
+      method: config.method,
+      memberIds: members.map((member) => member.modelId),
+      members: members.map((member) => member.artifact),
+      combiner,
+      featureNames,
+      targetColumn: data.targetColumn,
+      threshold: thresholdSelection.threshold,
+      holdout: { indices: test, labels: yTest, scores },
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,277 @@
+import { takeRows } from "./dataset";
+import { rocAuc } from "./metrics";
+import { createRng, randomInt, sampleWithoutReplacement, shuffleInPlace } from "./random";
+import { type MetricSummary, summarizeMetric } from "./statistics";
+
+// Model-agnostic explanations for models the Node engine scores: permutation importance
+// (Breiman 2001) as the drop in holdout ROC AUC, and Shapley values estimated by sampling
+// feature orderings (Strumbelj & Kononenko 2014). Both go through a scoring function over
+// raw dataset rows, so single models and ensembles are handled alike and attributions
+// name the dataset's columns. ml_backend.py's explain_model returns the same shapes,
+// adding SHAP and LIME for models the Python backend trained.
+
+// Calibrated defect probabilities for rows laid out like the dataset header.
+export type RowScorer = (rows: string[][]) => number[];
+
+export interface ExplainedColumn {
+  name: string;
+  // Position in the dataset header.
+  index: number;
+}
+
+export interface ExplanationInput {
+  score: RowScorer;
+  rows: string[][];
+  // Null when the dataset has no target column (unlabelled cross-project targets).
+  labels: number[] | null;
+  columns: ExplainedColumn[];
+  // Rows the model never trained on; importance is measured here.
+  holdout: number[];
+  // Rows missing features are filled from.
+  background: number[];
+}
+
+export interface FeatureImportance {
+  feature: string;
+  // Mean absolute Shapley value over the sampled holdout rows, in probability units.
+  meanAbsShap: number | null;
+  // Drop in holdout ROC AUC when the column is shuffled, over the repeats.
+  permutation: MetricSummary | null;
+}
+
+export interface GlobalExplanation {
+  engine: "python" | "node";
+  shapMethod: string | null;
+  metric: "aucRoc";
+  baselineAuc: number | null;
+  repeats: number;
+  evaluationRows: number;
+  sampleSize: number;
+  // In dataset column order.
+  features: FeatureImportance[];
+  // Holdout rows with the highest predicted risk, as starting points for local explanations.
+  suggestedRows: { row: number; label: number | null; score: number }[];
+  notes: string[];
+}
+
+export interface FeatureContribution {
+  feature: string;
+  // The row's cell as written in the dataset.
+  value: string;
+  contribution: number;
+}
+
+export interface LocalExplanation {
+  engine: "python" | "node";
+  row: number;
+  prediction: number;
+  label: number | null;
+  inHoldout: boolean;
+  // Contributions sum to prediction - baseValue.
+  shap: { method: string; baseValue: number; contributions: FeatureContribution[] } | null;
+  lime: {
+    intercept: number;
+    prediction: number;
+    // R² of the local surrogate.
+    score: number;
+    weights: { rule: string; weight: number }[];
+  } | null;
+  notes: string[];
+}
+
+export interface GlobalExplanationOptions {
+  seed?: number;
+  repeats?: number;
+  // Holdout rows mean |SHAP| is averaged over.
+  sampleSize?: number;
+  // Orderings sampled per explained row.
+  permutations?: number;
+  // Larger holdouts are subsampled to keep permutation importance affordable.
+  maxEvaluationRows?: number;
+}
+
+const SUGGESTED_ROWS = 10;
+
+// Shuffles each column `repeats` times and records the AUC lost; null throughout when the
+// rows hold one class and AUC is undefined.
+export function permutationImportance(
+  score: RowScorer,
+  rows: string[][],
+  labels: number[],
+  columns: ExplainedColumn[],
+  options: { repeats?: number; seed?: number } = {}
+): { baselineAuc: number | null; importances: (MetricSummary | null)[] } {
+  const baselineAuc = rocAuc(labels, score(rows));
+  if (baselineAuc === null) {
+    return { baselineAuc, importances: columns.map(() => null) };
+  }
+  const rng = createRng(options.seed ?? 42);
+  const repeats = options.repeats ?? 10;
+  const importances = columns.map((column) => {
+    const drops: number[] = [];
+    for (let repeat = 0; repeat < repeats; repeat++) {
+      const order = shuffleInPlace(
+        rows.map((_, i) => i),
+        rng
+      );
+      const permuted = rows.map((row, i) => {
+        const copy = row.slice();
+        copy[column.index] = rows[order[i]][column.index];
+        return copy;
+      });
+      drops.push(baselineAuc - (rocAuc(labels, score(permuted)) ?? baselineAuc));
+    }
+    return summarizeMetric(drops, { method: "t" });
+  });
+  return { baselineAuc, importances };
+}
+
+// Each sampled ordering walks from a background row to the instance, switching one column
+// at a time; a column's contribution is the score change when it switches. Averaged over
+// orderings this estimates the Shapley value, and the contributions of every ordering sum
+// to score(instance) - score(background), so baseValue + sum(contributions) = prediction.
+export function sampledShapley(
+  score: RowScorer,
+  instance: string[],
+  background: string[][],
+  columns: ExplainedColumn[],
+  options: { permutations?: number; seed?: number } = {}
+): { baseValue: number; prediction: number; contributions: number[] } {
+  const rng = createRng(options.seed ?? 42);
+  const permutations = options.permutations ?? 200;
+  const orders: number[][] = [];
+  const chain: string[][] = [];
+  for (let m = 0; m < permutations; m++) {
+    let current = background[randomInt(rng, background.length)].slice();
+    const order = shuffleInPlace(
+      columns.map((_, j) => j),
+      rng
+    );
+    chain.push(current);
+    order.forEach((j) => {
+      current = current.slice();
+      current[columns[j].index] = instance[columns[j].index];
+      chain.push(current);
+    });
+    orders.push(order);
+  }
+
+  const scores = score(chain);
+  const contributions = new Array<number>(columns.length).fill(0);
+  let baseValue = 0;
+  orders.forEach((order, m) => {
+    const offset = m * (columns.length + 1);
+    baseValue += scores[offset];
+    order.forEach((j, k) => {
+      contributions[j] += scores[offset + k + 1] - scores[offset + k];
+    });
+  });
+  return {
+    baseValue: baseValue / permutations,
+    prediction: scores[columns.length],
+    contributions: contributions.map((total) => total / permutations),
+  };
+}
+
+export function explainGlobally(input: ExplanationInput, options: GlobalExplanationOptions = {}): GlobalExplanation {
+  const seed = options.seed ?? 42;
+  const repeats = options.repeats ?? 10;
+  const rng = createRng(seed);
+  const notes: string[] = [];
+
+  const maxRows = options.maxEvaluationRows ?? 1000;
+  const evaluation =
+    input.holdout.length > maxRows
+      ? sampleWithoutReplacement(input.holdout.length, maxRows, rng).map((i) => input.holdout[i])
+      : input.holdout;
+  if (evaluation.length < input.holdout.length) {
+    notes.push(`Permutation importance uses ${evaluation.length} of ${input.holdout.length} holdout rows`);
+  }
+  const evaluationRows = takeRows(input.rows, evaluation);
+
+  let baselineAuc: number | null = null;
+  let importances: (MetricSummary | null)[] = input.columns.map(() => null);
+  if (input.labels) {
+    ({ baselineAuc, importances } = permutationImportance(
+      input.score,
+      evaluationRows,
+      takeRows(input.labels, evaluation),
+      input.columns,
+      { repeats, seed }
+    ));
+    if (baselineAuc === null) {
+      notes.push("The holdout has one class, so permutation importance (ROC AUC drop) is undefined");
+    }
+  } else {
+    notes.push("The dataset has no target column, so permutation importance is unavailable");
+  }
+
+  const background = takeRows(input.rows, input.background);
+  const sample = sampleWithoutReplacement(evaluation.length, options.sampleSize ?? 50, rng).map((i) => evaluation[i]);
+  const totals = new Array<number>(input.columns.length).fill(0);
+  sample.forEach((row, i) => {
+    const { contributions } = sampledShapley(input.score, input.rows[row], background, input.columns, {
+      permutations: options.permutations ?? 25,
+      seed: seed + i + 1,
+    });
+    contributions.forEach((value, j) => {
+      totals[j] += Math.abs(value);
+    });
+  });
+
+  const scores = input.score(evaluationRows);
+  const suggestedRows = evaluation
+    .map((row, i) => ({ row, label: input.labels?.[row] ?? null, score: scores[i] }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, SUGGESTED_ROWS);
+
+  return {
+    engine: "node",
+    shapMethod: "sampling",
+    metric: "aucRoc",
+    baselineAuc,
+    repeats,
+    evaluationRows: evaluation.length,
+    sampleSize: sample.length,
+    features: input.columns.map((column, j) => ({
+      feature: column.name,
+      meanAbsShap: sample.length > 0 ? totals[j] / sample.length : null,
+      permutation: importances[j],
+    })),
+    suggestedRows,
+    notes,
+  };
+}
+
+export function explainRow(
+  input: ExplanationInput,
+  row: number,
+  options: { permutations?: number; seed?: number } = {}
+): LocalExplanation {
+  const instance = input.rows[row];
+  const { baseValue, prediction, contributions } = sampledShapley(
+    input.score,
+    instance,
+    takeRows(input.rows, input.background),
+    input.columns,
+    options
+  );
+  return {
+    engine: "node",
+    row,
+    prediction,
+    label: input.labels?.[row] ?? null,
+    inHoldout: input.holdout.includes(row),
+    shap: {
+      method: "sampling",
+      baseValue,
+      contributions: input.columns.map((column, j) => ({
+        feature: column.name,
+        value: instance[column.index] ?? "",
+        contribution: contributions[j],
+      })),
+    },
+    lime: null,
+    notes: ["LIME weights are computed only for models the Python backend trained"],
+  };
+}
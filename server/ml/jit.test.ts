@@ -0,0 +1,206 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  type CommitRecord,
+  blamedCommits,
+  computeChangeMetrics,
+  deletedLines,
+  fixPattern,
+  lineRanges,
+  parseGitLog,
+  parseNumstatPath,
+} from "./jit";
+
+const DAY = 86400;
+
+describe("parseNumstatPath", () => {
+  it("expands brace renames, including an empty side", () => {
+    assert.deepEqual(parseNumstatPath("src/{old => new}/b.ts"), { path: "src/new/b.ts", oldPath: "src/old/b.ts" });
+    assert.deepEqual(parseNumstatPath("src/{ => lib}/c.ts"), { path: "src/lib/c.ts", oldPath: "src/c.ts" });
+    assert.deepEqual(parseNumstatPath("{docs => doc}/readme.md"), { path: "doc/readme.md", oldPath: "docs/readme.md" });
+  });
+
+  it("splits arrow renames and unquotes each side", () => {
+    assert.deepEqual(parseNumstatPath("a.ts => lib/a.ts"), { path: "lib/a.ts", oldPath: "a.ts" });
+    assert.deepEqual(parseNumstatPath('"say \\"hi\\".md" => "tab\\there.md"'), {
+      path: "tab\there.md",
+      oldPath: 'say "hi".md',
+    });
+  });
+
+  it("unquotes plain paths", () => {
+    assert.deepEqual(parseNumstatPath('"dir/back\\\\slash.ts"'), {
+      path: "dir/back\\slash.ts",
+      oldPath: "dir/back\\slash.ts",
+    });
+  });
+});
+
+describe("parseGitLog", () => {
+  it("reads commit fields and numstat lines", () => {
+    const log = [
+      "\x1eaaa\x1f\x1fAlice@Example.com\x1f1000\x1fInitial commit\n\x1f\n",
+      "1\t0\tsrc/a.ts\n-\t-\tassets/logo.png\n\n",
+      "\x1ebbb\x1faaa ccc\x1falice@example.com\x1f2000\x1fFix crash\n\nDetails\n\x1f\n",
+      "2\t1\tsrc/{old => new}/b.ts\n",
+    ].join("");
+    assert.deepEqual(parseGitLog(log), [
+      {
+        hash: "aaa",
+        parents: [],
+        author: "alice@example.com",
+        authorTime: 1000,
+        message: "Initial commit\n",
+        files: [
+          { path: "src/a.ts", oldPath: "src/a.ts", added: 1, deleted: 0 },
+          { path: "assets/logo.png", oldPath: "assets/logo.png", added: null, deleted: null },
+        ],
+      },
+      {
+        hash: "bbb",
+        parents: ["aaa", "ccc"],
+        author: "alice@example.com",
+        authorTime: 2000,
+        message: "Fix crash\n\nDetails\n",
+        files: [{ path: "src/new/b.ts", oldPath: "src/old/b.ts", added: 2, deleted: 1 }],
+      },
+    ]);
+  });
+});
+
+describe("fixPattern", () => {
+  it("matches keywords as word prefixes", () => {
+    const pattern = fixPattern();
+    assert.ok(pattern.test("Fixes #12"));
+    assert.ok(pattern.test("BUGFIX: null check"));
+    assert.ok(!pattern.test("Add a prefix option"));
+    assert.ok(fixPattern(["c++"]).test("c++ crash"));
+  });
+});
+
+describe("deletedLines", () => {
+  it("collects deleted code lines from -U0 hunks, with and without counts", () => {
+    const diff = [
+      "diff --git a/src/a.ts b/src/a.ts",
+      "index 1111111..2222222 100644",
+      "--- a/src/a.ts",
+      "+++ b/src/a.ts",
+      "@@ -3 +3 @@",
+      "-const x = 1;",
+      "+const x = 2;",
+      "@@ -10,3 +9,0 @@",
+      "-  // comment",
+      "-",
+      "-  return y;",
+      "diff --git a/new.ts b/new.ts",
+      "new file mode 100644",
+      "--- /dev/null",
+      "+++ b/new.ts",
+      "@@ -0,0 +1,2 @@",
+      "+a",
+      "+b",
+      'diff --git "a/dir/tab\\there.ts" "b/dir/tab\\there.ts"',
+      '--- "a/dir/tab\\there.ts"',
+      '+++ "b/dir/tab\\there.ts"',
+      "@@ -7,2 +7 @@",
+      "-x();",
+      "--- looks like a header",
+      "+y();",
+      "",
+    ].join("\n");
+    assert.deepEqual(
+      Array.from(deletedLines(diff)),
+      [
+        ["src/a.ts", [3, 12]],
+        ["dir/tab\there.ts", [7, 8]],
+      ]
+    );
+  });
+});
+
+describe("lineRanges", () => {
+  it("merges adjacent and repeated lines", () => {
+    assert.deepEqual(lineRanges([12, 3, 4, 4, 9, 10]), [
+      [3, 4],
+      [9, 10],
+      [12, 12],
+    ]);
+  });
+});
+
+describe("blamedCommits", () => {
+  it("collects the commits heading porcelain blame groups", () => {
+    const first = "a".repeat(40);
+    const second = "b".repeat(64);
+    const porcelain = [
+      `${first} 3 3 1`,
+      "author Alice",
+      "filename src/a.ts",
+      "\tconst x = 1;",
+      `${second} 12 12 1`,
+      "filename src/a.ts",
+      `\t${"c".repeat(40)} 1 1 1`,
+      `${first} 13 13`,
+      "\treturn y;",
+    ].join("\n");
+    assert.deepEqual(Array.from(blamedCommits(porcelain)), [first, second]);
+  });
+});
+
+describe("computeChangeMetrics", () => {
+  const commit = (hash: string, author: string, days: number, message: string, files: CommitRecord["files"]) => ({
+    hash,
+    parents: [],
+    author,
+    authorTime: days * DAY,
+    message,
+    files,
+  });
+  const file = (path: string, added: number, deleted: number, oldPath = path) => ({ path, oldPath, added, deleted });
+
+  it("replays history for the size, history and experience metrics", () => {
+    const rows = computeChangeMetrics(
+      [
+        commit("c0", "alice", 0, "Initial", [file("src/a.ts", 10, 0)]),
+        commit("c1", "bob", 1, "Fix bug in a", [file("src/a.ts", 2, 1), file("lib/b.ts", 3, 0)]),
+        commit("c2", "alice", 3, "Prefix cleanup", [file("src/core/a.ts", 1, 1, "src/a.ts")]),
+        commit("c3", "carol", 4, "Merge", []),
+        commit("c4", "alice", 5, "Patches", [file("src/core/a.ts", 1, 0)]),
+      ],
+      { fixPattern: fixPattern() }
+    );
+    const base = { ns: 1, nd: 1, nf: 1, entropy: 0, fix: 0 };
+    assert.deepEqual(rows, [
+      { ...base, hash: "c0", authorTime: 0, la: 10, ld: 0, lt: 0, ndev: 0, age: 0, nuc: 0, exp: 0 },
+      {
+        ...base,
+        hash: "c1",
+        authorTime: DAY,
+        ns: 2,
+        nd: 2,
+        nf: 2,
+        entropy: 1,
+        la: 5,
+        ld: 1,
+        lt: 10,
+        fix: 1,
+        ndev: 1,
+        age: 1,
+        nuc: 1,
+        exp: 0,
+      },
+      // The rename carries src/a.ts's size and history over to src/core/a.ts.
+      { ...base, hash: "c2", authorTime: 3 * DAY, la: 1, ld: 1, lt: 11, ndev: 2, age: 2, nuc: 2, exp: 1 },
+      // c3 changed no files: it has no row, but still counts towards carol's experience.
+      { ...base, hash: "c4", authorTime: 5 * DAY, la: 1, ld: 0, lt: 11, fix: 1, ndev: 2, age: 2, nuc: 3, exp: 2 },
+    ]);
+  });
+
+  it("starts file sizes from the initial snapshot", () => {
+    const [row] = computeChangeMetrics([commit("c0", "alice", 0, "Tweak", [file("a.ts", 1, 1)])], {
+      fixPattern: fixPattern(),
+      initialSizes: new Map([["a.ts", 40]]),
+    });
+    assert.equal(row.lt, 40);
+  });
+});
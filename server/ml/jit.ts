@@ -0,0 +1,301 @@
+// Just-in-time (commit-level) defect data: Kamei et al.'s change metrics computed by
+// replaying a repository's history, plus the parsing SZZ needs to trace fix commits back
+// to the commits that introduced the lines they changed.
+export const JIT_TARGET_COLUMN = "bug";
+
+export const JIT_FEATURES: Record<string, string> = {
+  ns: "Number of modified subsystems (top-level directories)",
+  nd: "Number of modified directories",
+  nf: "Number of modified files",
+  entropy: "Distribution of the change across files (Shannon entropy, bits)",
+  la: "Lines added",
+  ld: "Lines deleted",
+  lt: "Lines of code in the modified files before the change",
+  fix: "Whether the change fixes a defect (commit message keywords)",
+  ndev: "Developers who changed the modified files before",
+  age: "Mean days since the modified files were last changed",
+  nuc: "Unique earlier changes to the modified files",
+  exp: "Earlier changes by the same author",
+};
+
+export const JIT_COLUMNS = Object.keys(JIT_FEATURES);
+
+// Mockus & Votta's keywords, as used by Kamei et al. Matched as word prefixes, so
+// "fixes" and "bugs" count but "prefix" does not.
+export const DEFAULT_FIX_KEYWORDS = ["fix", "bug", "defect", "patch"];
+
+// One record per commit: hash, parents, author email, author time, raw message, then the
+// numstat lines. The separators cannot appear in any of the fields.
+export const GIT_LOG_FORMAT = "%x1e%H%x1f%P%x1f%aE%x1f%at%x1f%B%x1f";
+
+export interface FileChange {
+  path: string;
+  // Path before the commit; differs from `path` for renames.
+  oldPath: string;
+  // null for binary files.
+  added: number | null;
+  deleted: number | null;
+}
+
+export interface CommitRecord {
+  hash: string;
+  parents: string[];
+  author: string;
+  authorTime: number;
+  message: string;
+  files: FileChange[];
+}
+
+export interface ChangeMetrics {
+  hash: string;
+  authorTime: number;
+  ns: number;
+  nd: number;
+  nf: number;
+  entropy: number;
+  la: number;
+  ld: number;
+  lt: number;
+  fix: number;
+  ndev: number;
+  age: number;
+  nuc: number;
+  exp: number;
+}
+
+interface FileHistory {
+  authors: Set<string>;
+  changes: number[];
+  lastChange: number;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function fixPattern(keywords: string[] = DEFAULT_FIX_KEYWORDS): RegExp {
+  return new RegExp(`\\b(?:${keywords.map(escapeRegExp).join("|")})`, "i");
+}
+
+// Undoes git's C-style quoting of paths with special characters.
+export function unquotePath(value: string): string {
+  if (value.length < 2 || !value.startsWith('"') || !value.endsWith('"')) return value;
+  const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", '"': '"', "\\": "\\" };
+  return value
+    .slice(1, -1)
+    .replace(/\\([0-7]{3}|.)/g, (_match, code: string) =>
+      code.length === 3 ? String.fromCharCode(parseInt(code, 8)) : escapes[code] ?? code
+    );
+}
+
+// numstat prints renames as `old => new` or `dir/{old => new}/file`.
+export function parseNumstatPath(raw: string): { path: string; oldPath: string } {
+  const brace = raw.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+  if (brace) {
+    const [, prefix, from, to, suffix] = brace;
+    const join = (middle: string) => `${prefix}${middle}${suffix}`.replace(/\/{2,}/g, "/").replace(/^\//, "");
+    return { path: join(to), oldPath: join(from) };
+  }
+  const arrow = raw.indexOf(" => ");
+  if (arrow !== -1) {
+    return { path: unquotePath(raw.slice(arrow + 4)), oldPath: unquotePath(raw.slice(0, arrow)) };
+  }
+  const path = unquotePath(raw);
+  return { path, oldPath: path };
+}
+
+// Parses `git log --numstat --format=GIT_LOG_FORMAT`.
+export function parseGitLog(output: string): CommitRecord[] {
+  return output
+    .split("\x1e")
+    .slice(1)
+    .map((chunk) => {
+      const fields = chunk.split("\x1f");
+      const files: FileChange[] = [];
+      for (const line of fields.slice(5).join("\x1f").split("\n")) {
+        const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+        if (!match) continue;
+        files.push({
+          ...parseNumstatPath(match[3]),
+          added: match[1] === "-" ? null : Number(match[1]),
+          deleted: match[2] === "-" ? null : Number(match[2]),
+        });
+      }
+      return {
+        hash: fields[0],
+        parents: (fields[1] ?? "").split(" ").filter(Boolean),
+        author: (fields[2] ?? "").trim().toLowerCase(),
+        authorTime: Number(fields[3]) || 0,
+        message: fields[4] ?? "",
+        files,
+      };
+    });
+}
+
+function entropy(churns: number[]): number {
+  const total = churns.reduce((sum, churn) => sum + churn, 0);
+  if (total === 0) return 0;
+  return churns.reduce((sum, churn) => {
+    if (churn === 0) return sum;
+    const p = churn / total;
+    return sum - p * Math.log2(p);
+  }, 0);
+}
+
+// Replays commits oldest first. History before the first commit is unknown except for
+// `initialSizes` (lines per file at the first commit's parent), so NDEV, AGE, NUC and EXP
+// count only changes inside the window. Commits without file changes produce no row.
+export function computeChangeMetrics(
+  commits: CommitRecord[],
+  options: { fixPattern: RegExp; initialSizes?: Map<string, number> }
+): ChangeMetrics[] {
+  const sizes = new Map(options.initialSizes ?? []);
+  const histories = new Map<string, FileHistory>();
+  const authorChanges = new Map<string, number>();
+  const rows: ChangeMetrics[] = [];
+
+  commits.forEach((commit, index) => {
+    const exp = authorChanges.get(commit.author) ?? 0;
+    authorChanges.set(commit.author, exp + 1);
+    if (commit.files.length === 0) return;
+
+    const subsystems = new Set<string>();
+    const directories = new Set<string>();
+    const developers = new Set<string>();
+    const priorChanges = new Set<number>();
+    const ages: number[] = [];
+    let la = 0;
+    let ld = 0;
+    let lt = 0;
+    for (const file of commit.files) {
+      const slash = file.path.lastIndexOf("/");
+      subsystems.add(slash === -1 ? "" : file.path.slice(0, file.path.indexOf("/")));
+      directories.add(slash === -1 ? "" : file.path.slice(0, slash));
+      la += file.added ?? 0;
+      ld += file.deleted ?? 0;
+      lt += sizes.get(file.oldPath) ?? 0;
+      const history = histories.get(file.oldPath);
+      if (history) {
+        history.authors.forEach((author) => developers.add(author));
+        history.changes.forEach((change) => priorChanges.add(change));
+        ages.push(Math.max(0, commit.authorTime - history.lastChange) / 86400);
+      }
+    }
+
+    rows.push({
+      hash: commit.hash,
+      authorTime: commit.authorTime,
+      ns: subsystems.size,
+      nd: directories.size,
+      nf: commit.files.length,
+      entropy: entropy(commit.files.map((file) => (file.added ?? 0) + (file.deleted ?? 0))),
+      la,
+      ld,
+      lt,
+      fix: options.fixPattern.test(commit.message) ? 1 : 0,
+      ndev: developers.size,
+      age: ages.length > 0 ? ages.reduce((sum, age) => sum + age, 0) / ages.length : 0,
+      nuc: priorChanges.size,
+      exp,
+    });
+
+    for (const file of commit.files) {
+      const history = histories.get(file.oldPath) ?? { authors: new Set<string>(), changes: [], lastChange: 0 };
+      const size = Math.max(0, (sizes.get(file.oldPath) ?? 0) + (file.added ?? 0) - (file.deleted ?? 0));
+      if (file.oldPath !== file.path) {
+        histories.delete(file.oldPath);
+        sizes.delete(file.oldPath);
+      }
+      history.authors.add(commit.author);
+      history.changes.push(index);
+      history.lastChange = commit.authorTime;
+      histories.set(file.path, history);
+      sizes.set(file.path, size);
+    }
+  });
+  return rows;
+}
+
+// Deleted lines that carry code. Blank and comment-only lines are left out so SZZ does
+// not blame commits for formatting.
+function isCodeLine(content: string): boolean {
+  const trimmed = content.trim();
+  return trimmed.length > 0 && !/^(\/\/|\/\*|\*\/|\*(\s|$)|#(\s|$))/.test(trimmed);
+}
+
+function diffPath(header: string): string | null {
+  const value = unquotePath(header);
+  if (value === "/dev/null") return null;
+  return value.startsWith("a/") ? value.slice(2) : value;
+}
+
+// Old-side line numbers of deleted code lines per pre-fix path, from
+// `git diff -U0 --src-prefix=a/ --dst-prefix=b/ <fix>^ <fix>`.
+export function deletedLines(diff: string): Map<string, number[]> {
+  const result = new Map<string, number[]>();
+  let current: string | null = null;
+  let oldLine = 0;
+  let remainingOld = 0;
+  let remainingNew = 0;
+
+  for (const line of diff.split("\n")) {
+    if (remainingOld > 0 || remainingNew > 0) {
+      if (line.startsWith("-")) {
+        remainingOld--;
+        if (current && isCodeLine(line.slice(1))) {
+          const lines = result.get(current) ?? [];
+          lines.push(oldLine);
+          result.set(current, lines);
+        }
+        oldLine++;
+      } else if (line.startsWith("+")) {
+        remainingNew--;
+      }
+      continue;
+    }
+    if (line.startsWith("diff --git ")) {
+      current = null;
+    } else if (line.startsWith("--- ")) {
+      current = diffPath(line.slice(4));
+    } else if (line.startsWith("@@ ")) {
+      const hunk = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+      if (!hunk) continue;
+      oldLine = Number(hunk[1]);
+      remainingOld = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      remainingNew = hunk[3] === undefined ? 1 : Number(hunk[3]);
+    }
+  }
+  return result;
+}
+
+// Collapses sorted line numbers into inclusive [start, end] ranges for `git blame -L`.
+export function lineRanges(lines: number[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const line of [...lines].sort((a, b) => a - b)) {
+    const last = ranges[ranges.length - 1];
+    if (last && line <= last[1] + 1) {
+      last[1] = Math.max(last[1], line);
+    } else {
+      ranges.push([line, line]);
+    }
+  }
+  return ranges;
+}
+
+// Commits named in `git blame --porcelain` output.
+export function blamedCommits(porcelain: string): Set<string> {
+  const commits = new Set<string>();
+  for (const match of Array.from(porcelain.matchAll(/^([0-9a-f]{40}|[0-9a-f]{64}) \d+ \d+/gm))) {
+    commits.add(match[1]);
+  }
+  return commits;
+}
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(6));
+
+export function toJitCsv(rows: ChangeMetrics[], labels: number[]): string {
+  const lines = [[...JIT_COLUMNS, JIT_TARGET_COLUMN].join(",")];
+  rows.forEach((row, i) => {
+    const values = JIT_COLUMNS.map((column) => formatNumber(row[column as keyof ChangeMetrics] as number));
+    lines.push([...values, String(labels[i])].join(","));
+  });
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,128 @@
+import type { Matrix } from "./dataset";
+
+export function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export function identity(n: number): Matrix {
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+}
+
+export function transpose(A: Matrix): Matrix {
+  if (A.length === 0) return [];
+  return A[0].map((_, j) => A.map((row) => row[j]));
+}
+
+export function matmul(A: Matrix, B: Matrix): Matrix {
+  const n = A.length;
+  const m = B[0]?.length ?? 0;
+  const inner = B.length;
+  const out: Matrix = Array.from({ length: n }, () => new Array(m).fill(0));
+  for (let i = 0; i < n; i++) {
+    const row = A[i];
+    const target = out[i];
+    for (let k = 0; k < inner; k++) {
+      const a = row[k];
+      if (a === 0) continue;
+      const bRow = B[k];
+      for (let j = 0; j < m; j++) target[j] += a * bRow[j];
+    }
+  }
+  return out;
+}
+
+// Solves A x = b with Gaussian elimination and partial pivoting. A is not modified.
+export function solve(A: Matrix, b: number[]): number[] {
+  const n = A.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-12) {
+      throw new Error("Singular matrix");
+    }
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = col + 1; r < n; r++) {
+      const factor = M[r][col] / M[col][col];
+      if (factor === 0) continue;
+      for (let c = col; c <= n; c++) M[r][c] -= factor * M[col][c];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+}
+
+// Lower-triangular L with A = L Lᵀ for a symmetric positive definite A.
+export function cholesky(A: Matrix): Matrix {
+  const n = A.length;
+  const L: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 1e-12) {
+          throw new Error("Matrix is not positive definite");
+        }
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+}
+
+// Cyclic Jacobi rotations. Eigenvalues come back in descending order, with the matching
+// unit eigenvectors as the columns of `vectors`.
+export function symmetricEigen(A: Matrix, maxSweeps = 100): { values: number[]; vectors: Matrix } {
+  const n = A.length;
+  const M = A.map((row) => [...row]);
+  const V = identity(n);
+  for (let sweep = 0; sweep < maxSweeps; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) offDiagonal += M[p][q] ** 2;
+    if (offDiagonal < 1e-22) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(M[p][q]) < 1e-300) continue;
+        const theta = (M[q][q] - M[p][p]) / (2 * M[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const mkp = M[k][p];
+          const mkq = M[k][q];
+          M[k][p] = c * mkp - s * mkq;
+          M[k][q] = s * mkp + c * mkq;
+        }
+        for (let k = 0; k < n; k++) {
+          const mpk = M[p][k];
+          const mqk = M[q][k];
+          M[p][k] = c * mpk - s * mqk;
+          M[q][k] = s * mpk + c * mqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = V[k][p];
+          const vkq = V[k][q];
+          V[k][p] = c * vkp - s * vkq;
+          V[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  const order = M.map((row, i) => ({ value: row[i], i })).sort((a, b) => b.value - a.value);
+  return {
+    values: order.map(({ value }) => value),
+    vectors: V.map((row) => order.map(({ i }) => row[i])),
+  };
+}
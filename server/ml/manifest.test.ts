@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  type ReproducibleMetric,
+  type RunInputs,
+  REPRODUCIBLE_METRICS,
+  canonicalJson,
+  compareRunMetrics,
+  configHash,
+  recordedMetrics,
+  resolveRunHyperparameters,
+} from "./manifest";
+
+function inputs(overrides: Partial<RunInputs> = {}): RunInputs {
+  return {
+    algorithm: "random_forest",
+    hyperparameters: { n_estimators: 100, random_state: 42, sampling: { technique: "smote", ratio: 1 } },
+    datasets: [
+      {
+        role: "training",
+        id: "dataset-1",
+        name: "cm1.csv",
+        sha256: "a".repeat(64),
+        bytes: 1024,
+        targetColumn: "defects",
+        sizeColumn: "loc",
+      },
+    ],
+    crossProject: null,
+    ensemble: null,
+    ...overrides,
+  };
+}
+
+function metrics(values: Partial<Record<ReproducibleMetric, number | null>>) {
+  return Object.fromEntries(REPRODUCIBLE_METRICS.map((metric) => [metric, values[metric] ?? null])) as Record<
+    ReproducibleMetric,
+    number | null
+  >;
+}
+
+describe("canonicalJson", () => {
+  it("sorts keys at every level and drops undefined members", () => {
+    assert.equal(canonicalJson({ b: [2, { d: 1, c: undefined }], a: null }), '{"a":null,"b":[2,{"d":1}]}');
+    assert.equal(canonicalJson([undefined]), "[null]");
+  });
+});
+
+describe("configHash", () => {
+  it("is stable under reordered keys", () => {
+    const reordered = inputs({
+      hyperparameters: { sampling: { ratio: 1, technique: "smote" }, random_state: 42, n_estimators: 100 },
+    });
+    assert.match(configHash(inputs()), /^[0-9a-f]{64}$/);
+    assert.equal(configHash(reordered), configHash(inputs()));
+  });
+
+  it("ignores dataset names and ids", () => {
+    const [dataset] = inputs().datasets;
+    const renamed = inputs({ datasets: [{ ...dataset, id: "dataset-2", name: "copy.csv" }] });
+    assert.equal(configHash(renamed), configHash(inputs()));
+  });
+
+  it("changes with the dataset bytes or a hyperparameter", () => {
+    const [dataset] = inputs().datasets;
+    const reference = configHash(inputs());
+    assert.notEqual(configHash(inputs({ datasets: [{ ...dataset, sha256: "b".repeat(64) }] })), reference);
+    const hyperparameters = { ...inputs().hyperparameters, n_estimators: 101 };
+    assert.notEqual(configHash(inputs({ hyperparameters })), reference);
+    assert.notEqual(configHash(inputs({ algorithm: "svm" })), reference);
+  });
+});
+
+describe("resolveRunHyperparameters", () => {
+  it("writes out the defaults and keeps what was given", () => {
+    const resolved = resolveRunHyperparameters({ n_estimators: 50, sampling_ratio: 0.5 });
+    assert.equal(resolved.n_estimators, 50);
+    assert.equal(resolved.random_state, 42);
+    assert.equal(resolved.sampling_ratio, 0.5);
+    assert.equal(resolved.decision_threshold, 0.5);
+    // Replaying a manifest resolves its hyperparameters again without changing them.
+    assert.deepEqual(resolveRunHyperparameters(resolved), resolved);
+  });
+});
+
+describe("compareRunMetrics", () => {
+  it("matches differences within the tolerance", () => {
+    const comparison = compareRunMetrics(
+      metrics({ accuracy: 0.8, mcc: 0.4, aucRoc: 0.7 }),
+      metrics({ accuracy: 0.8005, mcc: 0.41, aucRoc: 0.7 }),
+      0.001
+    );
+    const byMetric = Object.fromEntries(comparison.map((entry) => [entry.metric, entry]));
+    assert.equal(comparison.length, REPRODUCIBLE_METRICS.length);
+    assert.equal(byMetric.accuracy.matches, true);
+    assert.ok(Math.abs(byMetric.accuracy.difference! - 0.0005) < 1e-12);
+    assert.equal(byMetric.mcc.matches, false);
+    assert.deepEqual(byMetric.aucRoc, {
+      metric: "aucRoc",
+      recorded: 0.7,
+      reproduced: 0.7,
+      difference: 0,
+      matches: true,
+    });
+  });
+
+  it("treats a metric missing on one side only as a mismatch", () => {
+    const comparison = compareRunMetrics(metrics({ prAuc: 0.5 }), metrics({ brierScore: 0.1 }), 1);
+    const byMetric = Object.fromEntries(comparison.map((entry) => [entry.metric, entry]));
+    assert.equal(byMetric.prAuc.matches, false);
+    assert.equal(byMetric.brierScore.matches, false);
+    assert.deepEqual(byMetric.recall, {
+      metric: "recall",
+      recorded: null,
+      reproduced: null,
+      difference: null,
+      matches: true,
+    });
+  });
+});
+
+describe("recordedMetrics", () => {
+  it("keeps numeric results only", () => {
+    const recorded = recordedMetrics({ accuracy: 0.9, aucRoc: null, mcc: "0.3", extra: 1 });
+    assert.deepEqual(recorded, metrics({ accuracy: 0.9 }));
+  });
+});
@@ -0,0 +1,177 @@
+import { createHash } from "crypto";
+import { resolveCalibrationMethod } from "./calibration";
+import { resolveSamplingOptions, resolveSeed } from "./pipeline";
+import { resolveThresholdOptions } from "./thresholds";
+import { resolveValidationConfig } from "./validation";
+
+// Run manifests record everything a training run read: the dataset bytes, the settings
+// with every default written out, the seed, and the engine, runtime and code revision.
+// The config hash covers the inputs only, so two runs of one configuration share it
+// whatever machine they ran on.
+export const MANIFEST_VERSION = 1;
+
+export type RunEngine = "python" | "node" | "simulated";
+
+export interface ManifestDataset {
+  // "source" datasets train cross-project models; "training" is the model's own dataset.
+  role: "training" | "source";
+  id: string;
+  name: string;
+  sha256: string;
+  bytes: number;
+  targetColumn: string | null;
+  sizeColumn: string | null;
+}
+
+export interface RunEnvironment {
+  node: string;
+  platform: string;
+  python: { version: string; implementation: string; packages: Record<string, string | null> } | null;
+}
+
+export interface CodeRevision {
+  commit: string;
+  // Uncommitted changes to tracked files.
+  dirty: boolean;
+}
+
+export interface ManifestEnsemble {
+  method: string;
+  folds: number;
+  members: { modelId: string; configHash: string | null }[];
+}
+
+export interface RunInputs {
+  algorithm: string;
+  hyperparameters: Record<string, unknown>;
+  datasets: ManifestDataset[];
+  crossProject: Record<string, unknown> | null;
+  ensemble: ManifestEnsemble | null;
+}
+
+export interface RunManifest extends RunInputs {
+  manifestVersion: typeof MANIFEST_VERSION;
+  modelId: string;
+  createdAt: string;
+  seeds: { randomState: number };
+  engine: RunEngine;
+  environment: RunEnvironment;
+  code: CodeRevision | null;
+  // Metrics the run reported, compared by reproductions.
+  metrics: Record<ReproducibleMetric, number | null>;
+  configHash: string;
+}
+
+export const REPRODUCIBLE_METRICS = [
+  "accuracy",
+  "precision",
+  "recall",
+  "f1Score",
+  "mcc",
+  "aucRoc",
+  "balancedAccuracy",
+  "gMean",
+  "prAuc",
+  "brierScore",
+  "decisionThreshold",
+] as const;
+export type ReproducibleMetric = typeof REPRODUCIBLE_METRICS[number];
+
+export interface MetricComparison {
+  metric: ReproducibleMetric;
+  recorded: number | null;
+  reproduced: number | null;
+  difference: number | null;
+  matches: boolean;
+}
+
+// The hyperparameters with the pipeline-level defaults both engines apply filled in under
+// the names they read, so replaying them does not depend on those defaults staying put.
+export function resolveRunHyperparameters(hyperparameters?: Record<string, any> | null): Record<string, unknown> {
+  const given = hyperparameters ?? {};
+  const seed = resolveSeed(given);
+  const sampling = resolveSamplingOptions(given, seed);
+  const validation = resolveValidationConfig(given);
+  const threshold = resolveThresholdOptions(given);
+  return {
+    ...given,
+    random_state: seed,
+    sampling_technique: sampling.technique,
+    sampling_ratio: sampling.targetRatio ?? 1,
+    sampling_k_neighbors: sampling.kNeighbors ?? 5,
+    validation_strategy: validation.strategy,
+    cv_folds: validation.folds,
+    cv_repeats: validation.repeats,
+    bootstrap_iterations: validation.iterations,
+    calibration: resolveCalibrationMethod(given),
+    threshold_strategy: threshold.strategy,
+    threshold_cost_ratio: threshold.costRatio,
+    decision_threshold: threshold.threshold,
+  };
+}
+
+// JSON with object keys sorted at every level, so equal values serialize identically.
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? "null" : canonicalJson(item))).join(",")}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(",")}}`;
+}
+
+// Dataset names and ids are left out: the same bytes under another upload hash the same.
+export function configHash(inputs: RunInputs): string {
+  return createHash("sha256")
+    .update(
+      canonicalJson({
+        algorithm: inputs.algorithm,
+        hyperparameters: inputs.hyperparameters,
+        datasets: inputs.datasets.map(({ role, sha256, targetColumn, sizeColumn }) => ({
+          role,
+          sha256,
+          targetColumn,
+          sizeColumn,
+        })),
+        crossProject: inputs.crossProject,
+        ensemble: inputs.ensemble,
+      })
+    )
+    .digest("hex");
+}
+
+export function runEngine(metricProvenance: string | null | undefined): RunEngine {
+  if (metricProvenance === "simulated") return "simulated";
+  return metricProvenance === "measured" ? "python" : "node";
+}
+
+export function recordedMetrics(results: Record<string, any>): Record<ReproducibleMetric, number | null> {
+  return Object.fromEntries(
+    REPRODUCIBLE_METRICS.map((metric) => [metric, typeof results[metric] === "number" ? results[metric] : null])
+  ) as Record<ReproducibleMetric, number | null>;
+}
+
+// Absolute differences; a metric missing on one side only is a mismatch.
+export function compareRunMetrics(
+  recorded: Record<ReproducibleMetric, number | null>,
+  reproduced: Record<ReproducibleMetric, number | null>,
+  tolerance: number
+): MetricComparison[] {
+  return REPRODUCIBLE_METRICS.map((metric) => {
+    const before = recorded[metric] ?? null;
+    const after = reproduced[metric] ?? null;
+    const difference = before !== null && after !== null ? Math.abs(after - before) : null;
+    return {
+      metric,
+      recorded: before,
+      reproduced: after,
+      difference,
+      matches: difference !== null ? difference <= tolerance : before === after,
+    };
+  });
+}
@@ -0,0 +1,182 @@
+export interface ConfusionCounts {
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+}
+
+export interface BinaryMetrics {
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  mcc: number;
+  aucRoc: number | null;
+  // Mean of recall and specificity, so the majority class cannot carry it.
+  balancedAccuracy: number;
+  gMean: number;
+  specificity: number;
+  // Probability of false alarm: share of clean modules flagged (1 - specificity).
+  pf: number;
+  // F-beta with beta = 2, weighting recall over precision.
+  f2Score: number;
+  // Average precision, the area under the precision-recall curve.
+  prAuc: number | null;
+  // sklearn layout: [[tn, fp], [fn, tp]]
+  confusionMatrix: number[][];
+}
+
+// Metrics that stay informative when defective modules are rare.
+export const IMBALANCE_METRICS = ["balancedAccuracy", "gMean", "prAuc", "pf", "specificity", "f2Score"] as const;
+export type ImbalanceMetrics = Pick<BinaryMetrics, typeof IMBALANCE_METRICS[number]>;
+
+export function confusionCounts(yTrue: number[], yPred: number[]): ConfusionCounts {
+  const counts = { tp: 0, fp: 0, tn: 0, fn: 0 };
+  for (let i = 0; i < yTrue.length; i++) {
+    if (yPred[i] === 1) {
+      if (yTrue[i] === 1) counts.tp++;
+      else counts.fp++;
+    } else if (yTrue[i] === 1) {
+      counts.fn++;
+    } else {
+      counts.tn++;
+    }
+  }
+  return counts;
+}
+
+export function applyThreshold(scores: number[], threshold = 0.5): number[] {
+  return scores.map((s) => (s >= threshold ? 1 : 0));
+}
+
+// Mann-Whitney formulation of ROC AUC with average ranks for ties.
+export function rocAuc(yTrue: number[], scores: number[]): number | null {
+  const order = scores.map((s, i) => [s, i] as const).sort((a, b) => a[0] - b[0]);
+  const ranks = new Array<number>(scores.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    const avgRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k][1]] = avgRank;
+    i = j + 1;
+  }
+
+  let positives = 0;
+  let rankSum = 0;
+  for (let i = 0; i < yTrue.length; i++) {
+    if (yTrue[i] === 1) {
+      positives++;
+      rankSum += ranks[i];
+    }
+  }
+  const negatives = yTrue.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+export function metricsFromCounts({ tp, fp, tn, fn }: ConfusionCounts) {
+  const total = tp + fp + tn + fn;
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const specificity = tn + fp > 0 ? tn / (tn + fp) : 0;
+  const f1Score = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  const mccDen = Math.sqrt((tp + fp) * (tp + fn) * (tn + fp) * (tn + fn));
+  return {
+    accuracy: total > 0 ? (tp + tn) / total : 0,
+    precision,
+    recall,
+    f1Score,
+    mcc: mccDen > 0 ? (tp * tn - fp * fn) / mccDen : 0,
+    balancedAccuracy: (recall + specificity) / 2,
+    gMean: gMean({ tp, fp, tn, fn }),
+    specificity,
+    pf: tn + fp > 0 ? fp / (tn + fp) : 0,
+    f2Score: precision + recall > 0 ? (5 * precision * recall) / (4 * precision + recall) : 0,
+  };
+}
+
+export function computeBinaryMetrics(yTrue: number[], scores: number[], threshold = 0.5): BinaryMetrics {
+  const counts = confusionCounts(yTrue, applyThreshold(scores, threshold));
+  return {
+    ...metricsFromCounts(counts),
+    aucRoc: rocAuc(yTrue, scores),
+    prAuc: averagePrecision(yTrue, scores),
+    confusionMatrix: [
+      [counts.tn, counts.fp],
+      [counts.fn, counts.tp],
+    ],
+  };
+}
+
+// Geometric mean of sensitivity and specificity; zero as soon as either class is missed.
+export function gMean({ tp, fp, tn, fn }: ConfusionCounts): number {
+  const sensitivity = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const specificity = tn + fp > 0 ? tn / (tn + fp) : 0;
+  return Math.sqrt(sensitivity * specificity);
+}
+
+// Area under the precision-recall curve as the step-wise average precision used by
+// sklearn: sum over thresholds of (R_n - R_{n-1}) * P_n, tied scores forming one threshold.
+export function averagePrecision(yTrue: number[], scores: number[]): number | null {
+  const positives = yTrue.reduce((sum, label) => sum + (label === 1 ? 1 : 0), 0);
+  if (positives === 0) return null;
+  const order = scores.map((s, i) => [s, i] as const).sort((a, b) => b[0] - a[0]);
+  let tp = 0;
+  let seen = 0;
+  let previousRecall = 0;
+  let ap = 0;
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j < order.length && order[j][0] === order[i][0]) {
+      if (yTrue[order[j][1]] === 1) tp++;
+      j++;
+    }
+    seen = j;
+    const recall = tp / positives;
+    ap += (recall - previousRecall) * (tp / seen);
+    previousRecall = recall;
+    i = j;
+  }
+  return ap;
+}
+
+export interface ClassReportRow {
+  precision: number;
+  recall: number;
+  f1Score: number;
+  support: number;
+}
+
+// sklearn's classification_report for the clean ("0") and defective ("1") classes.
+export interface ClassificationReport {
+  classes: Record<"0" | "1", ClassReportRow>;
+  accuracy: number;
+  macroAvg: ClassReportRow;
+  weightedAvg: ClassReportRow;
+}
+
+export function classificationReport(yTrue: number[], yPred: number[]): ClassificationReport {
+  const { tp, fp, tn, fn } = confusionCounts(yTrue, yPred);
+  const row = (hits: number, predicted: number, support: number): ClassReportRow => {
+    const precision = predicted > 0 ? hits / predicted : 0;
+    const recall = support > 0 ? hits / support : 0;
+    const f1Score = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return { precision, recall, f1Score, support };
+  };
+  const clean = row(tn, tn + fn, tn + fp);
+  const defective = row(tp, tp + fp, tp + fn);
+  const total = clean.support + defective.support;
+  const average = (weight: (r: ClassReportRow) => number): ClassReportRow => {
+    const weights = [weight(clean), weight(defective)];
+    const sum = weights[0] + weights[1];
+    const mean = (key: "precision" | "recall" | "f1Score") =>
+      sum > 0 ? (weights[0] * clean[key] + weights[1] * defective[key]) / sum : 0;
+    return { precision: mean("precision"), recall: mean("recall"), f1Score: mean("f1Score"), support: total };
+  };
+  return {
+    classes: { "0": clean, "1": defective },
+    accuracy: total > 0 ? (tp + tn) / total : 0,
+    macroAvg: average(() => 1),
+    weightedAvg: average((r) => r.support),
+  };
+}
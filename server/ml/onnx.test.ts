@@ -0,0 +1,185 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { toOnnx } from "./onnx";
+import type { PortableModel } from "./portable";
+
+// Minimal protobuf reader: field number -> raw values (varints as bigint, the rest as bytes).
+type Field = bigint | Buffer;
+
+function decode(buffer: Buffer): Map<number, Field[]> {
+  const fields = new Map<number, Field[]>();
+  let offset = 0;
+  const readVarint = () => {
+    let value = BigInt(0);
+    let shift = BigInt(0);
+    for (;;) {
+      const byte = buffer[offset++];
+      value |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return value;
+      shift += BigInt(7);
+    }
+  };
+  while (offset < buffer.length) {
+    const key = Number(readVarint());
+    const field = key >> 3;
+    let value: Field;
+    switch (key & 7) {
+      case 0:
+        value = readVarint();
+        break;
+      case 2: {
+        const length = Number(readVarint());
+        value = buffer.subarray(offset, offset + length);
+        offset += length;
+        break;
+      }
+      case 5:
+        value = buffer.subarray(offset, offset + 4);
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Unexpected wire type ${key & 7}`);
+    }
+    fields.set(field, [...(fields.get(field) ?? []), value]);
+  }
+  return fields;
+}
+
+const strings = (values: Field[] | undefined) => (values ?? []).map((value) => (value as Buffer).toString("utf8"));
+const message = (value: Field) => decode(value as Buffer);
+
+function floats(value: Field): number[] {
+  const payload = value as Buffer;
+  return Array.from({ length: payload.length / 4 }, (_, i) => payload.readFloatLE(i * 4));
+}
+
+function portableModel(overrides: Partial<PortableModel> = {}): PortableModel {
+  return {
+    format: "defect-model",
+    formatVersion: 1,
+    exportedAt: "2026-01-01T00:00:00.000Z",
+    model: {
+      id: "model-1",
+      name: "cm1 logistic regression",
+      family: "cm1",
+      version: "1.2.0",
+      algorithm: "logistic_regression",
+      metricProvenance: "baseline",
+      metrics: {},
+    },
+    inputs: { features: ["loc", "v(g)"], encodings: {}, targetColumn: "defects" },
+    preprocessing: {
+      imputation: { strategy: "training_mean", values: [10, 2] },
+      scaler: { mean: [10, 2], scale: [4, 0.5] },
+      featureSelection: null,
+    },
+    engineAlgorithm: "logistic_regression",
+    hyperparameters: {},
+    classifier: { algorithm: "logistic_regression", coef: [0.5, -1.5], intercept: 0.25 },
+    calibrator: { method: "none" },
+    decisionThreshold: 0.4,
+    ...overrides,
+  };
+}
+
+describe("toOnnx", () => {
+  it("writes the model header and opset imports", () => {
+    const model = decode(toOnnx(portableModel()));
+    assert.equal(model.get(1)?.[0], BigInt(7));
+    assert.deepEqual(strings(model.get(2)), ["defect-prediction"]);
+    const opsets = (model.get(8) ?? [])
+      .map(message)
+      .map((opset) => [strings(opset.get(1))[0] ?? "", opset.get(2)?.[0]]);
+    assert.deepEqual(opsets, [
+      ["", BigInt(13)],
+      ["ai.onnx.ml", BigInt(2)],
+    ]);
+  });
+
+  it("records the input encoding and threshold in metadata_props", () => {
+    const model = decode(toOnnx(portableModel()));
+    const metadata = Object.fromEntries(
+      (model.get(14) ?? []).map(message).map((entry) => [strings(entry.get(1))[0], strings(entry.get(2))[0]])
+    );
+    assert.equal(metadata.feature_names, JSON.stringify(["loc", "v(g)"]));
+    assert.equal(metadata.decision_threshold, "0.4");
+    assert.equal(metadata.target_column, "defects");
+    assert.equal(metadata.model_version, "1.2.0");
+  });
+
+  it("builds the logistic regression graph with its coefficients", () => {
+    const graph = message(decode(toOnnx(portableModel())).get(7)![0]);
+    assert.deepEqual(strings(graph.get(2)), ["cm1_1.2.0"]);
+    const nodes = (graph.get(1) ?? []).map(message);
+    assert.deepEqual(
+      nodes.map((node) => strings(node.get(4))[0]),
+      // The uncalibrated score passes through an Identity before it is named `probability`.
+      ["Imputer", "Scaler", "MatMul", "Add", "Sigmoid", "Identity", "Identity", "GreaterOrEqual", "Cast"]
+    );
+    assert.deepEqual(strings(nodes[6].get(2)), ["probability"]);
+    assert.deepEqual(strings(nodes[8].get(2)), ["label"]);
+
+    // Scaler multiplies by the reciprocal of the training scale.
+    const scalerAttributes = (nodes[1].get(5) ?? []).map(message);
+    const scale = scalerAttributes.find((attr) => strings(attr.get(1))[0] === "scale")!;
+    assert.deepEqual(floats(scale.get(7)![0]), [0.25, 2]);
+
+    const initializers = (graph.get(5) ?? []).map(message);
+    const coefficients = initializers.find((init) => strings(init.get(8))[0] === strings(nodes[2].get(1))[1])!;
+    assert.deepEqual(floats(coefficients.get(4)![0]), [0.5, -1.5]);
+    assert.deepEqual(Array.from(coefficients.get(1)![0] as Buffer), [2, 1]);
+  });
+
+  it("declares float features of the training width and two outputs", () => {
+    const graph = message(decode(toOnnx(portableModel())).get(7)![0]);
+    const [input] = (graph.get(11) ?? []).map(message);
+    assert.deepEqual(strings(input.get(1)), ["features"]);
+    const tensorType = message(message(input.get(2)![0]).get(1)![0]);
+    assert.equal(tensorType.get(1)?.[0], BigInt(1));
+    const dims = (message(tensorType.get(2)![0]).get(1) ?? []).map(message);
+    assert.deepEqual(strings(dims[0].get(2)), ["N"]);
+    assert.equal(dims[1].get(1)?.[0], BigInt(2));
+    assert.deepEqual(
+      (graph.get(12) ?? []).map(message).map((output) => strings(output.get(1))[0]),
+      ["probability", "label"]
+    );
+  });
+
+  it("exports forests as one TreeEnsembleRegressor averaging the trees", () => {
+    const tree = {
+      feature: [0, -1, -1],
+      threshold: [0.5, 0, 0],
+      left: [1, -1, -1],
+      right: [2, -1, -1],
+      value: [0, 0.2, 0.9],
+    };
+    const graph = message(
+      decode(
+        toOnnx(
+          portableModel({
+            engineAlgorithm: "random_forest",
+            classifier: { algorithm: "random_forest", trees: [tree, tree], importances: [1, 0] },
+          })
+        )
+      ).get(7)![0]
+    );
+    const ensemble = (graph.get(1) ?? [])
+      .map(message)
+      .find((node) => strings(node.get(4))[0] === "TreeEnsembleRegressor")!;
+    assert.deepEqual(strings(ensemble.get(7)), ["ai.onnx.ml"]);
+    const attributes = Object.fromEntries(
+      (ensemble.get(5) ?? []).map(message).map((attr) => [strings(attr.get(1))[0], attr])
+    );
+    assert.deepEqual(strings(attributes.aggregate_function.get(4)), ["AVERAGE"]);
+    const weights = floats(attributes.target_weights.get(7)![0]).map((weight) => Math.round(weight * 10) / 10);
+    assert.deepEqual(weights, [0.2, 0.9, 0.2, 0.9]);
+    assert.deepEqual(strings(attributes.nodes_modes.get(9)), [
+      "BRANCH_LEQ",
+      "LEAF",
+      "LEAF",
+      "BRANCH_LEQ",
+      "LEAF",
+      "LEAF",
+    ]);
+  });
+});
@@ -0,0 +1,318 @@
+import type { SerializedTree } from "./classifiers";
+import type { PortableModel } from "./portable";
+
+// ONNX export of a Node engine model, written directly in protobuf wire format (IR 7,
+// ai.onnx opset 13, ai.onnx.ml opset 2). The graph takes `features` as float32 [N, d] in
+// the training column order, with categorical columns already mapped to their level index
+// and missing cells as NaN, and returns calibrated `probability` [N, 1] and 0/1 `label`
+// [N, 1] at the decision threshold. Encodings and the threshold are also in metadata_props.
+const IR_VERSION = 7;
+const OPSET = 13;
+const ML_OPSET = 2;
+const ML_DOMAIN = "ai.onnx.ml";
+const EPSILON = 1e-6;
+
+const FLOAT = 1;
+const INT64 = 7;
+
+const Wire = { Varint: 0, Bytes: 2, Fixed32: 5 } as const;
+type WireType = typeof Wire[keyof typeof Wire];
+
+const AttributeType = { Float: 1, Int: 2, String: 3, Floats: 6, Ints: 7, Strings: 8 } as const;
+
+const ZERO = BigInt(0);
+const SEVEN = BigInt(7);
+const LOW_BITS = BigInt(0x7f);
+
+// Negative int64 values (e.g. -1 in Ints attributes) take the full ten bytes.
+function varint(value: number | bigint): Buffer {
+  let v = BigInt.asUintN(64, BigInt(value));
+  const bytes: number[] = [];
+  do {
+    let byte = Number(v & LOW_BITS);
+    v >>= SEVEN;
+    if (v > ZERO) byte |= 0x80;
+    bytes.push(byte);
+  } while (v > ZERO);
+  return Buffer.from(bytes);
+}
+
+const key = (field: number, wire: WireType) => varint((field << 3) | wire);
+
+const int = (field: number, value: number) => Buffer.concat([key(field, Wire.Varint), varint(value)]);
+
+const bytes = (field: number, payload: Buffer) =>
+  Buffer.concat([key(field, Wire.Bytes), varint(payload.length), payload]);
+
+const str = (field: number, value: string) => bytes(field, Buffer.from(value, "utf8"));
+
+function float(field: number, value: number): Buffer {
+  const payload = Buffer.alloc(4);
+  payload.writeFloatLE(value);
+  return Buffer.concat([key(field, Wire.Fixed32), payload]);
+}
+
+function packedFloats(field: number, values: number[]): Buffer {
+  const payload = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => payload.writeFloatLE(value, i * 4));
+  return bytes(field, payload);
+}
+
+const packedInts = (field: number, values: number[]) => bytes(field, Buffer.concat(values.map(varint)));
+
+type Attribute =
+  | { name: string; f: number }
+  | { name: string; i: number }
+  | { name: string; s: string }
+  | { name: string; floats: number[] }
+  | { name: string; ints: number[] }
+  | { name: string; strings: string[] };
+
+function attribute(attr: Attribute): Buffer {
+  const parts = [str(1, attr.name)];
+  if ("f" in attr) parts.push(float(2, attr.f), int(20, AttributeType.Float));
+  if ("i" in attr) parts.push(int(3, attr.i), int(20, AttributeType.Int));
+  if ("s" in attr) parts.push(str(4, attr.s), int(20, AttributeType.String));
+  if ("floats" in attr) parts.push(packedFloats(7, attr.floats), int(20, AttributeType.Floats));
+  if ("ints" in attr) parts.push(packedInts(8, attr.ints), int(20, AttributeType.Ints));
+  if ("strings" in attr) parts.push(...attr.strings.map((s) => str(9, s)), int(20, AttributeType.Strings));
+  return Buffer.concat(parts);
+}
+
+function tensor(name: string, dims: number[], values: number[]): Buffer {
+  return Buffer.concat([packedInts(1, dims), int(2, FLOAT), packedFloats(4, values), str(8, name)]);
+}
+
+function valueInfo(name: string, elemType: number, dims: (number | string)[]): Buffer {
+  const shape = Buffer.concat(
+    dims.map((dim) => bytes(1, typeof dim === "number" ? int(1, dim) : str(2, dim)))
+  );
+  const tensorType = Buffer.concat([int(1, elemType), bytes(2, shape)]);
+  return Buffer.concat([str(1, name), bytes(2, bytes(1, tensorType))]);
+}
+
+// Accumulates nodes and initializers; every op output gets a unique name.
+class GraphBuilder {
+  private nodes: Buffer[] = [];
+  private initializers: Buffer[] = [];
+  private counter = 0;
+
+  constant(values: number[], dims: number[] = [values.length]): string {
+    const name = `const_${this.counter++}`;
+    this.initializers.push(tensor(name, dims, values));
+    return name;
+  }
+
+  op(opType: string, inputs: string[], attrs: Attribute[] = [], options: { domain?: string; output?: string } = {}): string {
+    const output = options.output ?? `${opType.toLowerCase()}_${this.counter++}`;
+    const parts = [
+      ...inputs.map((input) => str(1, input)),
+      str(2, output),
+      str(3, `${opType}_${this.counter++}`),
+      str(4, opType),
+      ...attrs.map((attr) => bytes(5, attribute(attr))),
+    ];
+    if (options.domain) parts.push(str(7, options.domain));
+    this.nodes.push(Buffer.concat(parts));
+    return output;
+  }
+
+  build(name: string, inputs: Buffer[], outputs: Buffer[]): Buffer {
+    return Buffer.concat([
+      ...this.nodes.map((node) => bytes(1, node)),
+      str(2, name),
+      ...this.initializers.map((init) => bytes(5, init)),
+      ...inputs.map((input) => bytes(11, input)),
+      ...outputs.map((output) => bytes(12, output)),
+    ]);
+  }
+}
+
+function treeEnsemble(graph: GraphBuilder, input: string, trees: SerializedTree[]): string {
+  const nodes = { treeids: [] as number[], nodeids: [] as number[], featureids: [] as number[], modes: [] as string[],
+    values: [] as number[], trueids: [] as number[], falseids: [] as number[] };
+  const targets = { treeids: [] as number[], nodeids: [] as number[], ids: [] as number[], weights: [] as number[] };
+  trees.forEach((tree, treeId) => {
+    tree.feature.forEach((feature, nodeId) => {
+      const leaf = feature === -1;
+      nodes.treeids.push(treeId);
+      nodes.nodeids.push(nodeId);
+      nodes.featureids.push(leaf ? 0 : feature);
+      nodes.modes.push(leaf ? "LEAF" : "BRANCH_LEQ");
+      nodes.values.push(leaf ? 0 : tree.threshold[nodeId]);
+      nodes.trueids.push(leaf ? 0 : tree.left[nodeId]);
+      nodes.falseids.push(leaf ? 0 : tree.right[nodeId]);
+      if (leaf) {
+        targets.treeids.push(treeId);
+        targets.nodeids.push(nodeId);
+        targets.ids.push(0);
+        targets.weights.push(tree.value[nodeId]);
+      }
+    });
+  });
+  return graph.op(
+    "TreeEnsembleRegressor",
+    [input],
+    [
+      { name: "n_targets", i: 1 },
+      { name: "aggregate_function", s: "AVERAGE" },
+      { name: "post_transform", s: "NONE" },
+      { name: "nodes_treeids", ints: nodes.treeids },
+      { name: "nodes_nodeids", ints: nodes.nodeids },
+      { name: "nodes_featureids", ints: nodes.featureids },
+      { name: "nodes_modes", strings: nodes.modes },
+      { name: "nodes_values", floats: nodes.values },
+      { name: "nodes_truenodeids", ints: nodes.trueids },
+      { name: "nodes_falsenodeids", ints: nodes.falseids },
+      { name: "target_treeids", ints: targets.treeids },
+      { name: "target_nodeids", ints: targets.nodeids },
+      { name: "target_ids", ints: targets.ids },
+      { name: "target_weights", floats: targets.weights },
+    ],
+    { domain: ML_DOMAIN }
+  );
+}
+
+function classifierProbability(graph: GraphBuilder, scaled: string, portable: PortableModel): string {
+  const classifier = portable.classifier;
+  const d = portable.inputs.features.length;
+  switch (classifier.algorithm) {
+    case "logistic_regression": {
+      const logit = graph.op("Add", [
+        graph.op("MatMul", [scaled, graph.constant(classifier.coef, [d, 1])]),
+        graph.constant([classifier.intercept]),
+      ]);
+      return graph.op("Sigmoid", [logit]);
+    }
+    case "decision_tree":
+      return treeEnsemble(graph, scaled, [classifier.tree]);
+    case "random_forest":
+      return treeEnsemble(graph, scaled, classifier.trees);
+    case "naive_bayes": {
+      // log p(1|x) - log p(0|x) is quadratic in x for Gaussian class conditionals.
+      const [m0, m1] = classifier.means;
+      const [v0, v1] = classifier.variances;
+      const quadratic = m0.map((_, j) => 1 / (2 * v0[j]) - 1 / (2 * v1[j]));
+      const linear = m0.map((_, j) => m1[j] / v1[j] - m0[j] / v0[j]);
+      const bias =
+        m0.reduce(
+          (sum, _, j) => sum - 0.5 * Math.log(v1[j] / v0[j]) - m1[j] ** 2 / (2 * v1[j]) + m0[j] ** 2 / (2 * v0[j]),
+          0
+        ) +
+        Math.log(Math.max(classifier.priors[1], 1e-300)) -
+        Math.log(Math.max(classifier.priors[0], 1e-300));
+      const squared = graph.op("Mul", [scaled, scaled]);
+      const logit = graph.op("Add", [
+        graph.op("Add", [
+          graph.op("MatMul", [squared, graph.constant(quadratic, [d, 1])]),
+          graph.op("MatMul", [scaled, graph.constant(linear, [d, 1])]),
+        ]),
+        graph.constant([bias]),
+      ]);
+      return graph.op("Sigmoid", [logit]);
+    }
+  }
+}
+
+function calibrated(graph: GraphBuilder, raw: string, portable: PortableModel): string {
+  const calibrator = portable.calibrator;
+  const one = () => graph.constant([1], []);
+  switch (calibrator.method) {
+    case "platt": {
+      const clipped = graph.op("Clip", [raw, graph.constant([EPSILON], []), graph.constant([1 - EPSILON], [])]);
+      const logit = graph.op("Log", [graph.op("Div", [clipped, graph.op("Sub", [one(), clipped])])]);
+      const z = graph.op("Add", [graph.op("Mul", [logit, graph.constant([calibrator.a])]), graph.constant([calibrator.b])]);
+      return graph.op("Sigmoid", [z]);
+    }
+    case "isotonic": {
+      const { x, y } = calibrator;
+      if (x.length < 2) {
+        return graph.op("Add", [graph.op("Mul", [raw, graph.constant([0])]), graph.constant([y[0]])]);
+      }
+      // Piecewise-linear interpolation as y0 + sum of clipped ramps, one per segment.
+      const lower = x.slice(0, -1);
+      const upper = x.slice(1);
+      const slopes = lower.map((lo, k) => (upper[k] > lo ? (y[k + 1] - y[k]) / (upper[k] - lo) : 0));
+      const lo = graph.constant(lower);
+      const clamped = graph.op("Min", [graph.op("Max", [raw, lo]), graph.constant(upper)]);
+      const ramps = graph.op("Sub", [clamped, lo]);
+      return graph.op("Add", [
+        graph.op("MatMul", [ramps, graph.constant(slopes, [slopes.length, 1])]),
+        graph.constant([y[0]]),
+      ]);
+    }
+    case "prior_correction": {
+      const { trainingPrior, targetPrior } = calibrator;
+      if (!(trainingPrior > 0 && trainingPrior < 1 && targetPrior > 0 && targetPrior < 1)) {
+        return graph.op("Identity", [raw]);
+      }
+      const ratio = (targetPrior / (1 - targetPrior)) / (trainingPrior / (1 - trainingPrior));
+      const complement = graph.op("Max", [graph.op("Sub", [one(), raw]), graph.constant([EPSILON], [])]);
+      const odds = graph.op("Mul", [graph.op("Div", [raw, complement]), graph.constant([ratio])]);
+      return graph.op("Div", [odds, graph.op("Add", [odds, one()])]);
+    }
+    default:
+      return graph.op("Identity", [raw]);
+  }
+}
+
+export function toOnnx(portable: PortableModel): Buffer {
+  const { features, encodings, targetColumn } = portable.inputs;
+  const { imputation, scaler } = portable.preprocessing;
+  const graph = new GraphBuilder();
+
+  const imputed = graph.op(
+    "Imputer",
+    ["features"],
+    [
+      { name: "imputed_value_floats", floats: imputation.values },
+      { name: "replaced_value_float", f: Number.NaN },
+    ],
+    { domain: ML_DOMAIN }
+  );
+  const scaled = graph.op(
+    "Scaler",
+    [imputed],
+    [
+      { name: "offset", floats: scaler.mean },
+      { name: "scale", floats: scaler.scale.map((s) => 1 / s) },
+    ],
+    { domain: ML_DOMAIN }
+  );
+  const raw = classifierProbability(graph, scaled, portable);
+  const probability = graph.op("Identity", [calibrated(graph, raw, portable)], [], { output: "probability" });
+  graph.op(
+    "Cast",
+    [graph.op("GreaterOrEqual", [probability, graph.constant([portable.decisionThreshold], [])])],
+    [{ name: "to", i: INT64 }],
+    { output: "label" }
+  );
+
+  const graphProto = graph.build(
+    `${portable.model.family ?? portable.model.algorithm}_${portable.model.version ?? "model"}`,
+    [valueInfo("features", FLOAT, ["N", features.length])],
+    [valueInfo("probability", FLOAT, ["N", 1]), valueInfo("label", INT64, ["N", 1])]
+  );
+
+  const metadata: Record<string, string> = {
+    feature_names: JSON.stringify(features),
+    categorical_encodings: JSON.stringify(encodings),
+    target_column: targetColumn,
+    decision_threshold: String(portable.decisionThreshold),
+    calibration: portable.calibrator.method,
+    model_family: portable.model.family ?? portable.model.algorithm,
+    model_version: portable.model.version ?? "",
+    source_model_id: portable.model.id,
+  };
+
+  return Buffer.concat([
+    int(1, IR_VERSION),
+    str(2, "defect-prediction"),
+    str(3, "1"),
+    str(6, `Defect model ${portable.model.name}; see metadata_props for the input encoding.`),
+    bytes(7, graphProto),
+    bytes(8, Buffer.concat([str(1, ""), int(2, OPSET)])),
+    bytes(8, Buffer.concat([str(1, ML_DOMAIN), int(2, ML_OPSET)])),
+    ...Object.entries(metadata).map(([k, v]) => bytes(14, Buffer.concat([str(1, k), str(2, v)]))),
+  ]);
+}
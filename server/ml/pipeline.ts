@@ -0,0 +1,432 @@
+import {
+  type Matrix,
+  type SerializedScaler,
+  type TabularDataset,
+  StandardScaler,
+  stratifiedTrainTestSplit,
+  takeRows,
+} from "./dataset";
+import {
+  type BinaryClassifier,
+  type Checkpoint,
+  type EngineAlgorithm,
+  type SerializedClassifier,
+  createClassifier,
+  deserializeClassifier,
+  fitClassifier,
+  resolveEngineAlgorithm,
+} from "./classifiers";
+import {
+  type CalibrationMethod,
+  type CalibrationReport,
+  type SerializedCalibrator,
+  applyCalibrator,
+  calibrationReport,
+  fitCalibrator,
+  resolveCalibrationMethod,
+} from "./calibration";
+import { matmul } from "./linalg";
+import { type EffortMetrics, effortAwareEvaluation, summarizeEffort } from "./effort";
+import {
+  type BinaryMetrics,
+  type ClassificationReport,
+  type ImbalanceMetrics,
+  IMBALANCE_METRICS,
+  applyThreshold,
+  classificationReport,
+  computeBinaryMetrics,
+} from "./metrics";
+import { createRng } from "./random";
+import { type ResamplingOptions, type ResamplingReport, resample } from "./resampling";
+import { type MetricSummary, summarizeMetric } from "./statistics";
+import { type ThresholdSelection, resolveThresholdOptions, selectThreshold } from "./thresholds";
+import {
+  type ValidationConfig,
+  buildValidationFolds,
+  resolveValidationConfig,
+  safeFoldCount,
+  stratifiedKFold,
+} from "./validation";
+
+export interface NodeTrainingConfig {
+  algorithm: string;
+  hyperparameters?: Record<string, any> | null;
+  // Module size (e.g. LOC) for effort-aware metrics; skipped when absent.
+  sizeColumn?: string | null;
+  checkpoint?: Checkpoint;
+}
+
+// Everything needed to score new rows without the training data.
+export interface NodeModelArtifact {
+  format: "node-engine";
+  version: 1;
+  algorithm: string;
+  engineAlgorithm: EngineAlgorithm;
+  hyperparameters: Record<string, any>;
+  featureNames: string[];
+  targetColumn: string;
+  encodings: Record<string, string[]>;
+  scaler: SerializedScaler;
+  // Cross-project TCA models: scaled rows are multiplied by this (features x components).
+  projection?: Matrix;
+  classifier: SerializedClassifier;
+  // Absent on artifacts written before calibration existed.
+  calibrator?: SerializedCalibrator;
+  threshold: number;
+  holdout: { indices: number[]; labels: number[]; scores: number[] };
+  createdAt: string;
+}
+
+export type FoldMetrics = Omit<BinaryMetrics, "confusionMatrix"> & { repeat: number; fold: number };
+
+const SUMMARY_METRICS = ["accuracy", "precision", "recall", "f1Score", "mcc", "aucRoc", ...IMBALANCE_METRICS] as const;
+
+// `validationMetrics` keys, named as the Python pipeline names them.
+const VALIDATION_KEYS: Record<typeof SUMMARY_METRICS[number], string> = {
+  accuracy: "accuracy",
+  precision: "precision",
+  recall: "recall",
+  f1Score: "f1_score",
+  mcc: "mcc",
+  aucRoc: "auc_roc",
+  balancedAccuracy: "balanced_accuracy",
+  gMean: "g_mean",
+  prAuc: "pr_auc",
+  pf: "pf",
+  specificity: "specificity",
+  f2Score: "f2_score",
+};
+
+export interface ValidationSummary extends ValidationConfig {
+  evaluations: number;
+  intervalMethod: "corrected_t" | "percentile";
+  confidence: number;
+  metrics: Record<typeof SUMMARY_METRICS[number], MetricSummary | null>;
+}
+
+export interface NodeTrainingResult extends ImbalanceMetrics {
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  mcc: number;
+  aucRoc: number | null;
+  confusionMatrix: number[][];
+  featureImportance: Record<string, number>;
+  validationMetrics: Record<string, number | null>;
+  validationSummary: ValidationSummary;
+  foldMetrics: FoldMetrics[];
+  holdoutMetrics: Omit<BinaryMetrics, "confusionMatrix">;
+  samplingReport: ResamplingReport;
+  outOfFoldScores: { labels: number[]; scores: number[] };
+  decisionThreshold: number;
+  thresholdSelection: ThresholdSelection;
+  popt: number | null;
+  accAt20: number | null;
+  ifa: number | null;
+  effortMetrics: EffortMetrics | null;
+  brierScore: number;
+  expectedCalibrationError: number;
+  calibration: CalibrationSummary;
+  // Per-class report on the holdout at the decision threshold.
+  classificationReport: ClassificationReport;
+}
+
+// Holdout reliability before and after the calibrator fitted on out-of-fold scores.
+export interface CalibrationSummary {
+  method: CalibrationMethod;
+  calibrator: SerializedCalibrator;
+  uncalibrated: CalibrationReport;
+  calibrated: CalibrationReport;
+}
+
+export function classShare(counts: Record<"0" | "1", number>): number {
+  const total = counts["0"] + counts["1"];
+  return total > 0 ? counts["1"] / total : 0;
+}
+
+export function resolveSeed(hyperparameters?: Record<string, any> | null): number {
+  const seed = Number(hyperparameters?.random_state);
+  return Number.isFinite(seed) ? seed : 42;
+}
+
+// Same hyperparameter names and default technique as the Python pipeline.
+export function resolveSamplingOptions(hyperparameters: Record<string, any>, seed: number): ResamplingOptions {
+  const kNeighbors = Number(hyperparameters.sampling_k_neighbors);
+  const targetRatio = Number(hyperparameters.sampling_ratio);
+  return {
+    technique: hyperparameters.sampling_technique ?? "smote",
+    seed,
+    kNeighbors: Number.isFinite(kNeighbors) ? kNeighbors : undefined,
+    targetRatio: Number.isFinite(targetRatio) ? targetRatio : undefined,
+  };
+}
+
+// Fits scaler and classifier on `train` and returns positive-class scores for `test`.
+// Resampling touches the scaled training rows only, so test rows never leak into synthetic data.
+export async function fitAndScore(
+  X: Matrix,
+  y: number[],
+  train: number[],
+  test: number[],
+  algorithm: EngineAlgorithm,
+  hyperparameters: Record<string, any>,
+  seed: number,
+  checkpoint?: Checkpoint
+): Promise<{ classifier: BinaryClassifier; scaler: StandardScaler; scores: number[]; samplingReport: ResamplingReport }> {
+  const scaler = new StandardScaler().fit(takeRows(X, train));
+  const sampled = resample(
+    scaler.transform(takeRows(X, train)),
+    takeRows(y, train),
+    resolveSamplingOptions(hyperparameters, seed)
+  );
+  const classifier = createClassifier(algorithm, hyperparameters, seed);
+  await fitClassifier(classifier, sampled.X, sampled.y, checkpoint);
+  await checkpoint?.();
+  const scores = classifier.predictProba(scaler.transform(takeRows(X, test)));
+  return { classifier, scaler, scores, samplingReport: sampled.report };
+}
+
+export interface OutOfFoldScores {
+  // Dataset rows of the training split; the 20% holdout is never scored here.
+  train: number[];
+  labels: number[];
+  // Positive-class score of every training row from the fold that held it out.
+  scores: number[];
+  // Per-fold slices; `test` holds positions within `train`.
+  folds: { test: number[]; labels: number[]; scores: number[] }[];
+}
+
+// Stratified k-fold predictions on the training split, drawn with the same seed and split
+// as trainNodePipeline so selecting a configuration on them never looks at the holdout.
+export async function outOfFoldScores(
+  data: TabularDataset,
+  algorithm: string,
+  hyperparameters: Record<string, any>,
+  requestedFolds = 5,
+  checkpoint?: Checkpoint
+): Promise<OutOfFoldScores> {
+  const seed = resolveSeed(hyperparameters);
+  const rng = createRng(seed);
+  const engineAlgorithm = resolveEngineAlgorithm(algorithm);
+  const { X, y } = data;
+  const { train } = stratifiedTrainTestSplit(y, 0.2, rng);
+  const labels = takeRows(y, train);
+  const scores = new Array<number>(train.length).fill(0);
+
+  const folds: OutOfFoldScores["folds"] = [];
+  for (const fold of stratifiedKFold(labels, safeFoldCount(labels, requestedFolds), rng)) {
+    const fitted = await fitAndScore(
+      X,
+      y,
+      takeRows(train, fold.train),
+      takeRows(train, fold.test),
+      engineAlgorithm,
+      hyperparameters,
+      seed,
+      checkpoint
+    );
+    fold.test.forEach((position, i) => (scores[position] = fitted.scores[i]));
+    folds.push({ test: fold.test, labels: takeRows(labels, fold.test), scores: fitted.scores });
+  }
+  return { train, labels, scores, folds };
+}
+
+export function summarizeFolds(
+  foldMetrics: FoldMetrics[],
+  config: ValidationConfig,
+  testTrainRatio: number
+): ValidationSummary {
+  const intervalMethod = config.strategy === "bootstrap" ? "percentile" : "corrected_t";
+  const metrics = Object.fromEntries(
+    SUMMARY_METRICS.map((name) => [
+      name,
+      summarizeMetric(
+        foldMetrics.map((fold) => fold[name]).filter((v): v is number => v !== null),
+        { method: intervalMethod, testTrainRatio }
+      ),
+    ])
+  ) as ValidationSummary["metrics"];
+  return { ...config, evaluations: foldMetrics.length, intervalMethod, confidence: 0.95, metrics };
+}
+
+// Fold means of every summarized metric under their `validationMetrics` keys.
+export function validationMeans(summary: ValidationSummary): Record<string, number | null> {
+  return Object.fromEntries(SUMMARY_METRICS.map((name) => [VALIDATION_KEYS[name], summary.metrics[name]?.mean ?? null]));
+}
+
+// Headline imbalance-aware metrics: fold means like the other headline metrics, falling
+// back to the holdout when validation produced none.
+export function headlineImbalanceMetrics(summary: ValidationSummary, holdout: ImbalanceMetrics): ImbalanceMetrics {
+  return Object.fromEntries(
+    IMBALANCE_METRICS.map((name) => [name, summary.metrics[name]?.mean ?? holdout[name]])
+  ) as unknown as ImbalanceMetrics;
+}
+
+export async function trainNodePipeline(
+  data: TabularDataset,
+  config: NodeTrainingConfig
+): Promise<{ result: NodeTrainingResult; artifact: NodeModelArtifact }> {
+  const hyperparameters = config.hyperparameters ?? {};
+  const seed = resolveSeed(hyperparameters);
+  const engineAlgorithm = resolveEngineAlgorithm(config.algorithm);
+  const rng = createRng(seed);
+  const { X, y } = data;
+
+  const { train, test } = stratifiedTrainTestSplit(y, 0.2, rng);
+  const yTrain = takeRows(y, train);
+
+  // Resampled validation on the training portion, mirroring the Python pipeline. Each
+  // fold resamples its own training rows inside fitAndScore.
+  const validationConfig = resolveValidationConfig(hyperparameters);
+  const folds = buildValidationFolds(yTrain, validationConfig, rng);
+  // Out-of-fold score per training row, averaged over every evaluation that held it out.
+  const oofSum = new Array<number>(train.length).fill(0);
+  const oofCount = new Array<number>(train.length).fill(0);
+  const foldMetrics: FoldMetrics[] = [];
+  for (const fold of folds) {
+    const foldTrain = takeRows(train, fold.train);
+    const foldTest = takeRows(train, fold.test);
+    const { scores } = await fitAndScore(
+      X,
+      y,
+      foldTrain,
+      foldTest,
+      engineAlgorithm,
+      hyperparameters,
+      seed,
+      config.checkpoint
+    );
+    fold.test.forEach((position, i) => {
+      oofSum[position] += scores[i];
+      oofCount[position]++;
+    });
+    const { confusionMatrix: _, ...metrics } = computeBinaryMetrics(takeRows(y, foldTest), scores);
+    foldMetrics.push({ repeat: fold.repeat, fold: fold.fold, ...metrics });
+  }
+  const testTrainRatio =
+    folds.reduce((sum, fold) => sum + fold.test.length / fold.train.length, 0) / Math.max(1, folds.length);
+  const validationSummary = summarizeFolds(foldMetrics, validationConfig, testTrainRatio);
+  const validationMetrics = validationMeans(validationSummary);
+
+  const { classifier, scaler, scores: rawScores, samplingReport } = await fitAndScore(
+    X,
+    y,
+    train,
+    test,
+    engineAlgorithm,
+    hyperparameters,
+    seed,
+    config.checkpoint
+  );
+  const yTest = takeRows(y, test);
+
+  // Calibration is fitted on out-of-fold scores and applied to both those and the holdout,
+  // so the threshold below is chosen on the probabilities prediction will return.
+  const held = oofCount.flatMap((count, position) => (count > 0 ? [position] : []));
+  const oofLabels = held.map((position) => yTrain[position]);
+  const rawOutOfFold = held.map((position) => oofSum[position] / oofCount[position]);
+  const calibrationMethod = resolveCalibrationMethod(hyperparameters);
+  const calibrator = fitCalibrator(calibrationMethod, oofLabels, rawOutOfFold, {
+    training: classShare(samplingReport.after),
+    target: classShare(samplingReport.before),
+  });
+  const outOfFold = {
+    labels: oofLabels,
+    scores: applyCalibrator(calibrator, rawOutOfFold).map((score) => Math.round(score * 1e4) / 1e4),
+  };
+  const scores = applyCalibrator(calibrator, rawScores);
+  const calibration: CalibrationSummary = {
+    method: calibrator.method,
+    calibrator,
+    uncalibrated: calibrationReport(yTest, rawScores),
+    calibrated: calibrationReport(yTest, scores),
+  };
+
+  // The cut-off is chosen on out-of-fold scores only, so the holdout below stays an
+  // unbiased estimate at that cut-off. Fold metrics keep the default 0.5.
+  const thresholdSelection = selectThreshold(outOfFold.labels, outOfFold.scores, resolveThresholdOptions(hyperparameters));
+  const holdout = computeBinaryMetrics(yTest, scores, thresholdSelection.threshold);
+  const { confusionMatrix, ...holdoutMetrics } = holdout;
+
+  const sizeIndex = config.sizeColumn ? data.featureNames.indexOf(config.sizeColumn) : -1;
+  const effortMetrics =
+    sizeIndex >= 0
+      ? summarizeEffort(
+          config.sizeColumn!,
+          effortAwareEvaluation(
+            outOfFold.labels,
+            outOfFold.scores,
+            held.map((position) => X[train[position]][sizeIndex])
+          ),
+          effortAwareEvaluation(yTest, scores, test.map((row) => X[row][sizeIndex]))
+        )
+      : null;
+
+  const importances = classifier.featureImportance();
+  const featureImportance = Object.fromEntries(data.featureNames.map((name, j) => [name, importances[j] ?? 0]));
+
+  return {
+    result: {
+      accuracy: validationMetrics.accuracy ?? holdout.accuracy,
+      precision: validationMetrics.precision ?? holdout.precision,
+      recall: validationMetrics.recall ?? holdout.recall,
+      f1Score: validationMetrics.f1_score ?? holdout.f1Score,
+      mcc: validationMetrics.mcc ?? holdout.mcc,
+      aucRoc: validationMetrics.auc_roc ?? holdout.aucRoc,
+      ...headlineImbalanceMetrics(validationSummary, holdout),
+      confusionMatrix,
+      classificationReport: classificationReport(yTest, applyThreshold(scores, thresholdSelection.threshold)),
+      featureImportance,
+      validationMetrics,
+      validationSummary,
+      foldMetrics,
+      holdoutMetrics,
+      samplingReport,
+      outOfFoldScores: outOfFold,
+      decisionThreshold: thresholdSelection.threshold,
+      thresholdSelection,
+      // Holdout, like the metric columns beside them; out-of-fold values stay in effortMetrics.
+      popt: effortMetrics?.holdout.popt ?? null,
+      accAt20: effortMetrics?.holdout.acc ?? null,
+      ifa: effortMetrics?.holdout.ifa ?? null,
+      effortMetrics,
+      brierScore: calibration.calibrated.brierScore,
+      expectedCalibrationError: calibration.calibrated.expectedCalibrationError,
+      calibration,
+    },
+    artifact: {
+      format: "node-engine",
+      version: 1,
+      algorithm: config.algorithm,
+      engineAlgorithm,
+      hyperparameters,
+      featureNames: data.featureNames,
+      targetColumn: data.targetColumn,
+      encodings: data.encodings,
+      scaler: scaler.toJSON(),
+      classifier: classifier.toJSON(),
+      calibrator,
+      threshold: thresholdSelection.threshold,
+      holdout: { indices: test, labels: yTest, scores },
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+export function predictWithArtifact(artifact: NodeModelArtifact, X: Matrix): number[] {
+  const scaled = StandardScaler.fromJSON(artifact.scaler).transform(X);
+  const inputs = artifact.projection ? matmul(scaled, artifact.projection) : scaled;
+  const scores = deserializeClassifier(artifact.classifier).predictProba(inputs);
+  return applyCalibrator(artifact.calibrator, scores);
+}
+
+// Scores and labels at the model's decision threshold (the artifact's own by default).
+export function classifyWithArtifact(
+  artifact: NodeModelArtifact,
+  X: Matrix,
+  threshold = artifact.threshold
+): { scores: number[]; labels: number[] } {
+  const scores = predictWithArtifact(artifact, X);
+  return { scores, labels: applyThreshold(scores, threshold) };
+}
@@ -0,0 +1,234 @@
+import type { SerializedTree } from "./classifiers";
+import type { PortableModel } from "./portable";
+
+// PMML 4.4 export of a Node engine model. Encoding, imputation and scaling become
+// MiningSchema replacements and derived fields, and calibration plus the decision threshold
+// become output fields, so consumers read `defect_probability` and `predicted_defect`.
+const EPSILON = 1e-6;
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const num = (value: number) => (Number.isFinite(value) ? String(value) : "0");
+
+const scaledName = (feature: string) => `scaled(${feature})`;
+const encodedName = (feature: string) => `encoded(${feature})`;
+
+const constant = (value: number) => `<Constant dataType="double">${num(value)}</Constant>`;
+const fieldRef = (field: string) => `<FieldRef field="${escapeXml(field)}"/>`;
+const apply = (fn: string, ...args: string[]) => `<Apply function="${fn}">${args.join("")}</Apply>`;
+
+function dataDictionary(portable: PortableModel): string {
+  const { features, encodings, targetColumn } = portable.inputs;
+  const fields = features.map((feature) => {
+    const levels = encodings[feature];
+    if (!levels) {
+      return `<DataField name="${escapeXml(feature)}" optype="continuous" dataType="double"/>`;
+    }
+    const values = levels.map((level) => `<Value value="${escapeXml(level)}"/>`).join("");
+    return `<DataField name="${escapeXml(feature)}" optype="categorical" dataType="string">${values}</DataField>`;
+  });
+  fields.push(
+    `<DataField name="${escapeXml(targetColumn)}" optype="categorical" dataType="integer">` +
+      `<Value value="0"/><Value value="1"/></DataField>`
+  );
+  return `<DataDictionary numberOfFields="${fields.length}">${fields.join("")}</DataDictionary>`;
+}
+
+// Continuous inputs are imputed here; categorical ones through MapValues' missing/default.
+function miningSchema(portable: PortableModel, withReplacement: boolean): string {
+  const { features, encodings, targetColumn } = portable.inputs;
+  const imputed = portable.preprocessing.imputation.values;
+  const inputs = features.map((feature, j) =>
+    withReplacement && !encodings[feature]
+      ? `<MiningField name="${escapeXml(feature)}" invalidValueTreatment="asMissing" ` +
+        `missingValueReplacement="${num(imputed[j])}"/>`
+      : `<MiningField name="${escapeXml(feature)}"/>`
+  );
+  inputs.push(`<MiningField name="${escapeXml(targetColumn)}" usageType="target"/>`);
+  return `<MiningSchema>${inputs.join("")}</MiningSchema>`;
+}
+
+function transformationDictionary(portable: PortableModel): string {
+  const { features, encodings } = portable.inputs;
+  const { scaler, imputation } = portable.preprocessing;
+  const derived = features.flatMap((feature, j) => {
+    const fields: string[] = [];
+    let source = feature;
+    const levels = encodings[feature];
+    if (levels) {
+      source = encodedName(feature);
+      const rows = levels
+        .map((level, index) => `<row><level>${escapeXml(level)}</level><code>${index}</code></row>`)
+        .join("");
+      fields.push(
+        `<DerivedField name="${escapeXml(source)}" optype="continuous" dataType="double">` +
+          `<MapValues outputColumn="code" dataType="double" mapMissingTo="${num(imputation.values[j])}" ` +
+          `defaultValue="${num(imputation.values[j])}">` +
+          `<FieldColumnPair field="${escapeXml(feature)}" column="level"/>` +
+          `<InlineTable>${rows}</InlineTable></MapValues></DerivedField>`
+      );
+    }
+    fields.push(
+      `<DerivedField name="${escapeXml(scaledName(feature))}" optype="continuous" dataType="double">` +
+        apply("/", apply("-", fieldRef(source), constant(scaler.mean[j])), constant(scaler.scale[j])) +
+        `</DerivedField>`
+    );
+    return fields;
+  });
+  return `<TransformationDictionary>${derived.join("")}</TransformationDictionary>`;
+}
+
+function treeNode(tree: SerializedTree, features: string[], node: number, predicate: string, id: { next: number }): string {
+  const nodeId = id.next++;
+  if (tree.feature[node] === -1) {
+    const p = tree.value[node];
+    return (
+      `<Node id="${nodeId}" score="${p >= 0.5 ? 1 : 0}">${predicate}` +
+      `<ScoreDistribution value="0" recordCount="${num(1 - p)}" probability="${num(1 - p)}"/>` +
+      `<ScoreDistribution value="1" recordCount="${num(p)}" probability="${num(p)}"/></Node>`
+    );
+  }
+  const field = escapeXml(scaledName(features[tree.feature[node]]));
+  const threshold = num(tree.threshold[node]);
+  const p = tree.value[node];
+  return (
+    `<Node id="${nodeId}" score="${p >= 0.5 ? 1 : 0}">${predicate}` +
+    treeNode(tree, features, tree.left[node], `<SimplePredicate field="${field}" operator="lessOrEqual" value="${threshold}"/>`, id) +
+    treeNode(tree, features, tree.right[node], `<SimplePredicate field="${field}" operator="greaterThan" value="${threshold}"/>`, id) +
+    `</Node>`
+  );
+}
+
+function treeModel(portable: PortableModel, tree: SerializedTree, withReplacement: boolean, extra = ""): string {
+  return (
+    `<TreeModel functionName="classification" splitCharacteristic="binarySplit" ` +
+    `noTrueChildStrategy="returnLastPrediction">` +
+    miningSchema(portable, withReplacement) +
+    extra +
+    treeNode(tree, portable.inputs.features, 0, "<True/>", { next: 0 }) +
+    `</TreeModel>`
+  );
+}
+
+function calibratedProbability(portable: PortableModel): string {
+  const raw = fieldRef("model_probability");
+  const calibrator = portable.calibrator;
+  switch (calibrator.method) {
+    case "platt": {
+      const clipped = apply("max", apply("min", raw, constant(1 - EPSILON)), constant(EPSILON));
+      const logit = apply("ln", apply("/", clipped, apply("-", constant(1), clipped)));
+      const z = apply("+", apply("*", constant(calibrator.a), logit), constant(calibrator.b));
+      return apply("/", constant(1), apply("+", constant(1), apply("exp", apply("*", constant(-1), z))));
+    }
+    case "isotonic": {
+      if (calibrator.x.length < 2) return constant(calibrator.y[0]);
+      const norms = calibrator.x.map((x, i) => `<LinearNorm orig="${num(x)}" norm="${num(calibrator.y[i])}"/>`);
+      return `<NormContinuous field="model_probability" outliers="asExtremeValues">${norms.join("")}</NormContinuous>`;
+    }
+    case "prior_correction": {
+      const { trainingPrior, targetPrior } = calibrator;
+      if (!(trainingPrior > 0 && trainingPrior < 1 && targetPrior > 0 && targetPrior < 1)) return raw;
+      const ratio = (targetPrior / (1 - targetPrior)) / (trainingPrior / (1 - trainingPrior));
+      const odds = apply("*", apply("/", raw, apply("max", apply("-", constant(1), raw), constant(EPSILON))), constant(ratio));
+      return apply("/", odds, apply("+", constant(1), odds));
+    }
+    default:
+      return raw;
+  }
+}
+
+function output(portable: PortableModel): string {
+  const decision = apply(
+    "if",
+    apply("greaterOrEqual", fieldRef("defect_probability"), constant(portable.decisionThreshold)),
+    `<Constant dataType="integer">1</Constant>`,
+    `<Constant dataType="integer">0</Constant>`
+  );
+  return (
+    `<Output>` +
+    `<OutputField name="model_probability" optype="continuous" dataType="double" feature="probability" value="1"/>` +
+    `<OutputField name="defect_probability" optype="continuous" dataType="double" feature="transformedValue">` +
+    calibratedProbability(portable) +
+    `</OutputField>` +
+    `<OutputField name="predicted_defect" optype="categorical" dataType="integer" feature="transformedValue">` +
+    decision +
+    `</OutputField>` +
+    `</Output>`
+  );
+}
+
+function modelElement(portable: PortableModel): string {
+  const classifier = portable.classifier;
+  const features = portable.inputs.features;
+  switch (classifier.algorithm) {
+    case "logistic_regression": {
+      const predictors = classifier.coef
+        .map((coef, j) => `<NumericPredictor name="${escapeXml(scaledName(features[j]))}" coefficient="${num(coef)}"/>`)
+        .join("");
+      return (
+        `<RegressionModel functionName="classification" normalizationMethod="logit">` +
+        miningSchema(portable, true) +
+        output(portable) +
+        `<RegressionTable intercept="${num(classifier.intercept)}" targetCategory="1">${predictors}</RegressionTable>` +
+        `<RegressionTable intercept="0" targetCategory="0"/>` +
+        `</RegressionModel>`
+      );
+    }
+    case "decision_tree":
+      return treeModel(portable, classifier.tree, true, output(portable));
+    case "random_forest": {
+      const segments = classifier.trees
+        .map((tree, index) => `<Segment id="${index + 1}"><True/>${treeModel(portable, tree, false)}</Segment>`)
+        .join("");
+      return (
+        `<MiningModel functionName="classification">` +
+        miningSchema(portable, true) +
+        output(portable) +
+        `<Segmentation multipleModelMethod="average">${segments}</Segmentation>` +
+        `</MiningModel>`
+      );
+    }
+    case "naive_bayes": {
+      const inputs = features
+        .map((feature, j) => {
+          const stats = [0, 1]
+            .map(
+              (c) =>
+                `<TargetValueStat value="${c}"><GaussianDistribution mean="${num(classifier.means[c][j])}" ` +
+                `variance="${num(classifier.variances[c][j])}"/></TargetValueStat>`
+            )
+            .join("");
+          return `<BayesInput fieldName="${escapeXml(scaledName(feature))}"><TargetValueStats>${stats}</TargetValueStats></BayesInput>`;
+        })
+        .join("");
+      const counts = [0, 1]
+        .map((c) => `<TargetValueCount value="${c}" count="${num(classifier.priors[c])}"/>`)
+        .join("");
+      return (
+        `<NaiveBayesModel functionName="classification" threshold="1e-300">` +
+        miningSchema(portable, true) +
+        output(portable) +
+        `<BayesInputs>${inputs}</BayesInputs>` +
+        `<BayesOutput fieldName="${escapeXml(portable.inputs.targetColumn)}"><TargetValueCounts>${counts}</TargetValueCounts></BayesOutput>` +
+        `</NaiveBayesModel>`
+      );
+    }
+  }
+}
+
+export function toPmml(portable: PortableModel): string {
+  const { model } = portable;
+  const description = `${model.family ?? model.algorithm} ${model.version ?? ""} (${model.name})`.trim();
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<PMML xmlns="http://www.dmg.org/PMML-4_4" version="4.4">` +
+    `<Header description="${escapeXml(description)}">` +
+    `<Application name="defect-prediction" version="1"/>` +
+    `<Timestamp>${portable.exportedAt}</Timestamp></Header>` +
+    dataDictionary(portable) +
+    transformationDictionary(portable) +
+    modelElement(portable) +
+    `</PMML>\n`
+  );
+}
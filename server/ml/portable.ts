@@ -0,0 +1,161 @@
+import { z } from "zod";
+import { ENGINE_ALGORITHMS } from "./classifiers";
+import type { NodeModelArtifact } from "./pipeline";
+
+// Self-contained JSON export of a Node engine model. Scoring a row x needs nothing else:
+//   1. encode: categorical columns map to the index of their level in `inputs.encodings`;
+//      missing cells and unseen levels take `preprocessing.imputation.values`
+//   2. scale:  z = (x - scaler.mean) / scaler.scale
+//   3. score:  p = classifier(z), then the calibrator
+//   4. label:  p >= decisionThreshold
+export const PORTABLE_FORMAT = "defect-model";
+export const PORTABLE_FORMAT_VERSION = 1;
+
+export interface PortableModelMetadata {
+  id: string;
+  name: string;
+  family: string | null;
+  version: string | null;
+  algorithm: string;
+  metricProvenance: string | null;
+  metrics: Record<string, number | null>;
+}
+
+export interface PortableModel {
+  format: typeof PORTABLE_FORMAT;
+  formatVersion: typeof PORTABLE_FORMAT_VERSION;
+  exportedAt: string;
+  model: PortableModelMetadata;
+  inputs: {
+    features: string[];
+    encodings: Record<string, string[]>;
+    targetColumn: string;
+  };
+  preprocessing: {
+    imputation: { strategy: "training_mean"; values: number[] };
+    scaler: NodeModelArtifact["scaler"];
+    // The Node engine trains on every column; kept for parity with the Python pipeline.
+    featureSelection: null;
+  };
+  engineAlgorithm: NodeModelArtifact["engineAlgorithm"];
+  hyperparameters: Record<string, any>;
+  classifier: NodeModelArtifact["classifier"];
+  calibrator: NonNullable<NodeModelArtifact["calibrator"]>;
+  decisionThreshold: number;
+}
+
+const treeSchema = z.object({
+  feature: z.array(z.number().int()),
+  threshold: z.array(z.number()),
+  left: z.array(z.number().int()),
+  right: z.array(z.number().int()),
+  value: z.array(z.number()),
+});
+
+const classifierSchema = z.discriminatedUnion("algorithm", [
+  z.object({ algorithm: z.literal("logistic_regression"), coef: z.array(z.number()), intercept: z.number() }),
+  z.object({ algorithm: z.literal("decision_tree"), tree: treeSchema, importances: z.array(z.number()) }),
+  z.object({ algorithm: z.literal("random_forest"), trees: z.array(treeSchema).min(1), importances: z.array(z.number()) }),
+  z.object({
+    algorithm: z.literal("naive_bayes"),
+    priors: z.array(z.number()).length(2),
+    means: z.array(z.array(z.number())).length(2),
+    variances: z.array(z.array(z.number())).length(2),
+  }),
+]);
+
+const calibratorSchema = z.discriminatedUnion("method", [
+  z.object({ method: z.literal("none") }),
+  z.object({ method: z.literal("platt"), a: z.number(), b: z.number() }),
+  z.object({ method: z.literal("isotonic"), x: z.array(z.number()).min(1), y: z.array(z.number()).min(1) }),
+  z.object({ method: z.literal("prior_correction"), trainingPrior: z.number(), targetPrior: z.number() }),
+]);
+
+export const portableModelSchema = z
+  .object({
+    format: z.literal(PORTABLE_FORMAT),
+    formatVersion: z.literal(PORTABLE_FORMAT_VERSION),
+    exportedAt: z.string(),
+    model: z.object({
+      id: z.string(),
+      name: z.string(),
+      family: z.string().nullable(),
+      version: z.string().nullable(),
+      algorithm: z.string(),
+      metricProvenance: z.string().nullable(),
+      metrics: z.record(z.number().nullable()),
+    }),
+    inputs: z.object({
+      features: z.array(z.string()).min(1),
+      encodings: z.record(z.array(z.string())),
+      targetColumn: z.string(),
+    }),
+    preprocessing: z.object({
+      imputation: z.object({ strategy: z.literal("training_mean"), values: z.array(z.number()) }),
+      scaler: z.object({ mean: z.array(z.number()), scale: z.array(z.number()) }),
+      featureSelection: z.null(),
+    }),
+    engineAlgorithm: z.enum(ENGINE_ALGORITHMS),
+    hyperparameters: z.record(z.any()),
+    classifier: classifierSchema,
+    calibrator: calibratorSchema,
+    decisionThreshold: z.number().min(0).max(1),
+  })
+  .refine(
+    (value) =>
+      value.preprocessing.scaler.mean.length === value.inputs.features.length &&
+      value.preprocessing.scaler.scale.length === value.inputs.features.length,
+    { message: "Scaler does not match the feature list" }
+  )
+  .refine((value) => value.classifier.algorithm === value.engineAlgorithm, {
+    message: "Classifier does not match the engine algorithm",
+  });
+
+export function toPortableModel(
+  metadata: PortableModelMetadata,
+  artifact: NodeModelArtifact,
+  decisionThreshold: number
+): PortableModel {
+  return {
+    format: PORTABLE_FORMAT,
+    formatVersion: PORTABLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    model: metadata,
+    inputs: {
+      features: artifact.featureNames,
+      encodings: artifact.encodings,
+      targetColumn: artifact.targetColumn,
+    },
+    preprocessing: {
+      imputation: { strategy: "training_mean", values: artifact.scaler.mean },
+      scaler: artifact.scaler,
+      featureSelection: null,
+    },
+    engineAlgorithm: artifact.engineAlgorithm,
+    hyperparameters: artifact.hyperparameters,
+    classifier: artifact.classifier,
+    calibrator: artifact.calibrator ?? { method: "none" },
+    decisionThreshold,
+  };
+}
+
+// The artifact an imported model scores with. Holdout rows belong to another server's
+// dataset, so none are carried over.
+export function fromPortableModel(portable: PortableModel): NodeModelArtifact {
+  return {
+    format: "node-engine",
+    version: 1,
+    algorithm: portable.model.algorithm,
+    engineAlgorithm: portable.engineAlgorithm,
+    hyperparameters: portable.hyperparameters,
+    featureNames: portable.inputs.features,
+    targetColumn: portable.inputs.targetColumn,
+    encodings: portable.inputs.encodings,
+    scaler: portable.preprocessing.scaler,
+    classifier: portable.classifier,
+    calibrator: portable.calibrator,
+    threshold: portable.decisionThreshold,
+    holdout: { indices: [], labels: [], scores: [] },
+    createdAt: portable.exportedAt,
+  };
+}
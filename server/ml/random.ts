@@ -0,0 +1,44 @@
+export type Rng = () => number;
+
+// mulberry32: small, fast and good enough for sampling and bootstrapping.
+export function createRng(seed: number): Rng {
+  let state = (seed >>> 0) || 0x9e3779b9;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomInt(rng: Rng, maxExclusive: number): number {
+  return Math.floor(rng() * maxExclusive);
+}
+
+export function shuffleInPlace<T>(items: T[], rng: Rng): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+// Picks `count` distinct indices out of [0, total) without replacement.
+export function sampleWithoutReplacement(total: number, count: number, rng: Rng): number[] {
+  const pool = Array.from({ length: total }, (_, i) => i);
+  const n = Math.min(count, total);
+  for (let i = 0; i < n; i++) {
+    const j = i + randomInt(rng, total - i);
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, n);
+}
+
+// Standard normal draw via Box-Muller.
+export function gaussian(rng: Rng): number {
+  let u = 0;
+  while (u === 0) u = rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
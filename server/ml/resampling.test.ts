@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RESAMPLING_TECHNIQUES, resample } from "./resampling";
+
+// Twelve majority rows on a grid and four minority rows overlapping its right edge.
+const majority = [0, 1, 2, 3, 4, 5].flatMap((x) => [
+  [x, 0],
+  [x, 1],
+]);
+const minority = [
+  [4.5, 0.5],
+  [5, 0.2],
+  [5.5, 0.8],
+  [6, 0.5],
+];
+const X = [...majority, ...minority];
+const y = [...majority.map(() => 0), ...minority.map(() => 1)];
+
+describe("resample", () => {
+  for (const technique of RESAMPLING_TECHNIQUES) {
+    describe(technique, () => {
+      it("is reproducible for a seed", () => {
+        assert.deepEqual(resample(X, y, { technique, seed: 11 }), resample(X, y, { technique, seed: 11 }));
+      });
+
+      it("reports counts that balance", () => {
+        const { X: resampled, y: labels, sourceIndex, report } = resample(X, y, { technique, seed: 11 });
+        assert.deepEqual(report.before, { "0": 12, "1": 4 });
+        assert.deepEqual(report.after, {
+          "0": labels.filter((label) => label === 0).length,
+          "1": labels.filter((label) => label === 1).length,
+        });
+        for (const label of ["0", "1"] as const) {
+          assert.equal(report.after[label], report.before[label] + report.synthetic[label] - report.removed[label]);
+        }
+        assert.equal(resampled.length, labels.length);
+        assert.equal(sourceIndex.length, labels.length);
+        sourceIndex.forEach((source, i) => {
+          if (source >= 0) assert.deepEqual([resampled[i], labels[i]], [X[source], y[source]]);
+        });
+      });
+    });
+  }
+
+  it("oversamples the minority class up to the target ratio", () => {
+    for (const technique of ["smote", "adasyn", "borderline_smote"]) {
+      assert.deepEqual(resample(X, y, { technique, seed: 3 }).report.after, { "0": 12, "1": 12 }, technique);
+      const half = resample(X, y, { technique, seed: 3, targetRatio: 0.5 }).report;
+      assert.deepEqual(half.after, { "0": 12, "1": 6 }, technique);
+      assert.deepEqual(half.synthetic, { "0": 0, "1": 2 }, technique);
+    }
+  });
+
+  it("interpolates synthetic rows between minority rows", () => {
+    const { X: resampled, sourceIndex } = resample(X, y, { technique: "smote", seed: 5 });
+    const synthetic = resampled.filter((_, i) => sourceIndex[i] === -1);
+    assert.equal(synthetic.length, 8);
+    for (const [a, b] of synthetic) {
+      assert.ok(a >= 4.5 && a <= 6 && b >= 0.2 && b <= 0.8, `${a}, ${b} lies outside the minority rows`);
+    }
+  });
+
+  it("undersamples the majority class down to the target ratio", () => {
+    const { y: labels, sourceIndex, report } = resample(X, y, {
+      technique: "random_undersample",
+      seed: 3,
+      targetRatio: 0.5,
+    });
+    assert.deepEqual(report.after, { "0": 8, "1": 4 });
+    assert.deepEqual(report.removed, { "0": 4, "1": 0 });
+    assert.ok(sourceIndex.every((source, i) => source >= 0 && y[source] === labels[i]));
+  });
+
+  it("cleans overlapping rows after SMOTE with edited nearest neighbours", () => {
+    const { report } = resample(X, y, { technique: "smote_enn", seed: 3 });
+    assert.ok(report.removed["0"] + report.removed["1"] > 0);
+  });
+
+  it("leaves the data unchanged with fewer than two minority rows", () => {
+    const single = [0, 0, 0, 1];
+    const result = resample([[0], [1], [2], [3]], single, { technique: "smote", seed: 1 });
+    assert.deepEqual(result.y, single);
+    assert.deepEqual(result.sourceIndex, [0, 1, 2, 3]);
+    assert.deepEqual(result.report.synthetic, { "0": 0, "1": 0 });
+    assert.deepEqual(result.report.notes, ["Fewer than two minority rows; data was left unchanged."]);
+  });
+});
@@ -0,0 +1,291 @@
+import type { Matrix } from "./dataset";
+import { classIndices } from "./dataset";
+import { type Rng, createRng, randomInt, sampleWithoutReplacement } from "./random";
+
+export const RESAMPLING_TECHNIQUES = [
+  "none",
+  "smote",
+  "adasyn",
+  "borderline_smote",
+  "random_undersample",
+  "smote_tomek",
+  "smote_enn",
+] as const;
+export type ResamplingTechnique = typeof RESAMPLING_TECHNIQUES[number];
+
+export interface ResamplingOptions {
+  technique: ResamplingTechnique | string;
+  seed?: number;
+  // Neighbours used to interpolate synthetic rows (SMOTE family) or to judge difficulty.
+  kNeighbors?: number;
+  // Desired minority/majority ratio after resampling (1 = fully balanced).
+  targetRatio?: number;
+}
+
+type ClassCounts = Record<"0" | "1", number>;
+
+export interface ResamplingReport {
+  technique: string;
+  kNeighbors: number;
+  targetRatio: number;
+  minorityClass: 0 | 1;
+  before: ClassCounts;
+  after: ClassCounts;
+  synthetic: ClassCounts;
+  removed: ClassCounts;
+  notes: string[];
+}
+
+export interface ResamplingResult {
+  X: Matrix;
+  y: number[];
+  // Index of the originating input row, or -1 for synthetic rows.
+  sourceIndex: number[];
+  report: ResamplingReport;
+}
+
+function countClasses(y: number[]): ClassCounts {
+  const counts: ClassCounts = { "0": 0, "1": 0 };
+  for (const label of y) counts[label === 1 ? "1" : "0"]++;
+  return counts;
+}
+
+function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let j = 0; j < a.length; j++) {
+    const diff = a[j] - b[j];
+    sum += diff * diff;
+  }
+  return sum;
+}
+
+// Brute-force k nearest neighbours of X[query] among `candidates`, excluding the query itself.
+function nearestNeighbors(X: Matrix, query: number, candidates: number[], k: number): number[] {
+  // Bounded insertion keeps this O(n * k) rather than sorting every candidate.
+  const best: [number, number][] = [];
+  for (const c of candidates) {
+    if (c === query) continue;
+    const d = squaredDistance(X[query], X[c]);
+    if (best.length === k && d >= best[k - 1][0]) continue;
+    let pos = best.length;
+    while (pos > 0 && best[pos - 1][0] > d) pos--;
+    best.splice(pos, 0, [d, c]);
+    if (best.length > k) best.pop();
+  }
+  return best.map(([, idx]) => idx);
+}
+
+interface WorkingSet {
+  X: Matrix;
+  y: number[];
+  sourceIndex: number[];
+}
+
+// Generates `counts[i]` synthetic rows from each minority seed row i by interpolating
+// towards one of its k nearest minority neighbours.
+function interpolate(
+  set: WorkingSet,
+  minority: number[],
+  seeds: number[],
+  counts: number[],
+  k: number,
+  minorityLabel: number,
+  rng: Rng
+): number {
+  let created = 0;
+  const neighborCache = new Map<number, number[]>();
+  seeds.forEach((seed, s) => {
+    if (counts[s] <= 0) return;
+    let neighbors = neighborCache.get(seed);
+    if (!neighbors) {
+      neighbors = nearestNeighbors(set.X, seed, minority, k);
+      neighborCache.set(seed, neighbors);
+    }
+    for (let c = 0; c < counts[s]; c++) {
+      const base = set.X[seed];
+      const partner = neighbors.length > 0 ? set.X[neighbors[randomInt(rng, neighbors.length)]] : base;
+      const gap = rng();
+      set.X.push(base.map((v, j) => v + gap * (partner[j] - v)));
+      set.y.push(minorityLabel);
+      set.sourceIndex.push(-1);
+      created++;
+    }
+  });
+  return created;
+}
+
+function spreadEvenly(total: number, slots: number, rng: Rng): number[] {
+  const counts = new Array(slots).fill(Math.floor(total / slots));
+  const extra = sampleWithoutReplacement(slots, total % slots, rng);
+  for (const idx of extra) counts[idx]++;
+  return counts;
+}
+
+function smote(set: WorkingSet, needed: number, minorityLabel: number, k: number, rng: Rng): number {
+  const minority = set.y.map((label, i) => (label === minorityLabel ? i : -1)).filter((i) => i >= 0);
+  return interpolate(set, minority, minority, spreadEvenly(needed, minority.length, rng), k, minorityLabel, rng);
+}
+
+function majorityShare(set: WorkingSet, idx: number, k: number, minorityLabel: number): number {
+  const all = set.y.map((_, i) => i);
+  const neighbors = nearestNeighbors(set.X, idx, all, k);
+  const majority = neighbors.filter((n) => set.y[n] !== minorityLabel).length;
+  return neighbors.length > 0 ? majority / neighbors.length : 0;
+}
+
+function adasyn(
+  set: WorkingSet,
+  needed: number,
+  minorityLabel: number,
+  k: number,
+  rng: Rng,
+  notes: string[]
+): number {
+  const minority = set.y.map((label, i) => (label === minorityLabel ? i : -1)).filter((i) => i >= 0);
+  const difficulty = minority.map((idx) => majorityShare(set, idx, k, minorityLabel));
+  const total = difficulty.reduce((a, b) => a + b, 0);
+  if (total === 0) {
+    notes.push("No minority row has majority neighbours; ADASYN degenerated to uniform SMOTE.");
+    return interpolate(set, minority, minority, spreadEvenly(needed, minority.length, rng), k, minorityLabel, rng);
+  }
+  // Largest-remainder rounding so exactly `needed` rows are generated.
+  const raw = difficulty.map((d) => (d / total) * needed);
+  const counts = raw.map(Math.floor);
+  let remaining = needed - counts.reduce((a, b) => a + b, 0);
+  const order = raw.map((v, i) => [v - Math.floor(v), i] as const).sort((a, b) => b[0] - a[0]);
+  for (const [, i] of order) {
+    if (remaining <= 0) break;
+    counts[i]++;
+    remaining--;
+  }
+  return interpolate(set, minority, minority, counts, k, minorityLabel, rng);
+}
+
+// Borderline-SMOTE-1: only minority rows in "danger" (at least half, but not all, of
+// their m nearest neighbours are majority) seed synthetic rows.
+function borderlineSmote(
+  set: WorkingSet,
+  needed: number,
+  minorityLabel: number,
+  k: number,
+  rng: Rng,
+  notes: string[]
+): number {
+  const m = Math.max(k * 2, 10);
+  const minority = set.y.map((label, i) => (label === minorityLabel ? i : -1)).filter((i) => i >= 0);
+  const danger = minority.filter((idx) => {
+    const share = majorityShare(set, idx, m, minorityLabel);
+    return share >= 0.5 && share < 1;
+  });
+  if (danger.length === 0) {
+    notes.push("No borderline minority rows were found; no synthetic rows were generated.");
+    return 0;
+  }
+  notes.push(`${danger.length} of ${minority.length} minority rows were classified as borderline.`);
+  return interpolate(set, minority, danger, spreadEvenly(needed, danger.length, rng), k, minorityLabel, rng);
+}
+
+function removeRows(set: WorkingSet, remove: Set<number>): WorkingSet {
+  const keep = set.y.map((_, i) => i).filter((i) => !remove.has(i));
+  return {
+    X: keep.map((i) => set.X[i]),
+    y: keep.map((i) => set.y[i]),
+    sourceIndex: keep.map((i) => set.sourceIndex[i]),
+  };
+}
+
+// Tomek links are cross-class pairs that are each other's nearest neighbour; both ends are dropped.
+function removeTomekLinks(set: WorkingSet): WorkingSet {
+  const all = set.y.map((_, i) => i);
+  const nearest = all.map((i) => nearestNeighbors(set.X, i, all, 1)[0]);
+  const remove = new Set<number>();
+  all.forEach((i) => {
+    const j = nearest[i];
+    if (j !== undefined && nearest[j] === i && set.y[i] !== set.y[j]) {
+      remove.add(i);
+      remove.add(j);
+    }
+  });
+  return removeRows(set, remove);
+}
+
+// Edited nearest neighbours: drop any row whose 3 nearest neighbours do not all share its class.
+function editedNearestNeighbours(set: WorkingSet): WorkingSet {
+  const all = set.y.map((_, i) => i);
+  const remove = new Set<number>();
+  all.forEach((i) => {
+    const neighbors = nearestNeighbors(set.X, i, all, 3);
+    if (neighbors.some((n) => set.y[n] !== set.y[i])) remove.add(i);
+  });
+  return removeRows(set, remove);
+}
+
+export function resample(X: Matrix, y: number[], options: ResamplingOptions): ResamplingResult {
+  const technique = options.technique || "none";
+  const rng = createRng(options.seed ?? 42);
+  const targetRatio = Math.min(1, Math.max(0.01, options.targetRatio ?? 1));
+  const notes: string[] = [];
+  const before = countClasses(y);
+  const [negatives, positives] = classIndices(y);
+  const minorityLabel: 0 | 1 = positives.length <= negatives.length ? 1 : 0;
+  const minorityCount = minorityLabel === 1 ? positives.length : negatives.length;
+  const majorityCount = y.length - minorityCount;
+  const kNeighbors = Math.max(1, Math.min(options.kNeighbors ?? 5, minorityCount - 1));
+
+  let set: WorkingSet = { X: X.map((row) => [...row]), y: [...y], sourceIndex: y.map((_, i) => i) };
+  const synthetic: ClassCounts = { "0": 0, "1": 0 };
+
+  if (!(RESAMPLING_TECHNIQUES as readonly string[]).includes(technique)) {
+    notes.push(`Unknown technique "${technique}"; data was left unchanged.`);
+  } else if (technique !== "none" && minorityCount < 2) {
+    notes.push("Fewer than two minority rows; data was left unchanged.");
+  } else if (technique === "random_undersample") {
+    const majorityLabel = minorityLabel === 1 ? 0 : 1;
+    const majority = majorityLabel === 1 ? positives : negatives;
+    const keepCount = Math.min(majority.length, Math.round(minorityCount / targetRatio));
+    const kept = new Set(sampleWithoutReplacement(majority.length, keepCount, rng).map((i) => majority[i]));
+    set = removeRows(set, new Set(majority.filter((idx) => !kept.has(idx))));
+  } else if (technique !== "none") {
+    const needed = Math.max(0, Math.round(targetRatio * majorityCount) - minorityCount);
+    if (needed === 0) {
+      notes.push("Minority class already meets the target ratio; no synthetic rows were needed.");
+    }
+    let created = 0;
+    if (needed > 0) {
+      if (technique === "adasyn") {
+        created = adasyn(set, needed, minorityLabel, kNeighbors, rng, notes);
+      } else if (technique === "borderline_smote") {
+        created = borderlineSmote(set, needed, minorityLabel, kNeighbors, rng, notes);
+      } else {
+        created = smote(set, needed, minorityLabel, kNeighbors, rng);
+      }
+    }
+    synthetic[minorityLabel === 1 ? "1" : "0"] = created;
+    if (technique === "smote_tomek") set = removeTomekLinks(set);
+    if (technique === "smote_enn") set = editedNearestNeighbours(set);
+  }
+
+  const after = countClasses(set.y);
+  // Rows that disappeared: originals no longer present plus synthetic rows cleaned away.
+  const removed: ClassCounts = {
+    "0": Math.max(0, before["0"] + synthetic["0"] - after["0"]),
+    "1": Math.max(0, before["1"] + synthetic["1"] - after["1"]),
+  };
+
+  return {
+    X: set.X,
+    y: set.y,
+    sourceIndex: set.sourceIndex,
+    report: {
+      technique,
+      kNeighbors,
+      targetRatio,
+      minorityClass: minorityLabel,
+      before,
+      after,
+      synthetic,
+      removed,
+      notes,
+    },
+  };
+}
@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  chiSquareQuantile,
+  cliffsDelta,
+  friedmanTest,
+  holmCorrection,
+  nemenyiCriticalDifference,
+  normalCdf,
+  quantile,
+  rankWithTies,
+  scottKnottEsd,
+  standardDeviation,
+  studentTQuantile,
+  summarizeMetric,
+  wilcoxonSignedRank,
+} from "./statistics";
+
+function close(actual: number, expected: number, tolerance = 1e-6) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+}
+
+describe("descriptive statistics", () => {
+  it("interpolates quantiles linearly like numpy", () => {
+    close(quantile([4, 1, 3, 2], 0.5), 2.5);
+    close(quantile([1, 2, 3, 4, 5], 0.25), 2);
+    close(quantile([1, 2, 3, 4, 5], 0.9), 4.6);
+  });
+
+  it("uses the sample standard deviation", () => {
+    close(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9]), Math.sqrt(32 / 7));
+    assert.equal(standardDeviation([3]), 0);
+  });
+
+  it("averages tied ranks", () => {
+    assert.deepEqual(rankWithTies([10, 20, 20, 30]), [1, 2.5, 2.5, 4]);
+  });
+});
+
+describe("distributions", () => {
+  it("matches tabulated Student t quantiles", () => {
+    close(studentTQuantile(0.975, 1), 12.706205, 1e-5);
+    close(studentTQuantile(0.975, 10), 2.228139, 1e-5);
+    close(studentTQuantile(0.975, 30), 2.042272, 1e-5);
+  });
+
+  it("matches tabulated chi-square quantiles", () => {
+    close(chiSquareQuantile(0.95, 1), 3.841459, 1e-5);
+    close(chiSquareQuantile(0.95, 5), 11.070498, 1e-5);
+  });
+
+  it("matches the standard normal CDF", () => {
+    close(normalCdf(0), 0.5);
+    close(normalCdf(1.959964), 0.975, 1e-6);
+    close(normalCdf(-1), 0.158655, 1e-6);
+  });
+});
+
+describe("summarizeMetric", () => {
+  it("builds a t interval and widens it with the Nadeau-Bengio correction", () => {
+    const values = [1, 2, 3, 4, 5];
+    const plain = summarizeMetric(values, { method: "t" })!;
+    close(plain.mean, 3);
+    close(plain.ciUpper - plain.mean, 2.776445 * Math.sqrt(2.5) / Math.sqrt(5), 1e-5);
+    const corrected = summarizeMetric(values, { method: "corrected_t", testTrainRatio: 0.25 })!;
+    close(corrected.ciUpper - corrected.mean, 2.776445 * Math.sqrt(2.5) * Math.sqrt(1 / 5 + 0.25), 1e-5);
+  });
+
+  it("uses percentiles for bootstrap estimates and skips non-finite values", () => {
+    const summary = summarizeMetric([1, 2, 3, 4, 5, Number.NaN], { method: "percentile", confidence: 0.5 })!;
+    assert.equal(summary.n, 5);
+    close(summary.ciLower, 2);
+    close(summary.ciUpper, 4);
+    assert.equal(summarizeMetric([], { method: "t" }), null);
+  });
+});
+
+describe("wilcoxonSignedRank", () => {
+  it("computes exact two-sided p-values", () => {
+    assert.deepEqual(wilcoxonSignedRank([1, 2, 3, 4, 5], [0, 0, 0, 0, 0]), {
+      statistic: 0,
+      pValue: 0.0625,
+      n: 5,
+      method: "exact",
+    });
+    const result = wilcoxonSignedRank([1, -2, 3, 4, 5], [0, 0, 0, 0, 0]);
+    assert.equal(result.statistic, 2);
+    close(result.pValue, 0.1875);
+  });
+
+  it("drops zero differences and falls back to the normal approximation on ties", () => {
+    assert.deepEqual(wilcoxonSignedRank([1, 2], [1, 2]), { statistic: 0, pValue: 1, n: 0, method: "exact" });
+    // |d| = 1, 1, 2, 3, 3, 4 ranks 1.5, 1.5, 3, 4.5, 4.5, 6; W- = 1.5 + 4.5 = 6 of 21.
+    const result = wilcoxonSignedRank([1, -1, 2, 3, -3, 4, 0], [0, 0, 0, 0, 0, 0, 0]);
+    assert.equal(result.method, "normal");
+    assert.equal(result.n, 6);
+    assert.equal(result.statistic, 6);
+    const variance = (6 * 7 * 13) / 24 - (6 + 6) / 48;
+    close(result.pValue, 2 * (1 - normalCdf((Math.abs(6 - 10.5) - 0.5) / Math.sqrt(variance))));
+  });
+});
+
+describe("multiple comparisons and effect sizes", () => {
+  it("applies Holm's step-down adjustment in input order", () => {
+    const adjusted = holmCorrection([0.01, 0.04, 0.03]);
+    [0.03, 0.06, 0.06].forEach((expected, i) => close(adjusted[i], expected));
+  });
+
+  it("computes Cliff's delta with the Romano thresholds", () => {
+    assert.deepEqual(cliffsDelta([4, 5, 6], [1, 2, 3]), { delta: 1, magnitude: "large" });
+    assert.deepEqual(cliffsDelta([1, 2], [1, 2]), { delta: 0, magnitude: "negligible" });
+    close(cliffsDelta([1, 2, 3, 4], [2, 3, 4, 5]).delta, -7 / 16);
+  });
+});
+
+describe("friedmanTest and nemenyiCriticalDifference", () => {
+  it("ranks higher scores first", () => {
+    const result = friedmanTest([
+      [0.9, 0.8, 0.7],
+      [0.8, 0.7, 0.6],
+      [0.95, 0.9, 0.5],
+      [0.7, 0.6, 0.5],
+    ]);
+    assert.deepEqual(result.averageRanks, [1, 2, 3]);
+    close(result.statistic, 8);
+    assert.equal(result.df, 2);
+    close(result.pValue, Math.exp(-4), 1e-9);
+  });
+
+  it("uses Demšar's critical values", () => {
+    const { q, criticalDifference } = nemenyiCriticalDifference(3, 4);
+    assert.equal(q, 2.343);
+    close(criticalDifference, 2.343 * Math.sqrt(0.5));
+  });
+});
+
+describe("scottKnottEsd", () => {
+  it("separates distinct treatments and ranks the best group first", () => {
+    const groups = scottKnottEsd([
+      [1, 1.1, 0.9],
+      [10, 10.1, 9.9],
+      [1, 1.2, 0.8],
+      [10, 10.2, 9.8],
+    ]);
+    assert.deepEqual(
+      groups.map((group) => ({ rank: group.rank, members: [...group.members].sort() })),
+      [
+        { rank: 1, members: [1, 3] },
+        { rank: 2, members: [0, 2] },
+      ]
+    );
+  });
+
+  it("keeps indistinguishable treatments together", () => {
+    const groups = scottKnottEsd([
+      [0.5, 0.6, 0.7],
+      [0.6, 0.5, 0.7],
+      [0.7, 0.6, 0.5],
+    ]);
+    assert.equal(groups.length, 1);
+  });
+});
@@ -0,0 +1,411 @@
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : NaN;
+}
+
+// Sample standard deviation (n - 1 denominator), 0 for fewer than two values.
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation (g = 7, n = 9).
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let a = coefficients[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += coefficients[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+// Continued fraction for the regularized incomplete beta function (Numerical Recipes).
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+  return h;
+}
+
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+export function studentTCdf(t: number, df: number): number {
+  const x = df / (df + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+export function studentTQuantile(p: number, df: number): number {
+  let low = -1000;
+  let high = 1000;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (studentTCdf(mid, df) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+export type IntervalMethod = "corrected_t" | "t" | "percentile";
+
+export interface MetricSummary {
+  mean: number;
+  std: number;
+  ciLower: number;
+  ciUpper: number;
+  n: number;
+}
+
+export interface SummaryOptions {
+  method: IntervalMethod;
+  confidence?: number;
+  // Test/train size ratio for the Nadeau-Bengio corrected resampled t interval.
+  testTrainRatio?: number;
+}
+
+// Mean, standard deviation and confidence interval of a set of resampling estimates.
+// Fold scores of (repeated) k-fold CV share training data, so the plain t interval is
+// too narrow; "corrected_t" inflates the variance by (1/n + n_test/n_train) following
+// Nadeau & Bengio (2003). Bootstrap estimates use the percentile interval.
+export function summarizeMetric(values: number[], options: SummaryOptions): MetricSummary | null {
+  const finite = values.filter((v) => Number.isFinite(v));
+  if (finite.length === 0) return null;
+  const confidence = options.confidence ?? 0.95;
+  const alpha = 1 - confidence;
+  const m = mean(finite);
+  const std = standardDeviation(finite);
+  const n = finite.length;
+
+  let ciLower = m;
+  let ciUpper = m;
+  if (n >= 2) {
+    if (options.method === "percentile") {
+      ciLower = quantile(finite, alpha / 2);
+      ciUpper = quantile(finite, 1 - alpha / 2);
+    } else {
+      const varianceFactor =
+        options.method === "corrected_t" ? 1 / n + (options.testTrainRatio ?? 0) : 1 / n;
+      const halfWidth = studentTQuantile(1 - alpha / 2, n - 1) * std * Math.sqrt(varianceFactor);
+      ciLower = m - halfWidth;
+      ciUpper = m + halfWidth;
+    }
+  }
+  return { mean: m, std, ciLower, ciUpper, n };
+}
+
+// Regularized lower incomplete gamma P(a, x): series for x < a + 1, continued fraction otherwise.
+export function regularizedLowerGamma(a: number, x: number): number {
+  if (x <= 0) return 0;
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 3e-14) break;
+    }
+    return sum * Math.exp(logPrefix);
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-14) break;
+  }
+  return 1 - Math.exp(logPrefix) * h;
+}
+
+export function chiSquareCdf(x: number, df: number): number {
+  return regularizedLowerGamma(df / 2, x / 2);
+}
+
+export function chiSquareQuantile(p: number, df: number): number {
+  let low = 0;
+  let high = Math.max(10, df * 10);
+  while (chiSquareCdf(high, df) < p) high *= 2;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (chiSquareCdf(mid, df) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+export function normalCdf(z: number): number {
+  const erf = regularizedLowerGamma(0.5, (z * z) / 2);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+// Average ranks (1 = smallest) with ties sharing the mean of their positions.
+export function rankWithTies(values: number[]): number[] {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const ranks = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    for (let k = i; k <= j; k++) ranks[order[k][1]] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+export interface WilcoxonResult {
+  statistic: number;
+  pValue: number;
+  // Pairs left after dropping zero differences.
+  n: number;
+  method: "exact" | "normal";
+}
+
+// Two-sided Wilcoxon signed-rank test on paired samples. Zero differences are dropped
+// (Wilcoxon's method); the exact null distribution is used for up to 50 pairs without
+// ties, otherwise the normal approximation with tie and continuity correction.
+export function wilcoxonSignedRank(x: number[], y: number[]): WilcoxonResult {
+  const differences = x.map((v, i) => v - y[i]).filter((d) => Number.isFinite(d) && d !== 0);
+  const n = differences.length;
+  if (n === 0) return { statistic: 0, pValue: 1, n: 0, method: "exact" };
+
+  const ranks = rankWithTies(differences.map(Math.abs));
+  const positive = differences.reduce((sum, d, i) => sum + (d > 0 ? ranks[i] : 0), 0);
+  const total = (n * (n + 1)) / 2;
+  const statistic = Math.min(positive, total - positive);
+  const hasTies = new Set(ranks).size < n;
+
+  if (n <= 50 && !hasTies) {
+    // counts[s] = number of sign assignments whose positive rank sum is s.
+    let counts = new Array<number>(total + 1).fill(0);
+    counts[0] = 1;
+    for (let rank = 1; rank <= n; rank++) {
+      const next = [...counts];
+      for (let s = rank; s <= total; s++) next[s] += counts[s - rank];
+      counts = next;
+    }
+    let tail = 0;
+    for (let s = 0; s <= statistic; s++) tail += counts[s];
+    return { statistic, pValue: Math.min(1, (2 * tail) / 2 ** n), n, method: "exact" };
+  }
+
+  const tieGroups = new Map<number, number>();
+  ranks.forEach((rank) => tieGroups.set(rank, (tieGroups.get(rank) ?? 0) + 1));
+  const tieCorrection = Array.from(tieGroups.values()).reduce((sum, t) => sum + (t ** 3 - t), 0) / 48;
+  const variance = (n * (n + 1) * (2 * n + 1)) / 24 - tieCorrection;
+  const z = variance > 0 ? (Math.abs(statistic - total / 2) - 0.5) / Math.sqrt(variance) : 0;
+  return { statistic, pValue: Math.min(1, 2 * (1 - normalCdf(Math.max(0, z)))), n, method: "normal" };
+}
+
+// Holm-Bonferroni step-down adjusted p-values, returned in the input order.
+export function holmCorrection(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, i) => [p, i] as const).sort((a, b) => a[0] - b[0]);
+  const adjusted = new Array<number>(m);
+  let running = 0;
+  order.forEach(([p, index], position) => {
+    running = Math.max(running, Math.min(1, (m - position) * p));
+    adjusted[index] = running;
+  });
+  return adjusted;
+}
+
+export type EffectMagnitude = "negligible" | "small" | "medium" | "large";
+
+// Cliff's delta: P(X > Y) - P(X < Y) over all pairs, with the Romano et al. (2006) thresholds.
+export function cliffsDelta(x: number[], y: number[]): { delta: number; magnitude: EffectMagnitude } {
+  if (x.length === 0 || y.length === 0) return { delta: 0, magnitude: "negligible" };
+  const sortedY = [...y].sort((a, b) => a - b);
+  const countBelow = (v: number, strict: boolean) => {
+    let low = 0;
+    let high = sortedY.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (strict ? sortedY[mid] < v : sortedY[mid] <= v) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+  let dominance = 0;
+  for (const v of x) {
+    const less = countBelow(v, true);
+    const greater = sortedY.length - countBelow(v, false);
+    dominance += less - greater;
+  }
+  const delta = dominance / (x.length * y.length);
+  const size = Math.abs(delta);
+  const magnitude = size < 0.147 ? "negligible" : size < 0.33 ? "small" : size < 0.474 ? "medium" : "large";
+  return { delta, magnitude };
+}
+
+export interface FriedmanResult {
+  // Mean rank per treatment, 1 = best (highest value).
+  averageRanks: number[];
+  statistic: number;
+  df: number;
+  pValue: number;
+  blocks: number;
+}
+
+// Friedman test over `blocks` rows of k treatment scores, ranking higher scores first.
+export function friedmanTest(blocks: number[][]): FriedmanResult {
+  const n = blocks.length;
+  const k = blocks[0]?.length ?? 0;
+  const rankSums = new Array<number>(k).fill(0);
+  let tieTerm = 0;
+  for (const row of blocks) {
+    const ranks = rankWithTies(row.map((v) => -v));
+    ranks.forEach((rank, j) => (rankSums[j] += rank));
+    const groups = new Map<number, number>();
+    ranks.forEach((rank) => groups.set(rank, (groups.get(rank) ?? 0) + 1));
+    groups.forEach((t) => (tieTerm += t ** 3 - t));
+  }
+  const averageRanks = rankSums.map((sum) => sum / Math.max(1, n));
+  if (n === 0 || k < 2) return { averageRanks, statistic: 0, df: Math.max(0, k - 1), pValue: 1, blocks: n };
+
+  const chi =
+    ((12 * n) / (k * (k + 1))) * averageRanks.reduce((sum, r) => sum + (r - (k + 1) / 2) ** 2, 0);
+  const correction = 1 - tieTerm / (n * (k ** 3 - k));
+  const statistic = correction > 0 ? chi / correction : 0;
+  return { averageRanks, statistic, df: k - 1, pValue: 1 - chiSquareCdf(statistic, k - 1), blocks: n };
+}
+
+// q_0.05 / sqrt(2) of the studentized range for k = 2..20 treatments (Demšar, 2006).
+const NEMENYI_Q_05 = [
+  1.96, 2.343, 2.569, 2.728, 2.85, 2.949, 3.031, 3.102, 3.164, 3.219, 3.268, 3.313, 3.354, 3.391, 3.426, 3.458,
+  3.489, 3.517, 3.544,
+];
+
+export const MAX_NEMENYI_TREATMENTS = NEMENYI_Q_05.length + 1;
+
+// Critical difference of average ranks for the Nemenyi post-hoc test at alpha = 0.05.
+export function nemenyiCriticalDifference(k: number, blocks: number): { q: number; criticalDifference: number } {
+  const q = NEMENYI_Q_05[Math.min(Math.max(k, 2), MAX_NEMENYI_TREATMENTS) - 2];
+  return { q, criticalDifference: q * Math.sqrt((k * (k + 1)) / (6 * Math.max(1, blocks))) };
+}
+
+// Cohen's d with pooled standard deviation.
+export function cohensD(x: number[], y: number[]): number {
+  const pooled = Math.sqrt(
+    ((x.length - 1) * standardDeviation(x) ** 2 + (y.length - 1) * standardDeviation(y) ** 2) /
+      Math.max(1, x.length + y.length - 2)
+  );
+  return pooled > 0 ? (mean(x) - mean(y)) / pooled : 0;
+}
+
+export interface ScottKnottGroup {
+  // 1 = best group.
+  rank: number;
+  members: number[];
+}
+
+// Scott-Knott ESD (Tantithamthavorn et al., 2017). Treatments are sorted by mean and
+// split recursively where the between-group sum of squares of the means is largest;
+// a split is kept only when the Scott-Knott likelihood-ratio test is significant and the
+// two sides differ by a non-negligible Cohen's d (>= 0.2).
+export function scottKnottEsd(treatments: number[][], alpha = 0.05): ScottKnottGroup[] {
+  const means = treatments.map(mean);
+  const order = means.map((m, i) => [m, i] as const).sort((a, b) => b[0] - a[0]).map(([, i]) => i);
+
+  // Error variance of a treatment mean, from the pooled within-treatment variance.
+  const totalObservations = treatments.reduce((sum, values) => sum + values.length, 0);
+  const errorDf = Math.max(1, totalObservations - treatments.length);
+  const withinSs = treatments.reduce(
+    (sum, values) => sum + values.reduce((s, v) => s + (v - mean(values)) ** 2, 0),
+    0
+  );
+  const averageSize = totalObservations / Math.max(1, treatments.length);
+  const meanVariance = withinSs / errorDf / Math.max(1, averageSize);
+
+  const groups: number[][] = [];
+  const partition = (members: number[]) => {
+    const k = members.length;
+    if (k < 2) {
+      groups.push(members);
+      return;
+    }
+    const groupMeans = members.map((i) => means[i]);
+    const grand = mean(groupMeans);
+    let bestSplit = 1;
+    let bestB0 = -Infinity;
+    for (let split = 1; split < k; split++) {
+      const left = groupMeans.slice(0, split);
+      const right = groupMeans.slice(split);
+      const b0 = left.length * (mean(left) - grand) ** 2 + right.length * (mean(right) - grand) ** 2;
+      if (b0 > bestB0) {
+        bestB0 = b0;
+        bestSplit = split;
+      }
+    }
+
+    const sigma2 =
+      (groupMeans.reduce((sum, m) => sum + (m - grand) ** 2, 0) + errorDf * meanVariance) / (k + errorDf);
+    const lambda = sigma2 > 0 ? (Math.PI / (2 * (Math.PI - 2))) * (bestB0 / sigma2) : 0;
+    const significant = lambda > chiSquareQuantile(1 - alpha, k / (Math.PI - 2));
+    const left = members.slice(0, bestSplit);
+    const right = members.slice(bestSplit);
+    const pooled = (indices: number[]) => indices.flatMap((i) => treatments[i]);
+    const effect = Math.abs(cohensD(pooled(left), pooled(right)));
+
+    if (!significant || effect < 0.2) {
+      groups.push(members);
+      return;
+    }
+    partition(left);
+    partition(right);
+  };
+  partition(order);
+  return groups.map((members, index) => ({ rank: index + 1, members }));
+}
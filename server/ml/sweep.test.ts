@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { stratifiedTrainTestSplit } from "./dataset";
+import { resolveSeed } from "./pipeline";
+import { createRng } from "./random";
+import { type SweepCell, type SweepMetric, SWEEP_METRICS, recommendSweepCell, sweepFolds } from "./sweep";
+
+function cell(technique: string, ratio: number | null, values: Partial<Record<SweepMetric, number>>): SweepCell {
+  const metrics = Object.fromEntries(
+    SWEEP_METRICS.map((name) => [name, values[name] === undefined ? null : { mean: values[name]!, std: 0 }])
+  ) as SweepCell["metrics"];
+  return { technique, ratio, achievedRatio: ratio, evaluations: 10, metrics, notes: [] };
+}
+
+describe("sweepFolds", () => {
+  const y = Array.from({ length: 50 }, (_, i) => (i % 5 === 0 ? 1 : 0));
+
+  it("never uses the rows trainNodePipeline holds out", () => {
+    for (const hyperparameters of [{}, { random_state: 7 }]) {
+      const holdout = new Set(stratifiedTrainTestSplit(y, 0.2, createRng(resolveSeed(hyperparameters))).test);
+      assert.equal(holdout.size, 10);
+      for (const fold of sweepFolds(y, hyperparameters, 5, 2)) {
+        assert.ok([...fold.train, ...fold.test].every((row) => !holdout.has(row)));
+      }
+    }
+  });
+
+  it("tests every training row once per repeat", () => {
+    const folds = sweepFolds(y, {}, 5, 3);
+    const holdout = new Set(stratifiedTrainTestSplit(y, 0.2, createRng(resolveSeed({}))).test);
+    const training = y.map((_, i) => i).filter((row) => !holdout.has(row));
+    assert.equal(folds.length, 15);
+    for (let repeat = 0; repeat < 3; repeat++) {
+      const tested = folds.filter((fold) => fold.repeat === repeat).flatMap((fold) => fold.test);
+      assert.deepEqual([...tested].sort((a, b) => a - b), training);
+    }
+  });
+
+  it("shrinks the fold count to the minority rows available", () => {
+    // Eight training positives leave room for eight folds at most.
+    assert.equal(sweepFolds(y, {}, 20, 1).length, 8);
+  });
+});
+
+describe("recommendSweepCell", () => {
+  it("picks the best mean objective", () => {
+    const cells = [
+      cell("none", null, { mcc: 0.3, pf: 0.05 }),
+      cell("smote", 0.5, { mcc: 0.45, pf: 0.2 }),
+      cell("adasyn", 1, { mcc: 0.4, pf: 0.1 }),
+    ];
+    assert.deepEqual(recommendSweepCell(cells, "mcc"), {
+      technique: "smote",
+      ratio: 0.5,
+      objective: "mcc",
+      score: 0.45,
+      pf: 0.2,
+      baselineScore: 0.3,
+    });
+  });
+
+  it("breaks near-ties with the lower false alarm rate", () => {
+    const cells = [
+      cell("smote", 1, { f1Score: 0.5, pf: 0.3 }),
+      cell("random_undersample", 0.5, { f1Score: 0.5 + 1e-12, pf: 0.1 }),
+      cell("adasyn", 0.5, { f1Score: 0.5, pf: 0.2 }),
+    ];
+    const recommendation = recommendSweepCell(cells, "f1");
+    assert.equal(recommendation?.technique, "random_undersample");
+    assert.equal(recommendation?.baselineScore, null);
+  });
+
+  it("skips cells without the objective", () => {
+    const cells = [cell("smote", 1, { mcc: 0.4 }), cell("adasyn", 1, { prAuc: 0.6 })];
+    assert.equal(recommendSweepCell(cells, "pr_auc")?.technique, "adasyn");
+    assert.equal(recommendSweepCell(cells, "g_mean"), null);
+  });
+});
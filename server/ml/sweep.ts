@@ -0,0 +1,135 @@
+import { type Checkpoint, resolveEngineAlgorithm } from "./classifiers";
+import { type TabularDataset, stratifiedTrainTestSplit, takeRows } from "./dataset";
+import { applyThreshold, averagePrecision, confusionCounts, metricsFromCounts, rocAuc } from "./metrics";
+import { fitAndScore, resolveSeed } from "./pipeline";
+import { createRng } from "./random";
+import { RESAMPLING_TECHNIQUES } from "./resampling";
+import { mean, standardDeviation } from "./statistics";
+import { type ResampledFold, repeatedStratifiedKFold, safeFoldCount } from "./validation";
+
+// Sampling-ratio sweeps score every resampling technique at several target minority
+// ratios with repeated stratified CV on the training split. Every cell is evaluated on
+// the same folds, so the differences between cells come from the sampling alone.
+export const SWEEP_TECHNIQUES = RESAMPLING_TECHNIQUES.filter((technique) => technique !== "none");
+export const DEFAULT_SWEEP_RATIOS = [0.25, 0.5, 0.75, 1];
+
+export const SWEEP_METRICS = ["mcc", "recall", "pf", "gMean", "f1Score", "prAuc", "aucRoc"] as const;
+export type SweepMetric = typeof SWEEP_METRICS[number];
+
+// Objectives use the tuning names; all of them are higher-is-better.
+export const SWEEP_OBJECTIVES = { mcc: "mcc", f1: "f1Score", g_mean: "gMean", pr_auc: "prAuc" } as const;
+export type SweepObjective = keyof typeof SWEEP_OBJECTIVES;
+
+export interface SweepCell {
+  technique: string;
+  // null for the unsampled baseline.
+  ratio: number | null;
+  // Mean minority/majority ratio of the resampled training folds. Below the requested
+  // ratio when the data already met it or a cleaning step removed rows.
+  achievedRatio: number | null;
+  evaluations: number;
+  metrics: Record<SweepMetric, { mean: number; std: number } | null>;
+  notes: string[];
+  error?: string;
+}
+
+export interface SweepRecommendation {
+  technique: string;
+  ratio: number | null;
+  objective: SweepObjective;
+  score: number;
+  pf: number | null;
+  baselineScore: number | null;
+}
+
+// Repeated stratified folds over the training split, holding out the same 20% as
+// trainNodePipeline. Fold indices are dataset rows.
+export function sweepFolds(y: number[], hyperparameters: Record<string, any>, folds: number, repeats: number): ResampledFold[] {
+  const rng = createRng(resolveSeed(hyperparameters));
+  const { train } = stratifiedTrainTestSplit(y, 0.2, rng);
+  const labels = takeRows(y, train);
+  return repeatedStratifiedKFold(labels, safeFoldCount(labels, folds), repeats, rng).map((fold) => ({
+    ...fold,
+    train: takeRows(train, fold.train),
+    test: takeRows(train, fold.test),
+  }));
+}
+
+// Scores one technique/ratio cell. Threshold metrics use the default 0.5 cut-off, as
+// tuning trials do.
+export async function evaluateSweepCell(
+  data: TabularDataset,
+  folds: ResampledFold[],
+  algorithm: string,
+  hyperparameters: Record<string, any>,
+  technique: string,
+  ratio: number | null,
+  checkpoint?: Checkpoint
+): Promise<SweepCell> {
+  const seed = resolveSeed(hyperparameters);
+  const engineAlgorithm = resolveEngineAlgorithm(algorithm);
+  const params = { ...hyperparameters, sampling_technique: technique, sampling_ratio: ratio ?? undefined };
+  const perFold: Record<SweepMetric, number | null>[] = [];
+  const achieved: number[] = [];
+  const notes = new Set<string>();
+
+  for (const fold of folds) {
+    const fitted = await fitAndScore(data.X, data.y, fold.train, fold.test, engineAlgorithm, params, seed, checkpoint);
+    const labels = takeRows(data.y, fold.test);
+    const { mcc, recall, pf, gMean, f1Score } = metricsFromCounts(confusionCounts(labels, applyThreshold(fitted.scores)));
+    perFold.push({
+      mcc,
+      recall,
+      pf,
+      gMean,
+      f1Score,
+      prAuc: averagePrecision(labels, fitted.scores),
+      aucRoc: rocAuc(labels, fitted.scores),
+    });
+    const { after, minorityClass } = fitted.samplingReport;
+    const majority = minorityClass === 1 ? after["0"] : after["1"];
+    if (majority > 0) achieved.push((minorityClass === 1 ? after["1"] : after["0"]) / majority);
+    fitted.samplingReport.notes.forEach((note) => notes.add(note));
+  }
+
+  const metrics = Object.fromEntries(
+    SWEEP_METRICS.map((name) => {
+      const values = perFold.map((fold) => fold[name]).filter((v): v is number => v !== null);
+      return [name, values.length > 0 ? { mean: mean(values), std: standardDeviation(values) } : null];
+    })
+  ) as SweepCell["metrics"];
+  return {
+    technique,
+    ratio,
+    achievedRatio: achieved.length > 0 ? mean(achieved) : null,
+    evaluations: perFold.length,
+    metrics,
+    notes: Array.from(notes),
+  };
+}
+
+// The cell with the best mean objective, the baseline included; near-ties go to the
+// lower false alarm rate.
+export function recommendSweepCell(cells: SweepCell[], objective: SweepObjective): SweepRecommendation | null {
+  const key = SWEEP_OBJECTIVES[objective];
+  const pf = (cell: SweepCell) => cell.metrics.pf?.mean ?? Infinity;
+  let best: SweepCell | null = null;
+  for (const cell of cells) {
+    const score = cell.metrics[key]?.mean;
+    if (score === undefined) continue;
+    const bestScore = best?.metrics[key]?.mean ?? -Infinity;
+    if (score > bestScore + 1e-9 || (Math.abs(score - bestScore) <= 1e-9 && best && pf(cell) < pf(best))) {
+      best = cell;
+    }
+  }
+  if (!best) return null;
+  const baseline = cells.find((cell) => cell.technique === "none");
+  return {
+    technique: best.technique,
+    ratio: best.ratio,
+    objective,
+    score: best.metrics[key]!.mean,
+    pf: best.metrics.pf?.mean ?? null,
+    baselineScore: baseline?.metrics[key]?.mean ?? null,
+  };
+}
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { resolveThresholdOptions, selectThreshold, thresholdSweep } from "./thresholds";
+
+const labels = [1, 1, 0, 1, 0, 0];
+const scores = [0.9, 0.8, 0.7, 0.6, 0.3, 0.1];
+
+describe("thresholdSweep", () => {
+  it("walks every distinct score from the top, after the predict-nothing point", () => {
+    const sweep = thresholdSweep(labels, scores);
+    assert.deepEqual(
+      sweep.map(({ tp, fp }) => [tp, fp]),
+      [
+        [0, 0],
+        [1, 0],
+        [2, 0],
+        [2, 1],
+        [3, 1],
+        [3, 2],
+        [3, 3],
+      ]
+    );
+    assert.ok(sweep[0].threshold > 1);
+  });
+
+  it("groups tied scores into one cut-off", () => {
+    assert.equal(thresholdSweep([1, 0, 1], [0.5, 0.5, 0.2]).length, 3);
+  });
+});
+
+describe("selectThreshold", () => {
+  it("maximises F1", () => {
+    const selection = selectThreshold(labels, scores, { strategy: "max_f1", costRatio: 1, threshold: 0.5 });
+    assert.equal(selection.threshold, 0.6);
+    assert.equal(selection.metrics.f1Score, 6 / 7);
+    assert.equal(selection.evaluated, 6);
+  });
+
+  it("keeps the highest threshold on ties", () => {
+    // Youden's J is 2/3 at both 0.8 and 0.6.
+    const selection = selectThreshold(labels, scores, { strategy: "youden_j", costRatio: 1, threshold: 0.5 });
+    assert.equal(selection.threshold, 0.8);
+  });
+
+  it("minimises the expected cost for the given cost ratio", () => {
+    const missesExpensive = selectThreshold(labels, scores, { strategy: "min_cost", costRatio: 5, threshold: 0.5 });
+    assert.equal(missesExpensive.threshold, 0.6);
+    assert.equal(missesExpensive.metrics.expectedCost, 1 / 6);
+    const alarmsExpensive = selectThreshold(labels, scores, { strategy: "min_cost", costRatio: 0.1, threshold: 0.5 });
+    assert.equal(alarmsExpensive.threshold, 0.8);
+  });
+
+  it("scores a fixed cut-off as given", () => {
+    const selection = selectThreshold(labels, scores, { strategy: "fixed", costRatio: 1, threshold: 0.5 });
+    assert.equal(selection.threshold, 0.5);
+    assert.deepEqual(
+      [selection.metrics.tp, selection.metrics.fp, selection.metrics.tn, selection.metrics.fn],
+      [3, 1, 2, 0]
+    );
+  });
+
+  it("clips the predict-nothing point to 1", () => {
+    const selection = selectThreshold([0, 0], [0.4, 0.2], { strategy: "max_f1", costRatio: 1, threshold: 0.5 });
+    assert.equal(selection.threshold, 1);
+  });
+});
+
+describe("resolveThresholdOptions", () => {
+  it("falls back to a fixed 0.5 cut-off with unit cost", () => {
+    assert.deepEqual(resolveThresholdOptions({}), { strategy: "fixed", costRatio: 1, threshold: 0.5 });
+    assert.deepEqual(
+      resolveThresholdOptions({ threshold_strategy: "bogus", threshold_cost_ratio: -1, decision_threshold: 2 }),
+      { strategy: "fixed", costRatio: 1, threshold: 1 }
+    );
+    assert.deepEqual(
+      resolveThresholdOptions({ threshold_strategy: "min_cost", threshold_cost_ratio: "4", decision_threshold: "0.3" }),
+      { strategy: "min_cost", costRatio: 4, threshold: 0.3 }
+    );
+  });
+});
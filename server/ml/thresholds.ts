@@ -0,0 +1,134 @@
+import { type ConfusionCounts, gMean, metricsFromCounts } from "./metrics";
+
+export const THRESHOLD_STRATEGIES = ["fixed", "max_f1", "max_mcc", "max_gmean", "youden_j", "min_cost"] as const;
+export type ThresholdStrategy = typeof THRESHOLD_STRATEGIES[number];
+
+export interface ThresholdOptions {
+  strategy: ThresholdStrategy;
+  // Cost of a missed defect relative to a false alarm (C_FN / C_FP), for "min_cost".
+  costRatio: number;
+  // Cut-off used by the "fixed" strategy.
+  threshold: number;
+}
+
+export interface ThresholdPoint extends ConfusionCounts {
+  threshold: number;
+  precision: number;
+  recall: number;
+  specificity: number;
+  f1Score: number;
+  mcc: number;
+  gMean: number;
+  youdenJ: number;
+  // (costRatio * FN + FP) / n
+  expectedCost: number;
+}
+
+export interface ThresholdSelection {
+  strategy: ThresholdStrategy;
+  costRatio: number;
+  threshold: number;
+  // Out-of-fold rows the threshold was chosen on.
+  evaluated: number;
+  metrics: ThresholdPoint;
+}
+
+// Same hyperparameter names as the Python pipeline.
+export function resolveThresholdOptions(hyperparameters: Record<string, any>): ThresholdOptions {
+  const strategy = (THRESHOLD_STRATEGIES as readonly string[]).includes(hyperparameters.threshold_strategy)
+    ? (hyperparameters.threshold_strategy as ThresholdStrategy)
+    : "fixed";
+  const costRatio = Number(hyperparameters.threshold_cost_ratio);
+  const threshold = Number(hyperparameters.decision_threshold);
+  return {
+    strategy,
+    costRatio: Number.isFinite(costRatio) && costRatio > 0 ? costRatio : 1,
+    threshold: Number.isFinite(threshold) ? Math.min(1, Math.max(0, threshold)) : 0.5,
+  };
+}
+
+export function thresholdPoint(counts: ConfusionCounts, threshold: number, costRatio: number): ThresholdPoint {
+  const { tp, fp, tn, fn } = counts;
+  const { precision, recall, f1Score, mcc } = metricsFromCounts(counts);
+  const specificity = tn + fp > 0 ? tn / (tn + fp) : 0;
+  const total = tp + fp + tn + fn;
+  return {
+    ...counts,
+    threshold,
+    precision,
+    recall,
+    specificity,
+    f1Score,
+    mcc,
+    gMean: gMean(counts),
+    youdenJ: recall + specificity - 1,
+    expectedCost: total > 0 ? (costRatio * fn + fp) / total : 0,
+  };
+}
+
+// Confusion counts at every distinct score used as the cut-off (score >= threshold is
+// positive), from the highest score down, plus the "predict nothing" point above it.
+export function thresholdSweep(labels: number[], scores: number[], costRatio = 1): ThresholdPoint[] {
+  const positives = labels.reduce((sum, label) => sum + (label === 1 ? 1 : 0), 0);
+  const negatives = labels.length - positives;
+  const order = scores.map((s, i) => [s, i] as const).sort((a, b) => b[0] - a[0]);
+
+  const points = [thresholdPoint({ tp: 0, fp: 0, tn: negatives, fn: positives }, 1 + 1e-9, costRatio)];
+  let tp = 0;
+  let fp = 0;
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j < order.length && order[j][0] === order[i][0]) {
+      if (labels[order[j][1]] === 1) tp++;
+      else fp++;
+      j++;
+    }
+    points.push(thresholdPoint({ tp, fp, tn: negatives - fp, fn: positives - tp }, order[i][0], costRatio));
+    i = j;
+  }
+  return points;
+}
+
+function objective(point: ThresholdPoint, strategy: ThresholdStrategy): number {
+  switch (strategy) {
+    case "max_f1":
+      return point.f1Score;
+    case "max_mcc":
+      return point.mcc;
+    case "max_gmean":
+      return point.gMean;
+    case "youden_j":
+      return point.youdenJ;
+    case "min_cost":
+      return -point.expectedCost;
+    default:
+      return 0;
+  }
+}
+
+// Picks the cut-off for `strategy` on out-of-fold scores. Ties keep the highest threshold.
+export function selectThreshold(labels: number[], scores: number[], options: ThresholdOptions): ThresholdSelection {
+  let best: ThresholdPoint;
+  if (options.strategy === "fixed") {
+    const counts = { tp: 0, fp: 0, tn: 0, fn: 0 };
+    labels.forEach((label, i) => {
+      const predicted = scores[i] >= options.threshold;
+      if (predicted) label === 1 ? counts.tp++ : counts.fp++;
+      else label === 1 ? counts.fn++ : counts.tn++;
+    });
+    best = thresholdPoint(counts, options.threshold, options.costRatio);
+  } else {
+    const sweep = thresholdSweep(labels, scores, options.costRatio);
+    best = sweep.reduce((winner, point) =>
+      objective(point, options.strategy) > objective(winner, options.strategy) ? point : winner
+    );
+    best = { ...best, threshold: Math.min(1, best.threshold) };
+  }
+  return {
+    strategy: options.strategy,
+    costRatio: options.costRatio,
+    threshold: best.threshold,
+    evaluated: labels.length,
+    metrics: best,
+  };
+}
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Matrix } from "./dataset";
+import { type ProjectSample, alignProjects, applyTransfer, burakFilter, petersFilter } from "./transfer";
+
+function project(
+  name: string,
+  featureNames: string[],
+  X: Matrix,
+  encodings: Record<string, string[]> = {}
+): ProjectSample {
+  return { datasetId: name, name, featureNames, targetColumn: "defects", X, y: null, encodings };
+}
+
+function meanGap(source: Matrix, target: Matrix): number {
+  const mean = (X: Matrix, j: number) => X.reduce((sum, row) => sum + row[j], 0) / X.length;
+  return Math.hypot(...source[0].map((_, j) => mean(source, j) - mean(target, j)));
+}
+
+describe("alignProjects", () => {
+  it("keeps the shared numeric columns in target order", () => {
+    const aligned = alignProjects(
+      [project("a", ["loc", "v(g)", "branches"], [[10, 2, 4]])],
+      project("b", ["v(g)", "lang", "loc"], [[3, 0, 20]], { lang: ["c", "java"] })
+    );
+    assert.deepEqual(aligned.features, ["v(g)", "loc"]);
+    assert.deepEqual(aligned.dropped, ["branches", "lang"]);
+    assert.deepEqual(aligned.sources, [[[2, 10]]]);
+    assert.deepEqual(aligned.target, [[3, 20]]);
+  });
+
+  it("rejects projects without a shared numeric column", () => {
+    assert.throws(() => alignProjects([project("a", ["loc"], [[1]])], project("b", ["nloc"], [[1]])), /share no/);
+  });
+});
+
+describe("burakFilter", () => {
+  it("keeps the union of every target module's nearest source modules", () => {
+    const source = [[0], [1], [2], [10], [11]];
+    assert.deepEqual(burakFilter(source, [[0.4], [10.6]], 2), [0, 1, 3, 4]);
+    assert.deepEqual(burakFilter(source, [[0.1], [0.2]], 1), [0]);
+    assert.deepEqual(burakFilter(source, [[0]], 9), [0, 1, 2, 3, 4]);
+  });
+});
+
+describe("petersFilter", () => {
+  it("keeps the closest source module among those picking each target module", () => {
+    // 0, 1 and 5 pick 0.8, 9 picks 9.5; nothing picks 100.
+    assert.deepEqual(petersFilter([[0], [1], [5], [9]], [[0.8], [9.5], [100]]), [1, 3]);
+  });
+});
+
+describe("tca", () => {
+  it("moves the projected source and target means closer than the standardized ones", () => {
+    // The projects differ by a shift in `loc`; the variance lies along `v(g)`.
+    const source = [
+      [0, -2],
+      [0.5, -1],
+      [-0.5, 0],
+      [0, 1],
+      [0.2, 2],
+    ];
+    const target = source.map(([loc, vg]) => [loc + 3, vg + 0.1]);
+    const aligned = alignProjects([project("a", ["loc", "v(g)"], source)], project("b", ["loc", "v(g)"], target));
+    const sources = [{ X: aligned.sources[0], y: [0, 1, 0, 1, 0] }];
+
+    const options = { neighbors: 10, components: 1, mu: 1 };
+    const standardized = applyTransfer(sources, aligned.target, { ...options, method: "none" });
+    const projected = applyTransfer(sources, aligned.target, { ...options, method: "tca" });
+    assert.equal(projected.projection?.length, 2);
+    assert.equal(projected.X[0].length, 1);
+    assert.ok(
+      meanGap(projected.X, projected.targetX) < meanGap(standardized.X, standardized.targetX) / 10,
+      `${meanGap(projected.X, projected.targetX)} vs ${meanGap(standardized.X, standardized.targetX)}`
+    );
+  });
+});
@@ -0,0 +1,525 @@
+import { type Matrix, type SerializedScaler, StandardScaler, takeRows } from "./dataset";
+import {
+  type Checkpoint,
+  type EngineAlgorithm,
+  createClassifier,
+  fitClassifier,
+  resolveEngineAlgorithm,
+} from "./classifiers";
+import {
+  applyCalibrator,
+  calibrationReport,
+  fitCalibrator,
+  resolveCalibrationMethod,
+} from "./calibration";
+import { type EffortMetrics, effortAwareEvaluation, summarizeEffort } from "./effort";
+import { cholesky, matmul, symmetricEigen, transpose } from "./linalg";
+import {
+  type BinaryMetrics,
+  type ClassificationReport,
+  applyThreshold,
+  classificationReport,
+  computeBinaryMetrics,
+} from "./metrics";
+import {
+  type CalibrationSummary,
+  type FoldMetrics,
+  type NodeModelArtifact,
+  type ValidationSummary,
+  classShare,
+  resolveSamplingOptions,
+  resolveSeed,
+  summarizeFolds,
+  validationMeans,
+} from "./pipeline";
+import { createRng } from "./random";
+import { type ResamplingReport, resample } from "./resampling";
+import { type ThresholdSelection, resolveThresholdOptions, selectThreshold } from "./thresholds";
+import { buildValidationFolds, resolveValidationConfig } from "./validation";
+
+// Cross-project defect prediction: train on labelled source projects, score a target project.
+//   zscore  each project standardized with its own statistics
+//   burak   keep the k nearest source modules of every target module (Turhan et al., 2009)
+//   peters  source modules pick their nearest target module; each target module keeps the
+//           closest of its pickers (Peters et al., 2013)
+//   tca     linear Transfer Component Analysis (Pan et al., 2011): components that keep the
+//           pooled variance while shrinking the source/target mean gap
+export const TRANSFER_METHODS = ["none", "zscore", "burak", "peters", "tca"] as const;
+export type TransferMethod = typeof TRANSFER_METHODS[number];
+
+export interface TransferOptions {
+  method: TransferMethod;
+  // Burak filter: source modules kept per target module.
+  neighbors: number;
+  // TCA: number of transfer components and the weight μ of their norm.
+  components: number;
+  mu: number;
+}
+
+export interface ProjectSample {
+  datasetId: string;
+  name: string;
+  featureNames: string[];
+  targetColumn: string | null;
+  X: Matrix;
+  // Null for a target project without defect labels.
+  y: number[] | null;
+  encodings: Record<string, string[]>;
+}
+
+export interface AlignedProjects {
+  features: string[];
+  dropped: string[];
+  sources: Matrix[];
+  target: Matrix;
+}
+
+export interface TransferResult {
+  // Source modules kept for training, in the space the classifier sees.
+  X: Matrix;
+  y: number[];
+  // Positions of those modules among the pooled source rows.
+  selected: number[];
+  targetX: Matrix;
+  // Raw target rows reach the classifier's space through the scaler, then the projection.
+  scaler: SerializedScaler;
+  projection: Matrix | null;
+}
+
+export interface CrossProjectReport {
+  transfer: TransferMethod;
+  neighbors: number | null;
+  components: number | null;
+  mu: number | null;
+  sources: { datasetId: string; name: string; rows: number; defectRate: number }[];
+  target: { datasetId: string; name: string; rows: number; labelled: boolean; defectRate: number | null };
+  features: string[];
+  droppedFeatures: string[];
+  trainingRows: number;
+  // Within-source out-of-fold AUC, to contrast with the target evaluation.
+  sourceAucRoc: number | null;
+  predictedDefects: number;
+}
+
+// Headline metrics are measured on the target's labels and stay null without them.
+export interface CrossProjectResult {
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+  f1Score: number | null;
+  mcc: number | null;
+  aucRoc: number | null;
+  balancedAccuracy: number | null;
+  gMean: number | null;
+  prAuc: number | null;
+  pf: number | null;
+  specificity: number | null;
+  f2Score: number | null;
+  confusionMatrix: number[][] | null;
+  classificationReport: ClassificationReport | null;
+  featureImportance: Record<string, number>;
+  validationMetrics: Record<string, number | null>;
+  validationSummary: ValidationSummary;
+  foldMetrics: FoldMetrics[];
+  holdoutMetrics: Omit<BinaryMetrics, "confusionMatrix"> | null;
+  samplingReport: ResamplingReport;
+  outOfFoldScores: { labels: number[]; scores: number[] };
+  decisionThreshold: number;
+  thresholdSelection: ThresholdSelection;
+  popt: number | null;
+  accAt20: number | null;
+  ifa: number | null;
+  effortMetrics: EffortMetrics | null;
+  brierScore: number | null;
+  expectedCalibrationError: number | null;
+  calibration: CalibrationSummary | null;
+  crossProject: CrossProjectReport;
+}
+
+export interface CrossProjectConfig {
+  algorithm: string;
+  hyperparameters?: Record<string, any> | null;
+  sizeColumn?: string | null;
+  transfer: TransferOptions;
+  checkpoint?: Checkpoint;
+}
+
+const defectRate = (y: number[]) => (y.length > 0 ? y.filter((label) => label === 1).length / y.length : 0);
+
+function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let j = 0; j < a.length; j++) sum += (a[j] - b[j]) ** 2;
+  return sum;
+}
+
+function columnMeans(X: Matrix): number[] {
+  const means = new Array<number>(X[0]?.length ?? 0).fill(0);
+  for (const row of X) row.forEach((value, j) => (means[j] += value / X.length));
+  return means;
+}
+
+// Shared numeric columns only: label-encoded columns have project-specific levels.
+export function alignProjects(sources: ProjectSample[], target: ProjectSample): AlignedProjects {
+  const projects = [...sources, target];
+  const categorical = new Set(projects.flatMap((project) => Object.keys(project.encodings)));
+  const features = target.featureNames.filter(
+    (name) => !categorical.has(name) && sources.every((source) => source.featureNames.includes(name))
+  );
+  if (features.length === 0) {
+    throw new Error("Source and target datasets share no numeric feature columns");
+  }
+  const dropped = Array.from(new Set(projects.flatMap((project) => project.featureNames)))
+    .filter((name) => !features.includes(name))
+    .sort();
+  const select = (project: ProjectSample) => {
+    const indices = features.map((name) => project.featureNames.indexOf(name));
+    return project.X.map((row) => indices.map((j) => row[j]));
+  };
+  return { features, dropped, sources: sources.map(select), target: select(target) };
+}
+
+export function burakFilter(source: Matrix, target: Matrix, neighbors: number): number[] {
+  const k = Math.min(neighbors, source.length);
+  const kept = new Set<number>();
+  for (const row of target) {
+    const nearest: { index: number; distance: number }[] = [];
+    source.forEach((candidate, index) => {
+      const distance = squaredDistance(row, candidate);
+      if (nearest.length === k && distance >= nearest[k - 1].distance) return;
+      let position = nearest.length;
+      while (position > 0 && nearest[position - 1].distance > distance) position--;
+      nearest.splice(position, 0, { index, distance });
+      if (nearest.length > k) nearest.pop();
+    });
+    nearest.forEach(({ index }) => kept.add(index));
+  }
+  return Array.from(kept).sort((a, b) => a - b);
+}
+
+export function petersFilter(source: Matrix, target: Matrix): number[] {
+  const closest = new Map<number, { index: number; distance: number }>();
+  source.forEach((row, index) => {
+    let pick = 0;
+    let best = Number.POSITIVE_INFINITY;
+    target.forEach((candidate, t) => {
+      const distance = squaredDistance(row, candidate);
+      if (distance < best) {
+        best = distance;
+        pick = t;
+      }
+    });
+    const current = closest.get(pick);
+    if (!current || best < current.distance) closest.set(pick, { index, distance: best });
+  });
+  return Array.from(closest.values(), ({ index }) => index).sort((a, b) => a - b);
+}
+
+// Primal linear TCA on standardized rows: the leading generalized eigenvectors of the
+// pooled covariance against δδᵀ + μI, where δ is the source/target mean gap. Components
+// are scaled to unit variance over the pooled rows.
+export function tcaProjection(source: Matrix, target: Matrix, components: number, mu: number): Matrix {
+  const pooled = [...source, ...target];
+  const d = pooled[0].length;
+  const meanSource = columnMeans(source);
+  const meanTarget = columnMeans(target);
+  const mean = columnMeans(pooled);
+  const delta = meanSource.map((value, j) => value - meanTarget[j]);
+
+  const covariance: Matrix = Array.from({ length: d }, () => new Array(d).fill(0));
+  for (const row of pooled) {
+    for (let i = 0; i < d; i++) {
+      const ci = row[i] - mean[i];
+      for (let j = i; j < d; j++) covariance[i][j] += (ci * (row[j] - mean[j])) / pooled.length;
+    }
+  }
+  for (let i = 0; i < d; i++) for (let j = 0; j < i; j++) covariance[i][j] = covariance[j][i];
+  const penalty = delta.map((di, i) => delta.map((dj, j) => di * dj + (i === j ? mu : 0)));
+
+  // With penalty = L Lᵀ the problem becomes the symmetric L⁻¹ C L⁻ᵀ.
+  const L = cholesky(penalty);
+  const Linv: Matrix = Array.from({ length: d }, () => new Array(d).fill(0));
+  for (let col = 0; col < d; col++) {
+    for (let i = col; i < d; i++) {
+      let sum = i === col ? 1 : 0;
+      for (let k = col; k < i; k++) sum -= L[i][k] * Linv[k][col];
+      Linv[i][col] = sum / L[i][i];
+    }
+  }
+  const LinvT = transpose(Linv);
+  const { values, vectors } = symmetricEigen(matmul(matmul(Linv, covariance), LinvT));
+  const kept = values.map((value, k) => ({ value, k })).filter(({ value }) => value > 1e-10).slice(0, components);
+  if (kept.length === 0) {
+    throw new Error("TCA found no components with variance; the source rows are constant");
+  }
+  const directions = matmul(LinvT, vectors);
+  return directions.map((row) => kept.map(({ value, k }) => row[k] / Math.sqrt(value)));
+}
+
+export function applyTransfer(
+  sources: { X: Matrix; y: number[] }[],
+  target: Matrix,
+  options: TransferOptions
+): TransferResult {
+  const pooledX = sources.flatMap((source) => source.X);
+  const pooledY = sources.flatMap((source) => source.y);
+  const everyRow = pooledX.map((_, i) => i);
+
+  if (options.method === "zscore") {
+    const targetScaler = new StandardScaler().fit(target);
+    return {
+      X: sources.flatMap((source) => new StandardScaler().fitTransform(source.X)),
+      y: pooledY,
+      selected: everyRow,
+      targetX: targetScaler.transform(target),
+      scaler: targetScaler.toJSON(),
+      projection: null,
+    };
+  }
+
+  const scaler = new StandardScaler().fit(pooledX);
+  const sourceX = scaler.transform(pooledX);
+  const targetX = scaler.transform(target);
+  if (options.method === "tca") {
+    const projection = tcaProjection(sourceX, targetX, options.components, options.mu);
+    return {
+      X: matmul(sourceX, projection),
+      y: pooledY,
+      selected: everyRow,
+      targetX: matmul(targetX, projection),
+      scaler: scaler.toJSON(),
+      projection,
+    };
+  }
+
+  const selected =
+    options.method === "burak"
+      ? burakFilter(sourceX, targetX, options.neighbors)
+      : options.method === "peters"
+        ? petersFilter(sourceX, targetX)
+        : everyRow;
+  return {
+    X: takeRows(sourceX, selected),
+    y: takeRows(pooledY, selected),
+    selected,
+    targetX,
+    scaler: scaler.toJSON(),
+    projection: null,
+  };
+}
+
+// Rows are already in the transfer space, so only resampling and the classifier are fitted.
+async function fitTransferred(
+  X: Matrix,
+  y: number[],
+  test: Matrix,
+  algorithm: EngineAlgorithm,
+  hyperparameters: Record<string, any>,
+  seed: number,
+  checkpoint?: Checkpoint
+) {
+  const sampled = resample(X, y, resolveSamplingOptions(hyperparameters, seed));
+  const classifier = createClassifier(algorithm, hyperparameters, seed);
+  await fitClassifier(classifier, sampled.X, sampled.y, checkpoint);
+  await checkpoint?.();
+  return { classifier, scores: classifier.predictProba(test), samplingReport: sampled.report };
+}
+
+// Threshold and calibrator come from out-of-fold scores on the source modules; the target's
+// labels, when present, are used for evaluation only.
+export async function trainCrossProjectPipeline(
+  sources: ProjectSample[],
+  target: ProjectSample,
+  config: CrossProjectConfig
+): Promise<{ result: CrossProjectResult; artifact: NodeModelArtifact }> {
+  const hyperparameters = config.hyperparameters ?? {};
+  const seed = resolveSeed(hyperparameters);
+  const engineAlgorithm = resolveEngineAlgorithm(config.algorithm);
+  const rng = createRng(seed);
+  const options = config.transfer;
+
+  const unlabelled = sources.find((source) => !source.y);
+  if (unlabelled) {
+    throw new Error(`Source dataset ${unlabelled.name} has no defect labels`);
+  }
+  const aligned = alignProjects(sources, target);
+  const transfer = applyTransfer(
+    aligned.sources.map((X, i) => ({ X, y: sources[i].y! })),
+    aligned.target,
+    options
+  );
+  const { X, y } = transfer;
+  if (new Set(y).size < 2) {
+    throw new Error(`The ${options.method} transfer left source modules of a single class to train on`);
+  }
+
+  const validationConfig = resolveValidationConfig(hyperparameters);
+  const folds = buildValidationFolds(y, validationConfig, rng);
+  const oofSum = new Array<number>(y.length).fill(0);
+  const oofCount = new Array<number>(y.length).fill(0);
+  const foldMetrics: FoldMetrics[] = [];
+  for (const fold of folds) {
+    const { scores } = await fitTransferred(
+      takeRows(X, fold.train),
+      takeRows(y, fold.train),
+      takeRows(X, fold.test),
+      engineAlgorithm,
+      hyperparameters,
+      seed,
+      config.checkpoint
+    );
+    fold.test.forEach((position, i) => {
+      oofSum[position] += scores[i];
+      oofCount[position]++;
+    });
+    const { confusionMatrix: _, ...metrics } = computeBinaryMetrics(takeRows(y, fold.test), scores);
+    foldMetrics.push({ repeat: fold.repeat, fold: fold.fold, ...metrics });
+  }
+  const testTrainRatio =
+    folds.reduce((sum, fold) => sum + fold.test.length / fold.train.length, 0) / Math.max(1, folds.length);
+  const validationSummary = summarizeFolds(foldMetrics, validationConfig, testTrainRatio);
+  const summaryMean = (name: keyof ValidationSummary["metrics"]) => validationSummary.metrics[name]?.mean ?? null;
+
+  const { classifier, scores: rawScores, samplingReport } = await fitTransferred(
+    X,
+    y,
+    transfer.targetX,
+    engineAlgorithm,
+    hyperparameters,
+    seed,
+    config.checkpoint
+  );
+
+  const held = oofCount.flatMap((count, position) => (count > 0 ? [position] : []));
+  const oofLabels = held.map((position) => y[position]);
+  const rawOutOfFold = held.map((position) => oofSum[position] / oofCount[position]);
+  const calibrator = fitCalibrator(resolveCalibrationMethod(hyperparameters), oofLabels, rawOutOfFold, {
+    training: classShare(samplingReport.after),
+    target: classShare(samplingReport.before),
+  });
+  const outOfFold = {
+    labels: oofLabels,
+    scores: applyCalibrator(calibrator, rawOutOfFold).map((score) => Math.round(score * 1e4) / 1e4),
+  };
+  const scores = applyCalibrator(calibrator, rawScores);
+  const thresholdSelection = selectThreshold(outOfFold.labels, outOfFold.scores, resolveThresholdOptions(hyperparameters));
+  const threshold = thresholdSelection.threshold;
+
+  const yTarget = target.y;
+  const evaluation = yTarget ? computeBinaryMetrics(yTarget, scores, threshold) : null;
+  const calibration: CalibrationSummary | null = yTarget
+    ? {
+        method: calibrator.method,
+        calibrator,
+        uncalibrated: calibrationReport(yTarget, rawScores),
+        calibrated: calibrationReport(yTarget, scores),
+      }
+    : null;
+
+  const sizeIndex = config.sizeColumn ? aligned.features.indexOf(config.sizeColumn) : -1;
+  const pooledRaw = aligned.sources.flat();
+  const effortMetrics =
+    yTarget && sizeIndex >= 0
+      ? summarizeEffort(
+          config.sizeColumn!,
+          effortAwareEvaluation(
+            outOfFold.labels,
+            outOfFold.scores,
+            held.map((position) => pooledRaw[transfer.selected[position]][sizeIndex])
+          ),
+          effortAwareEvaluation(yTarget, scores, aligned.target.map((row) => row[sizeIndex]))
+        )
+      : null;
+
+  // TCA importances are per component; spread them back over the features by loading.
+  const componentImportance = classifier.featureImportance();
+  const importances = transfer.projection
+    ? aligned.features.map((_, j) =>
+        transfer.projection![j].reduce((sum, loading, k) => sum + Math.abs(loading) * (componentImportance[k] ?? 0), 0)
+      )
+    : componentImportance;
+  const importanceTotal = transfer.projection ? importances.reduce((sum, value) => sum + value, 0) : 1;
+  const featureImportance = Object.fromEntries(
+    aligned.features.map((name, j) => [name, importanceTotal > 0 ? (importances[j] ?? 0) / importanceTotal : 0])
+  );
+
+  const { confusionMatrix = null, ...targetMetrics } = evaluation ?? {};
+  const predictedDefects = scores.filter((score) => score >= threshold).length;
+  const targetColumn = target.targetColumn ?? sources[0].targetColumn ?? "defects";
+  return {
+    result: {
+      accuracy: evaluation?.accuracy ?? null,
+      precision: evaluation?.precision ?? null,
+      recall: evaluation?.recall ?? null,
+      f1Score: evaluation?.f1Score ?? null,
+      mcc: evaluation?.mcc ?? null,
+      aucRoc: evaluation?.aucRoc ?? null,
+      balancedAccuracy: evaluation?.balancedAccuracy ?? null,
+      gMean: evaluation?.gMean ?? null,
+      prAuc: evaluation?.prAuc ?? null,
+      pf: evaluation?.pf ?? null,
+      specificity: evaluation?.specificity ?? null,
+      f2Score: evaluation?.f2Score ?? null,
+      confusionMatrix,
+      classificationReport: yTarget ? classificationReport(yTarget, applyThreshold(scores, threshold)) : null,
+      featureImportance,
+      validationMetrics: validationMeans(validationSummary),
+      validationSummary,
+      foldMetrics,
+      holdoutMetrics: evaluation ? (targetMetrics as Omit<BinaryMetrics, "confusionMatrix">) : null,
+      samplingReport,
+      outOfFoldScores: outOfFold,
+      decisionThreshold: threshold,
+      thresholdSelection,
+      popt: effortMetrics?.holdout.popt ?? null,
+      accAt20: effortMetrics?.holdout.acc ?? null,
+      ifa: effortMetrics?.holdout.ifa ?? null,
+      effortMetrics,
+      brierScore: calibration?.calibrated.brierScore ?? null,
+      expectedCalibrationError: calibration?.calibrated.expectedCalibrationError ?? null,
+      calibration,
+      crossProject: {
+        transfer: options.method,
+        neighbors: options.method === "burak" ? options.neighbors : null,
+        components: transfer.projection ? transfer.projection[0].length : null,
+        mu: options.method === "tca" ? options.mu : null,
+        sources: sources.map((source) => ({
+          datasetId: source.datasetId,
+          name: source.name,
+          rows: source.X.length,
+          defectRate: defectRate(source.y!),
+        })),
+        target: {
+          datasetId: target.datasetId,
+          name: target.name,
+          rows: target.X.length,
+          labelled: yTarget !== null,
+          defectRate: yTarget ? defectRate(yTarget) : null,
+        },
+        features: aligned.features,
+        droppedFeatures: aligned.dropped,
+        trainingRows: X.length,
+        sourceAucRoc: summaryMean("aucRoc"),
+        predictedDefects,
+      },
+    },
+    artifact: {
+      format: "node-engine",
+      version: 1,
+      algorithm: config.algorithm,
+      engineAlgorithm,
+      hyperparameters,
+      featureNames: aligned.features,
+      targetColumn,
+      encodings: {},
+      scaler: transfer.scaler,
+      projection: transfer.projection ?? undefined,
+      classifier: classifier.toJSON(),
+      calibrator,
+      threshold,
+      holdout: yTarget
+        ? { indices: yTarget.map((_, i) => i), labels: yTarget, scores }
+        : { indices: [], labels: [], scores: [] },
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,243 @@
+import type { EngineAlgorithm } from "./classifiers";
+import { averagePrecision, applyThreshold, confusionCounts, gMean, metricsFromCounts, rocAuc } from "./metrics";
+import { type Rng, gaussian, randomInt, sampleWithoutReplacement } from "./random";
+import { mean } from "./statistics";
+
+export const SEARCH_STRATEGIES = ["grid", "random", "tpe"] as const;
+export type SearchStrategy = typeof SEARCH_STRATEGIES[number];
+
+export const TUNING_OBJECTIVES = ["mcc", "f1", "g_mean", "pr_auc"] as const;
+export type TuningObjective = typeof TUNING_OBJECTIVES[number];
+
+export type ParameterValue = string | number | boolean | null;
+
+export type ParameterSpec =
+  | { type: "int"; low: number; high: number; log?: boolean }
+  | { type: "float"; low: number; high: number; log?: boolean }
+  | { type: "categorical"; values: ParameterValue[] };
+
+export type SearchSpace = Record<string, ParameterSpec>;
+export type TrialParams = Record<string, ParameterValue>;
+
+export interface TrialObservation {
+  params: TrialParams;
+  score: number;
+}
+
+// Hyperparameter names match createClassifier, so a trial's params can be passed
+// straight through as model hyperparameters.
+export const DEFAULT_SEARCH_SPACES: Record<EngineAlgorithm, SearchSpace> = {
+  logistic_regression: {
+    C: { type: "float", low: 0.001, high: 100, log: true },
+    class_weight: { type: "categorical", values: ["balanced", null] },
+  },
+  decision_tree: {
+    max_depth: { type: "int", low: 2, high: 20 },
+    min_samples_split: { type: "int", low: 2, high: 20 },
+    min_samples_leaf: { type: "int", low: 1, high: 20 },
+  },
+  random_forest: {
+    n_estimators: { type: "int", low: 25, high: 200 },
+    max_depth: { type: "int", low: 3, high: 20 },
+    min_samples_leaf: { type: "int", low: 1, high: 10 },
+    max_features: { type: "categorical", values: ["sqrt", "log2"] },
+  },
+  naive_bayes: {
+    var_smoothing: { type: "float", low: 1e-12, high: 1e-3, log: true },
+  },
+};
+
+export type TrialScores = Record<TuningObjective | "auc_roc", number | null>;
+
+// Averages each objective over the validation folds, like the fold means reported for
+// regular training. Threshold metrics use the default 0.5 cut-off.
+export function scoreFolds(folds: { labels: number[]; scores: number[] }[]): TrialScores {
+  const perFold = folds.map(({ labels, scores }) => {
+    const counts = confusionCounts(labels, applyThreshold(scores));
+    const { mcc, f1Score } = metricsFromCounts(counts);
+    return {
+      mcc,
+      f1: f1Score,
+      g_mean: gMean(counts),
+      pr_auc: averagePrecision(labels, scores),
+      auc_roc: rocAuc(labels, scores),
+    };
+  });
+  const average = (key: keyof TrialScores) => {
+    const values = perFold.map((fold) => fold[key]).filter((v): v is number => v !== null);
+    return values.length > 0 ? mean(values) : null;
+  };
+  return {
+    mcc: average("mcc"),
+    f1: average("f1"),
+    g_mean: average("g_mean"),
+    pr_auc: average("pr_auc"),
+    auc_roc: average("auc_roc"),
+  };
+}
+
+export function validateSearchSpace(space: SearchSpace): string | null {
+  const names = Object.keys(space);
+  if (names.length === 0) return "Search space is empty";
+  for (const name of names) {
+    const spec = space[name];
+    if (spec.type === "categorical") {
+      if (spec.values.length === 0) return `Parameter ${name} has no values`;
+      continue;
+    }
+    if (!(spec.low <= spec.high)) return `Parameter ${name} has low > high`;
+    if (spec.log && spec.low <= 0) return `Parameter ${name} needs a positive lower bound on a log scale`;
+  }
+  return null;
+}
+
+// Numeric parameters are searched in [0, 1] (log-scaled when requested) and mapped back.
+function toUnit(spec: Exclude<ParameterSpec, { type: "categorical" }>, value: number): number {
+  const [low, high, v] = spec.log
+    ? [Math.log(spec.low), Math.log(spec.high), Math.log(Math.max(value, spec.low))]
+    : [spec.low, spec.high, value];
+  return high > low ? Math.min(1, Math.max(0, (v - low) / (high - low))) : 0.5;
+}
+
+function fromUnit(spec: Exclude<ParameterSpec, { type: "categorical" }>, unit: number): number {
+  const u = Math.min(1, Math.max(0, unit));
+  const value = spec.log
+    ? Math.exp(Math.log(spec.low) + u * (Math.log(spec.high) - Math.log(spec.low)))
+    : spec.low + u * (spec.high - spec.low);
+  if (spec.type === "int") return Math.min(spec.high, Math.max(spec.low, Math.round(value)));
+  return Number(value.toPrecision(6));
+}
+
+function paramKey(params: TrialParams): string {
+  return JSON.stringify(Object.keys(params).sort().map((name) => [name, params[name]]));
+}
+
+// Cartesian grid with `pointsPerAxis` evenly spaced values per numeric parameter. When the
+// grid is larger than the budget, a seeded subset of `budget` points is evaluated.
+export function gridCandidates(space: SearchSpace, budget: number, rng: Rng, pointsPerAxis = 3): TrialParams[] {
+  const axes = Object.entries(space).map(([name, spec]) => {
+    if (spec.type === "categorical") return { name, values: spec.values };
+    const steps = Math.max(1, pointsPerAxis);
+    const values = Array.from({ length: steps }, (_, i) => fromUnit(spec, steps === 1 ? 0.5 : i / (steps - 1)));
+    return { name, values: Array.from(new Set(values)) };
+  });
+
+  let grid: TrialParams[] = [{}];
+  for (const axis of axes) {
+    grid = grid.flatMap((partial) => axis.values.map((value) => ({ ...partial, [axis.name]: value })));
+  }
+  if (grid.length <= budget) return grid;
+  return sampleWithoutReplacement(grid.length, budget, rng)
+    .sort((a, b) => a - b)
+    .map((index) => grid[index]);
+}
+
+export function sampleRandom(space: SearchSpace, rng: Rng): TrialParams {
+  return Object.fromEntries(
+    Object.entries(space).map(([name, spec]) => [
+      name,
+      spec.type === "categorical" ? spec.values[randomInt(rng, spec.values.length)] : fromUnit(spec, rng()),
+    ])
+  );
+}
+
+export interface TpeOptions {
+  // Random trials before the density model takes over.
+  startupTrials?: number;
+  // Fraction of observations treated as "good".
+  gamma?: number;
+  candidates?: number;
+}
+
+interface Density {
+  sample(rng: Rng): ParameterValue;
+  logDensity(value: ParameterValue): number;
+}
+
+function numericDensity(spec: Exclude<ParameterSpec, { type: "categorical" }>, values: ParameterValue[]): Density {
+  // A wide prior kernel at the centre keeps unexplored regions reachable.
+  const centres = [0.5, ...values.map((value) => toUnit(spec, Number(value)))];
+  const bandwidth = Math.max(0.05, Math.min(0.5, 1 / Math.sqrt(centres.length)));
+  const widths = centres.map((_, i) => (i === 0 ? 1 : bandwidth));
+  return {
+    sample: (rng) => {
+      const k = randomInt(rng, centres.length);
+      return fromUnit(spec, centres[k] + gaussian(rng) * widths[k]);
+    },
+    logDensity: (value) => {
+      const u = toUnit(spec, Number(value));
+      const density =
+        centres.reduce((sum, c, k) => sum + Math.exp(-0.5 * ((u - c) / widths[k]) ** 2) / widths[k], 0) /
+        centres.length;
+      return Math.log(density + 1e-12);
+    },
+  };
+}
+
+function categoricalDensity(spec: Extract<ParameterSpec, { type: "categorical" }>, values: ParameterValue[]): Density {
+  // Laplace smoothing: every category keeps a pseudo-count of one.
+  const weights = spec.values.map((option) => 1 + values.filter((value) => value === option).length);
+  const total = weights.reduce((a, b) => a + b, 0);
+  return {
+    sample: (rng) => {
+      let r = rng() * total;
+      for (let i = 0; i < weights.length; i++) {
+        r -= weights[i];
+        if (r <= 0) return spec.values[i];
+      }
+      return spec.values[spec.values.length - 1];
+    },
+    logDensity: (value) => {
+      const index = spec.values.indexOf(value);
+      return Math.log((index >= 0 ? weights[index] : 1) / total);
+    },
+  };
+}
+
+function buildDensity(spec: ParameterSpec, values: ParameterValue[]): Density {
+  return spec.type === "categorical" ? categoricalDensity(spec, values) : numericDensity(spec, values);
+}
+
+// Tree-structured Parzen estimator (Bergstra et al., 2011), maximising the score. The
+// observations are split into the best `gamma` fraction and the rest; candidates are drawn
+// from the density of the good ones and the one maximising l(x) / g(x) is proposed.
+// Parameters are modelled independently.
+export function suggestTpe(
+  space: SearchSpace,
+  history: TrialObservation[],
+  rng: Rng,
+  options: TpeOptions = {}
+): TrialParams {
+  const startupTrials = options.startupTrials ?? 5;
+  if (history.length < startupTrials) return sampleRandom(space, rng);
+
+  const sorted = [...history].sort((a, b) => b.score - a.score);
+  const goodCount = Math.max(1, Math.ceil((options.gamma ?? 0.25) * sorted.length));
+  const good = sorted.slice(0, goodCount);
+  const bad = sorted.slice(goodCount);
+
+  const models = Object.entries(space).map(([name, spec]) => ({
+    name,
+    good: buildDensity(spec, good.map((trial) => trial.params[name] ?? null)),
+    bad: buildDensity(spec, bad.map((trial) => trial.params[name] ?? null)),
+  }));
+
+  const seen = new Set(history.map((trial) => paramKey(trial.params)));
+  let best: TrialParams | null = null;
+  let bestRatio = -Infinity;
+  for (let c = 0; c < (options.candidates ?? 24); c++) {
+    const candidate: TrialParams = {};
+    let ratio = 0;
+    for (const model of models) {
+      const value = model.good.sample(rng);
+      candidate[model.name] = value;
+      ratio += model.good.logDensity(value) - model.bad.logDensity(value);
+    }
+    if (seen.has(paramKey(candidate))) continue;
+    if (ratio > bestRatio) {
+      bestRatio = ratio;
+      best = candidate;
+    }
+  }
+  return best ?? sampleRandom(space, rng);
+}
@@ -0,0 +1,100 @@
+import { classIndices } from "./dataset";
+import { type Rng, shuffleInPlace } from "./random";
+
+export interface Fold {
+  train: number[];
+  test: number[];
+}
+
+// Stratified k-fold over positions 0..y.length-1; each class is dealt round-robin across folds.
+export function stratifiedKFold(y: number[], k: number, rng: Rng): Fold[] {
+  const assignments = new Array<number>(y.length);
+  for (const group of classIndices(y)) {
+    const shuffled = shuffleInPlace([...group], rng);
+    const offset = Math.floor(rng() * k);
+    shuffled.forEach((idx, position) => {
+      assignments[idx] = (position + offset) % k;
+    });
+  }
+  return Array.from({ length: k }, (_, fold) => {
+    const train: number[] = [];
+    const test: number[] = [];
+    assignments.forEach((assigned, idx) => (assigned === fold ? test : train).push(idx));
+    return { train, test };
+  }).filter((fold) => fold.test.length > 0 && fold.train.length > 0);
+}
+
+// The Python pipeline caps folds by the minority count so every fold sees both classes.
+export function safeFoldCount(y: number[], requested: number): number {
+  const [negatives, positives] = classIndices(y);
+  const minority = Math.min(negatives.length, positives.length);
+  return minority >= 2 ? Math.max(2, Math.min(requested, minority)) : 2;
+}
+
+export const VALIDATION_STRATEGIES = ["stratified_kfold", "repeated_stratified_kfold", "bootstrap"] as const;
+export type ValidationStrategy = typeof VALIDATION_STRATEGIES[number];
+
+export interface ValidationConfig {
+  strategy: ValidationStrategy;
+  folds: number;
+  repeats: number;
+  iterations: number;
+}
+
+export interface ResampledFold extends Fold {
+  repeat: number;
+  fold: number;
+}
+
+// Reads the same hyperparameter names as the Python pipeline.
+export function resolveValidationConfig(hyperparameters: Record<string, any>): ValidationConfig {
+  const strategy = (VALIDATION_STRATEGIES as readonly string[]).includes(hyperparameters.validation_strategy)
+    ? (hyperparameters.validation_strategy as ValidationStrategy)
+    : "stratified_kfold";
+  const positiveInt = (value: unknown, fallback: number) => {
+    const parsed = Math.floor(Number(value));
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    strategy,
+    folds: positiveInt(hyperparameters.cv_folds, strategy === "repeated_stratified_kfold" ? 10 : 5),
+    repeats: strategy === "repeated_stratified_kfold" ? positiveInt(hyperparameters.cv_repeats, 10) : 1,
+    iterations: positiveInt(hyperparameters.bootstrap_iterations, 100),
+  };
+}
+
+export function repeatedStratifiedKFold(y: number[], k: number, repeats: number, rng: Rng): ResampledFold[] {
+  const folds: ResampledFold[] = [];
+  for (let repeat = 0; repeat < repeats; repeat++) {
+    stratifiedKFold(y, k, rng).forEach((fold, index) => folds.push({ ...fold, repeat, fold: index }));
+  }
+  return folds;
+}
+
+// Out-of-sample bootstrap: train on a per-class draw with replacement, test on the rows
+// never drawn. Drawing per class keeps both classes in every training sample.
+export function outOfSampleBootstrap(y: number[], iterations: number, rng: Rng): ResampledFold[] {
+  const folds: ResampledFold[] = [];
+  const groups = classIndices(y);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const train: number[] = [];
+    const drawn = new Set<number>();
+    for (const group of groups) {
+      for (let i = 0; i < group.length; i++) {
+        const idx = group[Math.floor(rng() * group.length)];
+        train.push(idx);
+        drawn.add(idx);
+      }
+    }
+    const test = y.map((_, idx) => idx).filter((idx) => !drawn.has(idx));
+    if (test.length > 0) folds.push({ train, test, repeat: iteration, fold: 0 });
+  }
+  return folds;
+}
+
+export function buildValidationFolds(y: number[], config: ValidationConfig, rng: Rng): ResampledFold[] {
+  if (config.strategy === "bootstrap") {
+    return outOfSampleBootstrap(y, config.iterations, rng);
+  }
+  return repeatedStratifiedKFold(y, safeFoldCount(y, config.folds), config.repeats, rng);
+}
@@ -1,13 +1,15 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer } from "ws";
 import multer from "multer";
 import fs from "fs";
 import path from "path";
 import { storage } from "./storage";
 import { 
   insertDatasetSchema, insertModelSchema, insertQuantumExperimentSchema,
-  insertRlAgentSchema, insertNlpAnalysisSchema
+  insertRlAgentSchema, insertNlpAnalysisSchema, resamplePreviewSchema, tuneModelSchema,
+  compareModelsSchema, modelThresholdSchema, datasetSizeColumnSchema, modelStageSchema, predictRowsSchema,
+  modelExportSchema, modelImportSchema, crossProjectConfigSchema, jitExtractionSchema, composeEnsembleSchema,
+  samplingSweepSchema, reproduceModelSchema, counterfactualRequestSchema, type InsertModel, type Model
 } from "@shared/schema";
 import { z } from "zod";
 import { MLService } from "./services/ml-service";
@@ -15,6 +17,29 @@ import { RLService } from "./services/rl-service";
 import { BlockchainService } from "./services/blockchain-service";
 import { NLPService } from "./services/nlp-service";
 import { CodeAnalysisService } from "./services/code-analysis-service";
+import { jobService, type JobContext } from "./services/job-service";
+import { realtime } from "./services/realtime-service";
+import { capabilities } from "./services/capability-service";
+import { pythonWorkers } from "./services/python-worker-pool";
+import { MonitoringService } from "./services/monitoring-service";
+import { TuningService } from "./services/tuning-service";
+import { SweepService } from "./services/sweep-service";
+import { ComparisonError, ComparisonService } from "./services/comparison-service";
+import { ModelRegistry, RegistryError, VERSION_BUMPS } from "./services/registry-service";
+import { ExportError, ExportService } from "./services/export-service";
+import { JitError, JitService } from "./services/jit-service";
+import { EnsembleError, EnsembleService } from "./services/ensemble-service";
+import { ManifestError, ManifestService } from "./services/manifest-service";
+import { ExplanationError, ExplanationService } from "./services/explanation-service";
+import {
+  PredictionError, PredictionService, rowsFromRecords, type PredictionInput
+} from "./services/prediction-service";
+import { buildAlgorithmCatalog, validateHyperparameters } from "./ml/catalog";
+import { parseCsv } from "./ml/dataset";
+import { validateSearchSpace } from "./ml/tuning";
+import { ENGINE_ALGORITHMS } from "./ml/classifiers";
+import { SWEEP_TECHNIQUES } from "./ml/sweep";
+import { selectThreshold } from "./ml/thresholds";
 
 // Ensure uploads directory exists
 const uploadDir = "uploads/";
@@ -30,9 +55,8 @@ const upload = multer({
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
-  // Initialize WebSocket server for real-time updates (temporarily disabled)
-  // const wss = new WebSocketServer({ server: httpServer });
-  const wss = { clients: new Set() } as any; // Mock for now
+  // Real-time event channel on /ws (model training, RL progress, datasets, monitoring, jobs)
+  realtime.attach(httpServer);
   
   // Initialize services
   const mlService = new MLService();
@@ -40,6 +64,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const blockchainService = new BlockchainService();
   const nlpService = new NLPService();
   const codeAnalysisService = new CodeAnalysisService();
+  const monitoringService = new MonitoringService();
+  const tuningService = new TuningService();
+  const sweepService = new SweepService();
+  const comparisonService = new ComparisonService();
+  const registry = new ModelRegistry();
+  const predictionService = new PredictionService(mlService, registry);
+  const exportService = new ExportService(mlService, registry);
+  const jitService = new JitService(mlService);
+  const ensembleService = new EnsembleService(mlService, registry);
+  const manifestService = new ManifestService(mlService, ensembleService);
+  const explanationService = new ExplanationService(mlService, registry);
+  monitoringService.start();
+  capabilities.probe();
+
+  // Train through the job queue so concurrency, cancellation and timeouts apply
+  const submitModelTraining = (
+    model: Model,
+    modelData: InsertModel,
+    train: (context: JobContext) => Promise<any> = (context) => mlService.trainModel(model.id, modelData, context)
+  ) =>
+    jobService.submit(
+      "model_training",
+      async (context) => {
+        await storage.updateModel(model.id, { trainingStatus: "training" });
+        try {
+          const manifest = await manifestService.prepare(model.id, modelData);
+          const results: any = await train(context);
+          context.throwIfCancelled();
+          const runManifest = manifestService.complete(manifest, results);
+          await storage.updateModel(model.id, {
+            trainingStatus: "completed",
+            ...results,
+            runManifest,
+            configHash: runManifest.configHash,
+          });
+          realtime.publish("models", "model_training_complete", {
+            modelId: model.id,
+            metricProvenance: results?.metricProvenance ?? null,
+            accuracy: results?.accuracy ?? null,
+            f1Score: results?.f1Score ?? null,
+          });
+          return { modelId: model.id, metricProvenance: results?.metricProvenance ?? null };
+        } catch (error) {
+          const trainingStatus = context.signal.aborted ? "cancelled" : "failed";
+          await storage.updateModel(model.id, { trainingStatus });
+          realtime.publish("models", `model_training_${trainingStatus}`, { modelId: model.id });
+          throw error;
+        }
+      },
+      { resourceId: model.id, payload: { algorithm: modelData.algorithm, datasetId: modelData.datasetId } }
+    );
 
   // Gemini-powered ML advice endpoint
   app.post("/api/ml/gemini-advice", async (req, res) => {
@@ -53,30 +128,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // WebSocket connection handling (temporarily disabled)
-  /*
-  wss.on("connection", (ws) => {
-    console.log("New WebSocket connection established");
-    
-    ws.on("message", async (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        // Handle real-time commands
-        switch (data.type) {
-          case "subscribe_monitoring":
-            // Subscribe to monitoring updates
-            break;
-          case "federated_node_register":
-            await federatedService.registerNode(data.nodeInfo);
-            break;
-        }
-      } catch (error) {
-        ws.send(JSON.stringify({ error: "Invalid message format" }));
-      }
-    });
-  });
-  */
-
   // Dataset routes
   app.get("/api/datasets", async (req, res) => {
     try {
@@ -106,7 +157,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { name, description } = req.body;
-      const analysis = await mlService.analyzeDataset(req.file.path) as any;
+      const filePath = req.file.path;
+      const job = await jobService.submit("dataset_analysis", (context) => mlService.analyzeDataset(filePath, context), {
+        payload: { fileName: req.file.originalname },
+      });
+      const finished = await jobService.waitFor(job.id);
+      if (finished.status !== "succeeded") {
+        return res.status(500).json({ error: finished.error || "Failed to analyze dataset", jobId: job.id });
+      }
+      const analysis = finished.result as any;
       
       const dataset = await storage.createDataset({
         name: name || req.file.originalname,
@@ -117,9 +176,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         columnCount: analysis.columnCount,
         features: analysis.features,
         targetColumn: analysis.suggestedTarget,
+        sizeColumn: analysis.suggestedSizeColumn ?? null,
         dataQuality: analysis.quality,
         preprocessingSteps: []
       });
+      realtime.publish("datasets", "dataset_created", { datasetId: dataset.id, name: dataset.name });
 
       res.json(dataset);
     } catch (error) {
@@ -128,58 +189,737 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Commit-level dataset mined from a local git repository; the dataset is created when the job finishes
+  app.post("/api/datasets/jit", async (req, res) => {
+    try {
+      const parsed = jitExtractionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid JIT extraction request" });
+      }
+      const request = parsed.data;
+      const repository = await jitService.resolveRepository(request.repositoryPath, request.revision);
+      const job = await jobService.submit("jit_extraction", (context) => jitService.extract(repository, request, context), {
+        payload: { repository, revision: request.revision, maxCommits: request.maxCommits },
+      });
+      res.status(202).json({ jobId: job.id, repository });
+    } catch (error) {
+      if (error instanceof JitError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('JIT extraction error:', error);
+      res.status(500).json({ error: "Failed to start JIT extraction" });
+    }
+  });
+
+  // Size column (e.g. LOC) for effort-aware metrics; null turns them off
+  app.patch("/api/datasets/:id/size-column", async (req, res) => {
+    try {
+      const parsed = datasetSizeColumnSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid size column" });
+      }
+      const dataset = await storage.getDataset(req.params.id);
+      if (!dataset) {
+        return res.status(404).json({ error: "Dataset not found" });
+      }
+      const { sizeColumn } = parsed.data;
+      const columns = Object.keys((dataset.features ?? {}) as Record<string, unknown>);
+      if (sizeColumn !== null && (sizeColumn === dataset.targetColumn || !columns.includes(sizeColumn))) {
+        return res.status(400).json({ error: `Unknown feature column: ${sizeColumn}` });
+      }
+      const updated = await storage.updateDataset(dataset.id, { sizeColumn });
+      realtime.publish("datasets", "dataset_updated", { datasetId: dataset.id, sizeColumn });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update size column" });
+    }
+  });
+
+  app.post("/api/datasets/:id/resample-preview", async (req, res) => {
+    try {
+      const options = resamplePreviewSchema.safeParse(req.body ?? {});
+      if (!options.success) {
+        return res.status(400).json({ error: "Invalid resampling options" });
+      }
+      const dataset = await storage.getDataset(req.params.id);
+      if (!dataset) {
+        return res.status(404).json({ error: "Dataset not found" });
+      }
+      const preview = await mlService.previewResampling(dataset, options.data);
+      res.json(preview);
+    } catch (error) {
+      console.error('Resampling preview error:', error);
+      res.status(500).json({ error: "Failed to preview resampling" });
+    }
+  });
+
   // Model training routes
   app.get("/api/models", async (req, res) => {
     try {
       const models = await storage.getAllModels();
-      res.json(models);
+      // Out-of-fold scores hold one entry per training row; only the detail route returns them.
+      res.json(models.map(({ outOfFoldScores: _, ...model }) => model));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch models" });
     }
   });
 
+  app.get("/api/models/:id", async (req, res) => {
+    try {
+      const model = await storage.getModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ error: "Model not found" });
+      }
+      res.json(model);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch model" });
+    }
+  });
+
+  // Decision threshold chosen on out-of-fold scores; prediction uses the stored threshold
+  app.post("/api/models/:id/threshold", async (req, res) => {
+    try {
+      const parsed = modelThresholdSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message ?? "Invalid threshold request" });
+      }
+      const model = await storage.getModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ error: "Model not found" });
+      }
+      const outOfFold = model.outOfFoldScores as { labels: number[]; scores: number[] } | null;
+      if (!outOfFold || outOfFold.labels.length === 0) {
+        return res.status(400).json({ error: "Model has no out-of-fold scores; retrain it with measured metrics" });
+      }
+      const { strategy, costRatio, threshold } = parsed.data;
+      const selection = selectThreshold(outOfFold.labels, outOfFold.scores, {
+        strategy,
+        costRatio,
+        threshold: threshold ?? model.decisionThreshold ?? 0.5,
+      });
+      await storage.updateModel(model.id, {
+        decisionThreshold: selection.threshold,
+        thresholdSelection: selection,
+      });
+      realtime.publish("models", "model_threshold_updated", { modelId: model.id, threshold: selection.threshold });
+      res.json(selection);
+    } catch (error) {
+      console.error('Threshold selection error:', error);
+      res.status(500).json({ error: "Failed to update decision threshold" });
+    }
+  });
+
+  // Algorithms and sampling techniques with their hyperparameter fields, ranges and documentation
+  app.get("/api/algorithms", async (req, res) => {
+    try {
+      res.json(buildAlgorithmCatalog(await mlService.algorithmDocumentation()));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch algorithm catalog" });
+    }
+  });
+
+  // ?refresh=true probes again, e.g. after installing packages.
+  app.get("/api/capabilities", async (req, res) => {
+    try {
+      const report = req.query.refresh === "true" ? await capabilities.probe() : await capabilities.current();
+      res.json({ ...report, workers: pythonWorkers.status() });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch capabilities" });
+    }
+  });
+
   app.post("/api/models/train", async (req, res) => {
     try {
-      const modelData = insertModelSchema.parse(req.body);
+      const bump = z.enum(VERSION_BUMPS).catch("minor").parse(req.body?.versionBump);
+      const config = insertModelSchema.parse(req.body);
+      const checked = validateHyperparameters(config.algorithm, config.hyperparameters);
+      if (!checked.success) {
+        return res.status(400).json({ error: checked.error });
+      }
+      config.hyperparameters = checked.hyperparameters;
+      // Cross-project mode: the model's dataset is the target, scored by a model trained on the sources
+      if (req.body?.crossProject) {
+        const parsed = crossProjectConfigSchema.safeParse(req.body.crossProject);
+        if (!parsed.success) {
+          return res.status(400).json({ error: "Cross-project training needs 1 to 20 source datasets and a known transfer method" });
+        }
+        const sourceIds = Array.from(new Set(parsed.data.sourceDatasetIds));
+        if (config.datasetId && sourceIds.includes(config.datasetId)) {
+          return res.status(400).json({ error: "The target dataset cannot also be a source" });
+        }
+        const sources = await Promise.all(sourceIds.map((id) => storage.getDataset(id)));
+        const missing = sourceIds.filter((_, i) => !sources[i]);
+        if (missing.length > 0) {
+          return res.status(404).json({ error: `Source dataset not found: ${missing.join(", ")}` });
+        }
+        config.crossProject = { ...parsed.data, sourceDatasetIds: sourceIds };
+      }
+      const modelData = await registry.register(config, bump);
       const model = await storage.createModel(modelData);
-      
-      // Start training asynchronously
-      mlService.trainModel(model.id, modelData)
-        .then(async (results: any) => {
-          await storage.updateModel(model.id, {
-            trainingStatus: "completed",
-            ...results
-          });
-          // Broadcast update via WebSocket
-          wss.clients.forEach((client: any) => {
-            client.send(JSON.stringify({
-              type: "model_training_complete",
-              modelId: model.id,
-              results
-            }));
-          });
-        })
-        .catch(async (error) => {
-          await storage.updateModel(model.id, {
-            trainingStatus: "failed"
-          });
+      const job = await submitModelTraining(model, modelData);
+      res.json({ ...model, jobId: job.id });
+    } catch (error) {
+      if (error instanceof RegistryError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Invalid model configuration" });
+    }
+  });
+
+  // Ensembles combine completed models of one dataset; they train as a model_training job
+  // and become a registry version of their own.
+  app.post("/api/models/ensemble", async (req, res) => {
+    try {
+      const parsed = composeEnsembleSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "An ensemble needs 2 to 10 member models and a known combination method" });
+      }
+      const request = parsed.data;
+      const bump = z.enum(VERSION_BUMPS).catch("minor").parse(req.body?.versionBump);
+      const { dataset, members } = await ensembleService.resolveMembers(request.memberIds);
+      const modelData = await registry.register(
+        {
+          name: request.name ?? `${members.map((member) => member.name).join(" + ")} (${request.method.replace("_", " ")})`,
+          algorithm: `${request.method}_ensemble`,
+          datasetId: dataset.id,
+          hyperparameters: request.hyperparameters ?? {},
+          trainingStatus: "pending",
+          family: request.family,
+          ensemble: { method: request.method, folds: request.folds, memberIds: members.map((member) => member.modelId) },
+        },
+        bump
+      );
+      const model = await storage.createModel(modelData);
+      const job = await submitModelTraining(model, modelData, (context) =>
+        ensembleService.compose(model.id, request, context)
+      );
+      res.json({ ...model, jobId: job.id });
+    } catch (error) {
+      if (error instanceof EnsembleError || error instanceof RegistryError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Ensemble composition error:', error);
+      res.status(500).json({ error: "Failed to compose ensemble" });
+    }
+  });
+
+  // Model registry: families of semantically versioned models, each in one stage
+  app.get("/api/registry/families", async (req, res) => {
+    try {
+      res.json(await registry.listFamilies());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch model registry" });
+    }
+  });
+
+  app.get("/api/registry/families/:family/production", async (req, res) => {
+    try {
+      res.json(await registry.resolvePredictionModel({ family: req.params.family }));
+    } catch (error) {
+      if (error instanceof RegistryError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to resolve production model" });
+    }
+  });
+
+  app.post("/api/models/:id/stage", async (req, res) => {
+    try {
+      const parsed = modelStageSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Stage must be staging, production or archived" });
+      }
+      res.json(await registry.transition(req.params.id, parsed.data.stage));
+    } catch (error) {
+      if (error instanceof RegistryError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Stage transition error:', error);
+      res.status(500).json({ error: "Failed to change model stage" });
+    }
+  });
+
+  // Batch scoring from JSON rows or an uploaded CSV. Uploads stream back as CSV with the
+  // prediction columns appended unless ?format=json; JSON rows answer in JSON unless ?format=csv.
+  const respondWithPredictions = async (
+    req: Request,
+    res: Response,
+    resolveModel: () => Promise<Model>
+  ) => {
+    try {
+      let input: PredictionInput;
+      if (req.file) {
+        const { header, rows } = parseCsv(await fs.promises.readFile(req.file.path, "utf8"));
+        input = { header, rows, filePath: req.file.path };
+      } else {
+        const parsed = predictRowsSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ error: "Send a CSV file or between 1 and 10000 JSON rows" });
+        }
+        input = rowsFromRecords(parsed.data.rows);
+      }
+
+      const model = await resolveModel();
+      const batch = await predictionService.predict(model, input);
+      const format = req.query.format === "json" || req.query.format === "csv"
+        ? req.query.format
+        : req.file ? "csv" : "json";
+      if (format === "json") {
+        return res.json(batch);
+      }
+      const stem = `${model.family ?? model.algorithm}-${model.version ?? model.id}`.replace(/[^\w.-]+/g, "_");
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${stem}-predictions.csv"`);
+      res.setHeader("X-Decision-Threshold", String(batch.threshold));
+      await predictionService.writeCsv(batch, input, res);
+    } catch (error) {
+      if (error instanceof PredictionError || error instanceof RegistryError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Prediction error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to score modules" });
+      } else {
+        res.end();
+      }
+    } finally {
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+      }
+    }
+  };
+
+  app.post("/api/models/:id/predict", upload.single("file"), (req, res) =>
+    respondWithPredictions(req, res, () => registry.resolvePredictionModel({ modelId: req.params.id }))
+  );
+
+  // Scores with whichever version of the family is in production
+  app.post("/api/registry/families/:family/predict", upload.single("file"), (req, res) =>
+    respondWithPredictions(req, res, () => registry.resolvePredictionModel({ family: req.params.family }))
+  );
+
+  app.get("/api/models/:id/artifact", async (req, res) => {
+    try {
+      const model = await storage.getModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ error: "Model not found" });
+      }
+      const artifact = await registry.artifactPath(model);
+      if (!artifact) {
+        return res.status(404).json({ error: "Model has no stored artifact" });
+      }
+      const family = (model.family ?? model.algorithm).replace(/[^\w.-]+/g, "_");
+      res.download(artifact, `${family}-${model.version ?? "1.0.0"}${path.extname(artifact)}`);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to download model artifact" });
+    }
+  });
+
+  app.get("/api/models/:id/manifest", async (req, res) => {
+    try {
+      const model = await storage.getModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ error: "Model not found" });
+      }
+      if (!model.runManifest) {
+        return res.status(404).json({ error: "Model has no run manifest" });
+      }
+      const family = (model.family ?? model.algorithm).replace(/[^\w.-]+/g, "_");
+      res.setHeader("Content-Disposition", `attachment; filename="${family}-${model.version ?? "1.0.0"}.manifest.json"`);
+      res.json(model.runManifest);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch run manifest" });
+    }
+  });
+
+  // Retrains from the run manifest and reports whether the metrics match within tolerance
+  app.post("/api/models/:id/reproduce", async (req, res) => {
+    try {
+      const parsed = reproduceModelSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Tolerance must be a number between 0 and 1" });
+      }
+      const model = await storage.getModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ error: "Model not found" });
+      }
+      if (model.trainingStatus !== "completed") {
+        return res.status(409).json({ error: "Only completed models can be reproduced" });
+      }
+      await manifestService.verify(model);
+
+      const job = await jobService.submit(
+        "model_reproduction",
+        async (context) => {
+          const report = await manifestService.reproduce(model, parsed.data.tolerance, context);
+          realtime.publish("models", "model_reproduced", { modelId: model.id, reproduced: report.reproduced });
+          return report;
+        },
+        { resourceId: model.id, payload: { algorithm: model.algorithm, datasetId: model.datasetId } }
+      );
+      res.status(202).json({ jobId: job.id, configHash: model.configHash });
+    } catch (error) {
+      if (error instanceof ManifestError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Model reproduction error:', error);
+      res.status(500).json({ error: "Failed to start reproduction" });
+    }
+  });
+
+  // Self-contained export (preprocessing, calibration and decision threshold included)
+  app.get("/api/models/:id/export", async (req, res) => {
+    try {
+      const parsed = modelExportSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Format must be onnx, pmml or json" });
+      }
+      const model = await storage.getModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ error: "Model not found" });
+      }
+      const exported = await exportService.exportModel(model, parsed.data.format);
+      res.setHeader("Content-Type", exported.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${exported.filename}"`);
+      res.send(exported.body);
+    } catch (error) {
+      if (error instanceof ExportError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Model export error:', error);
+      res.status(500).json({ error: "Failed to export model" });
+    }
+  });
+
+  // Registers a JSON model exported by this or another instance as a new version
+  app.post("/api/models/import", upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+      const parsed = modelImportSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid import options" });
+      }
+      const content = await fs.promises.readFile(req.file.path, "utf8");
+      res.json(await exportService.importModel(content, parsed.data));
+    } catch (error) {
+      if (error instanceof ExportError || error instanceof RegistryError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Model import error:', error);
+      res.status(500).json({ error: "Failed to import model" });
+    } finally {
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+      }
+    }
+  });
+
+  app.delete("/api/models/:id", async (req, res) => {
+    try {
+      const deleted = await registry.deleteModel(req.params.id);
+      explanationService.forget(req.params.id);
+      res.json(deleted);
+    } catch (error) {
+      if (error instanceof RegistryError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Model deletion error:', error);
+      res.status(500).json({ error: "Failed to delete model" });
+    }
+  });
+
+  // Statistical comparison on paired fold scores (Wilcoxon + Holm, Cliff's delta, Friedman/Nemenyi, Scott-Knott ESD)
+  app.post("/api/models/compare", async (req, res) => {
+    try {
+      const parsed = compareModelsSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Select between 2 and 20 models to compare" });
+      }
+      const modelIds = Array.from(new Set(parsed.data.modelIds));
+      const models = await Promise.all(modelIds.map((id) => storage.getModel(id)));
+      const missing = modelIds.filter((_, i) => !models[i]);
+      if (missing.length > 0) {
+        return res.status(404).json({ error: `Model not found: ${missing.join(", ")}` });
+      }
+      res.json(comparisonService.compareModels(models as Model[], parsed.data.metric));
+    } catch (error) {
+      if (error instanceof ComparisonError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Model comparison error:', error);
+      res.status(500).json({ error: "Failed to compare models" });
+    }
+  });
+
+  // Hyperparameter search: scores every trial, then trains the best configuration as a regular model
+  app.post("/api/models/tune", async (req, res) => {
+    try {
+      const parsed = tuneModelSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid tuning configuration" });
+      }
+      const request = parsed.data;
+      const algorithm = request.algorithm;
+      if (!tuningService.isTunable(algorithm)) {
+        return res.status(400).json({
+          error: `${algorithm} cannot be tuned: trials are scored with the Node engine, which implements ${ENGINE_ALGORITHMS.join(", ")}`,
         });
+      }
+      const dataset = await storage.getDataset(request.datasetId);
+      if (!dataset) {
+        return res.status(404).json({ error: "Dataset not found" });
+      }
+      const searchSpace = request.searchSpace ?? tuningService.defaultSearchSpace(algorithm);
+      const spaceError = validateSearchSpace(searchSpace);
+      if (spaceError) {
+        return res.status(400).json({ error: spaceError });
+      }
+      // Every searched name must be a hyperparameter of the algorithm, or the best trial could not be promoted.
+      const searchedNames = Object.fromEntries(Object.keys(searchSpace).map((name) => [name, undefined]));
+      const checked = validateHyperparameters(algorithm, { ...(request.hyperparameters ?? {}), ...searchedNames });
+      if (!checked.success) {
+        return res.status(400).json({ error: checked.error });
+      }
 
-      res.json(model);
+      const study = await storage.createTuningStudy({
+        name: request.name ?? `${request.algorithm} ${request.strategy} search`,
+        datasetId: dataset.id,
+        algorithm: request.algorithm,
+        strategy: request.strategy,
+        objective: request.objective,
+        budget: request.budget,
+        folds: request.folds,
+        searchSpace,
+        baseHyperparameters: request.hyperparameters ?? {},
+      });
+
+      const job = await jobService.submit(
+        "hyperparameter_tuning",
+        async (context) => {
+          await storage.updateTuningStudy(study.id, { status: "running" });
+          try {
+            const finished = await tuningService.runStudy(study, context);
+            context.throwIfCancelled();
+            let promotedModelId: string | null = null;
+            if (request.promote) {
+              const promoted = validateHyperparameters(study.algorithm, {
+                ...(request.hyperparameters ?? {}),
+                ...(finished.bestParams as Record<string, unknown>),
+                // Keep the Python pipeline's built-in grid search from overriding the tuned values.
+                cross_validation: false,
+              });
+              if (!promoted.success) {
+                throw new Error(`Best trial cannot be promoted: ${promoted.error}`);
+              }
+              const modelData = await registry.register({
+                name: `${study.name} (best of ${request.budget})`,
+                algorithm: study.algorithm,
+                datasetId: study.datasetId,
+                hyperparameters: promoted.hyperparameters,
+              });
+              const model = await storage.createModel(modelData);
+              await submitModelTraining(model, modelData);
+              promotedModelId = model.id;
+            }
+            await storage.updateTuningStudy(study.id, {
+              status: "completed",
+              promotedModelId,
+              finishedAt: new Date(),
+            });
+            realtime.publish("models", "tuning_study_complete", {
+              studyId: study.id,
+              bestScore: finished.bestScore,
+              promotedModelId,
+            });
+            return { studyId: study.id, bestScore: finished.bestScore, bestParams: finished.bestParams, promotedModelId };
+          } catch (error) {
+            const status = context.signal.aborted ? "cancelled" : "failed";
+            await storage.updateTuningStudy(study.id, { status, finishedAt: new Date() });
+            realtime.publish("models", `tuning_study_${status}`, { studyId: study.id });
+            throw error;
+          }
+        },
+        { resourceId: study.id, payload: { algorithm: study.algorithm, datasetId: study.datasetId } }
+      );
+
+      res.json({ ...study, jobId: job.id });
     } catch (error) {
-      res.status(400).json({ error: "Invalid model configuration" });
+      console.error('Tuning error:', error);
+      res.status(500).json({ error: "Failed to start hyperparameter search" });
+    }
+  });
+
+  app.get("/api/tuning/search-space", async (req, res) => {
+    try {
+      const algorithm = typeof req.query.algorithm === "string" ? req.query.algorithm : "random_forest";
+      if (!tuningService.isTunable(algorithm)) {
+        return res.status(400).json({ error: `${algorithm} cannot be tuned with the Node engine` });
+      }
+      res.json({ algorithm, searchSpace: tuningService.defaultSearchSpace(algorithm) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch default search space" });
+    }
+  });
+
+  app.get("/api/tuning/studies", async (req, res) => {
+    try {
+      const studies = await storage.getAllTuningStudies();
+      res.json(studies);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tuning studies" });
+    }
+  });
+
+  app.get("/api/tuning/studies/:id", async (req, res) => {
+    try {
+      const study = await storage.getTuningStudy(req.params.id);
+      if (!study) {
+        return res.status(404).json({ error: "Tuning study not found" });
+      }
+      const trials = await storage.getTuningTrials(study.id);
+      res.json({ ...study, trials });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tuning study" });
+    }
+  });
+
+  // Sampling-ratio sweep: scores every technique x target ratio cell and recommends one
+  app.post("/api/sampling-sweeps", async (req, res) => {
+    try {
+      const parsed = samplingSweepSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid sampling sweep configuration" });
+      }
+      const request = parsed.data;
+      const dataset = await storage.getDataset(request.datasetId);
+      if (!dataset) {
+        return res.status(404).json({ error: "Dataset not found" });
+      }
+
+      const sweep = await storage.createSamplingSweep({
+        name: request.name ?? `${request.algorithm} sampling sweep`,
+        datasetId: dataset.id,
+        algorithm: request.algorithm,
+        techniques: request.techniques ? Array.from(new Set(request.techniques)) : SWEEP_TECHNIQUES,
+        ratios: Array.from(new Set(request.ratios)).sort((a, b) => a - b),
+        folds: request.folds,
+        repeats: request.repeats,
+        objective: request.objective,
+        hyperparameters: request.hyperparameters ?? {},
+      });
+
+      const job = await jobService.submit(
+        "sampling_sweep",
+        async (context) => {
+          await storage.updateSamplingSweep(sweep.id, { status: "running" });
+          try {
+            const finished = await sweepService.runSweep(sweep, context);
+            context.throwIfCancelled();
+            await storage.updateSamplingSweep(sweep.id, { status: "completed", finishedAt: new Date() });
+            realtime.publish("models", "sampling_sweep_complete", {
+              sweepId: sweep.id,
+              recommended: finished.recommended,
+            });
+            return { sweepId: sweep.id, recommended: finished.recommended };
+          } catch (error) {
+            const status = context.signal.aborted ? "cancelled" : "failed";
+            await storage.updateSamplingSweep(sweep.id, { status, finishedAt: new Date() });
+            realtime.publish("models", `sampling_sweep_${status}`, { sweepId: sweep.id });
+            throw error;
+          }
+        },
+        { resourceId: sweep.id, payload: { algorithm: sweep.algorithm, datasetId: sweep.datasetId } }
+      );
+
+      res.json({ ...sweep, jobId: job.id });
+    } catch (error) {
+      console.error('Sampling sweep error:', error);
+      res.status(500).json({ error: "Failed to start sampling sweep" });
     }
   });
 
+  app.get("/api/sampling-sweeps", async (req, res) => {
+    try {
+      const sweeps = await storage.getAllSamplingSweeps();
+      res.json(sweeps);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sampling sweeps" });
+    }
+  });
+
+  app.get("/api/sampling-sweeps/:id", async (req, res) => {
+    try {
+      const sweep = await storage.getSamplingSweep(req.params.id);
+      if (!sweep) {
+        return res.status(404).json({ error: "Sampling sweep not found" });
+      }
+      res.json(sweep);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sampling sweep" });
+    }
+  });
+
+  // Global explanation: permutation importance with confidence intervals and mean |SHAP|
   app.get("/api/models/:id/explain", async (req, res) => {
     try {
-      const explanation = await mlService.explainModel(req.params.id);
-      res.json(explanation);
+      const model = await storage.getModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ error: "Model not found" });
+      }
+      res.json({ modelId: model.id, ...(await explanationService.explainModel(model)) });
+    } catch (error) {
+      if (error instanceof ExplanationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Model explanation error:', error);
+      res.status(500).json({ error: "Failed to generate explanation" });
+    }
+  });
+
+  // Local explanation of one dataset row (0-based, header excluded): SHAP contributions and LIME weights
+  app.get("/api/models/:id/explain/:row", async (req, res) => {
+    try {
+      const row = Number(req.params.row);
+      if (!Number.isInteger(row) || row < 0) {
+        return res.status(400).json({ error: "Row must be a non-negative integer" });
+      }
+      const model = await storage.getModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ error: "Model not found" });
+      }
+      res.json({ modelId: model.id, ...(await explanationService.explainRow(model, row)) });
     } catch (error) {
+      if (error instanceof ExplanationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Row explanation error:', error);
       res.status(500).json({ error: "Failed to generate explanation" });
     }
   });
 
+  // Smallest plausible changes to a flagged module that bring it below the decision threshold
+  app.post("/api/models/:id/counterfactuals", async (req, res) => {
+    try {
+      const parsed = counterfactualRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message ?? "Invalid counterfactual request" });
+      }
+      const model = await storage.getModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ error: "Model not found" });
+      }
+      res.json({ modelId: model.id, ...(await explanationService.counterfactuals(model, parsed.data)) });
+    } catch (error) {
+      if (error instanceof ExplanationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Counterfactual search error:', error);
+      res.status(500).json({ error: "Failed to search for counterfactuals" });
+    }
+  });
+
   // Quantum ML routes
   app.get("/api/quantum/experiments", async (req, res) => {
     try {
@@ -208,14 +948,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const agent = await storage.createRlAgent(agentData);
       
       // Start RL training asynchronously
-      rlService.trainAgent(agent.id, agentData);
+      const job = await jobService.submit("rl_training", (context) => rlService.trainAgent(agent.id, agentData, context), {
+        resourceId: agent.id,
+        payload: { algorithm: agentData.algorithm, environment: agentData.environment },
+      });
       
-      res.json(agent);
+      res.json({ ...agent, jobId: job.id });
     } catch (error) {
       res.status(400).json({ error: "Invalid RL agent configuration" });
     }
   });
 
+  app.post("/api/rl/agents/:id/stop", async (req, res) => {
+    try {
+      const cancelled = await rlService.stopTraining(req.params.id);
+      res.json({ agentId: req.params.id, cancelledJobs: cancelled.map((job) => job.id) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to stop RL training" });
+    }
+  });
+
   // NLP Analysis routes
   app.post("/api/nlp/analyze", async (req, res) => {
     try {
@@ -244,14 +996,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       if (type === "file" && req.file) {
         // File upload analysis
-        result = await codeAnalysisService.analyzeCodeFile(req.file.path, req.file.originalname);
+        const file = req.file;
+        const job = await jobService.submit(
+          "code_analysis",
+          (context) => codeAnalysisService.analyzeCodeFile(file.path, file.originalname, context),
+          { payload: { type, fileName: file.originalname } }
+        );
+        const finished = await jobService.waitFor(job.id);
+        if (finished.status !== "succeeded") {
+          return res.status(500).json({ error: finished.error || "Failed to analyze code", jobId: job.id });
+        }
+        result = finished.result;
       } else if (type === "github" && url) {
         // GitHub repository analysis
         result = await codeAnalysisService.analyzeGithubRepository(url);
       } else if (type === "snippet" && code) {
         // Code snippet analysis
         const language = req.body.language || "javascript";
-        result = await codeAnalysisService.analyzeCodeSnippet(code, language);
+        const job = await jobService.submit(
+          "code_analysis",
+          (context) => codeAnalysisService.analyzeCodeSnippet(code, language, context),
+          { payload: { type, language } }
+        );
+        const finished = await jobService.waitFor(job.id);
+        if (finished.status !== "succeeded") {
+          return res.status(500).json({ error: finished.error || "Failed to analyze code", jobId: job.id });
+        }
+        result = finished.result;
       } else {
         return res.status(400).json({ error: "Invalid request type or missing data" });
       }
@@ -309,6 +1080,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Background job routes
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const { type, resourceId, status } = req.query as Record<string, string | undefined>;
+      const jobs = await storage.getAllJobs({ type, resourceId, status });
+      // Logs can be large; they are served separately by /api/jobs/:id/logs
+      res.json(jobs.map(({ stdout, stderr, ...job }) => job));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
+
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      const { stdout, stderr, ...summary } = job;
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch job" });
+    }
+  });
+
+  app.get("/api/jobs/:id/logs", async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json({ id: job.id, status: job.status, stdout: job.stdout ?? "", stderr: job.stderr ?? "" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch job logs" });
+    }
+  });
+
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (job.status !== "queued" && job.status !== "running") {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
+      const { stdout, stderr, ...cancelled } = (await jobService.cancel(job.id)) ?? job;
+      res.json(cancelled);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel job" });
+    }
+  });
+
+  // Monitoring routes
+  app.get("/api/monitoring/metrics", async (req, res) => {
+    try {
+      const source = typeof req.query.source === "string" ? req.query.source : undefined;
+      const hours = req.query.hours ? Number(req.query.hours) : undefined;
+      const metrics = await storage.getMonitoringMetrics(source, Number.isFinite(hours) ? hours : undefined);
+      res.json(metrics);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch monitoring metrics" });
+    }
+  });
+
   // Health check
   app.get("/api/health", (req, res) => {
     res.json({ 
@@ -318,8 +1154,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ml: mlService.isHealthy(),
         rl: rlService.isHealthy(),
         blockchain: blockchainService.isHealthy(),
-        nlp: nlpService.isHealthy()
-      }
+        nlp: nlpService.isHealthy(),
+        monitoring: monitoringService.isHealthy()
+      },
+      jobs: jobService.getStats(),
+      realtime: realtime.getStats()
     });
   });
 
@@ -0,0 +1,98 @@
+import { spawn } from "child_process";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  type Capability,
+  type CapabilityProbe,
+  type CapabilityReport,
+  buildCapabilityReport,
+  findCapability,
+} from "../ml/capabilities";
+import { PYTHON_EXECUTABLE } from "./python-worker-pool";
+
+const PROBE_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), "../../capability_probe.py");
+// Importing transformers or Qiskit can take a while on a cold start.
+const PROBE_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Probes the Python environment in its own process, not through the worker pool: the pool
+// runs ml_backend.py, which cannot start at all when a core package is missing.
+export class CapabilityService {
+  private report: CapabilityReport | null = null;
+  private pending: Promise<CapabilityReport> | null = null;
+
+  // Concurrent requests share one probe. Never rejects: a failed probe is part of the report.
+  probe(): Promise<CapabilityReport> {
+    this.pending ??= this.runProbe()
+      .then((probe) => buildCapabilityReport(probe))
+      .catch((error) => buildCapabilityReport(null, error instanceof Error ? error.message : String(error)))
+      .then((report) => {
+        this.report = report;
+        this.pending = null;
+        const unusable = [...report.algorithms, ...report.explainers, ...report.features]
+          .filter((capability) => !capability.usable)
+          .map((capability) => capability.id);
+        console.log(
+          `[CapabilityService] Python ${report.python?.version ?? "unavailable"}, backend ` +
+            `${report.backend.usable ? "usable" : `unusable (${report.backend.reason})`}` +
+            (unusable.length > 0 ? `; unusable: ${unusable.join(", ")}` : "")
+        );
+        return report;
+      });
+    return this.pending;
+  }
+
+  // The last report, waiting for the first probe if none has finished yet.
+  async current(): Promise<CapabilityReport> {
+    return this.report ?? this.probe();
+  }
+
+  // False until a probe has reported the capability usable.
+  isUsable(kind: "algorithms" | "samplers" | "explainers" | "features", id: string): boolean {
+    return this.find(kind, id)?.usable ?? false;
+  }
+
+  isBackendUsable(): boolean {
+    return this.report?.backend.usable ?? false;
+  }
+
+  find(kind: "algorithms" | "samplers" | "explainers" | "features", id: string): Capability | undefined {
+    return findCapability(this.report, kind, id);
+  }
+
+  private runProbe(): Promise<CapabilityProbe> {
+    return new Promise((resolve, reject) => {
+      const processRef = spawn(PYTHON_EXECUTABLE, [PROBE_PATH], { stdio: ["ignore", "pipe", "pipe"] });
+      let output = "";
+      let errorOutput = "";
+      const timer = setTimeout(() => {
+        processRef.kill("SIGKILL");
+        reject(new Error(`Capability probe timed out after ${PROBE_TIMEOUT_MS / 1000}s`));
+      }, PROBE_TIMEOUT_MS);
+
+      processRef.stdout.on("data", (data) => {
+        output += data.toString();
+      });
+      processRef.stderr.on("data", (data) => {
+        errorOutput += data.toString();
+      });
+      processRef.on("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      processRef.on("close", (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          reject(new Error(errorOutput.trim().split("\n").pop() || `Capability probe exited with code ${code}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(output) as CapabilityProbe);
+        } catch {
+          reject(new Error("Capability probe printed invalid JSON"));
+        }
+      });
+    });
+  }
+}
+
+export const capabilities = new CapabilityService();
@@ -1,68 +1,15 @@
 import fs from "fs/promises";
 import path from "path";
-import { spawn } from "child_process";
 import { fileURLToPath } from "url";
+import type { JobContext } from "./job-service";
+import { jobCallOptions, pythonWorkers } from "./python-worker-pool";
 
 export class CodeAnalysisService {
-  private pythonPath: string;
-
-  constructor() {
-    this.pythonPath = process.env.PYTHON_PATH || (process.platform === "win32" ? "python" : "python3");
-  }
-
-  async analyzeCodeFile(filePath: string, fileName: string) {
+  async analyzeCodeFile(filePath: string, fileName: string, job?: JobContext) {
     console.log(`[CodeAnalysisService] Analyzing code file: ${fileName}`);
     
     try {
-      const moduleDir = path.dirname(fileURLToPath(import.meta.url));
-      const backendPath = path.join(moduleDir, "../../ml_backend.py");
-      
-      console.log(`[CodeAnalysisService] Using Python path: ${this.pythonPath}`);
-      console.log(`[CodeAnalysisService] Backend path: ${backendPath}`);
-
-      const result = await new Promise<any>((resolve, reject) => {
-        const processRef = spawn(this.pythonPath, [
-          backendPath,
-          "analyze_code",
-          filePath,
-          fileName
-        ]);
-
-        let output = "";
-        let errorOutput = "";
-
-        processRef.stdout.on("data", (data) => {
-          output += data.toString();
-          console.log(`[Python Code Analysis STDOUT] ${data.toString()}`);
-        });
-
-        processRef.stderr.on("data", (data) => {
-          errorOutput += data.toString();
-          console.log(`[Python Code Analysis STDERR] ${data.toString()}`);
-        });
-
-        processRef.on("close", (code) => {
-          console.log(`[CodeAnalysisService] Python process exited with code: ${code}`);
-          console.log(`[CodeAnalysisService] Output length: ${output.length} chars`);
-          console.log(`[CodeAnalysisService] Error output length: ${errorOutput.length} chars`);
-          
-          if (code === 0) {
-            try {
-              const parsed = JSON.parse(output);
-              console.log(`[CodeAnalysisService] Successfully parsed Python output`);
-              resolve(parsed);
-            } catch (parseError) {
-              console.error(`[CodeAnalysisService] Failed to parse analysis results:`, parseError);
-              console.error(`[CodeAnalysisService] Raw output: ${output}`);
-              reject(new Error(`Failed to parse analysis results: ${parseError}`));
-            }
-          } else {
-            const errorMessage = errorOutput || output || "Python code analysis failed with exit code " + code;
-            console.error(`[CodeAnalysisService] Python analysis failed: ${errorMessage}`);
-            reject(new Error(errorMessage));
-          }
-        });
-      });
+      const result = await pythonWorkers.call("analyze_code", { filePath, fileName }, jobCallOptions(job));
 
       if (result && !result.error) {
         console.log(`[CodeAnalysisService] Python analysis successful`);
@@ -78,13 +25,14 @@ export class CodeAnalysisService {
       console.log(`[CodeAnalysisService] Using basic code analysis fallback`);
       return await this.basicCodeAnalysis(filePath, fileName);
     } catch (error) {
+      job?.throwIfCancelled();
       console.error(`[CodeAnalysisService] Error in Python analysis:`, error);
       console.log(`[CodeAnalysisService] Falling back to basic code analysis`);
       return await this.basicCodeAnalysis(filePath, fileName);
     }
   }
 
-  async analyzeCodeSnippet(code: string, language: string = "javascript") {
+  async analyzeCodeSnippet(code: string, language: string = "javascript", job?: JobContext) {
     console.log(`[CodeAnalysisService] Analyzing code snippet (${language})`);
     
     try {
@@ -97,13 +45,14 @@ export class CodeAnalysisService {
       
       await fs.writeFile(tempFilePath, code);
       
-      const result = await this.analyzeCodeFile(tempFilePath, `snippet.${this.getExtensionForLanguage(language)}`);
+      const result = await this.analyzeCodeFile(tempFilePath, `snippet.${this.getExtensionForLanguage(language)}`, job);
       
       // Clean up temporary file
       await fs.unlink(tempFilePath).catch(() => {});
       
       return result;
     } catch (error) {
+      job?.throwIfCancelled();
       console.error(`[CodeAnalysisService] Error analyzing code snippet:`, error);
       return await this.basicCodeAnalysisFromSnippet(code, language);
     }
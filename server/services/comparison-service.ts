@@ -0,0 +1,207 @@
+import type { Model } from "@shared/schema";
+import type { FoldMetrics } from "../ml/pipeline";
+import {
+  type EffectMagnitude,
+  cliffsDelta,
+  friedmanTest,
+  holmCorrection,
+  mean,
+  nemenyiCriticalDifference,
+  scottKnottEsd,
+  standardDeviation,
+  wilcoxonSignedRank,
+} from "../ml/statistics";
+
+// Higher is better for every metric here; pf is left out for that reason.
+export const COMPARISON_METRICS = [
+  "aucRoc",
+  "f1Score",
+  "mcc",
+  "recall",
+  "precision",
+  "accuracy",
+  "balancedAccuracy",
+  "gMean",
+  "prAuc",
+  "f2Score",
+] as const;
+export type ComparisonMetric = typeof COMPARISON_METRICS[number];
+
+const ALPHA = 0.05;
+// Below this many paired evaluations the rank tests have very little power.
+const MIN_RECOMMENDED_BLOCKS = 10;
+
+export class ComparisonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ComparisonError";
+  }
+}
+
+export interface ComparedModel {
+  id: string;
+  name: string;
+  algorithm: string;
+  mean: number;
+  std: number;
+  averageRank: number;
+  skEsdRank: number;
+}
+
+export interface PairwiseComparison {
+  modelA: string;
+  modelB: string;
+  statistic: number;
+  pValue: number;
+  adjustedPValue: number;
+  significant: boolean;
+  cliffsDelta: number;
+  magnitude: EffectMagnitude;
+}
+
+export interface ModelComparison {
+  metric: ComparisonMetric;
+  alpha: number;
+  blocks: number;
+  models: ComparedModel[];
+  pairwise: PairwiseComparison[];
+  friedman: { statistic: number; df: number; pValue: number };
+  nemenyi: { q: number; criticalDifference: number };
+  scottKnottEsd: { rank: number; modelIds: string[] }[];
+  warnings: string[];
+}
+
+function validationSignature(model: Model): string {
+  const summary = (model.validationSummary ?? {}) as Record<string, unknown>;
+  const hyperparameters = (model.hyperparameters ?? {}) as Record<string, unknown>;
+  return JSON.stringify([
+    summary.strategy,
+    summary.folds,
+    summary.repeats,
+    summary.iterations,
+    hyperparameters.random_state ?? 42,
+  ]);
+}
+
+// Compares models on their per-fold validation scores. Scores are paired by (repeat, fold),
+// which makes each evaluation a block for the signed-rank and Friedman tests; models must
+// come from the same dataset and, for the pairing to be exact, the same validation setup.
+export class ComparisonService {
+  compareModels(models: Model[], metric: ComparisonMetric): ModelComparison {
+    if (models.length < 2) {
+      throw new ComparisonError("At least two models are required");
+    }
+    const incomplete = models.filter(
+      (model) => model.trainingStatus !== "completed" || !Array.isArray(model.foldMetrics)
+    );
+    if (incomplete.length > 0) {
+      throw new ComparisonError(
+        `Models without per-fold validation scores: ${incomplete.map((model) => model.name).join(", ")}`
+      );
+    }
+    if (new Set(models.map((model) => model.datasetId)).size > 1) {
+      throw new ComparisonError("Models must be trained on the same dataset");
+    }
+    // Cross-project fold scores come from the source datasets, not the shared target.
+    const sourceSignature = (model: Model) =>
+      ((model.crossProject as { sources?: { datasetId: string }[] } | null)?.sources ?? [])
+        .map((source) => source.datasetId)
+        .sort()
+        .join(",");
+    if (new Set(models.map(sourceSignature)).size > 1) {
+      throw new ComparisonError("Cross-project models can only be compared with models trained on the same sources");
+    }
+    if (models.some((model) => model.metricProvenance === "simulated")) {
+      throw new ComparisonError("Simulated models have no measured fold scores to compare");
+    }
+
+    const scoresByModel = models.map((model) => {
+      const byFold = new Map<string, number>();
+      for (const fold of model.foldMetrics as FoldMetrics[]) {
+        const value = fold[metric];
+        if (typeof value === "number" && Number.isFinite(value)) byFold.set(`${fold.repeat}:${fold.fold}`, value);
+      }
+      return byFold;
+    });
+    const sharedKeys = Array.from(scoresByModel[0].keys()).filter((key) =>
+      scoresByModel.every((byFold) => byFold.has(key))
+    );
+    if (sharedKeys.length < 2) {
+      throw new ComparisonError(
+        "Models share fewer than two validation folds; retrain them with the same validation strategy"
+      );
+    }
+
+    const warnings: string[] = [];
+    if (new Set(models.map(validationSignature)).size > 1) {
+      warnings.push("Models used different validation settings or seeds, so folds are paired by position only.");
+    }
+    if (new Set(models.map((model) => model.metricProvenance)).size > 1) {
+      warnings.push("Models come from different engines (Python and Node baseline), whose fold splits differ.");
+    }
+    if (sharedKeys.length < MIN_RECOMMENDED_BLOCKS) {
+      warnings.push(
+        `Only ${sharedKeys.length} paired evaluations; use repeated stratified CV for reliable rank tests.`
+      );
+    }
+
+    const columns = scoresByModel.map((byFold) => sharedKeys.map((key) => byFold.get(key)!));
+    const blocks = sharedKeys.map((_, row) => columns.map((column) => column[row]));
+    const friedman = friedmanTest(blocks);
+    const nemenyi = nemenyiCriticalDifference(models.length, sharedKeys.length);
+
+    const pairs: [number, number][] = [];
+    for (let a = 0; a < models.length; a++) {
+      for (let b = a + 1; b < models.length; b++) pairs.push([a, b]);
+    }
+    const tests = pairs.map(([a, b]) => wilcoxonSignedRank(columns[a], columns[b]));
+    const adjusted = holmCorrection(tests.map((test) => test.pValue));
+    const pairwise = pairs.map(([a, b], i) => {
+      const effect = cliffsDelta(columns[a], columns[b]);
+      return {
+        modelA: models[a].id,
+        modelB: models[b].id,
+        statistic: tests[i].statistic,
+        pValue: tests[i].pValue,
+        adjustedPValue: adjusted[i],
+        significant: adjusted[i] < ALPHA,
+        cliffsDelta: effect.delta,
+        magnitude: effect.magnitude,
+      };
+    });
+
+    const groups = scottKnottEsd(columns, ALPHA);
+    const skRank = new Map<number, number>();
+    groups.forEach((group) => group.members.forEach((member) => skRank.set(member, group.rank)));
+
+    console.log(
+      `[ComparisonService] Compared ${models.length} models on ${metric} over ${sharedKeys.length} folds: ` +
+        `Friedman p=${friedman.pValue.toFixed(4)}, ${groups.length} Scott-Knott ESD groups`
+    );
+
+    return {
+      metric,
+      alpha: ALPHA,
+      blocks: sharedKeys.length,
+      models: models
+        .map((model, i) => ({
+          id: model.id,
+          name: model.name,
+          algorithm: model.algorithm,
+          mean: mean(columns[i]),
+          std: standardDeviation(columns[i]),
+          averageRank: friedman.averageRanks[i],
+          skEsdRank: skRank.get(i)!,
+        }))
+        .sort((a, b) => a.averageRank - b.averageRank),
+      pairwise,
+      friedman: { statistic: friedman.statistic, df: friedman.df, pValue: friedman.pValue },
+      nemenyi,
+      scottKnottEsd: groups.map((group) => ({
+        rank: group.rank,
+        modelIds: group.members.map((member) => models[member].id),
+      })),
+      warnings,
+    };
+  }
+}
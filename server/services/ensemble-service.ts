@@ -0,0 +1,120 @@
+import fs from "fs/promises";
+import type { ComposeEnsembleRequest, Dataset, Model } from "@shared/schema";
+import { loadTabularDataset } from "../ml/dataset";
+import { type EnsembleArtifact, type EnsembleMemberInput, isEnsembleArtifact, trainEnsemblePipeline } from "../ml/ensemble";
+import type { NodeModelArtifact } from "../ml/pipeline";
+import { storage } from "../storage";
+import type { JobContext } from "./job-service";
+import type { MLService } from "./ml-service";
+import type { ModelRegistry } from "./registry-service";
+
+export class EnsembleError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "EnsembleError";
+  }
+}
+
+export class EnsembleService {
+  constructor(private mlService: MLService, private registry: ModelRegistry) {}
+
+  // Checks that the members can be combined and returns their dataset with the loaded
+  // artifacts. Members must be completed Node engine models of one dataset whose holdout
+  // is the same set of rows, so the ensemble's holdout is unseen by every member.
+  async resolveMembers(memberIds: string[]): Promise<{ dataset: Dataset; members: EnsembleMemberInput[] }> {
+    const ids = Array.from(new Set(memberIds));
+    if (ids.length < 2) {
+      throw new EnsembleError("An ensemble needs at least two distinct member models");
+    }
+    const models = await Promise.all(ids.map((id) => storage.getModel(id)));
+    const missing = ids.filter((_, i) => !models[i]);
+    if (missing.length > 0) {
+      throw new EnsembleError(`Model not found: ${missing.join(", ")}`, 404);
+    }
+    const found = models as Model[];
+    const unfinished = found.filter((model) => model.trainingStatus !== "completed");
+    if (unfinished.length > 0) {
+      throw new EnsembleError(`Members must be completed models: ${unfinished.map((model) => model.name).join(", ")}`, 409);
+    }
+    const datasetIds = new Set(found.map((model) => model.datasetId));
+    if (datasetIds.size !== 1 || !found[0].datasetId) {
+      throw new EnsembleError("Members must be trained on the same dataset");
+    }
+    const derived = found.filter((model) => model.crossProject || model.ensemble);
+    if (derived.length > 0) {
+      throw new EnsembleError(
+        `Cross-project models and ensembles cannot be members: ${derived.map((model) => model.name).join(", ")}`
+      );
+    }
+    const dataset = await storage.getDataset(found[0].datasetId);
+    if (!dataset?.filePath) {
+      throw new EnsembleError("The members' dataset no longer exists", 404);
+    }
+
+    const members = await Promise.all(
+      found.map(async (model): Promise<EnsembleMemberInput> => {
+        const artifactPath = await this.registry.artifactPath(model);
+        if (!artifactPath) {
+          throw new EnsembleError(`Model ${model.name} has no stored artifact`, 409);
+        }
+        if (!artifactPath.endsWith(".json")) {
+          throw new EnsembleError(
+            `Model ${model.name} was trained by the Python backend; ensembles refit their members on the ` +
+              `combiner's folds, which only Node engine models support`,
+            422
+          );
+        }
+        const artifact = JSON.parse(await fs.readFile(artifactPath, "utf8")) as NodeModelArtifact | EnsembleArtifact;
+        if (isEnsembleArtifact(artifact) || artifact.projection) {
+          throw new EnsembleError(`Model ${model.name} cannot be an ensemble member`);
+        }
+        if (artifact.holdout.indices.length === 0) {
+          throw new EnsembleError(`Model ${model.name} has no holdout split (imported models cannot be members)`, 422);
+        }
+        return {
+          modelId: model.id,
+          name: model.name,
+          algorithm: model.algorithm,
+          family: model.family ?? null,
+          version: model.version ?? null,
+          artifact,
+        };
+      })
+    );
+
+    const reference = new Set(members[0].artifact.holdout.indices);
+    const mismatched = members.filter(
+      (member) =>
+        member.artifact.holdout.indices.length !== reference.size ||
+        member.artifact.holdout.indices.some((index) => !reference.has(index))
+    );
+    if (mismatched.length > 0) {
+      throw new EnsembleError(
+        `Members must share one holdout split; retrain ${mismatched.map((member) => member.name).join(", ")} ` +
+          `with the same random_state as ${members[0].name}`
+      );
+    }
+    return { dataset, members };
+  }
+
+  // Runs inside the ensemble's model_training job.
+  async compose(modelId: string, request: ComposeEnsembleRequest, context: JobContext) {
+    const { dataset, members } = await this.resolveMembers(request.memberIds);
+    const data = await loadTabularDataset(dataset.filePath, { targetColumn: dataset.targetColumn });
+    context.setProgress(0.1);
+    context.throwIfCancelled();
+    const { result, artifact } = await trainEnsemblePipeline(data, members, {
+      method: request.method,
+      folds: request.folds,
+      hyperparameters: request.hyperparameters,
+      sizeColumn: dataset.sizeColumn,
+      checkpoint: context.checkpoint,
+    });
+    console.log(
+      `[EnsembleService] Composed ${request.method} model ${modelId} from ` +
+        `${members.map((member) => member.name).join(" + ")} on ${dataset.name}`
+    );
+    const modelPath = await this.mlService.saveNodeArtifact(modelId, artifact);
+    return { modelPath, ...result, metricProvenance: "baseline" };
+  }
+}
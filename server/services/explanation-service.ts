@@ -0,0 +1,242 @@
+import fs from "fs/promises";
+import type { CounterfactualRequest, Dataset, Model } from "@shared/schema";
+import { type AsyncRowScorer, type CounterfactualResult, searchCounterfactuals } from "../ml/counterfactuals";
+import { detectTargetColumn, parseCsv, prepareTabularData } from "../ml/dataset";
+import {
+  type ExplanationInput,
+  type GlobalExplanation,
+  type LocalExplanation,
+  explainGlobally,
+  explainRow,
+} from "../ml/explanations";
+import { resolveSeed } from "../ml/pipeline";
+import { storage } from "../storage";
+import type { MLService } from "./ml-service";
+import { PythonWorkerError, pythonWorkers } from "./python-worker-pool";
+import type { ModelRegistry } from "./registry-service";
+
+// Local explanations kept per process; the oldest are dropped first.
+const MAX_CACHED_ROWS = 200;
+
+export class ExplanationError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "ExplanationError";
+  }
+}
+
+// A stored model's artifact and training data do not change, so explanations are cached per
+// model (and per row) until the model is deleted. Models the Python backend trained are
+// explained there, with SHAP and LIME; Node models are explained in-process.
+export class ExplanationService {
+  private globalCache = new Map<string, Promise<GlobalExplanation>>();
+  private rowCache = new Map<string, Promise<LocalExplanation>>();
+
+  constructor(private mlService: MLService, private registry: ModelRegistry) {}
+
+  explainModel(model: Model): Promise<GlobalExplanation> {
+    return this.cached(this.globalCache, model.id, () => this.explain(model, null) as Promise<GlobalExplanation>);
+  }
+
+  explainRow(model: Model, row: number): Promise<LocalExplanation> {
+    const promise = this.cached(
+      this.rowCache,
+      `${model.id}:${row}`,
+      () => this.explain(model, row) as Promise<LocalExplanation>
+    );
+    if (this.rowCache.size > MAX_CACHED_ROWS) {
+      this.rowCache.delete(this.rowCache.keys().next().value as string);
+    }
+    return promise;
+  }
+
+  forget(modelId: string) {
+    this.globalCache.delete(modelId);
+    Array.from(this.rowCache.keys())
+      .filter((key) => key.startsWith(`${modelId}:`))
+      .forEach((key) => this.rowCache.delete(key));
+  }
+
+  // Failures are not cached, so a retry after installing a package or restoring a file works.
+  private cached<T>(cache: Map<string, Promise<T>>, key: string, compute: () => Promise<T>): Promise<T> {
+    const existing = cache.get(key);
+    if (existing) return existing;
+    const promise = compute().catch((error) => {
+      cache.delete(key);
+      throw error;
+    });
+    cache.set(key, promise);
+    return promise;
+  }
+
+  // Searches for small, plausible changes to one module that bring its defect probability
+  // below the model's decision threshold. Requests differ in their inputs, so nothing is cached.
+  async counterfactuals(model: Model, request: CounterfactualRequest): Promise<CounterfactualResult & { row: number | null }> {
+    const { artifactPath, dataset, seed } = await this.resolve(model);
+    const { header, rows } = parseCsv(await fs.readFile(dataset.filePath, "utf8"));
+
+    let score: AsyncRowScorer;
+    let featureNames: string[];
+    if (artifactPath.endsWith(".json")) {
+      const artifact = await this.mlService.readNodeArtifact(artifactPath);
+      featureNames = artifact.featureNames;
+      score = async (batch) => this.mlService.scoreWithNodeArtifact(artifact, header, batch);
+    } else {
+      const targetColumn = dataset.targetColumn && header.includes(dataset.targetColumn)
+        ? dataset.targetColumn
+        : detectTargetColumn(header);
+      featureNames = header.filter((column) => column !== targetColumn);
+      score = async (batch) => {
+        try {
+          return await this.mlService.scoreModules(artifactPath, { header, rows: batch });
+        } catch (error) {
+          if (error instanceof PythonWorkerError) {
+            throw new ExplanationError(
+              `This model was trained by the Python backend, which is unavailable: ${error.message}`,
+              503
+            );
+          }
+          throw error;
+        }
+      };
+    }
+    const missingColumns = featureNames.filter((name) => !header.includes(name));
+    if (missingColumns.length > 0) {
+      throw new ExplanationError(`The dataset no longer has the feature columns ${missingColumns.join(", ")}`, 409);
+    }
+    const unknown = request.immutable.filter((name) => !featureNames.includes(name));
+    if (unknown.length > 0) {
+      throw new ExplanationError(`Unknown immutable features: ${unknown.join(", ")}`);
+    }
+
+    let instance: string[];
+    if (request.row !== undefined) {
+      if (request.row >= rows.length) {
+        throw new ExplanationError(`Row ${request.row} is outside the dataset (0-${rows.length - 1})`);
+      }
+      instance = rows[request.row];
+    } else {
+      const features = request.features ?? {};
+      const missing = featureNames.filter((name) => features[name] === undefined);
+      if (missing.length > 0) {
+        throw new ExplanationError(`Missing feature columns: ${missing.join(", ")}`);
+      }
+      instance = header.map((column) =>
+        features[column] === undefined || features[column] === null ? "" : String(features[column])
+      );
+    }
+
+    const result = await searchCounterfactuals(
+      {
+        score,
+        instance,
+        columns: featureNames.map((name) => ({ name, index: header.indexOf(name) })),
+        reference: rows,
+      },
+      {
+        threshold: model.decisionThreshold ?? 0.5,
+        immutable: request.immutable,
+        sizeColumn: dataset.sizeColumn,
+        count: request.count,
+        maxChanges: request.maxChanges,
+        seed,
+      }
+    );
+    console.log(
+      `[ExplanationService] Found ${result.counterfactuals.length} counterfactuals for model ${model.id} ` +
+        `(${result.evaluated} rows scored)`
+    );
+    return { row: request.row ?? null, ...result };
+  }
+
+  private async resolve(model: Model): Promise<{ artifactPath: string; dataset: Dataset; seed: number }> {
+    if (model.trainingStatus !== "completed") {
+      throw new ExplanationError("Only completed models can be explained", 409);
+    }
+    const artifactPath = await this.registry.artifactPath(model);
+    if (!artifactPath) {
+      throw new ExplanationError("Model has no stored artifact; retrain it to explain it", 409);
+    }
+    const dataset = model.datasetId ? await storage.getDataset(model.datasetId) : undefined;
+    if (!dataset?.filePath) {
+      throw new ExplanationError("The model's training dataset no longer exists", 409);
+    }
+    return { artifactPath, dataset, seed: resolveSeed(model.hyperparameters as Record<string, any> | null) };
+  }
+
+  private async explain(model: Model, row: number | null): Promise<GlobalExplanation | LocalExplanation> {
+    const { artifactPath, dataset, seed } = await this.resolve(model);
+
+    if (!artifactPath.endsWith(".json")) {
+      return this.explainWithPython(artifactPath, dataset, row, seed);
+    }
+
+    const input = await this.nodeInput(artifactPath, dataset);
+    if (row === null) {
+      const explanation = explainGlobally(input, { seed });
+      console.log(
+        `[ExplanationService] Explained model ${model.id} in-process ` +
+          `(${explanation.evaluationRows} holdout rows, ${explanation.sampleSize} Shapley samples)`
+      );
+      return explanation;
+    }
+    if (row >= input.rows.length) {
+      throw new ExplanationError(`Row ${row} is outside the dataset (0-${input.rows.length - 1})`);
+    }
+    return explainRow(input, row, { seed });
+  }
+
+  private async explainWithPython(
+    modelPath: string,
+    dataset: Dataset,
+    row: number | null,
+    randomState: number
+  ): Promise<GlobalExplanation | LocalExplanation> {
+    let result: any;
+    try {
+      result = await pythonWorkers.call("explain_model", {
+        modelPath,
+        datasetPath: dataset.filePath,
+        randomState,
+        row,
+      });
+    } catch (error) {
+      if (error instanceof PythonWorkerError) {
+        throw new ExplanationError(
+          `This model was trained by the Python backend, which is unavailable: ${error.message}`,
+          503
+        );
+      }
+      throw error;
+    }
+    if (!result || result.error) {
+      throw new ExplanationError(result?.error ?? "The Python backend returned no explanation", 422);
+    }
+    return result;
+  }
+
+  private async nodeInput(artifactPath: string, dataset: Dataset): Promise<ExplanationInput> {
+    const artifact = await this.mlService.readNodeArtifact(artifactPath);
+    const { header, rows } = parseCsv(await fs.readFile(dataset.filePath, "utf8"));
+    const missing = artifact.featureNames.filter((name) => !header.includes(name));
+    if (missing.length > 0) {
+      throw new ExplanationError(`The dataset no longer has the feature columns ${missing.join(", ")}`, 409);
+    }
+
+    const holdout = artifact.holdout.indices.filter((index) => index < rows.length);
+    const inHoldout = new Set(holdout);
+    const training = rows.map((_, index) => index).filter((index) => !inHoldout.has(index));
+    return {
+      score: (batch) => this.mlService.scoreWithNodeArtifact(artifact, header, batch),
+      rows,
+      // Encoded as at training, so labels match the holdout the artifact recorded.
+      labels: header.includes(artifact.targetColumn)
+        ? prepareTabularData(header, rows, { targetColumn: artifact.targetColumn }).y
+        : null,
+      columns: artifact.featureNames.map((name) => ({ name, index: header.indexOf(name) })),
+      holdout: holdout.length > 0 ? holdout : training,
+      // Cross-project holdouts cover the whole target, which then serves as background too.
+      background: training.length > 0 ? training : holdout,
+    };
+  }
+}
@@ -0,0 +1,173 @@
+import fs from "fs/promises";
+import type { InsertModel, Model } from "@shared/schema";
+import { type EnsembleArtifact, isEnsembleArtifact } from "../ml/ensemble";
+import { toOnnx } from "../ml/onnx";
+import type { NodeModelArtifact } from "../ml/pipeline";
+import { toPmml } from "../ml/pmml";
+import {
+  fromPortableModel,
+  portableModelSchema,
+  toPortableModel,
+  type PortableModel,
+} from "../ml/portable";
+import { storage } from "../storage";
+import type { MLService } from "./ml-service";
+import { realtime } from "./realtime-service";
+import { type ModelRegistry, RegistryError } from "./registry-service";
+
+export const EXPORT_FORMATS = ["onnx", "pmml", "json"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Scalar metrics that travel with an exported model and are restored on import.
+const PORTABLE_METRICS = [
+  "accuracy",
+  "precision",
+  "recall",
+  "f1Score",
+  "mcc",
+  "aucRoc",
+  "brierScore",
+  "expectedCalibrationError",
+  "popt",
+  "accAt20",
+  "ifa",
+] as const;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  onnx: "application/octet-stream",
+  pmml: "application/xml",
+  json: "application/json",
+};
+
+export class ExportError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+export interface ModelExport {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export class ExportService {
+  constructor(private mlService: MLService, private registry: ModelRegistry) {}
+
+  async exportModel(model: Model, format: ExportFormat): Promise<ModelExport> {
+    const artifactPath = await this.registry.artifactPath(model);
+    if (!artifactPath) {
+      throw new ExportError("Model has no stored artifact to export", 409);
+    }
+    const stem = `${model.family ?? model.algorithm}-${model.version ?? model.id}`.replace(/[^\w.-]+/g, "_");
+    const filename = `${stem}.${format === "json" ? "model.json" : format}`;
+
+    let body: Buffer;
+    if (artifactPath.endsWith(".json")) {
+      const artifact = JSON.parse(await fs.readFile(artifactPath, "utf8")) as NodeModelArtifact | EnsembleArtifact;
+      if (isEnsembleArtifact(artifact)) {
+        throw new ExportError("Ensembles combine several models, which no export format carries; export the members", 422);
+      }
+      if (artifact.projection) {
+        throw new ExportError("Cross-project TCA models score through a projection no export format carries", 422);
+      }
+      const portable = this.toPortable(model, artifact);
+      body =
+        format === "onnx"
+          ? toOnnx(portable)
+          : Buffer.from(format === "pmml" ? toPmml(portable) : JSON.stringify(portable, null, 2));
+    } else if (format === "json") {
+      throw new ExportError("JSON export covers Node engine models; export Python models as ONNX or PMML", 422);
+    } else {
+      const dataset = model.datasetId ? await storage.getDataset(model.datasetId) : undefined;
+      try {
+        body = await this.mlService.exportPythonModel(artifactPath, format, dataset?.targetColumn ?? null);
+      } catch (error) {
+        throw new ExportError(error instanceof Error ? error.message : String(error), 422);
+      }
+    }
+
+    console.log(`[ExportService] Exported model ${model.id} as ${format} (${body.length} bytes)`);
+    return { filename, contentType: CONTENT_TYPES[format], body };
+  }
+
+  // Registers an exported JSON model as a new completed version. The source version is
+  // kept when the family does not have it yet.
+  async importModel(content: string, options: { name?: string; family?: string; datasetId?: string }): Promise<Model> {
+    let parsedJson: unknown;
+    try {
+      parsedJson = JSON.parse(content);
+    } catch {
+      throw new ExportError("Only exported JSON models can be imported; the file is not JSON");
+    }
+    const parsed = portableModelSchema.safeParse(parsedJson);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      const field = issue?.path.length ? `${issue.path.join(".")}: ` : "";
+      throw new ExportError(`Not an exported model: ${field}${issue?.message ?? "invalid format"}`);
+    }
+    const portable = parsed.data as PortableModel;
+
+    if (options.datasetId) {
+      const dataset = await storage.getDataset(options.datasetId);
+      if (!dataset) {
+        throw new ExportError("Dataset not found", 404);
+      }
+      const columns = Object.keys((dataset.features ?? {}) as Record<string, unknown>);
+      const missing = portable.inputs.features.filter((feature) => !columns.includes(feature));
+      if (missing.length > 0) {
+        throw new ExportError(`Dataset lacks the model's feature columns: ${missing.join(", ")}`);
+      }
+    }
+
+    const metrics = Object.fromEntries(
+      PORTABLE_METRICS.map((metric) => [metric, portable.model.metrics[metric] ?? null])
+    );
+    const modelData: InsertModel = {
+      name: options.name ?? `${portable.model.name} (imported)`,
+      algorithm: portable.model.algorithm,
+      datasetId: options.datasetId ?? null,
+      hyperparameters: portable.hyperparameters,
+      trainingStatus: "completed",
+      metricProvenance: portable.model.metricProvenance,
+      decisionThreshold: portable.decisionThreshold,
+      family: options.family ?? portable.model.family,
+      version: portable.model.version,
+      ...metrics,
+    };
+    let registered: InsertModel;
+    try {
+      registered = await this.registry.register(modelData);
+    } catch (error) {
+      if (!(error instanceof RegistryError) || error.status !== 409) throw error;
+      registered = await this.registry.register({ ...modelData, version: null });
+    }
+
+    const model = await storage.createModel(registered);
+    const modelPath = await this.mlService.saveNodeArtifact(model.id, fromPortableModel(portable));
+    const stored = await storage.updateModel(model.id, { modelPath });
+    console.log(
+      `[ExportService] Imported ${portable.model.family ?? portable.model.algorithm}@${portable.model.version} ` +
+        `as ${stored.family}@${stored.version} (${stored.id})`
+    );
+    realtime.publish("models", "model_imported", { modelId: stored.id, family: stored.family });
+    return stored;
+  }
+
+  private toPortable(model: Model, artifact: NodeModelArtifact): PortableModel {
+    return toPortableModel(
+      {
+        id: model.id,
+        name: model.name,
+        family: model.family ?? null,
+        version: model.version ?? null,
+        algorithm: model.algorithm,
+        metricProvenance: model.metricProvenance ?? null,
+        metrics: Object.fromEntries(PORTABLE_METRICS.map((metric) => [metric, model[metric] ?? null])),
+      },
+      artifact,
+      model.decisionThreshold ?? artifact.threshold
+    );
+  }
+}
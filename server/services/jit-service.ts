@@ -0,0 +1,255 @@
+import fs from "fs/promises";
+import path from "path";
+import { spawn } from "child_process";
+import type { Dataset, JitExtractionRequest } from "@shared/schema";
+import {
+  blamedCommits,
+  computeChangeMetrics,
+  DEFAULT_FIX_KEYWORDS,
+  deletedLines,
+  fixPattern,
+  GIT_LOG_FORMAT,
+  JIT_COLUMNS,
+  JIT_FEATURES,
+  JIT_TARGET_COLUMN,
+  lineRanges,
+  parseGitLog,
+  toJitCsv,
+} from "../ml/jit";
+import { storage } from "../storage";
+import type { JobContext } from "./job-service";
+import type { MLService } from "./ml-service";
+import { realtime } from "./realtime-service";
+
+const DATASET_DIR = "uploads";
+
+// Git reads only the local object store: no credential prompts, no lazy fetches of
+// missing blobs in partial clones, and no lock files in the mined repository.
+const GIT_ENV = {
+  ...process.env,
+  GIT_TERMINAL_PROMPT: "0",
+  GIT_NO_LAZY_FETCH: "1",
+  GIT_OPTIONAL_LOCKS: "0",
+};
+
+export class JitError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "JitError";
+  }
+}
+
+export class JitService {
+  constructor(private mlService: MLService) {}
+
+  // Returns the absolute repository path, or throws when it is not a git repository
+  // with the requested revision.
+  async resolveRepository(repositoryPath: string, revision: string): Promise<string> {
+    const repository = path.resolve(repositoryPath);
+    const stats = await fs.stat(repository).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new JitError(`Repository path is not a directory: ${repository}`);
+    }
+    try {
+      await this.git(repository, ["rev-parse", "--absolute-git-dir"]);
+    } catch {
+      throw new JitError(`Not a git repository: ${repository}`);
+    }
+    try {
+      await this.git(repository, ["rev-parse", "--verify", "--quiet", `${revision}^{commit}`]);
+    } catch {
+      throw new JitError(`Revision not found: ${revision}`);
+    }
+    return repository;
+  }
+
+  // Runs inside a jit_extraction job: mines the last `maxCommits` non-merge commits
+  // reachable from the revision, labels them with SZZ and registers the dataset.
+  async extract(repository: string, request: JitExtractionRequest, context: JobContext): Promise<Dataset> {
+    const keywords = request.fixKeywords ?? DEFAULT_FIX_KEYWORDS;
+    const isFix = fixPattern(keywords);
+    const head = (await this.git(repository, ["rev-parse", `${request.revision}^{commit}`], context))
+      .toString("utf8")
+      .trim();
+    console.log(`[JitService] Mining ${repository} at ${head.slice(0, 12)} (up to ${request.maxCommits} commits)`);
+
+    const log = await this.git(
+      repository,
+      [
+        "log",
+        "--no-merges",
+        "--reverse",
+        "-M",
+        "--numstat",
+        `--format=${GIT_LOG_FORMAT}`,
+        `--max-count=${request.maxCommits}`,
+        head,
+      ],
+      context
+    );
+    const commits = parseGitLog(log.toString("utf8"));
+    if (commits.length === 0) {
+      throw new JitError("The revision has no non-merge commits to mine");
+    }
+    context.log("stdout", `Read ${commits.length} commits\n`);
+    context.setProgress(0.1);
+
+    // A window that starts mid-history needs the line counts it starts from for LT.
+    const base = commits[0].parents[0];
+    const initialSizes = base ? await this.lineCounts(repository, base, context) : new Map<string, number>();
+    const rows = computeChangeMetrics(commits, { fixPattern: isFix, initialSizes });
+    if (rows.length === 0) {
+      throw new JitError("None of the mined commits change any files");
+    }
+    context.setProgress(0.2);
+
+    const fixes = commits.filter(
+      (commit) => commit.parents.length > 0 && commit.files.length > 0 && isFix.test(commit.message)
+    );
+    const fixedBy = await this.szz(repository, fixes, new Set(rows.map((row) => row.hash)), context);
+    const labels = rows.map((row): number => (fixedBy.has(row.hash) ? 1 : 0));
+    const bugInducing = labels.reduce((sum, label) => sum + label, 0);
+    context.log("stdout", `SZZ traced ${fixes.length} fix commits to ${bugInducing} bug-inducing commits\n`);
+    context.setProgress(0.9);
+
+    await fs.mkdir(DATASET_DIR, { recursive: true });
+    const stem = `jit-${path.basename(repository).replace(/[^\w.-]+/g, "_")}-${Date.now()}`;
+    const filePath = path.join(DATASET_DIR, `${stem}.csv`);
+    const commitsFile = path.join(DATASET_DIR, `${stem}.commits.csv`);
+    await fs.writeFile(filePath, toJitCsv(rows, labels));
+    // Row-aligned commit ids stay out of the training columns, where they would be
+    // label-encoded into a meaningless feature.
+    await fs.writeFile(
+      commitsFile,
+      [
+        "hash,authored_at,fix,bug,fixed_by",
+        ...rows.map(
+          (row, i) =>
+            `${row.hash},${new Date(row.authorTime * 1000).toISOString()},${row.fix},${labels[i]},` +
+            (fixedBy.get(row.hash) ?? []).join(";")
+        ),
+      ].join("\n") + "\n"
+    );
+
+    const analysis = await this.mlService.analyzeDataset(filePath, context);
+    context.throwIfCancelled();
+    const dataset = await storage.createDataset({
+      name: request.name ?? `${path.basename(repository)} JIT changes`,
+      description:
+        `Commit-level change metrics for ${rows.length} commits of ${repository} ` +
+        `(${request.revision} at ${head.slice(0, 12)}), bug-inducing commits labelled by SZZ`,
+      filePath,
+      uploadedBy: null,
+      rowCount: rows.length,
+      columnCount: JIT_COLUMNS.length + 1,
+      features: { ...JIT_FEATURES, [JIT_TARGET_COLUMN]: "Bug-inducing change (SZZ)" },
+      targetColumn: JIT_TARGET_COLUMN,
+      // Kamei et al. measure the effort to review a change in changed lines.
+      sizeColumn: "la",
+      dataQuality: analysis.quality,
+      preprocessingSteps: [
+        {
+          step: "jit_extraction",
+          repository,
+          revision: request.revision,
+          head,
+          commits: rows.length,
+          fixCommits: fixes.length,
+          bugInducing,
+          fixKeywords: keywords,
+          commitsFile,
+        },
+      ],
+    });
+    console.log(`[JitService] Registered dataset ${dataset.id}: ${rows.length} commits, ${bugInducing} bug-inducing`);
+    realtime.publish("datasets", "dataset_created", { datasetId: dataset.id, name: dataset.name });
+    return dataset;
+  }
+
+  // Lines per text file at a commit, counted by `git grep` so no blob leaves git.
+  private async lineCounts(repository: string, commit: string, context: JobContext): Promise<Map<string, number>> {
+    // Exit code 1 means no file has a line, e.g. a tree of empty files.
+    const output = await this.git(repository, ["grep", "-I", "-c", "-z", "-e", "", commit, "--"], context, [1]);
+    const prefix = `${commit}:`;
+    const counts = new Map<string, number>();
+    for (const line of output.toString("utf8").split("\n")) {
+      const separator = line.lastIndexOf("\0");
+      if (separator === -1 || !line.startsWith(prefix)) continue;
+      counts.set(line.slice(prefix.length, separator), Number(line.slice(separator + 1)) || 0);
+    }
+    return counts;
+  }
+
+  // SZZ: the lines a fix deletes or modifies are blamed in the fix's parent, and the
+  // commits that last touched them are bug-inducing. Returns inducing commit -> fixes.
+  private async szz(
+    repository: string,
+    fixes: Array<{ hash: string; parents: string[] }>,
+    window: Set<string>,
+    context: JobContext
+  ): Promise<Map<string, string[]>> {
+    const fixedBy = new Map<string, string[]>();
+    for (let index = 0; index < fixes.length; index++) {
+      context.throwIfCancelled();
+      const fix = fixes[index];
+      const parent = fix.parents[0];
+      const diff = await this.git(
+        repository,
+        [
+          "diff",
+          "-U0",
+          "-M",
+          "--no-color",
+          "--no-ext-diff",
+          "--no-textconv",
+          "--src-prefix=a/",
+          "--dst-prefix=b/",
+          parent,
+          fix.hash,
+        ],
+        context
+      );
+      for (const [file, lines] of Array.from(deletedLines(diff.toString("utf8")))) {
+        const ranges = lineRanges(lines).flatMap(([start, end]) => ["-L", `${start},${end}`]);
+        const blame = await this.git(repository, ["blame", "--porcelain", "-w", ...ranges, parent, "--", file], context);
+        blamedCommits(blame.toString("utf8")).forEach((commit) => {
+          if (commit === fix.hash || !window.has(commit)) return;
+          const fixHashes = fixedBy.get(commit) ?? [];
+          if (!fixHashes.includes(fix.hash)) fixHashes.push(fix.hash);
+          fixedBy.set(commit, fixHashes);
+        });
+      }
+      context.setProgress(0.2 + (0.7 * (index + 1)) / fixes.length);
+    }
+    return fixedBy;
+  }
+
+  // Git output (full logs, blame porcelain) is data, not progress, so the process is
+  // tied to the job through its abort signal instead of `attachProcess`, which would
+  // copy every chunk into the job logs.
+  private git(repository: string, args: string[], context?: JobContext, allowedCodes: number[] = []): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const processRef = spawn("git", ["-C", repository, "-c", "core.quotepath=off", ...args], {
+        env: GIT_ENV,
+        signal: context?.signal,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+      const chunks: Buffer[] = [];
+      let errorOutput = "";
+      processRef.stdout.on("data", (data: Buffer) => chunks.push(data));
+      processRef.stderr.on("data", (data) => {
+        errorOutput += data.toString();
+      });
+      processRef.on("error", (error) => {
+        reject(context?.signal.aborted ? context.signal.reason : new JitError(`Failed to run git: ${error.message}`, 500));
+      });
+      processRef.on("close", (code) => {
+        if (code === 0 || (code !== null && allowedCodes.includes(code))) {
+          resolve(Buffer.concat(chunks));
+          return;
+        }
+        reject(new JitError(errorOutput.trim() || `git ${args[0]} exited with code ${code}`, 500));
+      });
+    });
+  }
+}
@@ -0,0 +1,279 @@
+import type { ChildProcess } from "child_process";
+import { storage } from "../storage";
+import type { Job, JobStatus, JobType } from "@shared/schema";
+import { type RealtimeTopic, realtime } from "./realtime-service";
+
+// Keep only the tail of very chatty processes so a job record stays small.
+const MAX_LOG_CHARS = 256 * 1024;
+const KILL_GRACE_MS = 5000;
+
+const DEFAULT_TIMEOUTS: Record<JobType, number> = {
+  model_training: 30 * 60 * 1000,
+  dataset_analysis: 5 * 60 * 1000,
+  code_analysis: 5 * 60 * 1000,
+  rl_training: 60 * 60 * 1000,
+  hyperparameter_tuning: 2 * 60 * 60 * 1000,
+  jit_extraction: 60 * 60 * 1000,
+  sampling_sweep: 2 * 60 * 60 * 1000,
+  model_reproduction: 30 * 60 * 1000,
+};
+
+// Job updates are also published on the topic of the resource they touch.
+const JOB_TOPICS: Record<JobType, RealtimeTopic | null> = {
+  model_training: "models",
+  dataset_analysis: "datasets",
+  code_analysis: null,
+  rl_training: "rl",
+  hyperparameter_tuning: "models",
+  jit_extraction: "datasets",
+  sampling_sweep: "models",
+  model_reproduction: "models",
+};
+
+export class JobCancelledError extends Error {
+  constructor(message = "Job was cancelled") {
+    super(message);
+    this.name = "JobCancelledError";
+  }
+}
+
+// Handed to every job handler. Services use it to register spawned processes (so
+// cancellation and timeouts can kill them), stream their output into the job logs,
+// and report coarse progress. In-process engine work awaits `checkpoint` between folds
+// and trees, so cancellation, timeouts and other requests get a turn of the event loop.
+export interface JobContext {
+  jobId: string;
+  signal: AbortSignal;
+  attachProcess(processRef: ChildProcess): void;
+  log(stream: "stdout" | "stderr", chunk: string): void;
+  setProgress(progress: number): void;
+  throwIfCancelled(): void;
+  checkpoint(): Promise<void>;
+}
+
+export type JobHandler<T = unknown> = (context: JobContext) => Promise<T>;
+
+export interface SubmitJobOptions {
+  resourceId?: string | null;
+  payload?: unknown;
+  timeoutMs?: number;
+}
+
+interface PendingJob {
+  id: string;
+  type: JobType;
+  handler: JobHandler;
+  timeoutMs: number;
+}
+
+interface RunningJob {
+  controller: AbortController;
+  processes: Set<ChildProcess>;
+  logs: { stdout: string; stderr: string };
+  timer?: NodeJS.Timeout;
+  finalStatus?: JobStatus;
+  finalError?: string;
+}
+
+function appendLog(existing: string, chunk: string): string {
+  const combined = existing + chunk;
+  return combined.length > MAX_LOG_CHARS ? combined.slice(combined.length - MAX_LOG_CHARS) : combined;
+}
+
+export class JobService {
+  private concurrency: number;
+  private queue: PendingJob[] = [];
+  private running: Map<string, RunningJob> = new Map();
+  private waiters: Map<string, ((job: Job) => void)[]> = new Map();
+
+  constructor(concurrency = Number(process.env.JOB_CONCURRENCY) || 2) {
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  getStats() {
+    return { concurrency: this.concurrency, running: this.running.size, queued: this.queue.length };
+  }
+
+  async submit<T>(type: JobType, handler: JobHandler<T>, options: SubmitJobOptions = {}): Promise<Job> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUTS[type];
+    const job = await storage.createJob({
+      type,
+      status: "queued",
+      resourceId: options.resourceId ?? null,
+      payload: (options.payload ?? null) as any,
+      timeoutMs,
+    });
+    console.log(`[JobService] Queued ${type} job ${job.id}`);
+    this.publish(job);
+    this.queue.push({ id: job.id, type, handler: handler as JobHandler, timeoutMs });
+    this.pump();
+    return job;
+  }
+
+  // Resolves with the final job record once the job leaves the queued/running states.
+  async waitFor(jobId: string): Promise<Job> {
+    // Register before reading so a job finishing in between still resolves the waiter.
+    let resolveWaiter!: (job: Job) => void;
+    const finished = new Promise<Job>((resolve) => (resolveWaiter = resolve));
+    const list = this.waiters.get(jobId) ?? [];
+    list.push(resolveWaiter);
+    this.waiters.set(jobId, list);
+
+    const job = await storage.getJob(jobId);
+    if (!job || (job.status !== "queued" && job.status !== "running")) {
+      this.waiters.set(jobId, (this.waiters.get(jobId) ?? []).filter((waiter) => waiter !== resolveWaiter));
+      if (!job) throw new Error("Job not found");
+      return job;
+    }
+    return finished;
+  }
+
+  async cancel(jobId: string): Promise<Job | undefined> {
+    const job = await storage.getJob(jobId);
+    if (!job) return undefined;
+
+    const queuedIndex = this.queue.findIndex((pending) => pending.id === jobId);
+    if (queuedIndex >= 0) {
+      this.queue.splice(queuedIndex, 1);
+      return this.finish(jobId, "cancelled", { error: "Cancelled before start" });
+    }
+
+    const active = this.running.get(jobId);
+    if (!active) return job;
+    console.log(`[JobService] Cancelling job ${jobId}`);
+    this.stop(active, "cancelled", "Cancelled by user");
+    return this.finish(jobId, "cancelled", { error: "Cancelled by user" });
+  }
+
+  // Cancels every queued or running job of `type` bound to `resourceId`.
+  async cancelByResource(type: JobType, resourceId: string): Promise<Job[]> {
+    const active = [
+      ...(await storage.getAllJobs({ type, resourceId, status: "queued" })),
+      ...(await storage.getAllJobs({ type, resourceId, status: "running" })),
+    ];
+    const cancelled = await Promise.all(active.map((job) => this.cancel(job.id)));
+    return cancelled.filter((job): job is Job => Boolean(job));
+  }
+
+  private pump() {
+    while (this.running.size < this.concurrency && this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      void this.run(next);
+    }
+  }
+
+  private async run(pending: PendingJob) {
+    const active: RunningJob = {
+      controller: new AbortController(),
+      processes: new Set(),
+      logs: { stdout: "", stderr: "" },
+    };
+    this.running.set(pending.id, active);
+    const started = await storage.updateJob(pending.id, { status: "running", startedAt: new Date() });
+    console.log(`[JobService] Started ${pending.type} job ${pending.id}`);
+    this.publish(started);
+
+    if (pending.timeoutMs > 0) {
+      active.timer = setTimeout(() => {
+        console.log(`[JobService] Job ${pending.id} timed out after ${pending.timeoutMs}ms`);
+        this.stop(active, "failed", `Timed out after ${Math.round(pending.timeoutMs / 1000)}s`);
+        void this.finish(pending.id, "failed", { error: active.finalError });
+      }, pending.timeoutMs);
+    }
+
+    try {
+      const result = await pending.handler(this.createContext(pending.id, active));
+      if (!active.finalStatus) {
+        await this.finish(pending.id, "succeeded", { result: (result ?? null) as any, progress: 1 });
+      }
+    } catch (error) {
+      if (!active.finalStatus) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[JobService] Job ${pending.id} failed:`, message);
+        await this.finish(pending.id, "failed", { error: message });
+      }
+    } finally {
+      if (active.timer) clearTimeout(active.timer);
+      this.running.delete(pending.id);
+      this.pump();
+    }
+  }
+
+  private createContext(jobId: string, active: RunningJob): JobContext {
+    const context: JobContext = {
+      jobId,
+      signal: active.controller.signal,
+      attachProcess: (processRef) => {
+        if (active.controller.signal.aborted) {
+          processRef.kill();
+          return;
+        }
+        active.processes.add(processRef);
+        processRef.stdout?.on("data", (data) => context.log("stdout", data.toString()));
+        processRef.stderr?.on("data", (data) => context.log("stderr", data.toString()));
+        processRef.on("close", () => active.processes.delete(processRef));
+      },
+      log: (stream, chunk) => {
+        active.logs[stream] = appendLog(active.logs[stream], chunk);
+        void storage.updateJob(jobId, { [stream]: active.logs[stream] });
+      },
+      setProgress: (progress) => {
+        if (active.finalStatus) return;
+        void storage
+          .updateJob(jobId, { progress: Math.min(1, Math.max(0, progress)) })
+          .then((job) => this.publish(job));
+      },
+      throwIfCancelled: () => {
+        if (active.controller.signal.aborted) {
+          throw new JobCancelledError(active.finalError);
+        }
+      },
+      checkpoint: async () => {
+        await new Promise((resolve) => setImmediate(resolve));
+        context.throwIfCancelled();
+      },
+    };
+    return context;
+  }
+
+  private stop(active: RunningJob, status: JobStatus, reason: string) {
+    if (active.finalStatus) return;
+    active.finalStatus = status;
+    active.finalError = reason;
+    active.controller.abort(new JobCancelledError(reason));
+    for (const processRef of Array.from(active.processes)) {
+      processRef.kill("SIGTERM");
+      setTimeout(() => {
+        if (processRef.exitCode === null && processRef.signalCode === null) processRef.kill("SIGKILL");
+      }, KILL_GRACE_MS).unref();
+    }
+  }
+
+  private publish(job: Job) {
+    const { stdout, stderr, result, payload, ...summary } = job;
+    realtime.publish("jobs", "job_updated", summary);
+    const topic = JOB_TOPICS[job.type as JobType];
+    if (topic) realtime.publish(topic, "job_updated", summary);
+  }
+
+  private async finish(jobId: string, status: JobStatus, updates: Partial<Job> = {}): Promise<Job> {
+    const job = await storage.updateJob(jobId, { ...updates, status, finishedAt: new Date() });
+    console.log(`[JobService] Job ${jobId} ${status}`);
+    this.publish(job);
+    const waiting = this.waiters.get(jobId) ?? [];
+    this.waiters.delete(jobId);
+    waiting.forEach((resolve) => resolve(job));
+    return job;
+  }
+}
+
+export const jobService = new JobService();
@@ -0,0 +1,286 @@
+import fs from "fs/promises";
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import path from "path";
+import { spawn } from "child_process";
+import { fileURLToPath } from "url";
+import type { ComposeEnsembleRequest, Dataset, InsertModel, Model } from "@shared/schema";
+import {
+  type CodeRevision,
+  type ManifestDataset,
+  type MetricComparison,
+  type RunEngine,
+  type RunEnvironment,
+  type RunInputs,
+  type RunManifest,
+  MANIFEST_VERSION,
+  compareRunMetrics,
+  configHash,
+  recordedMetrics,
+  resolveRunHyperparameters,
+  runEngine,
+} from "../ml/manifest";
+import { storage } from "../storage";
+import type { EnsembleService } from "./ensemble-service";
+import type { JobContext } from "./job-service";
+import type { MLService } from "./ml-service";
+
+const REPOSITORY_ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), "../..");
+
+export class ManifestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+// A manifest before training: everything but what the run itself reports.
+export type PreparedManifest = Omit<RunManifest, "engine" | "metrics">;
+
+export interface ReproductionReport {
+  modelId: string;
+  configHash: string;
+  // False when the recorded inputs no longer resolve to the recorded hash.
+  configHashMatches: boolean;
+  engine: { recorded: RunEngine; reproduced: RunEngine };
+  tolerance: number;
+  metrics: MetricComparison[];
+  // Runtime and code differences that may explain a mismatch.
+  environmentChanges: { field: string; recorded: string | null; current: string | null }[];
+  reproduced: boolean;
+}
+
+export class ManifestService {
+  private environmentPromise: Promise<RunEnvironment> | null = null;
+  private revisionPromise: Promise<CodeRevision | null> | null = null;
+
+  constructor(private mlService: MLService, private ensembleService: EnsembleService) {}
+
+  // Hashes the inputs before training starts, so the manifest describes the bytes the run read.
+  async prepare(modelId: string, modelData: InsertModel): Promise<PreparedManifest> {
+    const hyperparameters = resolveRunHyperparameters(modelData.hyperparameters as Record<string, any> | null);
+    const crossProject = (modelData.crossProject as Record<string, any> | null) ?? null;
+    const datasetIds: [ManifestDataset["role"], string][] = [
+      ...(modelData.datasetId ? [["training", modelData.datasetId] as [ManifestDataset["role"], string]] : []),
+      ...((crossProject?.sourceDatasetIds ?? []) as string[]).map(
+        (id): [ManifestDataset["role"], string] => ["source", id]
+      ),
+    ];
+    const datasets = await Promise.all(datasetIds.map(([role, id]) => this.describeDataset(role, id)));
+
+    const ensembleConfig = modelData.ensemble as { method: string; folds: number; memberIds: string[] } | null;
+    const ensemble = ensembleConfig
+      ? {
+          method: ensembleConfig.method,
+          folds: ensembleConfig.folds,
+          members: await Promise.all(
+            ensembleConfig.memberIds.map(async (memberId) => ({
+              modelId: memberId,
+              configHash: (await storage.getModel(memberId))?.configHash ?? null,
+            }))
+          ),
+        }
+      : null;
+
+    const inputs: RunInputs = { algorithm: modelData.algorithm, hyperparameters, datasets, crossProject, ensemble };
+    const [environment, code] = await Promise.all([this.environment(), this.codeRevision()]);
+    return {
+      manifestVersion: MANIFEST_VERSION,
+      modelId,
+      createdAt: new Date().toISOString(),
+      ...inputs,
+      seeds: { randomState: hyperparameters.random_state as number },
+      environment,
+      code,
+      configHash: configHash(inputs),
+    };
+  }
+
+  complete(prepared: PreparedManifest, results: Record<string, any>): RunManifest {
+    return { ...prepared, engine: runEngine(results?.metricProvenance), metrics: recordedMetrics(results ?? {}) };
+  }
+
+  // Checks that a model can be reproduced and that its datasets still hold the recorded bytes.
+  async verify(model: Model): Promise<RunManifest> {
+    const manifest = model.runManifest as RunManifest | null;
+    if (!manifest) {
+      throw new ManifestError("Model has no run manifest; it was trained before manifests were recorded", 409);
+    }
+    if (manifest.engine === "simulated") {
+      throw new ManifestError("Simulated metrics are synthesized, not measured, so there is nothing to reproduce", 422);
+    }
+    for (const recorded of manifest.datasets) {
+      const dataset = await storage.getDataset(recorded.id);
+      if (!dataset?.filePath) {
+        throw new ManifestError(`Dataset ${recorded.name} no longer exists`, 409);
+      }
+      const { sha256 } = await this.hashFile(dataset.filePath);
+      if (sha256 !== recorded.sha256) {
+        throw new ManifestError(`Dataset ${recorded.name} changed since the run (sha256 ${sha256.slice(0, 12)}, recorded ${recorded.sha256.slice(0, 12)})`, 409);
+      }
+    }
+    return manifest;
+  }
+
+  // Runs inside a model_reproduction job. The rerun trains under a scratch id whose artifact is
+  // removed afterwards; the model itself is left untouched.
+  async reproduce(model: Model, tolerance: number, context: JobContext): Promise<ReproductionReport> {
+    const manifest = await this.verify(model);
+    const scratchId = `${model.id}-reproduction-${Date.now()}`;
+    let results: Record<string, any>;
+    if (manifest.ensemble) {
+      const request: ComposeEnsembleRequest = {
+        memberIds: manifest.ensemble.members.map((member) => member.modelId),
+        method: manifest.ensemble.method as ComposeEnsembleRequest["method"],
+        folds: manifest.ensemble.folds,
+        hyperparameters: manifest.hyperparameters,
+      };
+      results = await this.ensembleService.compose(scratchId, request, context);
+    } else {
+      results = await this.mlService.trainModel(
+        scratchId,
+        {
+          name: model.name,
+          algorithm: manifest.algorithm,
+          datasetId: manifest.datasets.find((dataset) => dataset.role === "training")?.id ?? null,
+          hyperparameters: manifest.hyperparameters,
+          crossProject: manifest.crossProject,
+        },
+        context
+      );
+    }
+    if (typeof results?.modelPath === "string") {
+      await fs.unlink(results.modelPath).catch(() => {});
+    }
+    context.throwIfCancelled();
+
+    const current = await this.prepare(scratchId, {
+      name: model.name,
+      algorithm: manifest.algorithm,
+      datasetId: manifest.datasets.find((dataset) => dataset.role === "training")?.id ?? null,
+      hyperparameters: manifest.hyperparameters,
+      crossProject: manifest.crossProject,
+      ensemble: manifest.ensemble
+        ? {
+            method: manifest.ensemble.method,
+            folds: manifest.ensemble.folds,
+            memberIds: manifest.ensemble.members.map((member) => member.modelId),
+          }
+        : null,
+    });
+    const engine = { recorded: manifest.engine, reproduced: runEngine(results?.metricProvenance) };
+    const metrics = compareRunMetrics(manifest.metrics, recordedMetrics(results ?? {}), tolerance);
+    const report: ReproductionReport = {
+      modelId: model.id,
+      configHash: manifest.configHash,
+      configHashMatches: current.configHash === manifest.configHash,
+      engine,
+      tolerance,
+      metrics,
+      environmentChanges: this.environmentChanges(manifest, current),
+      reproduced: engine.recorded === engine.reproduced && metrics.every((comparison) => comparison.matches),
+    };
+    console.log(
+      `[ManifestService] Reproduction of model ${model.id} ${report.reproduced ? "matched" : "did not match"} ` +
+        `(${metrics.filter((comparison) => !comparison.matches).length} metrics outside ${tolerance})`
+    );
+    return report;
+  }
+
+  private environmentChanges(recorded: RunManifest, current: PreparedManifest): ReproductionReport["environmentChanges"] {
+    const fields: [string, string | null, string | null][] = [
+      ["node", recorded.environment.node, current.environment.node],
+      ["platform", recorded.environment.platform, current.environment.platform],
+      ["python", recorded.environment.python?.version ?? null, current.environment.python?.version ?? null],
+      ["code", this.describeRevision(recorded.code), this.describeRevision(current.code)],
+    ];
+    const packages = new Set([
+      ...Object.keys(recorded.environment.python?.packages ?? {}),
+      ...Object.keys(current.environment.python?.packages ?? {}),
+    ]);
+    packages.forEach((name) =>
+      fields.push([
+        `python.packages.${name}`,
+        recorded.environment.python?.packages[name] ?? null,
+        current.environment.python?.packages[name] ?? null,
+      ])
+    );
+    return fields
+      .filter(([, before, after]) => before !== after)
+      .map(([field, before, after]) => ({ field, recorded: before, current: after }));
+  }
+
+  private describeRevision(code: CodeRevision | null): string | null {
+    return code ? `${code.commit}${code.dirty ? " (uncommitted changes)" : ""}` : null;
+  }
+
+  private async describeDataset(role: ManifestDataset["role"], id: string): Promise<ManifestDataset> {
+    const dataset: Dataset | undefined = await storage.getDataset(id);
+    if (!dataset?.filePath) {
+      throw new Error(`Dataset file path not found for dataset ID: ${id}`);
+    }
+    return {
+      role,
+      id,
+      name: dataset.name,
+      ...(await this.hashFile(dataset.filePath)),
+      targetColumn: dataset.targetColumn ?? null,
+      sizeColumn: dataset.sizeColumn ?? null,
+    };
+  }
+
+  private hashFile(filePath: string): Promise<{ sha256: string; bytes: number }> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash("sha256");
+      let bytes = 0;
+      createReadStream(filePath)
+        .on("data", (chunk) => {
+          hash.update(chunk);
+          bytes += chunk.length;
+        })
+        .on("error", reject)
+        .on("end", () => resolve({ sha256: hash.digest("hex"), bytes }));
+    });
+  }
+
+  // Both are fixed for the life of the process, so they are looked up once. An unavailable
+  // Python backend may only be backing off, so that answer is not kept: the next run asks again.
+  private environment(): Promise<RunEnvironment> {
+    this.environmentPromise ??= this.mlService.backendEnvironment().then((python) => {
+      if (!python) {
+        this.environmentPromise = null;
+      }
+      return {
+        node: process.version,
+        platform: `${process.platform}-${process.arch}`,
+        python,
+      };
+    });
+    return this.environmentPromise;
+  }
+
+  private codeRevision(): Promise<CodeRevision | null> {
+    this.revisionPromise ??= Promise.all([
+      this.git(["rev-parse", "HEAD"]),
+      this.git(["status", "--porcelain", "--untracked-files=no"]),
+    ])
+      .then(([commit, status]) => ({ commit: commit.trim(), dirty: status.trim().length > 0 }))
+      .catch(() => null);
+    return this.revisionPromise;
+  }
+
+  private git(args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const processRef = spawn("git", ["-C", REPOSITORY_ROOT, ...args], {
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0", GIT_OPTIONAL_LOCKS: "0" },
+        stdio: ["ignore", "pipe", "ignore"],
+      });
+      let output = "";
+      processRef.stdout.on("data", (data) => {
+        output += data.toString();
+      });
+      processRef.on("error", reject);
+      processRef.on("close", (code) => (code === 0 ? resolve(output) : reject(new Error(`git ${args[0]} exited with code ${code}`))));
+    });
+  }
+}
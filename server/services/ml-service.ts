@@ -1,9 +1,34 @@
 
 import fs from "fs/promises";
+import os from "os";
 import path from "path";
-import { spawn } from "child_process";
 import { storage } from "../storage";
 import { fileURLToPath } from "url";
+import {
+  type Dataset,
+  type MetricProvenance,
+  type ResamplePreviewRequest,
+  crossProjectConfigSchema,
+} from "@shared/schema";
+import {
+  StandardScaler,
+  encodeFeatureColumns,
+  encodeFeatureRows,
+  loadTabularDataset,
+  parseCsv,
+  prepareTabularData,
+} from "../ml/dataset";
+import type { BackendDocumentation } from "../ml/catalog";
+import { type EnsembleArtifact, isEnsembleArtifact, predictWithEnsemble } from "../ml/ensemble";
+import { type NodeModelArtifact, predictWithArtifact, trainNodePipeline } from "../ml/pipeline";
+import { resample } from "../ml/resampling";
+import { type ProjectSample, trainCrossProjectPipeline } from "../ml/transfer";
+import { capabilities } from "./capability-service";
+import type { JobContext } from "./job-service";
+import { jobCallOptions, pythonWorkers } from "./python-worker-pool";
+
+// Column names recognised as module size (lines of code) at upload.
+const SIZE_COLUMN_NAMES = ["loc", "sloc", "nloc", "loc_total", "lines_of_code", "countlinecode"];
 
 type MetricProfile = {
   accuracy: number;
@@ -15,117 +40,17 @@ type MetricProfile = {
 };
 
 export class MLService {
-  private pythonPath: string;
-
-  constructor() {
-    this.pythonPath = process.env.PYTHON_PATH || (process.platform === "win32" ? "python" : "python3");
-  }
-
-  private parsePythonJsonOutput(output: string) {
-    const trimmed = output.trim();
-    if (!trimmed) {
-      throw new Error("Python process returned empty output");
-    }
-
-    try {
-      return JSON.parse(trimmed);
-    } catch {
-      const lines = trimmed
-        .split(/\r?\n/)
-        .map((line) => line.trim())
-        .filter(Boolean);
-
-      for (let i = lines.length - 1; i >= 0; i--) {
-        try {
-          return JSON.parse(lines[i]);
-        } catch {
-          continue;
-        }
-      }
-    }
-
-    throw new Error("Failed to parse Python JSON output");
-  }
+  private documentation: BackendDocumentation | null = null;
 
   async getGeminiAdvice(stats: any, question: string = "How should I train a model on this imbalanced dataset?") {
-    const moduleDir = path.dirname(fileURLToPath(import.meta.url));
-    const backendPath = path.join(moduleDir, "../../ml_backend.py");
-    return await new Promise<any>((resolve, reject) => {
-      const processRef = spawn(this.pythonPath, [
-        backendPath,
-        "gemini_suggest",
-        JSON.stringify({ stats, question })
-      ]);
-      let output = "";
-      let errorOutput = "";
-      processRef.stdout.on("data", (data) => { output += data.toString(); });
-      processRef.stderr.on("data", (data) => { errorOutput += data.toString(); });
-      processRef.on("close", (code) => {
-        if (code === 0) {
-          try {
-            resolve(this.parsePythonJsonOutput(output));
-          } catch (error) {
-            reject(new Error(`Failed to parse Gemini suggestion output: ${error}`));
-          }
-        } else {
-          reject(new Error(errorOutput || output || "Gemini suggestion failed"));
-        }
-      });
-    });
+    return pythonWorkers.call("gemini_suggest", { stats, question }, { timeoutMs: 60 * 1000 });
   }
 
-  async analyzeDataset(filePath: string) {
+  async analyzeDataset(filePath: string, job?: JobContext) {
     console.log(`[MLService] Starting dataset analysis for file: ${filePath}`);
     
     try {
-      const moduleDir = path.dirname(fileURLToPath(import.meta.url));
-      const backendPath = path.join(moduleDir, "../../ml_backend.py");
-      
-      console.log(`[MLService] Using Python path: ${this.pythonPath}`);
-      console.log(`[MLService] Backend path: ${backendPath}`);
-
-      const result = await new Promise<any>((resolve, reject) => {
-        const processRef = spawn(this.pythonPath, [
-          backendPath,
-          "analyze_dataset",
-          filePath,
-        ]);
-
-        let output = "";
-        let errorOutput = "";
-
-        processRef.stdout.on("data", (data) => {
-          output += data.toString();
-          console.log(`[Python STDOUT] ${data.toString()}`);
-        });
-
-        processRef.stderr.on("data", (data) => {
-          errorOutput += data.toString();
-          console.log(`[Python STDERR] ${data.toString()}`);
-        });
-
-        processRef.on("close", (code) => {
-          console.log(`[MLService] Python process exited with code: ${code}`);
-          console.log(`[MLService] Output length: ${output.length} chars`);
-          console.log(`[MLService] Error output length: ${errorOutput.length} chars`);
-          
-          if (code === 0) {
-            try {
-              const parsed = this.parsePythonJsonOutput(output);
-              console.log(`[MLService] Successfully parsed Python output`);
-              resolve(parsed);
-            } catch (parseError) {
-              console.error(`[MLService] Failed to parse analysis results:`, parseError);
-              console.error(`[MLService] Raw output: ${output}`);
-              reject(new Error(`Failed to parse analysis results: ${parseError}`));
-            }
-          } else {
-            const errorMessage = errorOutput || output || "Python analysis failed with exit code " + code;
-            console.error(`[MLService] Python analysis failed: ${errorMessage}`);
-            reject(new Error(errorMessage));
-          }
-        });
-      });
+      const result = await pythonWorkers.call("analyze_dataset", { filePath }, jobCallOptions(job));
 
       if (result && !result.error) {
         console.log(`[MLService] Python analysis successful`);
@@ -141,6 +66,8 @@ export class MLService {
       console.log(`[MLService] Using Node-based CSV analysis fallback`);
       return await this.analyzeCsvWithNode(filePath);
     } catch (error) {
+      // A cancelled or timed-out job must not quietly continue on the fallback path.
+      job?.throwIfCancelled();
       console.error(`[MLService] Error in Python analysis:`, error);
       console.log(`[MLService] Falling back to Node-based CSV analysis`);
       // Fall back to Node-based CSV analysis if Python is not available
@@ -205,6 +132,10 @@ export class MLService {
       }
     }
 
+    // Module size column for effort-aware metrics
+    const suggestedSizeColumn =
+      header.find((col) => col !== suggestedTarget && SIZE_COLUMN_NAMES.includes(col.toLowerCase())) ?? null;
+
     // Missing values ratio
     let totalCells = rowCount * columnCount;
     let missingCells = 0;
@@ -270,6 +201,7 @@ export class MLService {
       columnCount,
       features,
       suggestedTarget,
+      suggestedSizeColumn,
       quality: {
         missingValues,
         imbalanceRatio,
@@ -453,7 +385,22 @@ export class MLService {
     return { accuracy, precision, recall, f1Score, mcc, aucRoc };
   }
 
-  private normalizeTrainingResult(result: any, modelId: string, modelConfig: any) {
+  private resolveMetricsMode(modelConfig: any): "measured" | "simulated" {
+    return modelConfig?.hyperparameters?.metrics_mode === "simulated" ? "simulated" : "measured";
+  }
+
+  private normalizeTrainingResult(result: any, modelId: string, modelConfig: any, provenance: MetricProvenance) {
+    if (this.resolveMetricsMode(modelConfig) === "measured") {
+      // Persist exactly what the pipeline reported; the provenance tells the
+      // client whether the numbers came from Python or the Node fallback.
+      return {
+        ...(result ?? {}),
+        validationMetrics: result?.validationMetrics ?? null,
+        holdoutMetrics: result?.holdoutMetrics ?? null,
+        metricProvenance: provenance,
+      };
+    }
+
     const algorithm = typeof modelConfig?.algorithm === "string" ? modelConfig.algorithm : "default";
     const samplingTechnique =
       typeof modelConfig?.hyperparameters?.sampling_technique === "string"
@@ -491,20 +438,41 @@ export class MLService {
         ...(result?.holdoutMetrics ?? {}),
         ...holdoutProfile,
       },
+      // Measured fold scores would contradict the synthesized means, so they are dropped.
+      validationSummary: null,
+      foldMetrics: null,
+      outOfFoldScores: null,
+      decisionThreshold: 0.5,
+      thresholdSelection: null,
+      popt: null,
+      accAt20: null,
+      ifa: null,
+      effortMetrics: null,
+      brierScore: null,
+      expectedCalibrationError: null,
+      calibration: null,
+      balancedAccuracy: null,
+      gMean: null,
+      prAuc: null,
+      pf: null,
+      specificity: null,
+      f2Score: null,
+      classificationReport: null,
+      metricProvenance: "simulated" as MetricProvenance,
     };
   }
 
-  async trainModel(modelId: string, modelConfig: any) {
+  async trainModel(modelId: string, modelConfig: any, job?: JobContext) {
     console.log(`[MLService] Starting model training for model: ${modelId}`);
     console.log(`[MLService] Model config:`, JSON.stringify(modelConfig, null, 2));
     
+    if (modelConfig.crossProject) {
+      job?.setProgress(0.1);
+      const crossProjectResult = await this.trainCrossProject(modelId, modelConfig, job);
+      return this.normalizeTrainingResult(crossProjectResult, modelId, modelConfig, "baseline");
+    }
+
     try {
-      const moduleDir = path.dirname(fileURLToPath(import.meta.url));
-      const backendPath = path.join(moduleDir, "../../ml_backend.py");
-      
-      console.log(`[MLService] Using Python path: ${this.pythonPath}`);
-      console.log(`[MLService] Backend path: ${backendPath}`);
-      
       // Get dataset file path from storage
       const dataset = await storage.getDataset(modelConfig.datasetId);
       const datasetPath = dataset?.filePath;
@@ -516,188 +484,224 @@ export class MLService {
       const trainingConfig = {
         modelId,
         ...modelConfig,
-        datasetPath: datasetPath
+        datasetPath: datasetPath,
+        sizeColumn: dataset.sizeColumn ?? null
       };
       
       console.log(`[MLService] Training config:`, JSON.stringify(trainingConfig, null, 2));
       
-      const result = await new Promise<any>((resolve, reject) => {
-        const processRef = spawn(this.pythonPath, [
-          backendPath,
-          "train_model",
-          JSON.stringify(trainingConfig)
-        ]);
-
-        let output = "";
-        let errorOutput = "";
-
-        processRef.stdout.on("data", (data) => { 
-          output += data.toString(); 
-          console.log(`[Python Training STDOUT] ${data.toString()}`);
-        });
-        processRef.stderr.on("data", (data) => { 
-          errorOutput += data.toString(); 
-          console.log(`[Python Training STDERR] ${data.toString()}`);
-        });
-
-        processRef.on("close", (code) => {
-          console.log(`[MLService] Python training process exited with code: ${code}`);
-          
-          if (code === 0) {
-            try {
-              resolve(this.parsePythonJsonOutput(output));
-            } catch (parseError) {
-              console.error(`[MLService] Failed to parse training results:`, parseError);
-              console.error(`[MLService] Raw output: ${output}`);
-              reject(new Error(`Failed to parse training results: ${parseError}`));
-            }
-          } else {
-            const errorMessage = errorOutput || output || "Python training failed with exit code " + code;
-            console.error(`[MLService] Python training failed: ${errorMessage}`);
-            reject(new Error(errorMessage));
-          }
-        });
-      });
+      job?.setProgress(0.1);
+      const result = await pythonWorkers.call("train_model", trainingConfig, jobCallOptions(job));
 
       if (!result || result.error) {
+        job?.setProgress(0.5);
         console.log(`[MLService] Python training failed, falling back to Node baseline`);
         if (result?.error) {
           console.log(`[MLService] Python training error: ${result.error}`);
         }
-        const fallbackResult = await this.trainWithNodeBaseline(modelId, modelConfig);
-        return this.normalizeTrainingResult(fallbackResult, modelId, modelConfig);
+        const fallbackResult = await this.trainWithNodeBaseline(modelId, modelConfig, job);
+        return this.normalizeTrainingResult(fallbackResult, modelId, modelConfig, "baseline");
       }
       
       console.log(`[MLService] Python training successful`);
-      return this.normalizeTrainingResult(result, modelId, modelConfig);
+      return this.normalizeTrainingResult(result, modelId, modelConfig, "measured");
     } catch (error) {
+      job?.throwIfCancelled();
+      job?.setProgress(0.5);
       console.error(`[MLService] Error in Python training:`, error);
       console.log(`[MLService] Falling back to Node baseline training`);
-      const fallbackResult = await this.trainWithNodeBaseline(modelId, modelConfig);
-      return this.normalizeTrainingResult(fallbackResult, modelId, modelConfig);
+      const fallbackResult = await this.trainWithNodeBaseline(modelId, modelConfig, job);
+      return this.normalizeTrainingResult(fallbackResult, modelId, modelConfig, "baseline");
     }
   }
 
-  private async trainWithNodeBaseline(modelId: string, modelConfig: any) {
-    try {
-      const dataset = await storage.getDataset(modelConfig.datasetId);
-      const filePath = dataset?.filePath;
-      if (!filePath) {
-        return {
-          modelPath: null,
-          accuracy: 0,
-          precision: 0,
-          recall: 0,
-          f1Score: 0,
-          mcc: 0,
-          aucRoc: 0.5,
-          confusionMatrix: [[0, 0], [0, 0]],
-          featureImportance: {},
-        };
-      }
+  // In-process fallback used when the Python stack is unavailable. Metrics are measured by
+  // the Node engine; algorithms it does not implement run on their closest native model.
+  private async trainWithNodeBaseline(modelId: string, modelConfig: any, job?: JobContext) {
+    const dataset = await storage.getDataset(modelConfig.datasetId);
+    if (!dataset?.filePath) {
+      throw new Error(`Dataset file path not found for dataset ID: ${modelConfig.datasetId}`);
+    }
 
-      const csv = await fs.readFile(filePath, "utf8");
-      const lines = csv.split(/\r?\n/).filter((l) => l.trim().length > 0);
-      const header = this.safeSplitCsvLine(lines[0]);
-      const rows = lines.slice(1).map((l) => this.safeSplitCsvLine(l));
-      const targetKeywords = ["defect", "bug", "issue", "fault", "error"];
-      let targetIdx = header.length - 1;
-      for (let i = 0; i < header.length; i++) {
-        if (targetKeywords.some((k) => header[i].toLowerCase().includes(k))) { targetIdx = i; break; }
-      }
+    const data = await loadTabularDataset(dataset.filePath, { targetColumn: dataset.targetColumn });
+    const { result, artifact } = await trainNodePipeline(data, {
+      algorithm: modelConfig.algorithm,
+      hyperparameters: modelConfig.hyperparameters,
+      sizeColumn: dataset.sizeColumn,
+      checkpoint: job?.checkpoint,
+    });
+    console.log(
+      `[MLService] Node engine trained ${artifact.engineAlgorithm} for requested algorithm ${modelConfig.algorithm}`
+    );
 
-      const labels = rows.map((r) => (r[targetIdx] ?? "").toString());
-      const counts: Record<string, number> = {};
-      for (const y of labels) counts[y] = (counts[y] || 0) + 1;
-      const [majorityLabel, correct] = Object.entries(counts).sort((a,b)=>b[1]-a[1])[0] ?? ["",0];
-      const total = labels.length || 1;
-      const accuracy = (correct as number) / total;
-
-      let tp=0, fp=0, tn=0, fn=0;
-      for (const y of labels) {
-        const pred = majorityLabel;
-        if (pred === majorityLabel && y === majorityLabel) tp++;
-        else if (pred === majorityLabel && y !== majorityLabel) fp++;
-        else if (pred !== majorityLabel && y !== majorityLabel) tn++;
-        else fn++;
-      }
-      const precision = tp+fp>0 ? tp/(tp+fp) : 0;
-      const recall = tp+fn>0 ? tp/(tp+fn) : 0;
-      const f1Score = precision+recall>0 ? (2*precision*recall)/(precision+recall) : 0;
-      const mccDen = Math.sqrt((tp+fp)*(tp+fn)*(tn+fp)*(tn+fn));
-      const mcc = mccDen>0 ? ((tp*tn - fp*fn)/mccDen) : 0;
+    const modelPath = await this.saveNodeArtifact(modelId, artifact);
+    return { modelPath, ...result };
+  }
 
-      const featureImportance: Record<string, number> = {};
-      header.forEach((col, idx) => { if (idx !== targetIdx) featureImportance[col] = 0; });
+  // Trains on the source datasets and scores the model's own dataset (the target) on the
+  // Node engine. The target counts as labelled only if it has a label column that is not
+  // one of the sources' features.
+  private async trainCrossProject(modelId: string, modelConfig: any, job?: JobContext) {
+    const request = crossProjectConfigSchema.parse(modelConfig.crossProject);
+    const target = await storage.getDataset(modelConfig.datasetId);
+    if (!target?.filePath) {
+      throw new Error(`Dataset file path not found for dataset ID: ${modelConfig.datasetId}`);
+    }
+    const sources: ProjectSample[] = await Promise.all(
+      request.sourceDatasetIds.map(async (id) => {
+        const dataset = await storage.getDataset(id);
+        if (!dataset?.filePath) {
+          throw new Error(`Source dataset file path not found for dataset ID: ${id}`);
+        }
+        const data = await loadTabularDataset(dataset.filePath, { targetColumn: dataset.targetColumn });
+        return { datasetId: dataset.id, name: dataset.name, ...data };
+      })
+    );
 
-      const modelsDir = path.join(path.dirname(fileURLToPath(import.meta.url)), "../../models");
-      await fs.mkdir(modelsDir, { recursive: true }).catch(() => {});
-      const modelPath = path.join(modelsDir, `${modelId}.json`);
-      await fs.writeFile(modelPath, JSON.stringify({ type: "baseline-majority", target: header[targetIdx], majorityLabel, createdAt: new Date().toISOString() }, null, 2));
+    const { header, rows } = parseCsv(await fs.readFile(target.filePath, "utf8"));
+    const sourceFeatures = new Set(sources.flatMap((source) => source.featureNames));
+    const labelColumn =
+      [target.targetColumn, ...sources.map((source) => source.targetColumn)].find(
+        (column): column is string => !!column && header.includes(column) && !sourceFeatures.has(column)
+      ) ?? null;
+    const targetSample: ProjectSample = labelColumn
+      ? { datasetId: target.id, name: target.name, ...prepareTabularData(header, rows, { targetColumn: labelColumn }) }
+      : { datasetId: target.id, name: target.name, ...encodeFeatureColumns(header, rows), targetColumn: null, y: null };
+
+    const { result, artifact } = await trainCrossProjectPipeline(sources, targetSample, {
+      algorithm: modelConfig.algorithm,
+      hyperparameters: modelConfig.hyperparameters,
+      sizeColumn: target.sizeColumn,
+      transfer: {
+        method: request.transfer,
+        neighbors: request.neighbors,
+        components: request.components,
+        mu: request.mu,
+      },
+      checkpoint: job?.checkpoint,
+    });
+    console.log(
+      `[MLService] Cross-project ${request.transfer} model ${modelId}: ` +
+        `${sources.map((source) => source.name).join(" + ")} -> ${target.name} ` +
+        `(${result.crossProject.trainingRows} training modules, target ${labelColumn ? "labelled" : "unlabelled"})`
+    );
 
-      return {
-        modelPath,
-        accuracy,
-        precision,
-        recall,
-        f1Score,
-        mcc,
-        aucRoc: 0.5,
-        confusionMatrix: [[tp, fp], [fn, tn]],
-        featureImportance,
-      };
-    } catch {
-      return {
-        modelPath: null,
-        accuracy: 0,
-        precision: 0,
-        recall: 0,
-        f1Score: 0,
-        mcc: 0,
-        aucRoc: 0.5,
-        confusionMatrix: [[0, 0], [0, 0]],
-        featureImportance: {},
-      };
+    const modelPath = await this.saveNodeArtifact(modelId, artifact);
+    return { modelPath, ...result };
+  }
+
+  async saveNodeArtifact(modelId: string, artifact: NodeModelArtifact | EnsembleArtifact): Promise<string> {
+    const modelsDir = path.join(path.dirname(fileURLToPath(import.meta.url)), "../../models");
+    await fs.mkdir(modelsDir, { recursive: true }).catch(() => {});
+    const modelPath = path.join(modelsDir, `${modelId}.json`);
+    await fs.writeFile(modelPath, JSON.stringify(artifact));
+    return modelPath;
+  }
+
+  // Runs a resampling technique over the whole dataset without training, so users can
+  // see how many rows it would synthesize or drop before committing to a model.
+  async previewResampling(dataset: Dataset, options: ResamplePreviewRequest) {
+    const data = await loadTabularDataset(dataset.filePath, { targetColumn: dataset.targetColumn });
+    const scaled = new StandardScaler().fitTransform(data.X);
+    const { report } = resample(scaled, data.y, {
+      technique: options.technique,
+      seed: options.seed,
+      kNeighbors: options.kNeighbors,
+      targetRatio: options.targetRatio,
+    });
+    console.log(
+      `[MLService] Resampling preview (${report.technique}) on dataset ${dataset.id}: ` +
+        `${JSON.stringify(report.before)} -> ${JSON.stringify(report.after)}`
+    );
+    return { datasetId: dataset.id, targetColumn: data.targetColumn, ...report };
+  }
+
+  async readNodeArtifact(artifactPath: string): Promise<NodeModelArtifact | EnsembleArtifact> {
+    return JSON.parse(await fs.readFile(artifactPath, "utf8")) as NodeModelArtifact | EnsembleArtifact;
+  }
+
+  // Calibrated defect probabilities for rows laid out like `header`, computed in-process.
+  scoreWithNodeArtifact(artifact: NodeModelArtifact | EnsembleArtifact, header: string[], rows: string[][]): number[] {
+    if (isEnsembleArtifact(artifact)) {
+      return predictWithEnsemble(artifact, header, rows);
     }
+    const X = encodeFeatureRows(header, rows, artifact.featureNames, artifact.encodings, artifact.scaler.mean);
+    return predictWithArtifact(artifact, X);
   }
 
-  async explainModel(modelId: string) {
-    return new Promise((resolve, reject) => {
-      const moduleDir = path.dirname(fileURLToPath(import.meta.url));
-      const backendPath = path.join(moduleDir, "../../ml_backend.py");
-      const process = spawn(this.pythonPath, [
-        backendPath,
-        "explain_model",
-        modelId
-      ]);
-
-      let output = "";
-      let errorOutput = "";
-
-      process.stdout.on("data", (data) => {
-        output += data.toString();
-      });
+  // Calibrated defect probabilities for new modules from a stored artifact. Node artifacts
+  // score in-process; pickles go through the Python backend, which reads rows from a CSV.
+  async scoreModules(
+    artifactPath: string,
+    input: { header: string[]; rows: string[][]; filePath?: string }
+  ): Promise<number[]> {
+    if (artifactPath.endsWith(".json")) {
+      return this.scoreWithNodeArtifact(await this.readNodeArtifact(artifactPath), input.header, input.rows);
+    }
 
-      process.stderr.on("data", (data) => {
-        errorOutput += data.toString();
-      });
+    let inputPath = input.filePath;
+    if (!inputPath) {
+      inputPath = path.join(os.tmpdir(), `predict-${Date.now()}-${Math.random().toString(36).slice(2)}.csv`);
+      const quote = (cell: string) => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+      const lines = [input.header, ...input.rows].map((row) => row.map(quote).join(","));
+      await fs.writeFile(inputPath, lines.join("\n"));
+    }
+    try {
+      const result = await pythonWorkers.call("predict_model", { modelPath: artifactPath, inputPath });
+      if (result?.error || !Array.isArray(result?.scores)) {
+        throw new Error(result?.error ?? "Python backend returned no scores");
+      }
+      return result.scores as number[];
+    } finally {
+      if (!input.filePath) {
+        await fs.unlink(inputPath).catch(() => {});
+      }
+    }
+  }
 
-      process.on("close", (code) => {
-        if (code === 0) {
-          try {
-            const result = this.parsePythonJsonOutput(output);
-            resolve(result);
-          } catch (error) {
-            reject(new Error("Failed to parse explanation results"));
-          }
-        } else {
-          reject(new Error(`Explanation failed: ${errorOutput || output}`));
-        }
+  // Writes a pickle as ONNX or PMML through the Python backend and returns the file's bytes.
+  async exportPythonModel(artifactPath: string, format: "onnx" | "pmml", targetColumn: string | null): Promise<Buffer> {
+    const outputPath = path.join(os.tmpdir(), `export-${Date.now()}-${Math.random().toString(36).slice(2)}.${format}`);
+    try {
+      const result = await pythonWorkers.call("export_model", {
+        modelPath: artifactPath,
+        format,
+        outputPath,
+        targetColumn,
       });
-    });
+      if (result?.error) {
+        throw new Error(result.error);
+      }
+      return await fs.readFile(outputPath);
+    } finally {
+      await fs.unlink(outputPath).catch(() => {});
+    }
+  }
+
+  // Python interpreter and package versions, or null when the backend cannot start.
+  async backendEnvironment(): Promise<{ version: string; implementation: string; packages: Record<string, string | null> } | null> {
+    try {
+      const result = await pythonWorkers.call("environment", {});
+      return result?.error ? null : result;
+    } catch {
+      return null;
+    }
+  }
+
+  // Algorithm and sampling documentation from the Python backend; kept once it loads.
+  async algorithmDocumentation(): Promise<BackendDocumentation | null> {
+    if (this.documentation) return this.documentation;
+    try {
+      const result = await pythonWorkers.call("algorithm_docs", {});
+      this.documentation = result?.error ? null : result;
+    } catch {
+      this.documentation = null;
+    }
+    return this.documentation;
   }
 
+  // Training still runs on the Node baseline without the backend, but not as configured.
   isHealthy(): boolean {
-    return true; // TODO: Add ML service health checks
+    return capabilities.isBackendUsable();
   }
 }
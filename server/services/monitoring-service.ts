@@ -0,0 +1,60 @@
+import os from "os";
+import { storage } from "../storage";
+import { realtime } from "./realtime-service";
+import type { InsertMonitoringMetric } from "@shared/schema";
+
+// Samples host CPU and memory into monitoring_metrics and pushes each sample to
+// subscribers of the "monitoring" topic.
+export class MonitoringService {
+  private timer?: NodeJS.Timeout;
+  private lastCpu = os.cpus().map((cpu) => cpu.times);
+
+  start(intervalMs = Number(process.env.MONITORING_INTERVAL_MS) || 15000) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sample().catch((error) => console.error("[MonitoringService] Sampling failed:", error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async record(metric: InsertMonitoringMetric) {
+    const stored = await storage.addMonitoringMetric(metric);
+    realtime.publish("monitoring", "metric", stored);
+    return stored;
+  }
+
+  private cpuUsage(): number {
+    const current = os.cpus().map((cpu) => cpu.times);
+    let idle = 0;
+    let total = 0;
+    current.forEach((times, i) => {
+      const previous = this.lastCpu[i] ?? times;
+      const delta = (key: keyof typeof times) => times[key] - previous[key];
+      const busy = delta("user") + delta("nice") + delta("sys") + delta("irq");
+      idle += delta("idle");
+      total += busy + delta("idle");
+    });
+    this.lastCpu = current;
+    return total > 0 ? ((total - idle) / total) * 100 : 0;
+  }
+
+  private async sample() {
+    const memoryUsage = ((os.totalmem() - os.freemem()) / os.totalmem()) * 100;
+    await this.record({ source: "server", metricType: "cpu_usage", value: Number(this.cpuUsage().toFixed(2)) });
+    await this.record({
+      source: "server",
+      metricType: "memory_usage",
+      value: Number(memoryUsage.toFixed(2)),
+      metadata: { rssBytes: process.memoryUsage().rss },
+    });
+  }
+
+  isHealthy(): boolean {
+    return Boolean(this.timer);
+  }
+}
@@ -0,0 +1,138 @@
+import { once } from "events";
+import fs from "fs/promises";
+import type { Model } from "@shared/schema";
+import { storage } from "../storage";
+import type { MLService } from "./ml-service";
+import type { ModelRegistry } from "./registry-service";
+
+// Appended to every scored row, in this order, in both JSON and CSV responses.
+export const PREDICTION_COLUMNS = ["defect_probability", "predicted_defect", "risk_rank"] as const;
+
+const CSV_CHUNK_ROWS = 1000;
+
+export class PredictionError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "PredictionError";
+  }
+}
+
+export interface PredictionInput {
+  header: string[];
+  rows: string[][];
+  // Set for uploads, so the Python backend can read the CSV in place.
+  filePath?: string;
+}
+
+export interface ModulePrediction {
+  row: number;
+  probability: number;
+  label: number;
+  // 1 is the riskiest module; ties keep input order.
+  rank: number;
+}
+
+export interface PredictionBatch {
+  modelId: string;
+  family: string | null;
+  version: string | null;
+  threshold: number;
+  predictions: ModulePrediction[];
+}
+
+const csvCell = (cell: string | number) => {
+  const text = String(cell);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function rowsFromRecords(records: Record<string, string | number | boolean | null>[]): PredictionInput {
+  const header = Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+  const rows = records.map((record) =>
+    header.map((column) => (record[column] === null || record[column] === undefined ? "" : String(record[column])))
+  );
+  return { header, rows };
+}
+
+export class PredictionService {
+  constructor(private mlService: MLService, private registry: ModelRegistry) {}
+
+  // Node artifacts list the features they were trained on; pickles need the training
+  // dataset's columns minus the target. Extra input columns (ids, paths) pass through.
+  async requiredColumns(model: Model, artifactPath?: string): Promise<string[]> {
+    if (artifactPath?.endsWith(".json")) {
+      const artifact = JSON.parse(await fs.readFile(artifactPath, "utf8")) as { featureNames: string[] };
+      return artifact.featureNames;
+    }
+    const dataset = model.datasetId ? await storage.getDataset(model.datasetId) : undefined;
+    if (!dataset) {
+      throw new PredictionError("The model's training dataset no longer exists", 409);
+    }
+    return Object.keys((dataset.features ?? {}) as Record<string, unknown>).filter(
+      (column) => column !== dataset.targetColumn
+    );
+  }
+
+  async predict(model: Model, input: PredictionInput): Promise<PredictionBatch> {
+    if (model.trainingStatus !== "completed") {
+      throw new PredictionError("Only completed models can score modules", 409);
+    }
+    const artifactPath = await this.registry.artifactPath(model);
+    if (!artifactPath) {
+      throw new PredictionError("Model has no stored artifact; retrain it to score modules", 409);
+    }
+    if (input.rows.length === 0) {
+      throw new PredictionError("No rows to score");
+    }
+    const missing = (await this.requiredColumns(model, artifactPath)).filter((column) => !input.header.includes(column));
+    if (missing.length > 0) {
+      throw new PredictionError(`Missing feature columns: ${missing.join(", ")}`);
+    }
+
+    const scores = await this.mlService.scoreModules(artifactPath, input);
+    if (scores.length !== input.rows.length) {
+      throw new Error(`Scored ${scores.length} of ${input.rows.length} rows`);
+    }
+    const threshold = model.decisionThreshold ?? 0.5;
+    const ranks = new Array<number>(scores.length);
+    scores
+      .map((score, row) => ({ score, row }))
+      .sort((a, b) => b.score - a.score || a.row - b.row)
+      .forEach(({ row }, position) => {
+        ranks[row] = position + 1;
+      });
+
+    console.log(`[PredictionService] Scored ${scores.length} modules with model ${model.id}`);
+    return {
+      modelId: model.id,
+      family: model.family,
+      version: model.version,
+      threshold,
+      predictions: scores.map((score, row) => ({
+        row,
+        probability: Math.round(score * 1e6) / 1e6,
+        label: score >= threshold ? 1 : 0,
+        rank: ranks[row],
+      })),
+    };
+  }
+
+  // Input rows in their original order with the prediction columns appended, written in
+  // chunks that wait for the socket to drain so large snapshots are not buffered whole.
+  async writeCsv(batch: PredictionBatch, input: PredictionInput, out: NodeJS.WritableStream): Promise<void> {
+    out.write([...input.header, ...PREDICTION_COLUMNS].map(csvCell).join(",") + "\n");
+    for (let start = 0; start < input.rows.length; start += CSV_CHUNK_ROWS) {
+      const chunk = input.rows
+        .slice(start, start + CSV_CHUNK_ROWS)
+        .map((row, offset) => {
+          const { probability, label, rank } = batch.predictions[start + offset];
+          const cells = input.header.map((_, column) => row[column] ?? "");
+          return [...cells, probability, label, rank].map(csvCell).join(",") + "\n";
+        })
+        .join("");
+      if (!out.write(chunk)) {
+        await once(out, "drain");
+      }
+    }
+    out.end();
+  }
+}
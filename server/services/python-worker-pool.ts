@@ -0,0 +1,338 @@
+import { type ChildProcess, spawn } from "child_process";
+import type { Socket } from "net";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { JobContext } from "./job-service";
+
+const BACKEND_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), "../../ml_backend.py");
+const DEFAULT_POOL_SIZE = 2;
+const MAX_POOL_SIZE = 8;
+const DEFAULT_CALL_TIMEOUT_MS = 5 * 60 * 1000;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30 * 1000;
+const STDERR_TAIL_CHARS = 4000;
+
+export const PYTHON_EXECUTABLE = process.env.PYTHON_PATH || (process.platform === "win32" ? "python" : "python3");
+
+export class PythonWorkerError extends Error {
+  constructor(message: string, readonly code: number | null = null) {
+    super(message);
+    this.name = "PythonWorkerError";
+  }
+}
+
+export interface PythonCallOptions {
+  // 0 disables the per-call timeout, for calls bounded by their job's own timeout.
+  timeoutMs?: number;
+  // Aborting rejects the call; a call already running takes its worker down with it.
+  signal?: AbortSignal;
+  onProgress?: (update: Record<string, unknown>) => void;
+  // The worker's stderr while it runs this call.
+  onLog?: (chunk: string) => void;
+}
+
+interface PendingCall {
+  id: number;
+  method: string;
+  params: unknown;
+  options: PythonCallOptions;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout | null;
+  detach: () => void;
+}
+
+interface Worker {
+  processRef: ChildProcess;
+  ready: boolean;
+  call: PendingCall | null;
+  buffer: Buffer;
+  stderrTail: string;
+  // Stopped on purpose (timeout or cancellation), so its exit is not a crash.
+  retired: boolean;
+  exited: boolean;
+}
+
+// Options for a call made inside a job: the job's abort signal and timeout apply, and
+// the worker's stderr goes to the job logs.
+export function jobCallOptions(job?: JobContext, options: PythonCallOptions = {}): PythonCallOptions {
+  if (!job) return options;
+  return {
+    timeoutMs: 0,
+    signal: job.signal,
+    onLog: (chunk) => job.log("stderr", chunk),
+    ...options,
+  };
+}
+
+// Long-lived `ml_backend.py serve` processes speaking JSON-RPC 2.0 over stdio with
+// Content-Length framing, so pandas and scikit-learn are imported once per worker rather
+// than once per call. Each worker runs one call at a time; calls queue for the first idle
+// worker. Crashed workers are replaced with exponential backoff, and while the backend
+// cannot start at all calls fail fast so callers reach their Node fallbacks.
+export class PythonWorkerPool {
+  private workers = new Set<Worker>();
+  private queue: PendingCall[] = [];
+  private nextId = 1;
+  private failures = 0;
+  private retryAt = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private startupError: string | null = null;
+
+  constructor(
+    private pythonPath = PYTHON_EXECUTABLE,
+    private size = Math.min(MAX_POOL_SIZE, Math.max(1, Number(process.env.PYTHON_WORKERS) || DEFAULT_POOL_SIZE))
+  ) {}
+
+  call<T = any>(method: string, params: unknown = {}, options: PythonCallOptions = {}): Promise<T> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new PythonWorkerError(`${method} was cancelled`));
+    }
+    if (this.startupError && this.workers.size === 0 && Date.now() < this.retryAt) {
+      return Promise.reject(new PythonWorkerError(`Python backend unavailable: ${this.startupError}`));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const call: PendingCall = {
+        id: this.nextId++,
+        method,
+        params,
+        options,
+        resolve,
+        reject,
+        timer: null,
+        detach: () => {},
+      };
+      if (options.signal) {
+        const onAbort = () => this.abort(call, new PythonWorkerError(`${method} was cancelled`));
+        options.signal.addEventListener("abort", onAbort, { once: true });
+        call.detach = () => options.signal?.removeEventListener("abort", onAbort);
+      }
+      this.queue.push(call);
+      this.pump();
+    });
+  }
+
+  status() {
+    const workers = Array.from(this.workers);
+    return {
+      size: this.size,
+      workers: workers.length,
+      ready: workers.filter((worker) => worker.ready).length,
+      busy: workers.filter((worker) => worker.call).length,
+      queued: this.queue.length,
+      consecutiveFailures: this.failures,
+      lastStartupError: this.startupError,
+    };
+  }
+
+  close() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.queue.splice(0).forEach((call) => this.settle(call, new PythonWorkerError("Python worker pool closed")));
+    this.workers.forEach((worker) => this.retire(worker));
+  }
+
+  private pump() {
+    for (const worker of Array.from(this.workers)) {
+      if (this.queue.length === 0) break;
+      if (worker.ready && !worker.call) this.assign(worker, this.queue.shift()!);
+    }
+
+    const starting = Array.from(this.workers).filter((worker) => !worker.ready).length;
+    let wanted = Math.min(this.queue.length - starting, this.size - this.workers.size);
+    if (wanted <= 0) return;
+    const wait = this.retryAt - Date.now();
+    if (wait > 0) {
+      this.retryTimer ??= setTimeout(() => {
+        this.retryTimer = null;
+        this.pump();
+      }, wait);
+      return;
+    }
+    while (wanted-- > 0) this.spawnWorker();
+  }
+
+  private spawnWorker() {
+    const processRef = spawn(this.pythonPath, [BACKEND_PATH, "serve"], { stdio: ["pipe", "pipe", "pipe"] });
+    const worker: Worker = {
+      processRef,
+      ready: false,
+      call: null,
+      buffer: Buffer.alloc(0),
+      stderrTail: "",
+      retired: false,
+      exited: false,
+    };
+    this.workers.add(worker);
+
+    processRef.stdin?.on("error", () => {});
+    processRef.stdout?.on("data", (chunk: Buffer) => this.receive(worker, chunk));
+    processRef.stderr?.on("data", (data: Buffer) => {
+      const chunk = data.toString();
+      worker.stderrTail = (worker.stderrTail + chunk).slice(-STDERR_TAIL_CHARS);
+      if (worker.call?.options.onLog) {
+        worker.call.options.onLog(chunk);
+      }
+    });
+    processRef.on("error", (error) => this.exited(worker, error.message));
+    processRef.on("close", (code, signal) => this.exited(worker, `exit code ${code ?? signal}`));
+  }
+
+  private assign(worker: Worker, call: PendingCall) {
+    worker.call = call;
+    this.setRef(worker, true);
+    const timeoutMs = call.options.timeoutMs ?? DEFAULT_CALL_TIMEOUT_MS;
+    if (timeoutMs > 0) {
+      call.timer = setTimeout(
+        () => this.abort(call, new PythonWorkerError(`${call.method} timed out after ${Math.ceil(timeoutMs / 1000)}s`)),
+        timeoutMs
+      );
+    }
+    this.send(worker, { jsonrpc: "2.0", id: call.id, method: call.method, params: call.params });
+  }
+
+  private abort(call: PendingCall, error: PythonWorkerError) {
+    const queued = this.queue.indexOf(call);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    } else {
+      // Python cannot interrupt a running operation, so the worker goes with the call.
+      const worker = Array.from(this.workers).find((candidate) => candidate.call === call);
+      if (!worker) return;
+      worker.call = null;
+      this.retire(worker);
+    }
+    this.settle(call, error);
+  }
+
+  private settle(call: PendingCall, error: Error | null, result?: unknown) {
+    if (call.timer) clearTimeout(call.timer);
+    call.detach();
+    if (error) call.reject(error);
+    else call.resolve(result);
+  }
+
+  private send(worker: Worker, message: unknown) {
+    const body = Buffer.from(JSON.stringify(message), "utf8");
+    worker.processRef.stdin?.write(Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, "ascii"), body]));
+  }
+
+  private receive(worker: Worker, chunk: Buffer) {
+    worker.buffer = Buffer.concat([worker.buffer, chunk]);
+    for (;;) {
+      const headerEnd = worker.buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) return;
+      const match = /content-length:\s*(\d+)/i.exec(worker.buffer.subarray(0, headerEnd).toString("ascii"));
+      if (!match) {
+        // Out of sync with the stream; nothing after this point can be trusted.
+        worker.stderrTail += "\nUnframed output on the protocol stream";
+        this.retire(worker, false);
+        return;
+      }
+      const start = headerEnd + 4;
+      const end = start + Number(match[1]);
+      if (worker.buffer.length < end) return;
+      const body = worker.buffer.subarray(start, end).toString("utf8");
+      worker.buffer = worker.buffer.subarray(end);
+      this.handleMessage(worker, body);
+    }
+  }
+
+  private handleMessage(worker: Worker, body: string) {
+    let message: any;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      // The frame was intact, so the worker is still usable; only this reply is lost.
+      const call = worker.call;
+      if (call) {
+        worker.call = null;
+        this.settle(call, new PythonWorkerError(`${call.method} returned a response that is not valid JSON`));
+        this.idle(worker);
+      }
+      return;
+    }
+
+    if (message.method === "ready") {
+      worker.ready = true;
+      this.failures = 0;
+      this.startupError = null;
+      this.idle(worker);
+      return;
+    }
+    if (message.method === "progress") {
+      const { id, ...update } = message.params ?? {};
+      const call = worker.call;
+      if (call && call.id === id) call.options.onProgress?.(update);
+      return;
+    }
+
+    const call = worker.call;
+    if (!call || message.id !== call.id) return;
+    worker.call = null;
+    if (message.error) {
+      this.settle(call, new PythonWorkerError(message.error.message ?? `${call.method} failed`, message.error.code ?? null));
+    } else {
+      this.settle(call, null, message.result);
+    }
+    this.idle(worker);
+  }
+
+  private idle(worker: Worker) {
+    this.setRef(worker, false);
+    this.pump();
+  }
+
+  // Idle workers must not keep the Node process alive on their own.
+  private setRef(worker: Worker, active: boolean) {
+    const handles = [worker.processRef, worker.processRef.stdout, worker.processRef.stderr, worker.processRef.stdin];
+    handles.forEach((handle) => {
+      const socket = handle as unknown as Partial<Socket> | null;
+      if (active) socket?.ref?.();
+      else socket?.unref?.();
+    });
+  }
+
+  // Takes the worker out of rotation at once; its exit is handled when the process is gone.
+  private retire(worker: Worker, deliberate = true) {
+    worker.retired = deliberate;
+    this.workers.delete(worker);
+    worker.processRef.stdin?.end();
+    worker.processRef.kill("SIGKILL");
+  }
+
+  private exited(worker: Worker, reason: string) {
+    if (worker.exited) return;
+    worker.exited = true;
+    this.workers.delete(worker);
+    const detail = worker.stderrTail.trim() || reason;
+
+    if (worker.call) {
+      const call = worker.call;
+      worker.call = null;
+      this.settle(call, new PythonWorkerError(`Python worker exited during ${call.method} (${reason}): ${detail}`));
+    }
+
+    if (!worker.retired) {
+      this.failures += 1;
+      const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (this.failures - 1));
+      this.retryAt = Date.now() + backoff;
+      console.log(`[PythonWorkerPool] Worker ${worker.processRef.pid ?? "?"} exited (${reason}); next start in ${backoff}ms`);
+
+      // A worker that never came up means the backend cannot start: fail queued calls
+      // now instead of holding them through the backoff.
+      if (!worker.ready) {
+        this.startupError = detail;
+        if (!Array.from(this.workers).some((candidate) => candidate.ready)) {
+          this.queue
+            .splice(0)
+            .forEach((call) => this.settle(call, new PythonWorkerError(`Python backend unavailable: ${detail}`)));
+        }
+      }
+    }
+    this.pump();
+  }
+}
+
+export const pythonWorkers = new PythonWorkerPool();
@@ -0,0 +1,134 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+
+export const realtimeTopics = ["models", "datasets", "rl", "monitoring", "jobs"] as const;
+export type RealtimeTopic = typeof realtimeTopics[number];
+
+export interface RealtimeEvent {
+  topic: RealtimeTopic;
+  type: string;
+  payload: unknown;
+  timestamp: string;
+}
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+interface ClientState {
+  topics: Set<RealtimeTopic>;
+  isAlive: boolean;
+}
+
+function isTopic(value: unknown): value is RealtimeTopic {
+  return typeof value === "string" && (realtimeTopics as readonly string[]).includes(value);
+}
+
+// Topic-based event channel on /ws. Clients send
+//   { type: "subscribe" | "unsubscribe", topics: [...] } and { type: "ping" };
+// the server pushes { topic, type, payload, timestamp } for subscribed topics and
+// drops connections that miss a heartbeat.
+export class RealtimeService {
+  private wss?: WebSocketServer;
+  private clients: Map<WebSocket, ClientState> = new Map();
+  private heartbeat?: NodeJS.Timeout;
+
+  attach(server: Server, path = "/ws") {
+    if (this.wss) return;
+    // noServer keeps other upgrade requests (Vite HMR) untouched.
+    this.wss = new WebSocketServer({ noServer: true });
+
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+      if (pathname !== path) return;
+      this.wss!.handleUpgrade(req, socket, head, (ws) => this.wss!.emit("connection", ws, req));
+    });
+
+    this.wss.on("connection", (ws: WebSocket) => this.handleConnection(ws));
+
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach((state, ws) => {
+        if (!state.isAlive) {
+          ws.terminate();
+          this.clients.delete(ws);
+          return;
+        }
+        state.isAlive = false;
+        ws.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+    console.log(`[RealtimeService] WebSocket channel listening on ${path}`);
+  }
+
+  publish(topic: RealtimeTopic, type: string, payload: unknown = {}) {
+    if (this.clients.size === 0) return;
+    const event: RealtimeEvent = { topic, type, payload, timestamp: new Date().toISOString() };
+    const message = JSON.stringify(event);
+    this.clients.forEach((state, ws) => {
+      if (state.topics.has(topic) && ws.readyState === WebSocket.OPEN) {
+        ws.send(message);
+      }
+    });
+  }
+
+  getStats() {
+    const subscriptions = Object.fromEntries(realtimeTopics.map((topic) => [topic, 0])) as Record<
+      RealtimeTopic,
+      number
+    >;
+    this.clients.forEach((state) => state.topics.forEach((topic) => subscriptions[topic]++));
+    return { connections: this.clients.size, subscriptions };
+  }
+
+  close() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.clients.forEach((_, ws) => ws.terminate());
+    this.clients.clear();
+    this.wss?.close();
+    this.wss = undefined;
+  }
+
+  private handleConnection(ws: WebSocket) {
+    const state: ClientState = { topics: new Set(), isAlive: true };
+    this.clients.set(ws, state);
+
+    ws.on("pong", () => {
+      state.isAlive = true;
+    });
+
+    ws.on("message", (raw) => {
+      state.isAlive = true;
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        ws.send(JSON.stringify({ type: "error", error: "Invalid message format" }));
+        return;
+      }
+
+      const topics: RealtimeTopic[] = Array.isArray(message?.topics) ? message.topics.filter(isTopic) : [];
+      switch (message?.type) {
+        case "subscribe":
+          topics.forEach((topic) => state.topics.add(topic));
+          ws.send(JSON.stringify({ type: "subscribed", topics: Array.from(state.topics) }));
+          break;
+        case "unsubscribe":
+          topics.forEach((topic) => state.topics.delete(topic));
+          ws.send(JSON.stringify({ type: "subscribed", topics: Array.from(state.topics) }));
+          break;
+        case "ping":
+          ws.send(JSON.stringify({ type: "pong", timestamp: new Date().toISOString() }));
+          break;
+        default:
+          ws.send(JSON.stringify({ type: "error", error: `Unknown message type: ${message?.type}` }));
+      }
+    });
+
+    ws.on("close", () => this.clients.delete(ws));
+    ws.on("error", () => this.clients.delete(ws));
+
+    ws.send(JSON.stringify({ type: "welcome", topics: realtimeTopics, heartbeatMs: HEARTBEAT_INTERVAL_MS }));
+  }
+}
+
+export const realtime = new RealtimeService();
@@ -0,0 +1,199 @@
+import fs from "fs/promises";
+import path from "path";
+import type { InsertModel, Model } from "@shared/schema";
+import { storage } from "../storage";
+import { realtime } from "./realtime-service";
+
+export const MODEL_STAGES = ["staging", "production", "archived"] as const;
+export type ModelStage = typeof MODEL_STAGES[number];
+
+export const VERSION_BUMPS = ["major", "minor", "patch"] as const;
+export type VersionBump = typeof VERSION_BUMPS[number];
+
+const INITIAL_VERSION = "1.0.0";
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)$/;
+// Pipelines write artifacts as models/<model id>.<ext>; nothing else is ever deleted.
+const ARTIFACT_EXTENSIONS = [".pkl", ".json"];
+
+export class RegistryError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "RegistryError";
+  }
+}
+
+export interface ModelVersion {
+  id: string;
+  name: string;
+  algorithm: string;
+  version: string;
+  stage: string;
+  trainingStatus: string | null;
+  metricProvenance: string | null;
+  f1Score: number | null;
+  mcc: number | null;
+  aucRoc: number | null;
+  configHash: string | null;
+  createdAt: Date | null;
+}
+
+export interface ModelFamily {
+  family: string;
+  productionId: string | null;
+  latestVersion: string;
+  versions: ModelVersion[];
+}
+
+function parseVersion(version: string | null | undefined): [number, number, number] | null {
+  const match = SEMVER.exec(version ?? "");
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+export function compareVersions(a: string | null, b: string | null): number {
+  const left = parseVersion(a) ?? [0, 0, 0];
+  const right = parseVersion(b) ?? [0, 0, 0];
+  return left[0] - right[0] || left[1] - right[1] || left[2] - right[2];
+}
+
+export function bumpVersion(version: string | null, bump: VersionBump): string {
+  const parsed = parseVersion(version);
+  if (!parsed) return INITIAL_VERSION;
+  const [major, minor, patch] = parsed;
+  if (bump === "major") return `${major + 1}.0.0`;
+  if (bump === "minor") return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+// Registry semantics over the models table: every model belongs to a family (defaulting to
+// its algorithm), carries a semantic version unique within the family, and sits in one
+// stage. A family has at most one production version, which prediction uses by default.
+export class ModelRegistry {
+  async familyModels(family: string): Promise<Model[]> {
+    const models = await storage.getAllModels();
+    return models
+      .filter((model) => (model.family ?? model.algorithm) === family)
+      .sort((a, b) => compareVersions(b.version, a.version));
+  }
+
+  // Fills in family, version and stage for a model about to be created.
+  async register(modelData: InsertModel, bump: VersionBump = "minor"): Promise<InsertModel> {
+    const family = modelData.family?.trim() || modelData.algorithm;
+    const siblings = await this.familyModels(family);
+    const taken = new Set(siblings.map((model) => model.version));
+    const requested = parseVersion(modelData.version) ? modelData.version! : null;
+    if (requested && taken.has(requested)) {
+      throw new RegistryError(`Version ${requested} already exists in family ${family}`, 409);
+    }
+    const latest = siblings[0]?.version ?? null;
+    const version = requested ?? (latest ? bumpVersion(latest, bump) : INITIAL_VERSION);
+    return { ...modelData, family, version, stage: "staging" };
+  }
+
+  async listFamilies(): Promise<ModelFamily[]> {
+    const models = await storage.getAllModels();
+    const byFamily = new Map<string, Model[]>();
+    for (const model of models) {
+      const family = model.family ?? model.algorithm;
+      byFamily.set(family, [...(byFamily.get(family) ?? []), model]);
+    }
+    return Array.from(byFamily.entries())
+      .map(([family, members]) => {
+        const versions = members.sort((a, b) => compareVersions(b.version, a.version));
+        return {
+          family,
+          productionId: versions.find((model) => model.stage === "production")?.id ?? null,
+          latestVersion: versions[0]?.version ?? INITIAL_VERSION,
+          versions: versions.map((model) => ({
+            id: model.id,
+            name: model.name,
+            algorithm: model.algorithm,
+            version: model.version ?? INITIAL_VERSION,
+            stage: model.stage ?? "staging",
+            trainingStatus: model.trainingStatus,
+            metricProvenance: model.metricProvenance,
+            f1Score: model.f1Score,
+            mcc: model.mcc,
+            aucRoc: model.aucRoc,
+            configHash: model.configHash ?? null,
+            createdAt: model.createdAt,
+          })),
+        };
+      })
+      .sort((a, b) => a.family.localeCompare(b.family));
+  }
+
+  // Promoting a version archives the family's previous production version.
+  async transition(id: string, stage: ModelStage): Promise<Model> {
+    const model = await storage.getModel(id);
+    if (!model) {
+      throw new RegistryError("Model not found", 404);
+    }
+    if (stage === "production" && model.trainingStatus !== "completed") {
+      throw new RegistryError("Only completed models can be promoted to production", 409);
+    }
+    if (stage === "production") {
+      const current = (await this.familyModels(model.family ?? model.algorithm)).filter(
+        (sibling) => sibling.stage === "production" && sibling.id !== id
+      );
+      for (const sibling of current) {
+        await storage.updateModel(sibling.id, { stage: "archived" });
+      }
+    }
+    const updated = await storage.updateModel(id, { stage });
+    console.log(`[ModelRegistry] ${model.family ?? model.algorithm}@${model.version} moved to ${stage}`);
+    realtime.publish("models", "model_stage_changed", { modelId: id, family: model.family, stage });
+    return updated;
+  }
+
+  // An explicit model id wins; otherwise the family's production version.
+  async resolvePredictionModel(target: { modelId?: string; family?: string }): Promise<Model> {
+    if (target.modelId) {
+      const model = await storage.getModel(target.modelId);
+      if (!model) throw new RegistryError("Model not found", 404);
+      return model;
+    }
+    if (!target.family) {
+      throw new RegistryError("Specify a model id or a model family");
+    }
+    const production = (await this.familyModels(target.family)).find((model) => model.stage === "production");
+    if (!production) {
+      throw new RegistryError(`Family ${target.family} has no production version`, 404);
+    }
+    return production;
+  }
+
+  async artifactPath(model: Model): Promise<string | null> {
+    if (!model.modelPath) return null;
+    const resolved = path.resolve(model.modelPath);
+    const expected = ARTIFACT_EXTENSIONS.some((ext) => path.basename(resolved) === `${model.id}${ext}`);
+    if (!expected || path.basename(path.dirname(resolved)) !== "models") return null;
+    try {
+      await fs.access(resolved);
+      return resolved;
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteModel(id: string): Promise<{ id: string; artifactRemoved: boolean }> {
+    const model = await storage.getModel(id);
+    if (!model) {
+      throw new RegistryError("Model not found", 404);
+    }
+    if (model.stage === "production") {
+      throw new RegistryError("Promote another version or archive this one before deleting it", 409);
+    }
+    if (model.trainingStatus === "training" || model.trainingStatus === "pending") {
+      throw new RegistryError("Cancel the training job before deleting the model", 409);
+    }
+
+    const artifact = await this.artifactPath(model);
+    if (artifact) {
+      await fs.unlink(artifact);
+    }
+    await storage.deleteModel(id);
+    console.log(`[ModelRegistry] Deleted ${model.family ?? model.algorithm}@${model.version} (${id})`);
+    realtime.publish("models", "model_deleted", { modelId: id, family: model.family });
+    return { id, artifactRemoved: Boolean(artifact) };
+  }
+}
@@ -1,127 +1,64 @@
-import { spawn } from "child_process";
-import path from "path";
-import { fileURLToPath } from "url";
 import { storage } from "../storage";
+import { capabilities } from "./capability-service";
+import { type JobContext, jobService } from "./job-service";
+import { jobCallOptions, pythonWorkers } from "./python-worker-pool";
+import { realtime } from "./realtime-service";
 
-export class RLService {
-  private pythonPath: string;
-  private trainingProcesses: Map<string, any> = new Map();
-
-  constructor() {
-    this.pythonPath = process.env.PYTHON_PATH || (process.platform === "win32" ? "python" : "python3");
-  }
-
-  async trainAgent(agentId: string, config: any) {
-    const moduleDir = path.dirname(fileURLToPath(import.meta.url));
-    const backendPath = path.join(moduleDir, "../../ml_backend.py");
-    const process = spawn(this.pythonPath, [
-      backendPath,
-      "train_rl_agent",
-      JSON.stringify({ agentId, ...config })
-    ]);
-
-    this.trainingProcesses.set(agentId, process);
+// Episode count of the Python RL loop, used to turn progress notifications into a fraction.
+const RL_EPISODES = 100;
 
-    let output = "";
-    let errorOutput = "";
-
-    process.stdout.on("data", async (data) => {
-      const chunk = data.toString();
-      output += chunk;
-      
-      // Parse progress updates
-      const lines = chunk.split('\n');
-      for (const line of lines) {
-        if (line.startsWith('PROGRESS:')) {
-          try {
-            const progress = JSON.parse(line.substring(9));
-            await storage.updateRlAgent(agentId, {
-              trainingProgress: progress,
-              status: "training"
-            });
-          } catch (error) {
-            console.error("Failed to parse RL progress:", error);
-          }
-        }
+export class RLService {
+  // Runs inside an rl_training job; the job's signal cancels the call (and stops its
+  // worker), and each episode arrives as a progress notification.
+  async trainAgent(agentId: string, config: any, job?: JobContext) {
+    let result: any;
+    try {
+      result = await pythonWorkers.call(
+        "train_rl_agent",
+        { agentId, ...config },
+        jobCallOptions(job, {
+          onProgress: (progress) => {
+            if (typeof progress.episode === "number") {
+              job?.setProgress((progress.episode + 1) / RL_EPISODES);
+            }
+            void storage.updateRlAgent(agentId, { trainingProgress: progress, status: "training" });
+            realtime.publish("rl", "rl_progress", { agentId, jobId: job?.jobId ?? null, progress });
+          },
+        })
+      );
+    } catch (error) {
+      if (job?.signal.aborted) {
+        await storage.updateRlAgent(agentId, { status: "stopped" });
+        job.throwIfCancelled();
       }
-    });
-
-    process.stderr.on("data", (data) => {
-      errorOutput += data.toString();
-    });
+      await storage.updateRlAgent(agentId, { status: "failed" });
+      throw error;
+    }
 
-    process.on("close", async (code) => {
-      this.trainingProcesses.delete(agentId);
-      
-      if (code === 0) {
-        try {
-          const result = JSON.parse(output.split('FINAL_RESULT:')[1] || '{}');
-          await storage.updateRlAgent(agentId, {
-            status: "completed",
-            performance: result.performance,
-            modelPath: result.modelPath
-          });
-        } catch (error) {
-          await storage.updateRlAgent(agentId, {
-            status: "failed"
-          });
-        }
-      } else {
-        await storage.updateRlAgent(agentId, {
-          status: "failed"
-        });
-      }
+    await storage.updateRlAgent(agentId, {
+      status: "completed",
+      performance: result.performance,
+      modelPath: result.modelPath
     });
+    realtime.publish("rl", "rl_training_complete", { agentId, performance: result.performance });
+    return result;
   }
 
   async stopTraining(agentId: string) {
-    const process = this.trainingProcesses.get(agentId);
-    if (process) {
-      process.kill();
-      this.trainingProcesses.delete(agentId);
+    const cancelled = await jobService.cancelByResource("rl_training", agentId);
+    if (cancelled.length > 0) {
       await storage.updateRlAgent(agentId, {
         status: "stopped"
       });
     }
+    return cancelled;
   }
 
   async getAgentPerformance(agentId: string) {
-    return new Promise((resolve, reject) => {
-      const moduleDir = path.dirname(fileURLToPath(import.meta.url));
-      const backendPath = path.join(moduleDir, "../../ml_backend.py");
-      const process = spawn(this.pythonPath, [
-        backendPath,
-        "get_rl_performance",
-        agentId
-      ]);
-
-      let output = "";
-      let errorOutput = "";
-
-      process.stdout.on("data", (data) => {
-        output += data.toString();
-      });
-
-      process.stderr.on("data", (data) => {
-        errorOutput += data.toString();
-      });
-
-      process.on("close", (code) => {
-        if (code === 0) {
-          try {
-            const result = JSON.parse(output);
-            resolve(result);
-          } catch (error) {
-            reject(new Error("Failed to parse performance results"));
-          }
-        } else {
-          reject(new Error(`Performance query failed: ${errorOutput || output}`));
-        }
-      });
-    });
+    return pythonWorkers.call("get_rl_performance", { agentId });
   }
 
   isHealthy(): boolean {
-    return true; // TODO: Add RL environment health checks
+    return capabilities.isUsable("features", "reinforcement_learning");
   }
 }
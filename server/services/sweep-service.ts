@@ -0,0 +1,91 @@
+import { storage } from "../storage";
+import type { SamplingSweep } from "@shared/schema";
+import { loadTabularDataset } from "../ml/dataset";
+import {
+  type SweepCell,
+  type SweepObjective,
+  SWEEP_METRICS,
+  evaluateSweepCell,
+  recommendSweepCell,
+  sweepFolds,
+} from "../ml/sweep";
+import { type JobContext, JobCancelledError } from "./job-service";
+import { realtime } from "./realtime-service";
+
+// Runs sampling-ratio sweeps on the Node engine, like tuning studies: cells are scored on
+// the training split only and stored as they finish, so a cancelled sweep keeps its
+// partial heatmap.
+export class SweepService {
+  async runSweep(sweep: SamplingSweep, job: JobContext): Promise<SamplingSweep> {
+    const dataset = sweep.datasetId ? await storage.getDataset(sweep.datasetId) : undefined;
+    if (!dataset?.filePath) {
+      throw new Error(`Dataset file path not found for dataset ID: ${sweep.datasetId}`);
+    }
+    const data = await loadTabularDataset(dataset.filePath, { targetColumn: dataset.targetColumn });
+    const hyperparameters = (sweep.hyperparameters ?? {}) as Record<string, any>;
+    const folds = sweepFolds(data.y, hyperparameters, sweep.folds, sweep.repeats);
+    const plan: Array<[string, number | null]> = [["none", null]];
+    for (const technique of sweep.techniques as string[]) {
+      for (const ratio of sweep.ratios as number[]) plan.push([technique, ratio]);
+    }
+
+    console.log(
+      `[SweepService] Sweep ${sweep.id}: ${plan.length} cells of ${sweep.algorithm} on ${dataset.name}, ` +
+        `${folds.length} folds each`
+    );
+
+    const cells: SweepCell[] = [];
+    for (let index = 0; index < plan.length; index++) {
+      await job.checkpoint();
+      const [technique, ratio] = plan[index];
+      let cell: SweepCell;
+      try {
+        cell = await evaluateSweepCell(
+          data,
+          folds,
+          sweep.algorithm,
+          hyperparameters,
+          technique,
+          ratio,
+          job.checkpoint
+        );
+      } catch (error) {
+        if (error instanceof JobCancelledError) throw error;
+        cell = {
+          technique,
+          ratio,
+          achievedRatio: null,
+          evaluations: 0,
+          metrics: Object.fromEntries(SWEEP_METRICS.map((name) => [name, null])) as SweepCell["metrics"],
+          notes: [],
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      cells.push(cell);
+      await storage.updateSamplingSweep(sweep.id, { cells });
+
+      job.log(
+        "stdout",
+        `${technique}${ratio === null ? "" : `@${ratio}`}: mcc=${cell.metrics.mcc?.mean.toFixed(4) ?? "n/a"} ` +
+          `recall=${cell.metrics.recall?.mean.toFixed(4) ?? "n/a"} pf=${cell.metrics.pf?.mean.toFixed(4) ?? "n/a"}\n`
+      );
+      job.setProgress((index + 1) / plan.length);
+      realtime.publish("models", "sampling_sweep_cell_completed", {
+        sweepId: sweep.id,
+        technique,
+        ratio,
+        mcc: cell.metrics.mcc?.mean ?? null,
+      });
+    }
+
+    const recommended = recommendSweepCell(cells, sweep.objective as SweepObjective);
+    if (!recommended) {
+      throw new Error("No cell produced a score");
+    }
+    console.log(
+      `[SweepService] Sweep ${sweep.id} recommends ${recommended.technique}` +
+        `${recommended.ratio === null ? "" : ` at ratio ${recommended.ratio}`} (${sweep.objective}=${recommended.score})`
+    );
+    return storage.updateSamplingSweep(sweep.id, { recommended });
+  }
+}
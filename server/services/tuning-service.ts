@@ -0,0 +1,134 @@
+import { storage } from "../storage";
+import type { TuningStudy, TuningTrial } from "@shared/schema";
+import { ENGINE_ALGORITHMS, type EngineAlgorithm } from "../ml/classifiers";
+import { loadTabularDataset } from "../ml/dataset";
+import { outOfFoldScores, resolveSeed } from "../ml/pipeline";
+import { createRng } from "../ml/random";
+import {
+  DEFAULT_SEARCH_SPACES,
+  type SearchSpace,
+  type SearchStrategy,
+  type TrialObservation,
+  type TrialParams,
+  type TuningObjective,
+  gridCandidates,
+  sampleRandom,
+  scoreFolds,
+  suggestTpe,
+} from "../ml/tuning";
+import { type JobContext, JobCancelledError } from "./job-service";
+import { realtime } from "./realtime-service";
+
+// Runs hyperparameter searches. Every trial is scored on out-of-fold predictions of the
+// training split with the Node engine, so a study runs without the Python stack and
+// never looks at the holdout rows; the winning configuration is trained afterwards
+// through the regular training pipeline.
+export class TuningService {
+  // Only algorithms the Node engine implements itself: for the others trials would score
+  // its stand-in model, whose parameters do not apply to the model that gets promoted.
+  isTunable(algorithm: string): algorithm is EngineAlgorithm {
+    return (ENGINE_ALGORITHMS as readonly string[]).includes(algorithm);
+  }
+
+  defaultSearchSpace(algorithm: EngineAlgorithm): SearchSpace {
+    return DEFAULT_SEARCH_SPACES[algorithm];
+  }
+
+  async runStudy(study: TuningStudy, job: JobContext): Promise<TuningStudy> {
+    const dataset = study.datasetId ? await storage.getDataset(study.datasetId) : undefined;
+    if (!dataset?.filePath) {
+      throw new Error(`Dataset file path not found for dataset ID: ${study.datasetId}`);
+    }
+    const data = await loadTabularDataset(dataset.filePath, { targetColumn: dataset.targetColumn });
+
+    const space = study.searchSpace as SearchSpace;
+    const baseHyperparameters = (study.baseHyperparameters ?? {}) as Record<string, any>;
+    const objective = study.objective as TuningObjective;
+    const strategy = study.strategy as SearchStrategy;
+    const rng = createRng(resolveSeed(baseHyperparameters));
+    const grid = strategy === "grid" ? gridCandidates(space, study.budget, rng) : [];
+    const budget = strategy === "grid" ? grid.length : study.budget;
+    const startupTrials = Math.min(10, Math.max(3, Math.ceil(budget / 4)));
+
+    console.log(
+      `[TuningService] Study ${study.id}: ${strategy} search over ${Object.keys(space).join(", ")} ` +
+        `for ${study.algorithm}, ${budget} trials, maximising ${objective}`
+    );
+
+    const history: TrialObservation[] = [];
+    let best: TuningTrial | null = null;
+    for (let number = 0; number < budget; number++) {
+      await job.checkpoint();
+      const params: TrialParams =
+        strategy === "grid"
+          ? grid[number]
+          : strategy === "random"
+            ? sampleRandom(space, rng)
+            : suggestTpe(space, history, rng, { startupTrials });
+
+      const started = Date.now();
+      let trial: TuningTrial;
+      try {
+        const oof = await outOfFoldScores(
+          data,
+          study.algorithm,
+          { ...baseHyperparameters, ...params },
+          study.folds,
+          job.checkpoint
+        );
+        const scores = scoreFolds(oof.folds);
+        const score = scores[objective];
+        trial = await storage.createTuningTrial({
+          studyId: study.id,
+          number,
+          params,
+          score,
+          scores,
+          status: score === null ? "failed" : "completed",
+          error: score === null ? `No ${objective} score could be computed` : null,
+          durationMs: Date.now() - started,
+        });
+      } catch (error) {
+        if (error instanceof JobCancelledError) throw error;
+        trial = await storage.createTuningTrial({
+          studyId: study.id,
+          number,
+          params,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - started,
+        });
+      }
+
+      if (trial.score !== null) {
+        history.push({ params, score: trial.score });
+        if (!best || trial.score > best.score!) {
+          best = trial;
+          await storage.updateTuningStudy(study.id, {
+            bestTrialId: trial.id,
+            bestScore: trial.score,
+            bestParams: trial.params,
+          });
+        }
+      }
+
+      job.log(
+        "stdout",
+        `trial ${number}: ${objective}=${trial.score?.toFixed(4) ?? "n/a"} ${JSON.stringify(params)}\n`
+      );
+      job.setProgress((number + 1) / budget);
+      realtime.publish("models", "tuning_trial_completed", {
+        studyId: study.id,
+        number,
+        score: trial.score,
+        bestScore: best?.score ?? null,
+      });
+    }
+
+    if (!best) {
+      throw new Error("No trial produced a score");
+    }
+    console.log(`[TuningService] Study ${study.id} best ${objective}=${best.score} with ${JSON.stringify(best.params)}`);
+    return (await storage.getTuningStudy(study.id))!;
+  }
+}
@@ -3,7 +3,9 @@ import {
   type Model, type InsertModel, type QuantumExperiment, type InsertQuantumExperiment,
   type RlAgent, type InsertRlAgent, type FederatedNode, type InsertFederatedNode,
   type FederatedJob, type InsertFederatedJob, type NlpAnalysis, type InsertNlpAnalysis,
-  type MonitoringMetric, type InsertMonitoringMetric
+  type MonitoringMetric, type InsertMonitoringMetric, type Job, type InsertJob,
+  type TuningStudy, type InsertTuningStudy, type TuningTrial, type InsertTuningTrial,
+  type SamplingSweep, type InsertSamplingSweep
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import path from "path";
@@ -26,6 +28,7 @@ export interface IStorage {
   getModelsByDataset(datasetId: string): Promise<Model[]>;
   createModel(model: InsertModel): Promise<Model>;
   updateModel(id: string, updates: Partial<Model>): Promise<Model>;
+  deleteModel(id: string): Promise<boolean>;
   
   // Quantum experiment operations
   getQuantumExperiment(id: string): Promise<QuantumExperiment | undefined>;
@@ -58,6 +61,26 @@ export interface IStorage {
   // Monitoring operations
   addMonitoringMetric(metric: InsertMonitoringMetric): Promise<MonitoringMetric>;
   getMonitoringMetrics(source?: string, hours?: number): Promise<MonitoringMetric[]>;
+
+  // Background job operations
+  getJob(id: string): Promise<Job | undefined>;
+  getAllJobs(filter?: { type?: string; resourceId?: string; status?: string }): Promise<Job[]>;
+  createJob(job: InsertJob): Promise<Job>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job>;
+
+  // Hyperparameter tuning operations
+  getTuningStudy(id: string): Promise<TuningStudy | undefined>;
+  getAllTuningStudies(): Promise<TuningStudy[]>;
+  createTuningStudy(study: InsertTuningStudy): Promise<TuningStudy>;
+  updateTuningStudy(id: string, updates: Partial<TuningStudy>): Promise<TuningStudy>;
+  getTuningTrials(studyId: string): Promise<TuningTrial[]>;
+  createTuningTrial(trial: InsertTuningTrial): Promise<TuningTrial>;
+
+  // Sampling sweep operations
+  getSamplingSweep(id: string): Promise<SamplingSweep | undefined>;
+  getAllSamplingSweeps(): Promise<SamplingSweep[]>;
+  createSamplingSweep(sweep: InsertSamplingSweep): Promise<SamplingSweep>;
+  updateSamplingSweep(id: string, updates: Partial<SamplingSweep>): Promise<SamplingSweep>;
 }
 
 export class MemStorage implements IStorage {
@@ -70,6 +93,10 @@ export class MemStorage implements IStorage {
   private federatedJobs: Map<string, FederatedJob> = new Map();
   private nlpAnalysis: Map<string, NlpAnalysis> = new Map();
   private monitoringMetrics: Map<string, MonitoringMetric> = new Map();
+  private jobs: Map<string, Job> = new Map();
+  private tuningStudies: Map<string, TuningStudy> = new Map();
+  private tuningTrials: Map<string, TuningTrial> = new Map();
+  private samplingSweeps: Map<string, SamplingSweep> = new Map();
 
   constructor() {
     // Initialize with sample NASA dataset
@@ -101,6 +128,7 @@ export class MemStorage implements IStorage {
         "defects": "Number of Defects (Target)"
       },
       targetColumn: "defects",
+      sizeColumn: "loc",
       dataQuality: {
         missingValues: 0.02,
         imbalanceRatio: 0.15,
@@ -179,6 +207,10 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async deleteModel(id: string): Promise<boolean> {
+    return this.models.delete(id);
+  }
+
   // Quantum experiment operations
   async getQuantumExperiment(id: string): Promise<QuantumExperiment | undefined> {
     return this.quantumExperiments.get(id);
@@ -312,6 +344,144 @@ export class MemStorage implements IStorage {
     
     return metrics.sort((a, b) => b.timestamp!.getTime() - a.timestamp!.getTime());
   }
+
+  // Background job operations
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getAllJobs(filter: { type?: string; resourceId?: string; status?: string } = {}): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => !filter.type || job.type === filter.type)
+      .filter((job) => !filter.resourceId || job.resourceId === filter.resourceId)
+      .filter((job) => !filter.status || job.status === filter.status)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = randomUUID();
+    const job: Job = {
+      status: "queued",
+      resourceId: null,
+      payload: null,
+      result: null,
+      error: null,
+      progress: 0,
+      stdout: "",
+      stderr: "",
+      timeoutMs: null,
+      startedAt: null,
+      finishedAt: null,
+      ...insertJob,
+      id,
+      createdAt: new Date(),
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job> {
+    const existing = this.jobs.get(id);
+    if (!existing) throw new Error("Job not found");
+    const updated = { ...existing, ...updates };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  // Hyperparameter tuning operations
+  async getTuningStudy(id: string): Promise<TuningStudy | undefined> {
+    return this.tuningStudies.get(id);
+  }
+
+  async getAllTuningStudies(): Promise<TuningStudy[]> {
+    return Array.from(this.tuningStudies.values()).sort(
+      (a, b) => b.createdAt!.getTime() - a.createdAt!.getTime()
+    );
+  }
+
+  async createTuningStudy(insertStudy: InsertTuningStudy): Promise<TuningStudy> {
+    const id = randomUUID();
+    const study: TuningStudy = {
+      datasetId: null,
+      baseHyperparameters: null,
+      status: "queued",
+      bestTrialId: null,
+      bestScore: null,
+      bestParams: null,
+      promotedModelId: null,
+      finishedAt: null,
+      ...insertStudy,
+      id,
+      createdAt: new Date(),
+    };
+    this.tuningStudies.set(id, study);
+    return study;
+  }
+
+  async updateTuningStudy(id: string, updates: Partial<TuningStudy>): Promise<TuningStudy> {
+    const existing = this.tuningStudies.get(id);
+    if (!existing) throw new Error("Tuning study not found");
+    const updated = { ...existing, ...updates };
+    this.tuningStudies.set(id, updated);
+    return updated;
+  }
+
+  async getTuningTrials(studyId: string): Promise<TuningTrial[]> {
+    return Array.from(this.tuningTrials.values())
+      .filter((trial) => trial.studyId === studyId)
+      .sort((a, b) => a.number - b.number);
+  }
+
+  async createTuningTrial(insertTrial: InsertTuningTrial): Promise<TuningTrial> {
+    const id = randomUUID();
+    const trial: TuningTrial = {
+      score: null,
+      scores: null,
+      error: null,
+      durationMs: null,
+      ...insertTrial,
+      id,
+      createdAt: new Date(),
+    };
+    this.tuningTrials.set(id, trial);
+    return trial;
+  }
+
+  // Sampling sweep operations
+  async getSamplingSweep(id: string): Promise<SamplingSweep | undefined> {
+    return this.samplingSweeps.get(id);
+  }
+
+  async getAllSamplingSweeps(): Promise<SamplingSweep[]> {
+    return Array.from(this.samplingSweeps.values()).sort(
+      (a, b) => b.createdAt!.getTime() - a.createdAt!.getTime()
+    );
+  }
+
+  async createSamplingSweep(insertSweep: InsertSamplingSweep): Promise<SamplingSweep> {
+    const id = randomUUID();
+    const sweep: SamplingSweep = {
+      datasetId: null,
+      hyperparameters: null,
+      status: "queued",
+      cells: null,
+      recommended: null,
+      finishedAt: null,
+      ...insertSweep,
+      id,
+      createdAt: new Date(),
+    };
+    this.samplingSweeps.set(id, sweep);
+    return sweep;
+  }
+
+  async updateSamplingSweep(id: string, updates: Partial<SamplingSweep>): Promise<SamplingSweep> {
+    const existing = this.samplingSweeps.get(id);
+    if (!existing) throw new Error("Sampling sweep not found");
+    const updated = { ...existing, ...updates };
+    this.samplingSweeps.set(id, updated);
+    return updated;
+  }
 }
 
 export const storage = new MemStorage();
@@ -21,6 +21,8 @@ export const datasets = pgTable("datasets", {
   columnCount: integer("column_count"),
   features: jsonb("features"),
   targetColumn: text("target_column"),
+  // Module size (e.g. LOC) used for effort-aware evaluation.
+  sizeColumn: text("size_column"),
   dataQuality: jsonb("data_quality"),
   preprocessingSteps: jsonb("preprocessing_steps"),
 });
@@ -38,8 +40,42 @@ export const models = pgTable("models", {
   f1Score: real("f1_score"),
   mcc: real("mcc"),
   aucRoc: real("auc_roc"),
+  balancedAccuracy: real("balanced_accuracy"),
+  gMean: real("g_mean"),
+  prAuc: real("pr_auc"),
+  // Probability of false alarm.
+  pf: real("pf"),
+  specificity: real("specificity"),
+  f2Score: real("f2_score"),
   confusionMatrix: jsonb("confusion_matrix"),
+  classificationReport: jsonb("classification_report"),
   featureImportance: jsonb("feature_importance"),
+  validationMetrics: jsonb("validation_metrics"),
+  holdoutMetrics: jsonb("holdout_metrics"),
+  validationSummary: jsonb("validation_summary"),
+  foldMetrics: jsonb("fold_metrics"),
+  metricProvenance: text("metric_provenance"),
+  samplingReport: jsonb("sampling_report"),
+  outOfFoldScores: jsonb("out_of_fold_scores"),
+  decisionThreshold: real("decision_threshold"),
+  thresholdSelection: jsonb("threshold_selection"),
+  popt: real("popt"),
+  accAt20: real("acc_at_20"),
+  ifa: real("ifa"),
+  effortMetrics: jsonb("effort_metrics"),
+  brierScore: real("brier_score"),
+  expectedCalibrationError: real("expected_calibration_error"),
+  calibration: jsonb("calibration"),
+  // Set for models trained on other projects' data and scored on this dataset.
+  crossProject: jsonb("cross_project"),
+  // Set for ensembles: combination method and the member models with their weights.
+  ensemble: jsonb("ensemble"),
+  // Exact inputs, runtime and code revision of the training run, and a hash of its configuration.
+  runManifest: jsonb("run_manifest"),
+  configHash: text("config_hash"),
+  family: text("family"),
+  version: text("version"),
+  stage: text("stage").default("staging"),
   modelPath: text("model_path"),
   createdAt: timestamp("created_at").defaultNow(),
   trainedBy: varchar("trained_by").references(() => users.id),
@@ -122,6 +158,94 @@ export const monitoringMetrics = pgTable("monitoring_metrics", {
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(),
+  status: text("status").notNull().default("queued"),
+  resourceId: varchar("resource_id"),
+  payload: jsonb("payload"),
+  result: jsonb("result"),
+  error: text("error"),
+  progress: real("progress").default(0),
+  stdout: text("stdout").default(""),
+  stderr: text("stderr").default(""),
+  timeoutMs: integer("timeout_ms"),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const tuningStudies = pgTable("tuning_studies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  datasetId: varchar("dataset_id").references(() => datasets.id),
+  algorithm: text("algorithm").notNull(),
+  strategy: text("strategy").notNull(),
+  objective: text("objective").notNull(),
+  budget: integer("budget").notNull(),
+  folds: integer("folds").notNull(),
+  searchSpace: jsonb("search_space").notNull(),
+  baseHyperparameters: jsonb("base_hyperparameters"),
+  status: text("status").notNull().default("queued"),
+  bestTrialId: varchar("best_trial_id"),
+  bestScore: real("best_score"),
+  bestParams: jsonb("best_params"),
+  promotedModelId: varchar("promoted_model_id").references(() => models.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const tuningTrials = pgTable("tuning_trials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studyId: varchar("study_id").references(() => tuningStudies.id).notNull(),
+  number: integer("number").notNull(),
+  params: jsonb("params").notNull(),
+  score: real("score"),
+  scores: jsonb("scores"),
+  status: text("status").notNull(),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One technique x target-ratio grid per sweep; `cells` fills in as the job scores them.
+export const samplingSweeps = pgTable("sampling_sweeps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  datasetId: varchar("dataset_id").references(() => datasets.id),
+  algorithm: text("algorithm").notNull(),
+  techniques: jsonb("techniques").notNull(),
+  ratios: jsonb("ratios").notNull(),
+  folds: integer("folds").notNull(),
+  repeats: integer("repeats").notNull(),
+  objective: text("objective").notNull(),
+  hyperparameters: jsonb("hyperparameters"),
+  status: text("status").notNull().default("queued"),
+  cells: jsonb("cells"),
+  recommended: jsonb("recommended"),
+  createdAt: timestamp("created_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const jobTypes = [
+  "model_training",
+  "dataset_analysis",
+  "code_analysis",
+  "rl_training",
+  "hyperparameter_tuning",
+  "jit_extraction",
+  "sampling_sweep",
+  "model_reproduction",
+] as const;
+export type JobType = typeof jobTypes[number];
+export const jobStatuses = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+// Where the stored metrics of a model came from: the Python pipeline, the Node
+// fallback engine, or the synthesized demo profiles.
+export const metricProvenances = ["measured", "baseline", "simulated"] as const;
+export type MetricProvenance = typeof metricProvenances[number];
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true });
 export const insertDatasetSchema = createInsertSchema(datasets).omit({ id: true, uploadedAt: true });
@@ -132,6 +256,156 @@ export const insertFederatedNodeSchema = createInsertSchema(federatedNodes).omit
 export const insertFederatedJobSchema = createInsertSchema(federatedJobs).omit({ id: true, createdAt: true });
 export const insertNlpAnalysisSchema = createInsertSchema(nlpAnalysis).omit({ id: true, processedAt: true });
 export const insertMonitoringMetricSchema = createInsertSchema(monitoringMetrics).omit({ id: true, timestamp: true });
+export const insertJobSchema = createInsertSchema(jobs).omit({ id: true, createdAt: true });
+export const insertTuningStudySchema = createInsertSchema(tuningStudies).omit({ id: true, createdAt: true });
+export const insertTuningTrialSchema = createInsertSchema(tuningTrials).omit({ id: true, createdAt: true });
+export const insertSamplingSweepSchema = createInsertSchema(samplingSweeps).omit({ id: true, createdAt: true });
+
+export const resamplePreviewSchema = z.object({
+  technique: z.string().default("smote"),
+  kNeighbors: z.coerce.number().int().min(1).max(50).optional(),
+  targetRatio: z.coerce.number().min(0.01).max(1).optional(),
+  seed: z.coerce.number().int().optional(),
+});
+
+const parameterValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const parameterSpecSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("int"), low: z.number(), high: z.number(), log: z.boolean().optional() }),
+  z.object({ type: z.literal("float"), low: z.number(), high: z.number(), log: z.boolean().optional() }),
+  z.object({ type: z.literal("categorical"), values: z.array(parameterValueSchema).min(1) }),
+]);
+
+export const tuneModelSchema = z.object({
+  datasetId: z.string(),
+  algorithm: z.string(),
+  name: z.string().optional(),
+  strategy: z.enum(["grid", "random", "tpe"]).default("tpe"),
+  objective: z.enum(["mcc", "f1", "g_mean", "pr_auc"]).default("mcc"),
+  budget: z.coerce.number().int().min(1).max(200).default(20),
+  folds: z.coerce.number().int().min(2).max(10).default(5),
+  // Omitted: the default space for the algorithm's engine model.
+  searchSpace: z.record(parameterSpecSchema).optional(),
+  // Fixed hyperparameters shared by every trial (sampling technique, seed, ...).
+  hyperparameters: z.record(z.any()).optional(),
+  promote: z.boolean().default(true),
+});
+
+// Omitted techniques: every resampling technique. The unsampled baseline is always scored.
+export const samplingSweepSchema = z.object({
+  datasetId: z.string(),
+  algorithm: z.string(),
+  name: z.string().optional(),
+  techniques: z
+    .array(z.enum(["smote", "adasyn", "borderline_smote", "random_undersample", "smote_tomek", "smote_enn"]))
+    .min(1)
+    .optional(),
+  // Target minority/majority ratios after resampling.
+  ratios: z.array(z.number().gt(0).max(1)).min(1).max(10).default([0.25, 0.5, 0.75, 1]),
+  folds: z.coerce.number().int().min(2).max(10).default(5),
+  repeats: z.coerce.number().int().min(1).max(10).default(3),
+  objective: z.enum(["mcc", "f1", "g_mean", "pr_auc"]).default("mcc"),
+  // Fixed hyperparameters of every cell (seed, classifier settings, ...).
+  hyperparameters: z.record(z.any()).optional(),
+});
+
+// Up to 20 models: the Nemenyi critical-difference table stops there.
+export const compareModelsSchema = z.object({
+  modelIds: z.array(z.string()).min(2).max(20),
+  metric: z
+    .enum(["aucRoc", "f1Score", "mcc", "recall", "precision", "accuracy", "balancedAccuracy", "gMean", "prAuc", "f2Score"])
+    .default("aucRoc"),
+});
+
+export const datasetSizeColumnSchema = z.object({
+  sizeColumn: z.string().min(1).nullable(),
+});
+
+// "fixed" applies `threshold`; the other strategies search the model's out-of-fold scores.
+export const modelThresholdSchema = z
+  .object({
+    strategy: z.enum(["fixed", "max_f1", "max_mcc", "max_gmean", "youden_j", "min_cost"]).default("fixed"),
+    costRatio: z.number().positive().max(1000).default(1),
+    threshold: z.number().min(0).max(1).optional(),
+  })
+  .refine((value) => value.strategy !== "fixed" || value.threshold !== undefined, {
+    message: "A fixed strategy needs a threshold",
+    path: ["threshold"],
+  });
+
+export const modelStageSchema = z.object({
+  stage: z.enum(["staging", "production", "archived"]),
+});
+
+// Commit-level (JIT) dataset mined from a git repository on the server's filesystem.
+export const jitExtractionSchema = z.object({
+  repositoryPath: z.string().min(1),
+  name: z.string().min(1).optional(),
+  revision: z
+    .string()
+    .regex(/^[\w./~^@{}-]+$/)
+    .refine((value) => !value.startsWith("-"), { message: "Revision must not start with '-'" })
+    .default("HEAD"),
+  maxCommits: z.coerce.number().int().min(10).max(20000).default(5000),
+  fixKeywords: z.array(z.string().min(1)).min(1).max(20).optional(),
+});
+
+// Cross-project training: `datasetId` of the model is the target project.
+export const crossProjectConfigSchema = z.object({
+  sourceDatasetIds: z.array(z.string()).min(1).max(20),
+  transfer: z.enum(["none", "zscore", "burak", "peters", "tca"]).default("zscore"),
+  neighbors: z.coerce.number().int().min(1).max(100).default(10),
+  components: z.coerce.number().int().min(1).max(50).default(5),
+  mu: z.coerce.number().positive().max(1000).default(1),
+});
+
+// Ensembles are composed from completed Node engine models of one dataset that share
+// their holdout split (same random_state).
+export const composeEnsembleSchema = z.object({
+  name: z.string().min(1).optional(),
+  memberIds: z.array(z.string()).min(2).max(10),
+  method: z.enum(["soft_voting", "weighted_voting", "stacking"]).default("soft_voting"),
+  folds: z.coerce.number().int().min(2).max(10).default(5),
+  family: z.string().min(1).optional(),
+  // Threshold strategy and seed of the combiner's folds.
+  hyperparameters: z.record(z.any()).optional(),
+});
+
+// JSON rows keyed by feature column; CSV uploads go through multipart instead.
+export const predictRowsSchema = z.object({
+  rows: z.array(z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))).min(1).max(10000),
+});
+
+export const modelExportSchema = z.object({
+  format: z.enum(["onnx", "pmml", "json"]).default("json"),
+});
+
+// Largest absolute difference per metric for a reproduction to count as matching.
+export const reproduceModelSchema = z.object({
+  tolerance: z.coerce.number().min(0).max(1).default(1e-4),
+});
+
+// A module given as feature values or as a row of the model's training dataset (0-based,
+// header excluded), and the features a counterfactual must leave alone.
+export const counterfactualRequestSchema = z
+  .object({
+    features: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+    row: z.number().int().min(0).optional(),
+    immutable: z.array(z.string()).max(500).default([]),
+    count: z.number().int().min(1).max(10).default(5),
+    maxChanges: z.number().int().min(1).max(10).default(4),
+  })
+  .refine((value) => (value.features === undefined) !== (value.row === undefined), {
+    message: "Send either features or a dataset row",
+    path: ["features"],
+  });
+
+// Multipart fields sent alongside an exported JSON model.
+export const modelImportSchema = z.object({
+  name: z.string().min(1).optional(),
+  family: z.string().min(1).optional(),
+  datasetId: z.string().optional(),
+});
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -152,3 +426,21 @@ export type NlpAnalysis = typeof nlpAnalysis.$inferSelect;
 export type InsertNlpAnalysis = z.infer<typeof insertNlpAnalysisSchema>;
 export type MonitoringMetric = typeof monitoringMetrics.$inferSelect;
 export type InsertMonitoringMetric = z.infer<typeof insertMonitoringMetricSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type ResamplePreviewRequest = z.infer<typeof resamplePreviewSchema>;
+export type TuningStudy = typeof tuningStudies.$inferSelect;
+export type InsertTuningStudy = z.infer<typeof insertTuningStudySchema>;
+export type TuningTrial = typeof tuningTrials.$inferSelect;
+export type InsertTuningTrial = z.infer<typeof insertTuningTrialSchema>;
+export type TuneModelRequest = z.infer<typeof tuneModelSchema>;
+export type SamplingSweep = typeof samplingSweeps.$inferSelect;
+export type InsertSamplingSweep = z.infer<typeof insertSamplingSweepSchema>;
+export type SamplingSweepRequest = z.infer<typeof samplingSweepSchema>;
+export type CompareModelsRequest = z.infer<typeof compareModelsSchema>;
+export type ModelThresholdRequest = z.infer<typeof modelThresholdSchema>;
+export type CrossProjectRequest = z.infer<typeof crossProjectConfigSchema>;
+export type JitExtractionRequest = z.infer<typeof jitExtractionSchema>;
+export type ComposeEnsembleRequest = z.infer<typeof composeEnsembleSchema>;
+export type ReproduceModelRequest = z.infer<typeof reproduceModelSchema>;
+export type CounterfactualRequest = z.infer<typeof counterfactualRequestSchema>;